@@ -0,0 +1,53 @@
+// Keeps the app and its assets on the device so the check-in page opens without a
+// connection. Data from Supabase is not cached here; the check-in page keeps its own
+// copy and queues what is done offline (src/lib/offlineQueue.ts).
+
+const CACHE = 'volunteer-app-v2';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+// The built JS, CSS and images; filled in by the build (vite.config.ts)
+const ASSETS = [];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll([...SHELL, ...ASSETS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const store = (key, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE).then(cache => cache.put(key, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Pages come from the network so a new release shows up, and from the cache offline.
+  // Every route is the same single-page app.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => store('/index.html', response))
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Built assets have hashed names, so a cached copy is never out of date
+  event.respondWith(
+    caches.match(request).then(cached => cached || fetch(request).then(response => store(request, response)))
+  );
+});
@@ -2,7 +2,9 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { Toaster } from 'react-hot-toast';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from './contexts/AuthContext';
+import { OrganizationProvider } from './contexts/OrganizationContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { OfflineQueueProvider } from './contexts/OfflineQueueContext';
 import { Layout } from './components/Layout';
 import { LoginPage } from './pages/LoginPage';
 import { EventsPage } from './pages/EventsPage';
@@ -11,6 +13,17 @@ import { EventsOverviewPage } from './pages/EventsOverviewPage';
 import { VolunteerPositionsPage } from './pages/VolunteerPositionsPage';
 import { AssignVolunteersPage } from './pages/AssignVolunteersPage';
 import { CheckInPage } from './pages/CheckInPage';
+import { VolunteerPortalPage } from './pages/VolunteerPortalPage';
+import { GroupLeaderPage } from './pages/GroupLeaderPage';
+import { VerifyCertificatePage } from './pages/VerifyCertificatePage';
+import { AcceptInvitationPage } from './pages/AcceptInvitationPage';
+import { AcceptOrganizationInvitationPage } from './pages/AcceptOrganizationInvitationPage';
+import { OrganizationSettingsPage } from './pages/OrganizationSettingsPage';
+import { VolunteersPage } from './pages/VolunteersPage';
+import { SchedulePage } from './pages/SchedulePage';
+import { WaitlistPage } from './pages/WaitlistPage';
+import { HoursPage } from './pages/HoursPage';
+import { GroupsPage } from './pages/GroupsPage';
 import { ProtectedRoute } from './components/ProtectedRoute';
 
 const queryClient = new QueryClient({
@@ -29,21 +42,37 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <ThemeProvider>
         <AuthProvider>
-          <Router>
-            <Toaster position="top-right" />
-            <Routes>
-              <Route path="/login" element={<LoginPage />} />
-              <Route path="/checkin" element={<CheckInPage />} />
-              <Route element={<ProtectedRoute><Layout /></ProtectedRoute>}>
-                <Route path="/" element={<EventsPage />} />
-                <Route path="/overview" element={<EventsOverviewPage />} />
-                <Route path="/events/:eventId" element={<EventOverviewPage />} />
-                <Route path="/positions" element={<VolunteerPositionsPage />} />
-                <Route path="/assign" element={<AssignVolunteersPage />} />
-                <Route path="*" element={<Navigate to="/" replace />} />
-              </Route>
-            </Routes>
-          </Router>
+          <OrganizationProvider>
+            <OfflineQueueProvider>
+              <Router>
+                <Toaster position="top-right" />
+                <Routes>
+                  <Route path="/login" element={<LoginPage />} />
+                  <Route path="/checkin" element={<CheckInPage />} />
+                  <Route path="/me/:token" element={<VolunteerPortalPage />} />
+                  <Route path="/group/:token" element={<GroupLeaderPage />} />
+                  <Route path="/verify" element={<VerifyCertificatePage />} />
+                  <Route path="/verify/:code" element={<VerifyCertificatePage />} />
+                  <Route element={<ProtectedRoute><Layout /></ProtectedRoute>}>
+                    <Route path="/" element={<EventsPage />} />
+                    <Route path="/overview" element={<EventsOverviewPage />} />
+                    <Route path="/events/:eventId" element={<EventOverviewPage />} />
+                    <Route path="/positions" element={<VolunteerPositionsPage />} />
+                    <Route path="/assign" element={<AssignVolunteersPage />} />
+                    <Route path="/schedule" element={<SchedulePage />} />
+                    <Route path="/waitlist" element={<WaitlistPage />} />
+                    <Route path="/hours" element={<HoursPage />} />
+                    <Route path="/volunteers" element={<VolunteersPage />} />
+                    <Route path="/groups" element={<GroupsPage />} />
+                    <Route path="/organization" element={<OrganizationSettingsPage />} />
+                    <Route path="/invitations/:token" element={<AcceptInvitationPage />} />
+                    <Route path="/organization-invitations/:token" element={<AcceptOrganizationInvitationPage />} />
+                    <Route path="*" element={<Navigate to="/" replace />} />
+                  </Route>
+                </Routes>
+              </Router>
+            </OfflineQueueProvider>
+          </OrganizationProvider>
         </AuthProvider>
       </ThemeProvider>
     </QueryClientProvider>
@@ -0,0 +1,174 @@
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+  CoverageGap,
+  PositionTimeline,
+  TimeRange,
+  formatMinutes,
+  getTimelineBounds,
+  isUnderstaffed,
+} from '../lib/coverage';
+
+interface CoverageTimelineProps {
+  timelines: PositionTimeline[];
+  gaps: CoverageGap[];
+  selectedPositionId: string | null;
+  onSelectPosition: (positionId: string) => void;
+}
+
+const LANE_HEIGHT = 20;
+const MINUTES_PER_DAY = 24 * 60;
+
+const formatHours = (minutes: number) => {
+  const hours = minutes / 60;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)} volunteer-hour${hours === 1 ? '' : 's'}`;
+};
+
+export function CoverageTimeline({
+  timelines,
+  gaps,
+  selectedPositionId,
+  onSelectPosition,
+}: CoverageTimelineProps) {
+  const bounds = getTimelineBounds(timelines);
+
+  if (!bounds) {
+    return (
+      <p className="text-sm text-gray-500">
+        Add shifts or assign volunteers to see coverage across the day.
+      </p>
+    );
+  }
+
+  const span = bounds.end - bounds.start;
+  const toPercent = (minutes: number) => ((minutes - bounds.start) / span) * 100;
+  const rangeStyle = (range: TimeRange) => ({
+    left: `${toPercent(range.start)}%`,
+    width: `${toPercent(range.end) - toPercent(range.start)}%`,
+  });
+
+  // Thin the hour ticks out on multi-day timelines
+  const tickHours = span > 36 * 60 ? 6 : span > 18 * 60 ? 2 : 1;
+  const hourTicks: number[] = [];
+  for (let minutes = bounds.start; minutes <= bounds.end; minutes += 60) {
+    if ((minutes / 60) % tickHours === 0) hourTicks.push(minutes);
+  }
+  const tickLabel = (minutes: number) =>
+    minutes % MINUTES_PER_DAY === 0 && minutes !== 0
+      ? `Day ${minutes / MINUTES_PER_DAY + 1}`
+      : formatMinutes(minutes).slice(0, 2);
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <div className="min-w-[640px]">
+          {/* Hour axis */}
+          <div className="flex">
+            <div className="w-40 flex-shrink-0" />
+            <div className="relative flex-1 h-5">
+              {hourTicks.map(minutes => (
+                <span
+                  key={minutes}
+                  className="absolute -translate-x-1/2 text-xs text-gray-500"
+                  style={{ left: `${toPercent(minutes)}%` }}
+                >
+                  {tickLabel(minutes)}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {timelines.map(timeline => (
+            <div
+              key={timeline.positionId}
+              className={`flex border-t border-gray-100 cursor-pointer ${
+                selectedPositionId === timeline.positionId ? 'bg-indigo-50' : 'hover:bg-gray-50'
+              }`}
+              onClick={() => onSelectPosition(timeline.positionId)}
+            >
+              <div className="w-40 flex-shrink-0 py-2 pr-2 text-sm font-medium text-gray-900 truncate">
+                {timeline.positionName}
+              </div>
+              <div
+                className="relative flex-1 my-2"
+                style={{ height: timeline.lanes * LANE_HEIGHT }}
+              >
+                {hourTicks.map(minutes => (
+                  <div
+                    key={minutes}
+                    className="absolute inset-y-0 border-l border-gray-100"
+                    style={{ left: `${toPercent(minutes)}%` }}
+                  />
+                ))}
+                {timeline.segments.filter(isUnderstaffed).map(segment => (
+                  <div
+                    key={`${segment.start}-${segment.end}`}
+                    className="absolute inset-y-0 bg-red-100 border-x border-red-200"
+                    style={rangeStyle(segment)}
+                    title={`${formatMinutes(segment.start)} - ${formatMinutes(segment.end)}: ${segment.staffed}/${segment.needed} volunteers`}
+                  />
+                ))}
+                {timeline.bars.map(bar => (
+                  <div
+                    key={bar.id}
+                    className="absolute rounded bg-indigo-500 text-white text-[10px] leading-4 px-1 truncate"
+                    style={{
+                      ...rangeStyle(bar.range),
+                      top: bar.lane * LANE_HEIGHT + 2,
+                      height: LANE_HEIGHT - 4,
+                    }}
+                    title={`${bar.label}: ${formatMinutes(bar.range.start)} - ${formatMinutes(bar.range.end)}`}
+                  >
+                    {bar.label}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-6 text-sm text-gray-600">
+        <div className="flex items-center">
+          <div className="h-3 w-6 rounded bg-indigo-500 mr-2"></div>
+          Assigned volunteer
+        </div>
+        <div className="flex items-center">
+          <div className="h-3 w-6 bg-red-100 border border-red-200 mr-2"></div>
+          Below needed
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Coverage Gaps</h3>
+        {gaps.length === 0 ? (
+          <p className="flex items-center text-sm text-green-700">
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Every position is staffed for its whole window.
+          </p>
+        ) : (
+          <ol className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {gaps.map((gap, index) => (
+              <li
+                key={`${gap.positionId}-${gap.start}`}
+                className="px-3 py-2 flex items-center justify-between text-sm cursor-pointer hover:bg-gray-50"
+                onClick={() => onSelectPosition(gap.positionId)}
+              >
+                <span className="flex items-center">
+                  <span className="w-6 text-gray-400">{index + 1}.</span>
+                  <AlertTriangle className="h-4 w-4 mr-2 text-red-500" />
+                  <span className="font-medium text-gray-900">{gap.positionName}</span>
+                  <span className="ml-2 text-gray-600">
+                    {formatMinutes(gap.start)} - {formatMinutes(gap.end)}
+                  </span>
+                </span>
+                <span className="text-gray-600">
+                  short {gap.shortfall} &middot; {formatHours(gap.missingMinutes)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { getBrowserTimeZone, isValidTimeZone, listTimeZones } from '../lib/timezone';
+
+interface OrganizationFormData {
+  name: string;
+  default_timezone: string;
+}
+
+const timeZones = listTimeZones();
+
+export function CreateOrganizationForm() {
+  const queryClient = useQueryClient();
+  const { switchOrganization } = useOrganization();
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<OrganizationFormData>({
+    defaultValues: { default_timezone: getBrowserTimeZone() },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: OrganizationFormData) => {
+      try {
+        const { data: id, error } = await supabase.rpc('create_organization', {
+          p_name: data.name,
+          p_default_timezone: data.default_timezone,
+        });
+        if (error) throw new Error(error.message);
+        return id as string;
+      } catch (error) {
+        console.error('Error creating organization:', error);
+        throw error;
+      }
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+      switchOrganization(id);
+      toast.success('Organization created');
+      reset();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create organization');
+    },
+  });
+
+  return (
+    <form onSubmit={handleSubmit(data => createMutation.mutate(data))} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Organization Name</label>
+        <input
+          {...register('name', { required: 'Organization name is required' })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        />
+        {errors.name && (
+          <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Default Time Zone</label>
+        <select
+          {...register('default_timezone', {
+            validate: value => isValidTimeZone(value) || 'Unknown time zone',
+          })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          {timeZones.map(zone => (
+            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+        {errors.default_timezone && (
+          <p className="mt-1 text-sm text-red-600">{errors.default_timezone.message}</p>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={createMutation.isPending}
+          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {createMutation.isPending ? 'Creating...' : 'Create Organization'}
+        </button>
+      </div>
+    </form>
+  );
+}
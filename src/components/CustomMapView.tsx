@@ -16,6 +16,8 @@ interface CustomMapViewProps {
 export function CustomMapView({ imageUrl, markers = [], onClick, className = '' }: CustomMapViewProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const leafletMap = useRef<L.Map | null>(null);
+  const markerLayer = useRef<L.LayerGroup | null>(null);
+  const [mapReady, setMapReady] = useState(false);
   const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -45,6 +47,12 @@ export function CustomMapView({ imageUrl, markers = [], onClick, className = ''
     img.src = imageUrl;
   }, [imageUrl]);
 
+  // Keep the latest click handler in a ref so the map does not need rebuilding when it changes
+  const onClickRef = useRef(onClick);
+  useEffect(() => {
+    onClickRef.current = onClick;
+  }, [onClick]);
+
   useEffect(() => {
     if (!mapRef.current || !imageSize || isLoading) return;
 
@@ -81,65 +89,23 @@ export function CustomMapView({ imageUrl, markers = [], onClick, className = ''
       // Fit bounds with padding
       map.fitBounds(bounds, { padding: [20, 20] });
 
-      // Add custom markers
-      console.log('Adding markers:', markers);
-      markers.forEach((marker, index) => {
-        try {
-          const markerElement = document.createElement('div');
-          markerElement.className = `custom-marker ${marker.isSelected ? 'selected' : ''}`;
-          
-          // Determine marker color based on status
-          let markerColor = '#3b82f6'; // Default blue
-          if (marker.isSelected) {
-            markerColor = '#ef4444'; // Red for selected
-          } else if (marker.status === 'filled') {
-            markerColor = '#10b981'; // Green for filled
-          } else if (marker.status === 'partial') {
-            markerColor = '#f59e0b'; // Yellow for partial
-          } else if (marker.status === 'needs') {
-            markerColor = '#ef4444'; // Red for needs volunteers
-          }
-          
-          markerElement.innerHTML = `
-            <div class="marker-icon">
-              <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" 
-                  fill="${markerColor}"/>
-              </svg>
-            </div>
-          `;
-          
-          const customIcon = L.divIcon({
-            html: markerElement,
-            className: 'custom-marker-container',
-            iconSize: [24, 24],
-            iconAnchor: [12, 24],
-          });
-
-          console.log(`Adding marker ${index} at position:`, marker.position);
-          const leafletMarker = L.marker(marker.position, { icon: customIcon }).addTo(map);
-          
-          if (marker.popup) {
-            leafletMarker.bindPopup(marker.popup);
-          }
-        } catch (markerError) {
-          console.error(`Error adding marker ${index}:`, markerError);
-        }
-      });
+      markerLayer.current = L.layerGroup().addTo(map);
 
       // Handle click events
-      if (onClick) {
-        map.on('click', (e: L.LeafletMouseEvent) => {
-          const { lat, lng } = e.latlng;
-          console.log('Map clicked at:', lat, lng);
-          onClick([lat, lng]);
-        });
-      }
+      map.on('click', (e: L.LeafletMouseEvent) => {
+        if (!onClickRef.current) return;
+        const { lat, lng } = e.latlng;
+        console.log('Map clicked at:', lat, lng);
+        onClickRef.current([lat, lng]);
+      });
 
       leafletMap.current = map;
+      setMapReady(true);
       console.log('Map created successfully');
 
       return () => {
+        setMapReady(false);
+        markerLayer.current = null;
         if (leafletMap.current) {
           leafletMap.current.remove();
           leafletMap.current = null;
@@ -149,7 +115,57 @@ export function CustomMapView({ imageUrl, markers = [], onClick, className = ''
       console.error('Error creating custom map:', err);
       setError('Failed to create custom map');
     }
-  }, [imageUrl, imageSize, markers, onClick, isLoading]);
+  }, [imageUrl, imageSize, isLoading]);
+
+  // Redraw markers without rebuilding the map, so pan and zoom are preserved
+  useEffect(() => {
+    const layer = markerLayer.current;
+    if (!mapReady || !layer) return;
+
+    layer.clearLayers();
+    markers.forEach((marker, index) => {
+      try {
+        const markerElement = document.createElement('div');
+        markerElement.className = `custom-marker ${marker.isSelected ? 'selected' : ''}`;
+        
+        // Determine marker color based on status
+        let markerColor = '#3b82f6'; // Default blue
+        if (marker.isSelected) {
+          markerColor = '#ef4444'; // Red for selected
+        } else if (marker.status === 'filled') {
+          markerColor = '#10b981'; // Green for filled
+        } else if (marker.status === 'partial') {
+          markerColor = '#f59e0b'; // Yellow for partial
+        } else if (marker.status === 'needs') {
+          markerColor = '#ef4444'; // Red for needs volunteers
+        }
+        
+        markerElement.innerHTML = `
+          <div class="marker-icon">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" 
+                fill="${markerColor}"/>
+            </svg>
+          </div>
+        `;
+        
+        const customIcon = L.divIcon({
+          html: markerElement,
+          className: 'custom-marker-container',
+          iconSize: [24, 24],
+          iconAnchor: [12, 24],
+        });
+
+        const leafletMarker = L.marker(marker.position, { icon: customIcon }).addTo(layer);
+        
+        if (marker.popup) {
+          leafletMarker.bindPopup(marker.popup);
+        }
+      } catch (markerError) {
+        console.error(`Error adding marker ${index}:`, markerError);
+      }
+    });
+  }, [markers, mapReady]);
 
   if (isLoading) {
     return (
@@ -0,0 +1,135 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Merge, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { VOLUNTEER_PROFILE_COLUMNS, VolunteerProfile } from '../lib/volunteers';
+import { DUPLICATE_REASON_LABELS, DuplicateGroup, findDuplicateGroups } from '../lib/duplicates';
+
+interface DuplicateVolunteersProps {
+  organizationId: string;
+  onClose: () => void;
+}
+
+const groupKey = (group: DuplicateGroup) => group.volunteers.map(v => v.id).join(':');
+
+export function DuplicateVolunteers({ organizationId, onClose }: DuplicateVolunteersProps) {
+  const queryClient = useQueryClient();
+  // Which profile survives in each group; defaults to the first one
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+
+  const { data: profiles, isLoading } = useQuery({
+    queryKey: ['volunteer-directory', organizationId, 'all'],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteers')
+          .select(VOLUNTEER_PROFILE_COLUMNS)
+          .eq('organization_id', organizationId)
+          .order('created_at');
+        if (error) throw error;
+        return data as VolunteerProfile[];
+      } catch (error) {
+        console.error('Error fetching volunteer directory:', error);
+        throw error;
+      }
+    },
+  });
+
+  const groups = useMemo(() => findDuplicateGroups(profiles ?? []), [profiles]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ keepId, mergeIds }: { keepId: string; mergeIds: string[] }) => {
+      try {
+        const { error } = await supabase.rpc('merge_volunteers', {
+          p_keep_id: keepId,
+          p_merge_ids: mergeIds,
+        });
+        if (error) throw new Error(error.message);
+      } catch (error) {
+        console.error('Error merging volunteers:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-directory'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      toast.success('Volunteers merged');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to merge volunteers');
+    },
+  });
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium flex items-center">
+          <Merge className="h-5 w-5 mr-2 text-indigo-600" />
+          Possible Duplicates
+        </h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-gray-500">No likely duplicates found.</p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => {
+            const key = groupKey(group);
+            const keepId = keepIds[key] ?? group.volunteers[0].id;
+            return (
+              <div key={key} className="border border-gray-200 rounded-md">
+                <div className="px-3 py-2 bg-gray-50 text-xs text-gray-500 flex items-center justify-between">
+                  <span>{group.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(' · ')}</span>
+                  <button
+                    onClick={() => {
+                      const keep = group.volunteers.find(v => v.id === keepId);
+                      if (window.confirm(`Merge these ${group.volunteers.length} profiles into ${keep?.name}? Their signups move to the kept profile.`)) {
+                        mergeMutation.mutate({
+                          keepId,
+                          mergeIds: group.volunteers.map(v => v.id).filter(id => id !== keepId),
+                        });
+                      }
+                    }}
+                    disabled={mergeMutation.isPending}
+                    className="px-3 py-1 rounded-md text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Merge
+                  </button>
+                </div>
+                <ul className="divide-y divide-gray-100">
+                  {group.volunteers.map(volunteer => (
+                    <li key={volunteer.id} className="px-3 py-2">
+                      <label className="flex items-center text-sm cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`keep-${key}`}
+                          checked={keepId === volunteer.id}
+                          onChange={() => setKeepIds(ids => ({ ...ids, [key]: volunteer.id }))}
+                          className="mr-3 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <span className="font-medium text-gray-900">{volunteer.name}</span>
+                        <span className="ml-2 text-gray-500">{volunteer.phone_number}</span>
+                        {volunteer.email && <span className="ml-2 text-gray-500">{volunteer.email}</span>}
+                        {keepId === volunteer.id && (
+                          <span className="ml-2 text-xs text-green-600">keep</span>
+                        )}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
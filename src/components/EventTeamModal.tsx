@@ -0,0 +1,318 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { X, UserPlus, Trash2, Copy, Mail } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  EVENT_ROLES,
+  EventRole,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  getInvitationLink,
+} from '../lib/eventRoles';
+
+interface EventMember {
+  id: string;
+  user_id: string;
+  email: string | null;
+  role: EventRole;
+}
+
+interface EventInvitation {
+  id: string;
+  email: string;
+  role: EventRole;
+  token: string;
+  created_at: string;
+}
+
+interface InvitationFormData {
+  email: string;
+  role: EventRole;
+}
+
+interface EventTeamModalProps {
+  event: {
+    id: string;
+    name: string;
+  };
+  onClose: () => void;
+}
+
+export function EventTeamModal({ event, onClose }: EventTeamModalProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<InvitationFormData>({
+    defaultValues: { role: 'coordinator' },
+  });
+
+  const { data: members } = useQuery({
+    queryKey: ['event-members', event.id],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('event_members')
+          .select('id, user_id, email, role')
+          .eq('event_id', event.id)
+          .order('created_at', { ascending: true });
+        if (error) throw error;
+        return data as EventMember[];
+      } catch (error) {
+        console.error('Error fetching event members:', error);
+        throw error;
+      }
+    },
+  });
+
+  const { data: invitations } = useQuery({
+    queryKey: ['event-invitations', event.id],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('event_invitations')
+          .select('id, email, role, token, created_at')
+          .eq('event_id', event.id)
+          .is('accepted_at', null)
+          .order('created_at', { ascending: true });
+        if (error) throw error;
+        return data as EventInvitation[];
+      } catch (error) {
+        console.error('Error fetching invitations:', error);
+        throw error;
+      }
+    },
+  });
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationLink(token));
+      toast.success('Invitation link copied');
+    } catch (error) {
+      console.error('Error copying invitation link:', error);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: InvitationFormData) => {
+      const email = data.email.trim().toLowerCase();
+      if (members?.some(m => m.email?.toLowerCase() === email)) {
+        throw new Error(`${email} is already on this event's team`);
+      }
+      try {
+        const { data: invitation, error } = await supabase
+          .from('event_invitations')
+          .insert([{ event_id: event.id, email, role: data.role }])
+          .select('token')
+          .single();
+        if (error) throw error;
+        return invitation;
+      } catch (error) {
+        console.error('Error creating invitation:', error);
+        throw error;
+      }
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['event-invitations', event.id] });
+      toast.success('Invitation created');
+      copyLink(invitation.token);
+      reset({ email: '', role: 'coordinator' });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create invitation');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('event_invitations')
+          .delete()
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error revoking invitation:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event-invitations', event.id] });
+      toast.success('Invitation revoked');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke invitation');
+    },
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: EventRole }) => {
+      try {
+        const { error } = await supabase
+          .from('event_members')
+          .update({ role })
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error changing member role:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event-members', event.id] });
+      queryClient.invalidateQueries({ queryKey: ['event-roles'] });
+      toast.success('Role updated');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to change role');
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('event_members')
+          .delete()
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error removing member:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event-members', event.id] });
+      queryClient.invalidateQueries({ queryKey: ['event-roles'] });
+      toast.success('Member removed');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove member');
+    },
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[95vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+            <UserPlus className="h-5 w-5 mr-2 text-indigo-600" />
+            Team - {event.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Members</h3>
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-6">
+          {members?.map(member => (
+            <li key={member.id} className="px-3 py-2 flex items-center justify-between">
+              <span className="text-sm text-gray-900">
+                {member.email || 'Unknown user'}
+                {member.user_id === user?.id && <span className="ml-1 text-gray-500">(you)</span>}
+              </span>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={member.role}
+                  onChange={(e) => changeRoleMutation.mutate({ id: member.id, role: e.target.value as EventRole })}
+                  className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  {EVENT_ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Remove ${member.email || 'this member'} from the event?`)) {
+                      removeMemberMutation.mutate(member.id);
+                    }
+                  }}
+                  className="text-gray-400 hover:text-red-500"
+                  title="Remove member"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {invitations && invitations.length > 0 && (
+          <>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Pending Invitations</h3>
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-6">
+              {invitations.map(invitation => (
+                <li key={invitation.id} className="px-3 py-2 flex items-center justify-between">
+                  <span className="text-sm text-gray-900 flex items-center">
+                    <Mail className="h-4 w-4 mr-2 text-gray-400" />
+                    {invitation.email}
+                    <span className="ml-2 text-gray-500">{ROLE_LABELS[invitation.role]}</span>
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => copyLink(invitation.token)}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Copy invitation link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => revokeMutation.mutate(invitation.id)}
+                      className="text-gray-400 hover:text-red-500"
+                      title="Revoke invitation"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Invite Someone</h3>
+        <form onSubmit={handleSubmit(data => inviteMutation.mutate(data))} className="space-y-3">
+          <div className="flex space-x-2">
+            <input
+              type="email"
+              placeholder="colleague@example.com"
+              {...register('email', { required: 'Email is required' })}
+              className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            <select
+              {...register('role')}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              {EVENT_ROLES.map(role => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={inviteMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Invite
+            </button>
+          </div>
+          {errors.email && (
+            <p className="text-sm text-red-600">{errors.email.message}</p>
+          )}
+          <ul className="text-xs text-gray-500 space-y-1">
+            {EVENT_ROLES.map(role => (
+              <li key={role}>
+                <span className="font-medium">{ROLE_LABELS[role]}:</span> {ROLE_DESCRIPTIONS[role]}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500">
+            Send the invitation link to your colleague. They join the event when they open it
+            while signed in with the invited email address.
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
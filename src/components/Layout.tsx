@@ -1,20 +1,39 @@
 import { Outlet, Link, useLocation } from 'react-router-dom';
-import { Calendar, Users, LogOut, Settings, AlertCircle } from 'lucide-react';
+import { Calendar, Users, LogOut, Settings, AlertCircle, BookUser, Wand2, ListOrdered, Timer, UsersRound, LucideIcon } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useState } from 'react';
 import { UserSettings } from './UserSettings';
+import { OrganizationSwitcher } from './OrganizationSwitcher';
+import { OfflineStatusBar } from './OfflineStatusBar';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { EventPermission } from '../lib/eventRoles';
+
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: LucideIcon;
+  permission?: EventPermission;
+}
 
 export function Layout() {
   const { signOut } = useAuth();
   const location = useLocation();
   const [showSettings, setShowSettings] = useState(false);
+  const { canOnAnyEvent } = useEventRoles();
 
-  const navigation = [
+  // Pages for actions the user cannot take on any of their events are hidden
+  const allNavigation: NavigationItem[] = [
     { name: 'Events', href: '/', icon: Calendar },
     { name: 'Overview', href: '/overview', icon: AlertCircle },
-    { name: 'Positions', href: '/positions', icon: Users },
-    { name: 'Assign Volunteers', href: '/assign', icon: Users },
+    { name: 'Positions', href: '/positions', icon: Users, permission: 'managePositions' },
+    { name: 'Assign Volunteers', href: '/assign', icon: Users, permission: 'manageAssignments' },
+    { name: 'Auto-Schedule', href: '/schedule', icon: Wand2, permission: 'manageAssignments' },
+    { name: 'Waitlist', href: '/waitlist', icon: ListOrdered, permission: 'manageAssignments' },
+    { name: 'Volunteers', href: '/volunteers', icon: BookUser },
+    { name: 'Groups', href: '/groups', icon: UsersRound },
+    { name: 'Hours', href: '/hours', icon: Timer },
   ];
+  const navigation = allNavigation.filter(item => !item.permission || canOnAnyEvent(item.permission));
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -41,6 +60,7 @@ export function Layout() {
               })}
             </div>
             <div className="flex items-center space-x-4">
+              <OrganizationSwitcher />
               <button
                 onClick={() => setShowSettings(true)}
                 className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-500 hover:text-gray-700"
@@ -60,6 +80,9 @@ export function Layout() {
         </div>
       </nav>
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="mb-4 empty:hidden">
+          <OfflineStatusBar />
+        </div>
         <Outlet />
       </main>
       
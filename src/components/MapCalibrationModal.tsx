@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { MapContainer, TileLayer, Marker, Popup, useMapEvents } from 'react-leaflet';
+import { X, Crosshair, Trash2, Plus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { CustomMapView } from './CustomMapView';
+import {
+  ControlPoint,
+  ImagePoint,
+  MapCalibration,
+  MIN_CONTROL_POINTS,
+  WorldPoint,
+  buildCalibration,
+} from '../lib/mapCalibration';
+import 'leaflet/dist/leaflet.css';
+
+interface DraftPoint {
+  image: ImagePoint | null;
+  world: WorldPoint | null;
+}
+
+interface MapCalibrationModalProps {
+  event: {
+    id: string;
+    name: string;
+    custom_map_url: string;
+    map_calibration: MapCalibration | null;
+  };
+  onClose: () => void;
+}
+
+// Captures clicks on the real-world map
+function WorldClickHandler({ onClick }: { onClick: (pos: WorldPoint) => void }) {
+  useMapEvents({
+    click(e) {
+      onClick([e.latlng.lat, e.latlng.lng]);
+    },
+  });
+  return null;
+}
+
+const isComplete = (point: DraftPoint): point is ControlPoint =>
+  point.image !== null && point.world !== null;
+
+export function MapCalibrationModal({ event, onClose }: MapCalibrationModalProps) {
+  const queryClient = useQueryClient();
+  const [points, setPoints] = useState<DraftPoint[]>(() =>
+    event.map_calibration?.control_points.length
+      ? event.map_calibration.control_points.map(p => ({ image: p.image, world: p.world }))
+      : [{ image: null, world: null }]
+  );
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const completePoints = useMemo(() => points.filter(isComplete), [points]);
+
+  // Fit as soon as there are enough pairs so the organizer can see the error live
+  const fit = useMemo(() => {
+    if (completePoints.length < MIN_CONTROL_POINTS) return { calibration: null, error: null };
+    try {
+      return { calibration: buildCalibration(completePoints), error: null };
+    } catch (err) {
+      return { calibration: null, error: err instanceof Error ? err.message : 'Invalid control points' };
+    }
+  }, [completePoints]);
+
+  const updateActive = useCallback((patch: Partial<DraftPoint>) => {
+    const next = points.map((p, i) => (i === activeIndex ? { ...p, ...patch } : p));
+    // Start a new pair automatically once the last one is complete
+    if (isComplete(next[activeIndex]) && activeIndex === next.length - 1) {
+      next.push({ image: null, world: null });
+      setActiveIndex(next.length - 1);
+    }
+    setPoints(next);
+  }, [points, activeIndex]);
+
+  const handleImageClick = useCallback((pos: [number, number]) => {
+    updateActive({ image: pos });
+  }, [updateActive]);
+
+  const handleWorldClick = useCallback((pos: WorldPoint) => {
+    updateActive({ world: pos });
+  }, [updateActive]);
+
+  const removePoint = (index: number) => {
+    setPoints(prev => {
+      const next = prev.filter((_, i) => i !== index);
+      return next.length > 0 ? next : [{ image: null, world: null }];
+    });
+    setActiveIndex(prev => Math.max(0, prev >= index ? prev - 1 : prev));
+  };
+
+  const imageMarkers = useMemo(() => points
+    .map((point, index) => point.image ? {
+      position: point.image,
+      popup: `Point ${index + 1}`,
+      isSelected: index === activeIndex,
+    } : null)
+    .filter((m): m is { position: ImagePoint; popup: string; isSelected: boolean } => m !== null),
+  [points, activeIndex]);
+
+  // Initial view of the real-world map: the saved control points, else the organizer's location
+  const [worldCenter, setWorldCenter] = useState<WorldPoint | null>(() => {
+    const saved = event.map_calibration?.control_points ?? [];
+    if (saved.length === 0) return null;
+    return [
+      saved.reduce((sum, p) => sum + p.world[0], 0) / saved.length,
+      saved.reduce((sum, p) => sum + p.world[1], 0) / saved.length,
+    ];
+  });
+
+  useEffect(() => {
+    if (event.map_calibration || !navigator.geolocation) return;
+    navigator.geolocation.getCurrentPosition(
+      (position) => setWorldCenter(prev => prev ?? [position.coords.latitude, position.coords.longitude]),
+      (error) => console.error('Error getting location:', error)
+    );
+  }, [event.map_calibration]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (calibration: MapCalibration | null) => {
+      try {
+        const { error } = await supabase
+          .from('events')
+          .update({ map_calibration: calibration })
+          .eq('id', event.id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving map calibration:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, calibration) => {
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      toast.success(calibration ? 'Map calibration saved' : 'Map calibration cleared');
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to save map calibration');
+    },
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-6xl w-full max-h-[95vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+            <Crosshair className="h-5 w-5 mr-2 text-indigo-600" />
+            Calibrate Map - {event.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Pick a landmark on your map image, then click the same spot on the real-world map.
+          Repeat for at least {MIN_CONTROL_POINTS} landmarks spread across the image.
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Map image</h3>
+            <div className="h-[400px] rounded-lg overflow-hidden border border-gray-300">
+              <CustomMapView
+                imageUrl={event.custom_map_url}
+                markers={imageMarkers}
+                onClick={handleImageClick}
+                className="h-full w-full"
+              />
+            </div>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Real-world location</h3>
+            <div className="h-[400px] rounded-lg overflow-hidden border border-gray-300">
+              <MapContainer
+                key={worldCenter ? 'located' : 'unlocated'}
+                center={worldCenter ?? [0, 0]}
+                zoom={worldCenter ? 16 : 2}
+                style={{ height: '100%', width: '100%' }}
+              >
+                <TileLayer
+                  url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                  attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                />
+                <WorldClickHandler onClick={handleWorldClick} />
+                {points.map((point, index) => point.world && (
+                  <Marker key={index} position={point.world}>
+                    <Popup>Point {index + 1}</Popup>
+                  </Marker>
+                ))}
+              </MapContainer>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Control points</h3>
+            <button
+              type="button"
+              onClick={() => {
+                setPoints(prev => [...prev, { image: null, world: null }]);
+                setActiveIndex(points.length);
+              }}
+              className="inline-flex items-center px-2 py-1 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add point
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {points.map((point, index) => (
+              <li
+                key={index}
+                onClick={() => setActiveIndex(index)}
+                className={`px-3 py-2 flex items-center justify-between text-xs cursor-pointer ${
+                  index === activeIndex ? 'bg-indigo-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="font-medium text-gray-900 w-16">Point {index + 1}</span>
+                <span className={`flex-1 ${point.image ? 'text-gray-600' : 'text-gray-400'}`}>
+                  Image: {point.image ? `(${point.image[0].toFixed(1)}, ${point.image[1].toFixed(1)})` : 'click the map image'}
+                </span>
+                <span className={`flex-1 ${point.world ? 'text-gray-600' : 'text-gray-400'}`}>
+                  World: {point.world ? `(${point.world[0].toFixed(6)}, ${point.world[1].toFixed(6)})` : 'click the real-world map'}
+                </span>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removePoint(index);
+                  }}
+                  className="text-gray-400 hover:text-gray-500"
+                  title="Remove point"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-3 text-sm">
+            {fit.error ? (
+              <p className="text-red-600">{fit.error}</p>
+            ) : fit.calibration ? (
+              <p className={fit.calibration.rms_error_m > 25 ? 'text-orange-600' : 'text-green-600'}>
+                Fit error: {fit.calibration.rms_error_m.toFixed(1)} m across {completePoints.length} points
+                {fit.calibration.rms_error_m > 25 && ' - check that each pair marks the same landmark'}
+              </p>
+            ) : (
+              <p className="text-gray-500">
+                {completePoints.length}/{MIN_CONTROL_POINTS} control points set
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-between">
+          <button
+            type="button"
+            onClick={() => saveMutation.mutate(null)}
+            disabled={!event.map_calibration || saveMutation.isPending}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            Clear Calibration
+          </button>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => fit.calibration && saveMutation.mutate(fit.calibration)}
+              disabled={!fit.calibration || saveMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Calibration'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
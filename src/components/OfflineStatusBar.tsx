@@ -0,0 +1,77 @@
+import { AlertTriangle, CloudOff, RefreshCw } from 'lucide-react';
+import { useOfflineQueue } from '../contexts/OfflineQueueContext';
+import { describeAction } from '../lib/offlineQueue';
+
+// Says when the device is offline and lists actions that have not reached the server yet
+export function OfflineStatusBar() {
+  const { actions, isOnline, isSyncing, sync, retry, discard } = useOfflineQueue();
+  const pending = actions.filter(action => !action.conflict);
+  const refused = actions.filter(action => action.conflict);
+
+  if (isOnline && actions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {(!isOnline || pending.length > 0) && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md px-4 py-3 flex items-center justify-between">
+          <p className="text-sm text-yellow-800 flex items-center">
+            <CloudOff className="h-4 w-4 mr-2 flex-shrink-0" />
+            {!isOnline && 'You are offline. '}
+            {pending.length > 0
+              ? `${pending.length} unsynced action${pending.length === 1 ? '' : 's'} saved on this device${isOnline ? '' : ', sent when the connection returns'}.`
+              : 'Check-ins are saved on this device and sent when the connection returns.'}
+          </p>
+          {isOnline && pending.length > 0 && (
+            <button
+              onClick={() => sync()}
+              disabled={isSyncing}
+              className="ml-4 inline-flex items-center text-sm font-medium text-yellow-800 hover:text-yellow-900 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+              {isSyncing ? 'Syncing...' : 'Sync now'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {refused.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-md px-4 py-3">
+          <p className="text-sm font-medium text-red-800 flex items-center mb-2">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            The server refused {refused.length === 1 ? 'an action' : `${refused.length} actions`} made offline
+          </p>
+          <ul className="space-y-2">
+            {refused.map(action => (
+              <li key={action.id} className="flex items-start justify-between text-sm">
+                <div>
+                  <p className="text-gray-900">
+                    {describeAction(action)}{' '}
+                    <span className="text-gray-500">
+                      at {new Date(action.queued_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    </span>
+                  </p>
+                  <p className="text-red-700">{action.conflict}</p>
+                </div>
+                <div className="ml-4 flex-shrink-0 space-x-3">
+                  <button
+                    onClick={() => retry(action.id)}
+                    disabled={!isOnline || isSyncing}
+                    className="text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                  >
+                    Apply anyway
+                  </button>
+                  <button
+                    onClick={() => discard(action.id)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
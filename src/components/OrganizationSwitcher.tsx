@@ -0,0 +1,42 @@
+import { Link } from 'react-router-dom';
+import { Building2 } from 'lucide-react';
+import { useOrganization } from '../contexts/OrganizationContext';
+
+export function OrganizationSwitcher() {
+  const { organizations, currentOrganization, switchOrganization } = useOrganization();
+
+  if (!currentOrganization) {
+    return (
+      <Link
+        to="/organization"
+        className="inline-flex items-center px-4 py-2 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+      >
+        <Building2 className="h-5 w-5 mr-2" />
+        Create Organization
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center">
+      <Link to="/organization" className="text-gray-500 hover:text-gray-700" title="Organization settings">
+        <Building2 className="h-5 w-5 mr-2" />
+      </Link>
+      {organizations.length > 1 ? (
+        <select
+          value={currentOrganization.id}
+          onChange={(e) => switchOrganization(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          {organizations.map(organization => (
+            <option key={organization.id} value={organization.id}>{organization.name}</option>
+          ))}
+        </select>
+      ) : (
+        <Link to="/organization" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+          {currentOrganization.name}
+        </Link>
+      )}
+    </div>
+  );
+}
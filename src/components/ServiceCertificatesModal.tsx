@@ -0,0 +1,234 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { AlertTriangle, Award, Download, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { canPrint } from '../lib/pdf';
+import { SignupHours, formatHours, summarizeHours, volunteerKey } from '../lib/attendance';
+import {
+  CertificateIssuer,
+  SERVICE_CERTIFICATE_COLUMNS,
+  ServiceCertificate,
+  downloadCertificates,
+  formatServiceDays,
+  issueCertificates,
+} from '../lib/certificates';
+
+interface SignerFormData {
+  signer_name: string;
+  signer_title: string;
+}
+
+interface ServiceCertificatesModalProps {
+  event: {
+    id: string;
+    name: string;
+    organization_id: string;
+  };
+  onClose: () => void;
+}
+
+const fileNameFor = (name: string) => `${name.toLowerCase().replace(/\s+/g, '-')}-certificate.pdf`;
+
+export function ServiceCertificatesModal({ event, onClose }: ServiceCertificatesModalProps) {
+  const queryClient = useQueryClient();
+
+  const { data: certificates } = useQuery({
+    queryKey: ['service-certificates', event.id],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('service_certificates')
+          .select(SERVICE_CERTIFICATE_COLUMNS)
+          .eq('event_id', event.id)
+          .is('superseded_at', null)
+          .order('volunteer_name');
+        if (error) throw error;
+        return data as ServiceCertificate[];
+      } catch (error) {
+        console.error('Error fetching certificates:', error);
+        throw error;
+      }
+    },
+  });
+
+  // Only finished visits count as verified, as on the certificates
+  const { data: verified } = useQuery({
+    queryKey: ['signup-hours', event.id, 'verified'],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('signup_hours')
+          .select('signup_id, position_id, volunteer_id, volunteer_name, starts_at, ends_at, arrived, scheduled_hours, actual_hours, check_ins')
+          .eq('event_id', event.id)
+          .eq('arrived', false)
+          .gt('actual_hours', 0);
+        if (error) throw error;
+        return summarizeHours(data as SignupHours[], volunteerKey, row => row.volunteer_name);
+      } catch (error) {
+        console.error('Error fetching hours:', error);
+        throw error;
+      }
+    },
+  });
+
+  const { data: organization } = useQuery({
+    queryKey: ['organization', event.organization_id],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('organizations')
+          .select('name')
+          .eq('id', event.organization_id)
+          .single();
+        if (error) throw error;
+        return data;
+      } catch (error) {
+        console.error('Error fetching organization:', error);
+        throw error;
+      }
+    },
+  });
+
+  const issuer: CertificateIssuer = { eventName: event.name, organizationName: organization?.name ?? '' };
+
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<SignerFormData>({
+    values: {
+      signer_name: certificates?.[0]?.signer_name ?? '',
+      signer_title: certificates?.[0]?.signer_title ?? '',
+    },
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: async (data: SignerFormData) => {
+      try {
+        return await issueCertificates(event.id, data.signer_name, data.signer_title);
+      } catch (error) {
+        console.error('Error issuing certificates:', error);
+        throw error;
+      }
+    },
+    onSuccess: (issued) => {
+      queryClient.invalidateQueries({ queryKey: ['service-certificates', event.id] });
+      if (issued.length === 0) {
+        toast.error('No volunteer has verified hours at this event yet');
+        return;
+      }
+      downloadCertificates(`${event.name.toLowerCase().replace(/\s+/g, '-')}-certificates.pdf`, issued, issuer);
+      toast.success(`${issued.length} certificate${issued.length === 1 ? '' : 's'} generated`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate certificates');
+    },
+  });
+
+  const certificateFor = (key: string) => certificates?.find(c => c.volunteer_key === key);
+
+  // The PDF fonts print other scripts as '?'; say so before anything is generated
+  const unprintableNames = (verified ?? []).filter(summary => !canPrint(summary.label)).length;
+  const unprintableHeader = ![watch('signer_name'), watch('signer_title'), event.name, issuer.organizationName]
+    .every(text => canPrint(text ?? ''));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[95vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+            <Award className="h-5 w-5 mr-2 text-indigo-600" />
+            Service Certificates - {event.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Volunteers with Verified Hours</h3>
+        {verified && verified.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-6">
+            Hours are verified once a volunteer has checked in and out again.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-6">
+            {verified?.map(summary => {
+              const certificate = certificateFor(summary.key);
+              const outdated = certificate && formatHours(Number(certificate.hours)) !== formatHours(summary.actualHours);
+              return (
+                <li key={summary.key} className="px-3 py-2 flex items-center justify-between">
+                  <div className="text-sm">
+                    <p className="text-gray-900">
+                      {summary.label}
+                      <span className="ml-2 text-gray-500">{formatHours(summary.actualHours)}h</span>
+                    </p>
+                    {certificate && (
+                      <p className="text-xs text-gray-500">
+                        {certificate.code} · {formatServiceDays(certificate.first_day, certificate.last_day)}
+                        {outdated && <span className="ml-2 text-yellow-700">Hours changed, generate again</span>}
+                      </p>
+                    )}
+                    {!canPrint(summary.label) && (
+                      <p className="text-xs text-yellow-700">The certificate cannot print this name</p>
+                    )}
+                  </div>
+                  {certificate && (
+                    <button
+                      onClick={() => downloadCertificates(fileNameFor(certificate.volunteer_name), [certificate], issuer)}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Download certificate"
+                    >
+                      <Download className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Signature</h3>
+        <form onSubmit={handleSubmit(data => issueMutation.mutate(data))} className="space-y-3">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              placeholder="Name"
+              {...register('signer_name', { required: 'Enter the name of the person signing' })}
+              className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            <input
+              type="text"
+              placeholder="Title, e.g. Volunteer Coordinator"
+              {...register('signer_title')}
+              className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          {errors.signer_name && (
+            <p className="text-sm text-red-600">{errors.signer_name.message}</p>
+          )}
+          {(unprintableNames > 0 || unprintableHeader) && (
+            <p className="text-sm text-yellow-800 bg-yellow-50 rounded-md px-3 py-2 flex items-start">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              <span>
+                Certificates can only print Western European letters. Other characters
+                {unprintableNames > 0 && ` in ${unprintableNames} volunteer name${unprintableNames === 1 ? '' : 's'}`}
+                {unprintableNames > 0 && unprintableHeader && ' and'}
+                {unprintableHeader && ' in the event, organization or signature'}
+                {' '}will show as "?". Codes still verify with the full names.
+              </span>
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={issueMutation.isPending || !organization}
+            className="w-full inline-flex justify-center items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Generate All Certificates
+          </button>
+          <p className="text-xs text-gray-500">
+            Certificates that still match the attendance records keep their verification codes.
+            Anyone can check a code at {window.location.origin}/verify.
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
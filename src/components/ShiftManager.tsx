@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { Clock, Plus, Trash2, Edit2, X, Check } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  EventSchedule,
+  Shift,
+  buildShiftWindow,
+  formatShiftWindow,
+  getEventDates,
+  isMultiDayEvent,
+  sortShifts,
+  splitShiftWindow,
+} from '../lib/shifts';
+import { formatCalendarDate } from '../lib/timezone';
+
+interface ShiftFormData {
+  date: string;
+  start_time: string;
+  end_time: string;
+  needed: number;
+}
+
+interface ShiftManagerProps {
+  positionId: string;
+  shifts: Shift[];
+  event: EventSchedule;
+}
+
+export function ShiftManager({ positionId, shifts, event }: ShiftManagerProps) {
+  const queryClient = useQueryClient();
+  const [editingShiftId, setEditingShiftId] = useState<string | null>(null);
+  const eventDates = getEventDates(event);
+  const multiDay = isMultiDayEvent(event);
+  const emptyForm = { date: event.date, start_time: '', end_time: '', needed: 1 };
+
+  const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<ShiftFormData>({
+    defaultValues: emptyForm,
+  });
+  const [formStart, formEnd] = watch(['start_time', 'end_time']);
+  const endsNextDay = !!formStart && !!formEnd && formEnd < formStart;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['shifts'] });
+    queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ShiftFormData & { id?: string }) => {
+      try {
+        const values = {
+          ...buildShiftWindow(data, event.timezone),
+          needed: data.needed,
+        };
+        const { error } = data.id
+          ? await supabase.from('shifts').update(values).eq('id', data.id)
+          : await supabase.from('shifts').insert([{ ...values, position_id: positionId }]);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving shift:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, data) => {
+      invalidate();
+      toast.success(data.id ? 'Shift updated successfully' : 'Shift added successfully');
+      setEditingShiftId(null);
+      reset(emptyForm);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to save shift');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('shifts')
+          .delete()
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error deleting shift:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Shift deleted successfully');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete shift');
+    },
+  });
+
+  const startEditing = (shift: Shift) => {
+    const window = splitShiftWindow(shift, event.timezone);
+    setEditingShiftId(shift.id);
+    setValue('date', window.date);
+    setValue('start_time', window.start_time);
+    setValue('end_time', window.end_time);
+    setValue('needed', shift.needed);
+  };
+
+  const onSubmit = (data: ShiftFormData) => {
+    // An end time before the start time means the shift runs past midnight
+    if (data.end_time === data.start_time) {
+      toast.error('A shift must end at a different time than it starts');
+      return;
+    }
+    saveMutation.mutate({ ...data, id: editingShiftId ?? undefined });
+  };
+
+  return (
+    <div className="mt-3 ml-6 border-l-2 border-indigo-100 pl-4">
+      <h5 className="text-xs font-medium text-gray-700 uppercase tracking-wide mb-2 flex items-center">
+        <Clock className="h-3 w-3 mr-1" />
+        Shifts
+      </h5>
+      {shifts.length === 0 ? (
+        <p className="text-xs text-gray-500 mb-2">
+          No shifts yet. Add one for each time window that needs its own staffing.
+        </p>
+      ) : (
+        <ul className="space-y-1 mb-2">
+          {sortShifts(shifts).map(shift => (
+            <li key={shift.id} className="flex items-center justify-between text-sm">
+              <span className={editingShiftId === shift.id ? 'text-indigo-600 font-medium' : 'text-gray-700'}>
+                {formatShiftWindow(shift, event.timezone, { showDate: multiDay })}
+                <span className="ml-2 text-gray-500">({shift.needed} needed)</span>
+              </span>
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={() => startEditing(shift)}
+                  className="text-gray-400 hover:text-gray-500"
+                  title="Edit shift"
+                >
+                  <Edit2 className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm('Delete this shift? Volunteers in it will keep their times but lose the shift link.')) {
+                      deleteMutation.mutate(shift.id);
+                    }
+                  }}
+                  className="text-gray-400 hover:text-gray-500"
+                  title="Delete shift"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className="flex flex-wrap items-end gap-2">
+        {multiDay && (
+          <div>
+            <label className="block text-xs text-gray-500">Date</label>
+            <select
+              {...register('date', { required: 'Date is required' })}
+              className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+            >
+              {eventDates.map(date => (
+                <option key={date} value={date}>{formatCalendarDate(date)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-xs text-gray-500">Start</label>
+          <input
+            type="time"
+            {...register('start_time', { required: 'Start time is required' })}
+            className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500">
+            End{endsNextDay && <span className="ml-1 text-indigo-600">(next day)</span>}
+          </label>
+          <input
+            type="time"
+            {...register('end_time', { required: 'End time is required' })}
+            className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500">Needed</label>
+          <input
+            type="number"
+            min="1"
+            {...register('needed', {
+              required: 'Needed count is required',
+              min: { value: 1, message: 'At least 1 volunteer is required' },
+              valueAsNumber: true,
+            })}
+            className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saveMutation.isPending}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
+        >
+          {editingShiftId ? <Check className="h-3 w-3 mr-1" /> : <Plus className="h-3 w-3 mr-1" />}
+          {editingShiftId ? 'Save Shift' : 'Add Shift'}
+        </button>
+        {editingShiftId && (
+          <button
+            type="button"
+            onClick={() => {
+              setEditingShiftId(null);
+              reset(emptyForm);
+            }}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <X className="h-3 w-3 mr-1" />
+            Cancel
+          </button>
+        )}
+      </form>
+      {(errors.date || errors.start_time || errors.end_time || errors.needed) && (
+        <p className="mt-1 text-xs text-red-600">
+          {errors.date?.message || errors.start_time?.message || errors.end_time?.message || errors.needed?.message}
+        </p>
+      )}
+    </div>
+  );
+}
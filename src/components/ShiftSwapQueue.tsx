@@ -0,0 +1,122 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { ArrowRightLeft, Check, UserMinus, X } from 'lucide-react';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { formatShiftWindow } from '../lib/shifts';
+import { ShiftSwapRequest } from '../lib/shiftSwaps';
+import { ShiftConflictError, StaleSignupError, approveShiftSwap, rejectShiftSwap } from '../lib/signupOperations';
+
+interface ShiftSwapQueueProps {
+  // Requests waiting for a coordinator
+  requests: ShiftSwapRequest[];
+}
+
+export function ShiftSwapQueue({ requests }: ShiftSwapQueueProps) {
+  const queryClient = useQueryClient();
+  const { can } = useEventRoles();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['shift-swaps'] });
+    queryClient.invalidateQueries({ queryKey: ['positions'] });
+    queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+    queryClient.invalidateQueries({ queryKey: ['volunteer-notifications'] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (request: ShiftSwapRequest) => {
+      try {
+        return await approveShiftSwap(request.id);
+      } catch (error) {
+        console.error('Error approving request:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, request) => {
+      refresh();
+      toast.success(
+        request.kind === 'swap'
+          ? `${request.claimed_by?.name} now has ${request.offered_by.name}'s shift`
+          : `${request.offered_by.name} was removed from the shift`
+      );
+    },
+    onError: (error) => {
+      if (error instanceof StaleSignupError) refresh();
+      if (error instanceof ShiftConflictError) {
+        toast.error('The volunteer claiming this shift is already booked at that time');
+        return;
+      }
+      toast.error(error instanceof Error ? error.message : 'Failed to approve request');
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (request: ShiftSwapRequest) => {
+      try {
+        await rejectShiftSwap(request.id);
+      } catch (error) {
+        console.error('Error rejecting request:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      refresh();
+      toast.success('Request rejected');
+    },
+    onError: (error) => {
+      if (error instanceof StaleSignupError) refresh();
+      toast.error(error instanceof Error ? error.message : 'Failed to reject request');
+    },
+  });
+
+  if (requests.length === 0) {
+    return <p className="text-sm text-gray-500">No swap or drop requests are waiting.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {requests.map(request => (
+        <li key={request.id} className="py-3 flex items-start justify-between">
+          <div className="flex items-start space-x-3">
+            {request.kind === 'swap' ? (
+              <ArrowRightLeft className="h-5 w-5 text-indigo-500 mt-0.5" />
+            ) : (
+              <UserMinus className="h-5 w-5 text-red-500 mt-0.5" />
+            )}
+            <div className="text-sm">
+              <p className="font-medium text-gray-900">
+                {request.kind === 'swap'
+                  ? `${request.offered_by.name} → ${request.claimed_by?.name ?? 'unknown volunteer'}`
+                  : `${request.offered_by.name} wants to drop their shift`}
+              </p>
+              <p className="text-gray-500">
+                {request.position.event.name} - {request.position.name},{' '}
+                {formatShiftWindow(request, request.position.event.timezone, { showDate: true })}
+              </p>
+              {request.note && <p className="mt-1 text-gray-600 italic">{request.note}</p>}
+            </div>
+          </div>
+          {can(request.event_id, 'manageAssignments') && (
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => approveMutation.mutate(request)}
+                disabled={approveMutation.isPending || rejectMutation.isPending}
+                className="p-1 rounded-full text-green-600 hover:bg-green-50 disabled:opacity-50"
+                title="Approve"
+              >
+                <Check className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => rejectMutation.mutate(request)}
+                disabled={approveMutation.isPending || rejectMutation.isPending}
+                className="p-1 rounded-full text-red-600 hover:bg-red-50 disabled:opacity-50"
+                title="Reject"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,78 @@
+import { FieldValues, Path, UseFormRegister } from 'react-hook-form';
+import { SignupField } from '../lib/signupFields';
+
+interface SignupFieldInputsProps<T extends FieldValues> {
+  fields: SignupField[];
+  // Registered under `custom_fields.<field id>`
+  register: UseFormRegister<T>;
+  errors?: Partial<Record<string, { message?: string }>>;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-50';
+
+// An event's signup fields, with the same rules the server checks
+export function SignupFieldInputs<T extends FieldValues>({ fields, register, errors, disabled }: SignupFieldInputsProps<T>) {
+  return (
+    <>
+      {fields.map(field => {
+        const name = `custom_fields.${field.id}` as Path<T>;
+        const error = errors?.[field.id]?.message;
+        const required = field.required ? `${field.label} is required` : false;
+
+        return (
+          <div key={field.id}>
+            {field.kind === 'checkbox' ? (
+              <label className="flex items-start text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  disabled={disabled}
+                  {...register(name, {
+                    validate: value => !field.required || value === true || `${field.label} must be checked`,
+                  })}
+                  className="mt-0.5 mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="font-medium">
+                  {field.label}
+                  {field.required && <span className="text-red-600"> *</span>}
+                </span>
+              </label>
+            ) : (
+              <>
+                <label className="block text-sm font-medium text-gray-700">
+                  {field.label}
+                  {field.required ? <span className="text-red-600"> *</span> : ' (Optional)'}
+                </label>
+                {field.kind === 'select' ? (
+                  <select disabled={disabled} {...register(name, { required })} className={inputClassName}>
+                    <option value="">Select...</option>
+                    {field.options.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type={field.kind === 'date' ? 'date' : 'text'}
+                    disabled={disabled}
+                    {...register(name, {
+                      required,
+                      maxLength: field.max_length
+                        ? { value: field.max_length, message: `${field.label} can be at most ${field.max_length} characters` }
+                        : undefined,
+                    })}
+                    className={inputClassName}
+                  />
+                )}
+              </>
+            )}
+            {field.help_text && (
+              <p className="mt-1 text-xs text-gray-500 whitespace-pre-line">{field.help_text}</p>
+            )}
+            {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+          </div>
+        );
+      })}
+    </>
+  );
+}
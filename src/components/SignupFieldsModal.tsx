@@ -0,0 +1,347 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { ArrowDown, ArrowUp, ClipboardList, Edit2, Trash2, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  FIELD_KIND_LABELS,
+  SIGNUP_FIELD_COLUMNS,
+  SIGNUP_FIELD_KINDS,
+  SignupField,
+  SignupFieldKind,
+  sortFields,
+} from '../lib/signupFields';
+
+interface FieldFormData {
+  label: string;
+  kind: SignupFieldKind;
+  // One choice per line
+  options: string;
+  required: boolean;
+  max_length: string;
+  help_text: string;
+}
+
+interface SignupFieldsModalProps {
+  event: {
+    id: string;
+    name: string;
+  };
+  onClose: () => void;
+}
+
+const emptyField: FieldFormData = {
+  label: '',
+  kind: 'text',
+  options: '',
+  required: false,
+  max_length: '',
+  help_text: '',
+};
+
+const parseOptions = (options: string) =>
+  Array.from(new Set(options.split('\n').map(option => option.trim()).filter(Boolean)));
+
+export function SignupFieldsModal({ event, onClose }: SignupFieldsModalProps) {
+  const queryClient = useQueryClient();
+  const [editingField, setEditingField] = useState<SignupField | null>(null);
+
+  const { register, handleSubmit, reset, watch, formState: { errors } } = useForm<FieldFormData>({
+    values: editingField
+      ? {
+          label: editingField.label,
+          kind: editingField.kind,
+          options: editingField.options.join('\n'),
+          required: editingField.required,
+          max_length: editingField.max_length?.toString() ?? '',
+          help_text: editingField.help_text ?? '',
+        }
+      : emptyField,
+  });
+  const kind = watch('kind');
+
+  const { data: fields } = useQuery({
+    queryKey: ['signup-fields', event.id],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('signup_fields')
+          .select(SIGNUP_FIELD_COLUMNS)
+          .eq('event_id', event.id);
+        if (error) throw error;
+        return sortFields(data as SignupField[]);
+      } catch (error) {
+        console.error('Error fetching signup fields:', error);
+        throw error;
+      }
+    },
+  });
+
+  const closeForm = () => {
+    setEditingField(null);
+    reset(emptyField);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FieldFormData) => {
+      const field = {
+        label: data.label.trim(),
+        kind: data.kind,
+        options: data.kind === 'select' ? parseOptions(data.options) : [],
+        required: data.required,
+        max_length: data.kind === 'text' && data.max_length ? Number(data.max_length) : null,
+        help_text: data.help_text.trim() || null,
+      };
+      try {
+        const { error } = editingField
+          ? await supabase
+              .from('signup_fields')
+              .update(field)
+              .eq('id', editingField.id)
+          : await supabase
+              .from('signup_fields')
+              .insert([{
+                ...field,
+                event_id: event.id,
+                sort_order: Math.max(-1, ...(fields || []).map(f => f.sort_order)) + 1,
+              }]);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving signup field:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['signup-fields'] });
+      toast.success(editingField ? 'Field updated' : 'Field added');
+      closeForm();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to save field');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('signup_fields')
+          .delete()
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error deleting signup field:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['signup-fields'] });
+      toast.success('Field removed');
+      closeForm();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove field');
+    },
+  });
+
+  // Swaps a field with its neighbour
+  const moveMutation = useMutation({
+    mutationFn: async ({ field, other }: { field: SignupField; other: SignupField }) => {
+      try {
+        for (const [id, sortOrder] of [[field.id, other.sort_order], [other.id, field.sort_order]] as const) {
+          const { error } = await supabase
+            .from('signup_fields')
+            .update({ sort_order: sortOrder })
+            .eq('id', id);
+          if (error) throw error;
+        }
+      } catch (error) {
+        console.error('Error reordering signup fields:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['signup-fields'] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to reorder fields');
+    },
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[95vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+            <ClipboardList className="h-5 w-5 mr-2 text-indigo-600" />
+            Signup Form - {event.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">
+          Name, phone number and notes are always asked. These questions are added for this event.
+        </p>
+
+        {fields && fields.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-6">No extra questions yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-6">
+            {fields?.map((field, index) => (
+              <li key={field.id} className="px-3 py-2 flex items-center justify-between">
+                <div className="text-sm">
+                  <p className="text-gray-900">
+                    {field.label}
+                    {field.required && <span className="text-red-600"> *</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {FIELD_KIND_LABELS[field.kind]}
+                    {field.kind === 'select' && `: ${field.options.join(', ')}`}
+                    {field.max_length && ` · at most ${field.max_length} characters`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => moveMutation.mutate({ field, other: fields[index - 1] })}
+                    disabled={index === 0 || moveMutation.isPending}
+                    className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveMutation.mutate({ field, other: fields[index + 1] })}
+                    disabled={index === fields.length - 1 || moveMutation.isPending}
+                    className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setEditingField(field)}
+                    className="text-gray-400 hover:text-gray-600"
+                    title="Edit field"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Remove "${field.label}"? Answers already given will no longer be shown.`)) {
+                        deleteMutation.mutate(field.id);
+                      }
+                    }}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove field"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-700 mb-2">{editingField ? 'Edit Question' : 'Add a Question'}</h3>
+        <form onSubmit={handleSubmit(data => saveMutation.mutate(data))} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Question</label>
+              <input
+                {...register('label', { required: 'Enter the question', validate: value => !!value.trim() || 'Enter the question' })}
+                placeholder="T-shirt size"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.label && (
+                <p className="mt-1 text-sm text-red-600">{errors.label.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Type</label>
+              <select
+                {...register('kind')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {SIGNUP_FIELD_KINDS.map(k => (
+                  <option key={k} value={k}>{FIELD_KIND_LABELS[k]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {kind === 'select' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Choices, one per line</label>
+              <textarea
+                {...register('options', {
+                  validate: value => parseOptions(value).length > 0 || 'Enter at least one choice',
+                })}
+                rows={4}
+                placeholder={'S\nM\nL\nXL'}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.options && (
+                <p className="mt-1 text-sm text-red-600">{errors.options.message}</p>
+              )}
+            </div>
+          )}
+
+          {kind === 'text' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Maximum Length (Optional)</label>
+              <input
+                type="number"
+                min={1}
+                {...register('max_length', { min: { value: 1, message: 'Enter at least 1' } })}
+                className="mt-1 block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.max_length && (
+                <p className="mt-1 text-sm text-red-600">{errors.max_length.message}</p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Help Text (Optional)</label>
+            <textarea
+              {...register('help_text')}
+              rows={2}
+              placeholder={kind === 'checkbox' ? 'The waiver volunteers agree to' : undefined}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              {...register('required')}
+              className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {kind === 'checkbox' ? 'Must be checked to sign up' : 'Required'}
+          </label>
+
+          <div className="flex justify-end space-x-3">
+            {editingField && (
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {editingField ? 'Update Question' : 'Add Question'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
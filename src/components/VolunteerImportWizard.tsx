@@ -0,0 +1,336 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Upload, X, Download, CheckCircle, AlertTriangle } from 'lucide-react';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { CsvRow, downloadCsv, parseCsv } from '../lib/csv';
+import { EventSchedule, Shift, formatShiftWindow } from '../lib/shifts';
+import { ShiftConflictError, importVolunteers } from '../lib/signupOperations';
+import {
+  ColumnMapping,
+  ExistingSignup,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRow,
+  buildRejectionReport,
+  guessColumnMapping,
+  validateImportRows,
+} from '../lib/signupImport';
+
+interface ImportPosition {
+  id: string;
+  event_id: string;
+  name: string;
+  event: EventSchedule & { name: string; organization_id: string };
+}
+
+interface VolunteerImportWizardProps {
+  positions: ImportPosition[];
+  shifts: Shift[];
+  signups: ExistingSignup[];
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+interface UploadedFile {
+  name: string;
+  headers: string[];
+  rows: CsvRow[];
+}
+
+export function VolunteerImportWizard({ positions, shifts, signups, onClose }: VolunteerImportWizardProps) {
+  const { can } = useEventRoles();
+  const { organizations } = useOrganization();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>('upload');
+  const [eventId, setEventId] = useState('');
+  const [file, setFile] = useState<UploadedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [importedCount, setImportedCount] = useState(0);
+  // Kept from the import; the preview revalidates against the new signups afterwards
+  const [rejectedAtImport, setRejectedAtImport] = useState<ImportRow[]>([]);
+
+  // Events the user can assign volunteers in, by their positions
+  const events = useMemo(() => {
+    const byId = new Map<string, ImportPosition['event'] & { id: string }>();
+    positions
+      .filter(position => can(position.event_id, 'manageAssignments'))
+      .forEach(position => byId.set(position.event_id, { ...position.event, id: position.event_id }));
+    return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [positions, can]);
+
+  const event = events.find(e => e.id === eventId) ?? null;
+
+  const rows = useMemo(() => {
+    if (!event || !file || !mapping) return [];
+    return validateImportRows(file.rows, mapping, {
+      event,
+      positions: positions.filter(position => position.event_id === event.id),
+      shifts,
+      signups,
+      phoneCountryCode: organizations.find(o => o.id === event.organization_id)?.phone_country_code,
+    });
+  }, [event, file, mapping, positions, shifts, signups, organizations]);
+
+  const validRows = rows.filter(row => row.input);
+  const rejectedRows = rows.filter(row => !row.input);
+  const missingFields = IMPORT_FIELDS.filter(({ field, required }) => required && mapping?.[field] == null);
+
+  const readFile = async (selected: File) => {
+    const [header, ...dataRows] = parseCsv(await selected.text());
+    if (!header || dataRows.length === 0) {
+      toast.error('The file has no rows to import');
+      return;
+    }
+    setFile({ name: selected.name, headers: header.cells, rows: dataRows });
+    setMapping(guessColumnMapping(header.cells));
+    setStep('map');
+  };
+
+  const downloadReport = (rejected: ImportRow[]) => {
+    if (!file) return;
+    const baseName = file.name.replace(/\.csv$/i, '');
+    downloadCsv(`${baseName}-rejected.csv`, buildRejectionReport(file.headers, rejected));
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (importRows: ImportRow[]) => {
+      try {
+        return await importVolunteers(
+          importRows.filter(row => row.input).map(row => ({ ...row.input!, line: row.line }))
+        );
+      } catch (error) {
+        console.error('Error importing volunteers:', error);
+        throw error;
+      }
+    },
+    onSuccess: (count, importRows) => {
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteer-directory'] });
+      toast.success(`Imported ${count} volunteers`);
+      setImportedCount(count);
+      setRejectedAtImport(importRows.filter(row => !row.input));
+      setStep('done');
+    },
+    onError: (error) => {
+      // Someone booked a volunteer since the preview; reload so it shows there
+      if (error instanceof ShiftConflictError) {
+        queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      }
+      toast.error(error instanceof Error ? error.message : 'Failed to import volunteers');
+    },
+  });
+
+  const setColumn = (field: ImportField, value: string) =>
+    setMapping(current => current && { ...current, [field]: value === '' ? null : Number(value) });
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium flex items-center">
+          <Upload className="h-5 w-5 mr-2 text-indigo-600" />
+          Import Volunteers from CSV
+        </h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {step === 'upload' && (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Event</label>
+            <select
+              value={eventId}
+              onChange={(e) => setEventId(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">Select an event</option>
+              {events.map(e => (
+                <option key={e.id} value={e.id}>{e.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">CSV File</label>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              disabled={!event}
+              onChange={(e) => {
+                const selected = e.target.files?.[0];
+                if (selected) readFile(selected);
+                e.target.value = '';
+              }}
+              className="mt-1 block w-full text-sm text-gray-700 disabled:opacity-50"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              One volunteer assignment per row, with a header row. Write dates as YYYY-MM-DD and
+              times in the event's time zone, e.g. "2025-06-14 09:00" or "9:00 am". Rows without
+              a date are on the event's first day.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {step === 'map' && file && mapping && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Pick the column of <span className="font-medium">{file.name}</span> that holds each value.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700">
+                  {label}{!required && ' (Optional)'}
+                </label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setColumn(field, e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">Not in file</option>
+                  {file.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          {missingFields.length > 0 && (
+            <p className="text-sm text-red-600">
+              Choose a column for {missingFields.map(f => f.label).join(', ')}.
+            </p>
+          )}
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setStep('upload')}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Back
+            </button>
+            <button
+              onClick={() => setStep('preview')}
+              disabled={missingFields.length > 0}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Preview
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && event && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {validRows.length} of {rows.length} rows are ready to import into {event.name}.
+            {rejectedRows.length > 0 && ` ${rejectedRows.length} will be skipped.`}
+          </p>
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Line</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Name</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Position</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Time</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map(row => {
+                  const read = (field: ImportField) =>
+                    mapping?.[field] != null ? row.cells[mapping[field]!] ?? '' : '';
+                  return (
+                    <tr key={row.line} className={row.input ? '' : 'bg-red-50'}>
+                      <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                      <td className="px-3 py-2">{read('volunteer_name')}</td>
+                      <td className="px-3 py-2">{read('position')}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {row.input
+                          ? formatShiftWindow(row.input, event.timezone, { showDate: true })
+                          : `${read('start')} – ${read('end')}`}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.input ? (
+                          <span className="flex items-center text-green-600">
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Ready
+                          </span>
+                        ) : (
+                          <ul className="text-red-600">
+                            {row.errors.map(error => (
+                              <li key={error} className="flex items-start">
+                                <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                                {error}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setStep('map')}
+              disabled={importMutation.isPending}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Back
+            </button>
+            {rejectedRows.length > 0 && (
+              <button
+                onClick={() => downloadReport(rejectedRows)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Rejected Rows
+              </button>
+            )}
+            <button
+              onClick={() => importMutation.mutate(rows)}
+              disabled={validRows.length === 0 || importMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {importMutation.isPending ? 'Importing...' : `Import ${validRows.length} Volunteers`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 flex items-center">
+            <CheckCircle className="h-5 w-5 mr-2 text-green-600" />
+            Imported {importedCount} volunteers.
+            {rejectedAtImport.length > 0 && ` ${rejectedAtImport.length} rows were rejected.`}
+          </p>
+          <div className="flex justify-end space-x-3">
+            {rejectedAtImport.length > 0 && (
+              <button
+                onClick={() => downloadReport(rejectedAtImport)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Rejected Rows
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useQuery } from '@tanstack/react-query';
+import { UserCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { VOLUNTEER_PROFILE_COLUMNS, VolunteerProfile, toSearchPattern } from '../lib/volunteers';
+
+interface VolunteerSuggestionsProps {
+  organizationId: string;
+  search: string;
+  onSelect: (volunteer: VolunteerProfile) => void;
+}
+
+// Directory profiles whose name or phone number matches what has been typed so far
+export function VolunteerSuggestions({ organizationId, search, onSelect }: VolunteerSuggestionsProps) {
+  const term = search.trim();
+
+  const { data: suggestions } = useQuery({
+    queryKey: ['volunteer-directory', organizationId, 'search', term],
+    queryFn: async () => {
+      try {
+        const pattern = toSearchPattern(term);
+        const { data, error } = await supabase
+          .from('volunteers')
+          .select(VOLUNTEER_PROFILE_COLUMNS)
+          .eq('organization_id', organizationId)
+          .or(`name.ilike.${pattern},phone_number.ilike.${pattern}`)
+          .order('name')
+          .limit(8);
+        if (error) throw error;
+        return data as VolunteerProfile[];
+      } catch (error) {
+        console.error('Error searching volunteers:', error);
+        throw error;
+      }
+    },
+    enabled: term.length >= 2,
+    staleTime: 1000 * 30,
+  });
+
+  if (!suggestions || suggestions.length === 0) return null;
+
+  return (
+    <ul className="mt-1 border border-gray-200 rounded-md divide-y divide-gray-100 bg-white shadow-sm">
+      {suggestions.map(volunteer => (
+        <li key={volunteer.id}>
+          <button
+            type="button"
+            onClick={() => onSelect(volunteer)}
+            className="w-full px-3 py-2 text-left text-sm hover:bg-indigo-50 flex items-center justify-between"
+          >
+            <span className="flex items-center">
+              <UserCheck className="h-4 w-4 mr-2 text-gray-400" />
+              <span className="font-medium text-gray-900">{volunteer.name}</span>
+              {volunteer.organization && (
+                <span className="ml-2 text-gray-500">{volunteer.organization}</span>
+              )}
+            </span>
+            <span className="text-gray-500">{volunteer.phone_number}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
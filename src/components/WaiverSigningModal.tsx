@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { FileSignature, X } from 'lucide-react';
+import { PendingWaiver, SignatureMethod, signWaiver } from '../lib/waivers';
+
+interface WaiverSigningModalProps {
+  signupId: string;
+  volunteerName: string;
+  waivers: PendingWaiver[];
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+function SignaturePad({ onChange }: { onChange: (dataUrl: string | null) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  const pointAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = pointAt(event);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = pointAt(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={160}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full h-40 border border-gray-300 rounded-md bg-white touch-none"
+      />
+      <div className="flex justify-between mt-1">
+        <p className="text-xs text-gray-500">Sign with your finger or mouse</p>
+        <button type="button" onClick={clear} className="text-xs text-indigo-600 hover:text-indigo-500">
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Walks a volunteer through each waiver they still have to sign, one at a time
+export function WaiverSigningModal({
+  signupId,
+  volunteerName,
+  waivers,
+  onClose,
+  onComplete,
+}: WaiverSigningModalProps) {
+  const [index, setIndex] = useState(0);
+  const [readToEnd, setReadToEnd] = useState(false);
+  const [method, setMethod] = useState<SignatureMethod>('typed');
+  const [typedName, setTypedName] = useState('');
+  const [drawing, setDrawing] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+
+  const waiver = waivers[index];
+
+  // A waiver short enough to fit without scrolling counts as read
+  useEffect(() => {
+    const body = bodyRef.current;
+    setReadToEnd(!!body && body.scrollHeight <= body.clientHeight);
+    setTypedName('');
+    setDrawing(null);
+  }, [index]);
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const body = event.currentTarget;
+    if (body.scrollTop + body.clientHeight >= body.scrollHeight - 8) setReadToEnd(true);
+  };
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        await signWaiver(signupId, waiver, method, method === 'typed' ? typedName.trim() : drawing!);
+      } catch (error) {
+        console.error('Error signing waiver:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      if (index + 1 < waivers.length) {
+        toast.success(`Signed ${waiver.title}`);
+        setIndex(index + 1);
+      } else {
+        onComplete();
+      }
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign waiver');
+    },
+  });
+
+  const signed = method === 'typed' ? !!typedName.trim() : !!drawing;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[95vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+            <FileSignature className="h-5 w-5 mr-2 text-indigo-600" />
+            {waiver.title}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-2">
+          {volunteerName}, please read and sign before checking in.
+          {waivers.length > 1 && ` Waiver ${index + 1} of ${waivers.length}.`}
+          {' '}Version {waiver.version}.
+        </p>
+
+        <div
+          ref={bodyRef}
+          onScroll={handleScroll}
+          className="h-64 overflow-y-auto border border-gray-200 rounded-md p-3 text-sm text-gray-700 whitespace-pre-wrap"
+        >
+          {waiver.body}
+        </div>
+        {!readToEnd && (
+          <p className="mt-1 text-xs text-gray-500">Scroll to the end of the waiver to sign it.</p>
+        )}
+
+        <div className="mt-4">
+          <div className="flex space-x-2 mb-2">
+            {(['typed', 'drawn'] as const).map(m => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMethod(m)}
+                className={`px-3 py-1 rounded-md text-sm font-medium ${
+                  method === m ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {m === 'typed' ? 'Type Name' : 'Draw Signature'}
+              </button>
+            ))}
+          </div>
+          {method === 'typed' ? (
+            <input
+              type="text"
+              value={typedName}
+              onChange={event => setTypedName(event.target.value)}
+              placeholder="Type your full name"
+              disabled={!readToEnd}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm font-serif italic disabled:bg-gray-50"
+            />
+          ) : readToEnd ? (
+            <SignaturePad key={index} onChange={setDrawing} />
+          ) : (
+            <div className="h-40 border border-gray-200 rounded-md bg-gray-50" />
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => signMutation.mutate()}
+            disabled={!readToEnd || !signed || signMutation.isPending}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {signMutation.isPending
+              ? 'Signing...'
+              : index + 1 < waivers.length ? 'Sign and Continue' : 'Sign and Check In'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { Archive, Download, Edit2, FileSignature, RotateCcw, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  WAIVER_COLUMNS,
+  WAIVER_SIGNATURE_COLUMNS,
+  Waiver,
+  WaiverSignature,
+  currentVersion,
+  downloadSignatureReport,
+  saveWaiver,
+} from '../lib/waivers';
+
+interface WaiverFormData {
+  title: string;
+  position_id: string;
+  body: string;
+}
+
+interface WaiversModalProps {
+  event: {
+    id: string;
+    name: string;
+    timezone: string;
+  };
+  positions: Array<{ id: string; name: string }>;
+  onClose: () => void;
+}
+
+const emptyWaiver: WaiverFormData = { title: '', position_id: '', body: '' };
+
+export function WaiversModal({ event, positions, onClose }: WaiversModalProps) {
+  const queryClient = useQueryClient();
+  const [editingWaiver, setEditingWaiver] = useState<Waiver | null>(null);
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<WaiverFormData>({
+    values: editingWaiver
+      ? {
+          title: editingWaiver.title,
+          position_id: editingWaiver.position_id ?? '',
+          body: currentVersion(editingWaiver)?.body ?? '',
+        }
+      : emptyWaiver,
+  });
+
+  const { data: waivers } = useQuery({
+    queryKey: ['waivers', event.id],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('waivers')
+          .select(WAIVER_COLUMNS)
+          .eq('event_id', event.id)
+          .order('created_at');
+        if (error) throw error;
+        return data as unknown as Waiver[];
+      } catch (error) {
+        console.error('Error fetching waivers:', error);
+        throw error;
+      }
+    },
+  });
+
+  const { data: signatureCount } = useQuery({
+    queryKey: ['waiver-signatures', event.id, 'count'],
+    queryFn: async () => {
+      try {
+        const { count, error } = await supabase
+          .from('waiver_signatures')
+          .select('id', { count: 'exact', head: true })
+          .eq('event_id', event.id);
+        if (error) throw error;
+        return count ?? 0;
+      } catch (error) {
+        console.error('Error counting waiver signatures:', error);
+        throw error;
+      }
+    },
+  });
+
+  const closeForm = () => {
+    setEditingWaiver(null);
+    reset(emptyWaiver);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: WaiverFormData) => {
+      try {
+        await saveWaiver({
+          id: editingWaiver?.id ?? null,
+          event_id: event.id,
+          position_id: data.position_id || null,
+          title: data.title,
+          body: data.body,
+        });
+      } catch (error) {
+        console.error('Error saving waiver:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waivers', event.id] });
+      toast.success(editingWaiver ? 'Waiver updated' : 'Waiver added');
+      closeForm();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to save waiver');
+    },
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async ({ waiver, archived }: { waiver: Waiver; archived: boolean }) => {
+      try {
+        const { error } = await supabase
+          .from('waivers')
+          .update({ archived_at: archived ? new Date().toISOString() : null })
+          .eq('id', waiver.id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error archiving waiver:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { archived }) => {
+      queryClient.invalidateQueries({ queryKey: ['waivers', event.id] });
+      toast.success(archived ? 'Waiver archived' : 'Waiver restored');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update waiver');
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('waiver_signatures')
+          .select(WAIVER_SIGNATURE_COLUMNS)
+          .eq('event_id', event.id)
+          .order('signed_at');
+        if (error) throw error;
+        return (data as any[]).map(item => {
+          const signup = Array.isArray(item.signup) ? item.signup[0] : item.signup;
+          return {
+            ...item,
+            signup: signup && {
+              ...signup,
+              position: Array.isArray(signup.position) ? signup.position[0] : signup.position,
+            },
+          };
+        }) as WaiverSignature[];
+      } catch (error) {
+        console.error('Error fetching waiver signatures:', error);
+        throw error;
+      }
+    },
+    onSuccess: (signatures) => {
+      downloadSignatureReport(
+        `${event.name.toLowerCase().replace(/\s+/g, '-')}-signed-waivers.csv`,
+        signatures,
+        event.timezone
+      );
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to export signed waivers');
+    },
+  });
+
+  const positionName = (positionId: string | null) =>
+    positionId ? positions.find(p => p.id === positionId)?.name ?? 'Unknown position' : 'All positions';
+
+  const editingVersion = editingWaiver ? currentVersion(editingWaiver) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[95vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+            <FileSignature className="h-5 w-5 mr-2 text-indigo-600" />
+            Waivers - {event.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">
+          Volunteers sign these on the check-in page before they can check themselves in.
+        </p>
+
+        {waivers && waivers.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-6">No waivers yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-6">
+            {waivers?.map(waiver => {
+              const version = currentVersion(waiver);
+              return (
+                <li key={waiver.id} className="px-3 py-2 flex items-center justify-between">
+                  <div className={`text-sm ${waiver.archived_at ? 'opacity-50' : ''}`}>
+                    <p className="text-gray-900">
+                      {waiver.title}
+                      {waiver.archived_at && <span className="ml-2 text-xs text-gray-500">(archived)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {positionName(waiver.position_id)}
+                      {version && ` · version ${version.version}, published ${new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' }).format(new Date(version.published_at))}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {!waiver.archived_at && (
+                      <button
+                        onClick={() => setEditingWaiver(waiver)}
+                        className="text-gray-400 hover:text-gray-600"
+                        title="Edit waiver"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => archiveMutation.mutate({ waiver, archived: !waiver.archived_at })}
+                      disabled={archiveMutation.isPending}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                      title={waiver.archived_at ? 'Ask for this waiver again' : 'Stop asking for this waiver'}
+                    >
+                      {waiver.archived_at ? <RotateCcw className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-700 mb-2">{editingWaiver ? 'Edit Waiver' : 'Add a Waiver'}</h3>
+        <form onSubmit={handleSubmit(data => saveMutation.mutate(data))} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Title</label>
+              <input
+                {...register('title', { validate: value => !!value.trim() || 'Enter a title' })}
+                placeholder="Liability Waiver"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.title && (
+                <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Applies To</label>
+              <select
+                {...register('position_id')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">All positions</option>
+                {positions.map(position => (
+                  <option key={position.id} value={position.id}>{position.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Waiver Text</label>
+            <textarea
+              {...register('body', { validate: value => !!value.trim() || 'Enter the waiver text' })}
+              rows={8}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            {errors.body && (
+              <p className="mt-1 text-sm text-red-600">{errors.body.message}</p>
+            )}
+            {editingVersion && (
+              <p className="mt-1 text-xs text-gray-500">
+                Changing the text publishes version {editingVersion.version + 1}. Volunteers who signed an
+                earlier version are asked to sign again; their earlier signatures are kept.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            {editingWaiver && (
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {editingWaiver ? 'Update Waiver' : 'Add Waiver'}
+            </button>
+          </div>
+        </form>
+
+        <div className="mt-6 pt-4 border-t border-gray-200 flex items-center justify-between">
+          <p className="text-sm text-gray-700">
+            {signatureCount ?? 0} signature{signatureCount === 1 ? '' : 's'} collected
+          </p>
+          <button
+            onClick={() => exportMutation.mutate()}
+            disabled={!signatureCount || exportMutation.isPending}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export Signed Waivers
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
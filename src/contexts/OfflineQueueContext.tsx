@@ -0,0 +1,164 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { useAuth } from './AuthContext';
+import {
+  QueuedAction,
+  QueuedArrival,
+  QueuedMessage,
+  addArrival,
+  addMessage,
+  clearSnapshots,
+  isQueueKey,
+  loadQueue,
+  refreshArrival,
+  replayAction,
+  saveQueue,
+} from '../lib/offlineQueue';
+
+interface OfflineQueueContextType {
+  actions: QueuedAction[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  queueArrival: (arrival: Omit<QueuedArrival, 'id' | 'kind' | 'queued_at' | 'conflict'>) => void;
+  queueMessage: (message: QueuedMessage['message']) => void;
+  sync: () => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => void;
+}
+
+const OfflineQueueContext = createContext<OfflineQueueContextType | undefined>(undefined);
+
+export function OfflineQueueProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const { user, loading } = useAuth();
+  const userId = user?.id ?? null;
+  const [actions, setActions] = useState<QueuedAction[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  // Replays read and write the queue between renders
+  const actionsRef = useRef(actions);
+  const syncingRef = useRef(false);
+
+  // Show the signed-in user's queue; signing out hides it and drops the snapshots
+  useEffect(() => {
+    if (loading) return;
+    actionsRef.current = userId ? loadQueue(userId) : [];
+    setActions(actionsRef.current);
+    if (!userId) clearSnapshots();
+  }, [userId, loading]);
+
+  const update = useCallback((change: (queue: QueuedAction[]) => QueuedAction[]) => {
+    if (!userId) return;
+    actionsRef.current = change(actionsRef.current);
+    saveQueue(userId, actionsRef.current);
+    setActions(actionsRef.current);
+  }, [userId]);
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine || !userId) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    let synced = 0;
+    let refused = 0;
+    try {
+      for (const action of actionsRef.current.filter(a => !a.conflict)) {
+        const result = await replayAction(action);
+        if (result.status === 'offline') break;
+        if (result.status === 'done') {
+          synced += 1;
+          update(queue => queue.filter(a => a.id !== action.id));
+        } else {
+          refused += 1;
+          update(queue => queue.map(a => (a.id === action.id ? { ...a, conflict: result.conflict } : a)));
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing offline actions:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+
+    if (synced > 0) {
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success(`${synced} offline action${synced === 1 ? '' : 's'} synced`);
+    }
+    if (refused > 0) {
+      toast.error(`${refused} offline action${refused === 1 ? ' was' : 's were'} refused. Review ${refused === 1 ? 'it' : 'them'} on the check-in page.`);
+    }
+  }, [queryClient, update, userId]);
+
+  const queueArrival = useCallback<OfflineQueueContextType['queueArrival']>(
+    arrival => update(queue => addArrival(queue, arrival)),
+    [update]
+  );
+
+  const queueMessage = useCallback<OfflineQueueContextType['queueMessage']>(
+    message => update(queue => addMessage(queue, message)),
+    [update]
+  );
+
+  const retry = useCallback(async (id: string) => {
+    const action = actionsRef.current.find(a => a.id === id);
+    if (!action) return;
+    try {
+      const retried = action.kind === 'arrival' ? await refreshArrival(action) : { ...action, conflict: null };
+      update(queue => queue.map(a => (a.id === id ? retried : a)));
+    } catch (error) {
+      console.error('Error retrying offline action:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to retry');
+      return;
+    }
+    await sync();
+  }, [sync, update]);
+
+  const discard = useCallback((id: string) => {
+    update(queue => queue.filter(a => a.id !== id));
+  }, [update]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+    // Another tab queued or synced something
+    const handleStorage = (e: StorageEvent) => {
+      if (!userId || !isQueueKey(e.key, userId)) return;
+      actionsRef.current = loadQueue(userId);
+      setActions(actionsRef.current);
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('storage', handleStorage);
+
+    // Actions left over from an earlier visit
+    sync();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [sync, userId]);
+
+  return (
+    <OfflineQueueContext.Provider
+      value={{ actions, isOnline, isSyncing, queueArrival, queueMessage, sync, retry, discard }}
+    >
+      {children}
+    </OfflineQueueContext.Provider>
+  );
+}
+
+export function useOfflineQueue() {
+  const context = useContext(OfflineQueueContext);
+  if (context === undefined) {
+    throw new Error('useOfflineQueue must be used within an OfflineQueueProvider');
+  }
+  return context;
+}
@@ -0,0 +1,70 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { OrganizationMembership, OrganizationRole } from '../lib/organizations';
+
+interface OrganizationContextType {
+  organizations: OrganizationMembership[];
+  currentOrganization: OrganizationMembership | null;
+  switchOrganization: (id: string) => void;
+  isLoading: boolean;
+}
+
+const STORAGE_KEY = 'currentOrganizationId';
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+export function OrganizationProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [currentId, setCurrentId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+
+  const { data: organizations = [], isLoading } = useQuery({
+    queryKey: ['organizations', user?.id],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('organization_members')
+          .select('role, organization:organizations(id, name, default_timezone, phone_country_code)')
+          .eq('user_id', user?.id);
+        if (error) throw error;
+        return (data as any[])
+          .map(item => {
+            const organization = Array.isArray(item.organization) ? item.organization[0] : item.organization;
+            return { ...organization, role: item.role as OrganizationRole } as OrganizationMembership;
+          })
+          .sort((a, b) => a.name.localeCompare(b.name));
+      } catch (error) {
+        console.error('Error fetching organizations:', error);
+        throw error;
+      }
+    },
+    enabled: !!user,
+  });
+
+  // Fall back to the first organization when the saved one is gone or was never set
+  const currentOrganization =
+    organizations.find(o => o.id === currentId) ?? organizations[0] ?? null;
+
+  useEffect(() => {
+    if (currentOrganization) {
+      localStorage.setItem(STORAGE_KEY, currentOrganization.id);
+    }
+  }, [currentOrganization]);
+
+  return (
+    <OrganizationContext.Provider
+      value={{ organizations, currentOrganization, switchOrganization: setCurrentId, isLoading }}
+    >
+      {children}
+    </OrganizationContext.Provider>
+  );
+}
+
+export function useOrganization() {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+}
@@ -0,0 +1,48 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { EventPermission, EventRole, roleCan } from '../lib/eventRoles';
+
+// The current user's role on every event they can reach, directly or through an organization.
+export function useEventRoles() {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['event-roles', user?.id],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('my_event_roles')
+          .select('event_id, role');
+        if (error) throw error;
+        return new Map((data as Array<{ event_id: string; role: EventRole }>).map(m => [m.event_id, m.role]));
+      } catch (error) {
+        console.error('Error fetching event roles:', error);
+        throw error;
+      }
+    },
+    enabled: !!user,
+  });
+
+  const getRole = useCallback(
+    (eventId: string | null | undefined): EventRole | null =>
+      (eventId && data?.get(eventId)) || null,
+    [data]
+  );
+
+  const can = useCallback(
+    (eventId: string | null | undefined, permission: EventPermission) =>
+      roleCan(getRole(eventId), permission),
+    [getRole]
+  );
+
+  // Whether the user holds the permission on at least one event
+  const canOnAnyEvent = useCallback(
+    (permission: EventPermission) =>
+      [...(data?.values() ?? [])].some(role => roleCan(role, permission)),
+    [data]
+  );
+
+  return { getRole, can, canOnAnyEvent, isLoading };
+}
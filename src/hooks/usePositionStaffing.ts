@@ -0,0 +1,34 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { EMPTY_STAFFING, PositionStaffing, StaffingCounts } from '../lib/staffing';
+
+// Staffing counts for every position the user can see, or for one event's positions.
+// Keyed under ['positions'] so the invalidations pages already do after signup changes
+// refresh these counts too.
+export function usePositionStaffing(eventId?: string | null) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['positions', 'staffing', eventId ?? 'all'],
+    queryFn: async () => {
+      try {
+        let query = supabase.from('position_staffing').select('*');
+        if (eventId) {
+          query = query.eq('event_id', eventId);
+        }
+        const { data, error } = await query;
+        if (error) throw error;
+        return new Map((data as PositionStaffing[]).map(row => [row.position_id, row]));
+      } catch (error) {
+        console.error('Error fetching position staffing:', error);
+        throw error;
+      }
+    },
+  });
+
+  const getStaffing = useCallback(
+    (positionId: string): StaffingCounts => data?.get(positionId) ?? EMPTY_STAFFING,
+    [data]
+  );
+
+  return { getStaffing, isLoading };
+}
@@ -0,0 +1,95 @@
+// The attendance ledger: every check-in and check-out of a signup, and the hours worked
+// that the `signup_hours` view derives from it.
+
+import { formatDistance } from './geofence';
+
+export type AttendanceSource = 'volunteer' | 'staff' | 'auto_checkout';
+
+export const ATTENDANCE_SOURCE_LABELS: Record<AttendanceSource, string> = {
+  volunteer: 'Self check-in',
+  staff: 'Staff',
+  auto_checkout: 'Automatic check-out',
+};
+
+export interface AttendanceRecord {
+  id: string;
+  signup_id: string;
+  position_id: string;
+  volunteer_name: string;
+  kind: 'check_in' | 'check_out';
+  occurred_at: string;
+  // Null for records carried over from before the ledger
+  source: AttendanceSource | null;
+  // Where the device was, when it shared its location
+  distance_m: number | null;
+  accuracy_m: number | null;
+  // Null when the position's geofence was off
+  outside_geofence: boolean | null;
+  geofence_override: boolean;
+}
+
+export const ATTENDANCE_RECORD_COLUMNS =
+  'id, signup_id, position_id, volunteer_name, kind, occurred_at, source, distance_m, accuracy_m, outside_geofence, geofence_override';
+
+// E.g. "420 m away (±30 m)"; empty for staff and automatic records without a location
+export function describeRecordLocation(record: AttendanceRecord) {
+  if (record.distance_m === null) {
+    return record.outside_geofence ? 'no location shared' : '';
+  }
+  const accuracy = record.accuracy_m === null ? '' : ` (±${formatDistance(Number(record.accuracy_m))})`;
+  return `${formatDistance(Number(record.distance_m))} away${accuracy}`;
+}
+
+export interface SignupHours {
+  signup_id: string;
+  position_id: string;
+  volunteer_id: string | null;
+  volunteer_name: string;
+  starts_at: string;
+  ends_at: string;
+  arrived: boolean;
+  scheduled_hours: number;
+  actual_hours: number;
+  check_ins: number;
+}
+
+export interface HoursSummary {
+  key: string;
+  label: string;
+  signups: number;
+  scheduledHours: number;
+  actualHours: number;
+  // Signups with a shift that has ended and no check-in
+  missed: number;
+}
+
+// Volunteers without a directory profile are grouped by name
+export const volunteerKey = (row: SignupHours) => row.volunteer_id ?? `name:${row.volunteer_name.toLowerCase()}`;
+
+export function summarizeHours(
+  rows: SignupHours[],
+  keyOf: (row: SignupHours) => string,
+  labelOf: (row: SignupHours) => string,
+  now: Date = new Date()
+): HoursSummary[] {
+  const summaries = new Map<string, HoursSummary>();
+  rows.forEach(row => {
+    const key = keyOf(row);
+    const summary = summaries.get(key) ?? {
+      key,
+      label: labelOf(row),
+      signups: 0,
+      scheduledHours: 0,
+      actualHours: 0,
+      missed: 0,
+    };
+    summary.signups += 1;
+    summary.scheduledHours += Number(row.scheduled_hours);
+    summary.actualHours += Number(row.actual_hours);
+    if (row.check_ins === 0 && new Date(row.ends_at) <= now) summary.missed += 1;
+    summaries.set(key, summary);
+  });
+  return Array.from(summaries.values()).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export const formatHours = (hours: number) => hours.toFixed(1);
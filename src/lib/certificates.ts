@@ -0,0 +1,141 @@
+// Certificates of volunteer service, issued from the attendance ledger, and the public
+// lookup of their verification codes.
+
+import { supabase } from './supabase';
+import { formatHours } from './attendance';
+import { LETTER_LANDSCAPE, PdfColor, PdfItem, PdfPage, downloadPdf, wrapText } from './pdf';
+
+export interface ServiceCertificate {
+  id: string;
+  event_id: string;
+  volunteer_key: string;
+  volunteer_name: string;
+  code: string;
+  positions: string[];
+  first_day: string;
+  last_day: string;
+  hours: number;
+  signer_name: string;
+  signer_title: string | null;
+  issued_at: string;
+}
+
+export interface VerifiedCertificate {
+  code: string;
+  volunteer_name: string;
+  event_name: string;
+  organization_name: string;
+  positions: string[];
+  first_day: string;
+  last_day: string;
+  hours: number;
+  signer_name: string;
+  signer_title: string | null;
+  issued_at: string;
+  // Set when a later certificate replaced this one
+  superseded_at: string | null;
+}
+
+// What every certificate of an event shares
+export interface CertificateIssuer {
+  eventName: string;
+  organizationName: string;
+}
+
+export const SERVICE_CERTIFICATE_COLUMNS =
+  'id, event_id, volunteer_key, volunteer_name, code, positions, first_day, last_day, hours, signer_name, signer_title, issued_at';
+
+export const certificateUrl = (code: string) => `${window.location.origin}/verify/${code}`;
+
+// Issues certificates to every volunteer with verified hours and returns the event's current ones
+export async function issueCertificates(
+  eventId: string,
+  signerName: string,
+  signerTitle: string
+): Promise<ServiceCertificate[]> {
+  const { data, error } = await supabase.rpc('issue_certificates', {
+    p_event_id: eventId,
+    p_signer_name: signerName,
+    p_signer_title: signerTitle,
+  });
+  if (error) throw new Error(error.message);
+  return data as ServiceCertificate[];
+}
+
+// Null when no certificate has the code
+export async function verifyCertificate(code: string): Promise<VerifiedCertificate | null> {
+  const { data, error } = await supabase.rpc('verify_certificate', { p_code: code });
+  if (error) throw new Error(error.message);
+  return data as unknown as VerifiedCertificate | null;
+}
+
+// "June 1, 2025", or "June 1, 2025 to June 3, 2025"
+export function formatServiceDays(firstDay: string, lastDay: string): string {
+  const format = (date: string) =>
+    new Intl.DateTimeFormat(undefined, { timeZone: 'UTC', dateStyle: 'long' }).format(new Date(`${date}T00:00:00Z`));
+  return firstDay === lastDay ? format(firstDay) : `${format(firstDay)} to ${format(lastDay)}`;
+}
+
+const ACCENT: PdfColor = [0.31, 0.27, 0.9];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+
+export function certificatePage(certificate: ServiceCertificate, issuer: CertificateIssuer): PdfPage {
+  const { width, height } = LETTER_LANDSCAPE;
+  const center = width / 2;
+  const hours = formatHours(Number(certificate.hours));
+
+  const service = wrapText(
+    `has completed ${hours} ${hours === '1.0' ? 'hour' : 'hours'} of volunteer service at ${issuer.eventName}` +
+      ` as ${certificate.positions.join(', ')}`,
+    15,
+    600
+  );
+
+  const items: PdfItem[] = [
+    { type: 'rect', x: 30, y: 30, width: width - 60, height: height - 60, lineWidth: 3, color: ACCENT },
+    { type: 'rect', x: 40, y: 40, width: width - 80, height: height - 80, lineWidth: 0.75, color: ACCENT },
+    { type: 'text', x: center, y: 100, text: issuer.organizationName, size: 16, font: 'bold', align: 'center', color: MUTED },
+    { type: 'text', x: center, y: 150, text: 'Certificate of Volunteer Service', size: 32, font: 'bold', align: 'center', color: ACCENT },
+    { type: 'text', x: center, y: 200, text: 'This certifies that', size: 15, align: 'center' },
+    { type: 'text', x: center, y: 250, text: certificate.volunteer_name, size: 30, font: 'bold', align: 'center' },
+    { type: 'line', x1: center - 220, y1: 262, x2: center + 220, y2: 262, width: 0.75, color: MUTED },
+    ...service.map((line, index): PdfItem => ({
+      type: 'text', x: center, y: 295 + index * 20, text: line, size: 15, align: 'center',
+    })),
+    {
+      type: 'text',
+      x: center,
+      y: 305 + service.length * 20,
+      text: formatServiceDays(certificate.first_day, certificate.last_day),
+      size: 15,
+      align: 'center',
+    },
+    { type: 'line', x1: 90, y1: 480, x2: 340, y2: 480, width: 0.75 },
+    { type: 'text', x: 90, y: 498, text: certificate.signer_name, size: 12, font: 'bold' },
+    ...(certificate.signer_title
+      ? [{ type: 'text', x: 90, y: 514, text: certificate.signer_title, size: 11 } as PdfItem]
+      : []),
+    { type: 'text', x: 90, y: certificate.signer_title ? 530 : 514, text: issuer.organizationName, size: 11, color: MUTED },
+    {
+      type: 'text',
+      x: width - 90,
+      y: 498,
+      text: `Issued ${new Intl.DateTimeFormat(undefined, { dateStyle: 'long' }).format(new Date(certificate.issued_at))}`,
+      size: 11,
+      align: 'right',
+      color: MUTED,
+    },
+    { type: 'text', x: width - 90, y: 514, text: `Verification code ${certificate.code}`, size: 11, font: 'bold', align: 'right' },
+    { type: 'text', x: width - 90, y: 530, text: certificateUrl(certificate.code), size: 9, font: 'italic', align: 'right', color: MUTED },
+  ];
+
+  return { width, height, items };
+}
+
+export function downloadCertificates(fileName: string, certificates: ServiceCertificate[], issuer: CertificateIssuer) {
+  downloadPdf(
+    fileName,
+    certificates.map(certificate => certificatePage(certificate, issuer)),
+    `${issuer.eventName} - Certificates of Volunteer Service`
+  );
+}
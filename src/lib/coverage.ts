@@ -0,0 +1,216 @@
+// Time-of-day staffing coverage for an event.
+//
+// A position's demand comes from its shifts (each shift needs `needed` volunteers over
+// its window). Positions without shifts need `needed` volunteers for the whole staffed
+// span of the event. Supply is the number of signups on the position that overlap a
+// given moment. Times are minutes after midnight of the event's first day, on the wall
+// clock of the event's time zone, so later days of a multi-day event continue past 1440.
+
+import { Shift, ShiftWindow } from './shifts';
+import { daysBetween, toZonedDateTime } from './timezone';
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface TimelineBar {
+  id: string;
+  label: string;
+  range: TimeRange;
+  lane: number;
+}
+
+export interface CoverageSegment extends TimeRange {
+  staffed: number;
+  needed: number;
+}
+
+export interface PositionTimeline {
+  positionId: string;
+  positionName: string;
+  bars: TimelineBar[];
+  lanes: number;
+  segments: CoverageSegment[];
+}
+
+export interface CoverageGap extends TimeRange {
+  positionId: string;
+  positionName: string;
+  // Largest number of missing volunteers at any point in the gap
+  shortfall: number;
+  // Total missing volunteer-minutes across the gap, used for ranking
+  missingMinutes: number;
+}
+
+interface TimelinePosition {
+  id: string;
+  name: string;
+  needed: number;
+}
+
+interface TimelineSignup extends ShiftWindow {
+  id: string;
+  position_id: string;
+  volunteer_name: string;
+}
+
+interface TimelineEvent {
+  date: string;
+  timezone: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Place a window on the event's timeline. The end keeps the window's real duration so a
+// DST change inside it does not stretch or shrink the bar.
+export const toTimeRange = (window: ShiftWindow, event: TimelineEvent): TimeRange => {
+  const zonedStart = toZonedDateTime(window.starts_at, event.timezone);
+  const start = daysBetween(event.date, zonedStart.date) * MINUTES_PER_DAY + zonedStart.minutes;
+  const duration = (new Date(window.ends_at).getTime() - new Date(window.starts_at).getTime()) / 60000;
+  return { start, end: start + duration };
+};
+
+export const formatMinutes = (value: number) => {
+  const minutes = Math.round(value);
+  const dayOffset = Math.floor(minutes / MINUTES_PER_DAY);
+  const ofDay = minutes - dayOffset * MINUTES_PER_DAY;
+  const hh = String(Math.floor(ofDay / 60)).padStart(2, '0');
+  const mm = String(ofDay % 60).padStart(2, '0');
+  if (dayOffset === 0) return `${hh}:${mm}`;
+  return `${hh}:${mm} (${dayOffset > 0 ? '+' : ''}${dayOffset}d)`;
+};
+
+const overlaps = (range: TimeRange, at: number) => range.start <= at && at < range.end;
+
+// Greedy interval partitioning so overlapping bars are drawn in separate lanes.
+function assignLanes(bars: Omit<TimelineBar, 'lane'>[]): { bars: TimelineBar[]; lanes: number } {
+  const laneEnds: number[] = [];
+  const placed = [...bars]
+    .sort((a, b) => a.range.start - b.range.start || a.range.end - b.range.end)
+    .map(bar => {
+      let lane = laneEnds.findIndex(end => end <= bar.range.start);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(bar.range.end);
+      } else {
+        laneEnds[lane] = bar.range.end;
+      }
+      return { ...bar, lane };
+    });
+  return { bars: placed, lanes: Math.max(1, laneEnds.length) };
+}
+
+// Split the day at every start and end so staffing is constant within each segment.
+function buildSegments(
+  demand: Array<TimeRange & { needed: number }>,
+  supply: TimeRange[]
+): CoverageSegment[] {
+  const points = new Set<number>();
+  [...demand, ...supply].forEach(range => {
+    points.add(range.start);
+    points.add(range.end);
+  });
+  const sorted = [...points].sort((a, b) => a - b);
+
+  const segments: CoverageSegment[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = sorted[i];
+    const end = sorted[i + 1];
+    const needed = demand
+      .filter(range => overlaps(range, start))
+      .reduce((sum, range) => sum + range.needed, 0);
+    const staffed = supply.filter(range => overlaps(range, start)).length;
+    if (needed > 0 || staffed > 0) {
+      segments.push({ start, end, needed, staffed });
+    }
+  }
+  return segments;
+}
+
+export function buildCoverageTimelines(
+  positions: TimelinePosition[],
+  shifts: Shift[],
+  signups: TimelineSignup[],
+  event: TimelineEvent
+): PositionTimeline[] {
+  // Positions without shifts are expected to be staffed across the event's whole span
+  const allRanges = [
+    ...shifts.map(s => toTimeRange(s, event)),
+    ...signups.map(s => toTimeRange(s, event)),
+  ];
+  const eventSpan: TimeRange | null = allRanges.length > 0
+    ? {
+        start: Math.min(...allRanges.map(r => r.start)),
+        end: Math.max(...allRanges.map(r => r.end)),
+      }
+    : null;
+
+  return positions.map(position => {
+    const positionShifts = shifts.filter(s => s.position_id === position.id);
+    const positionSignups = signups.filter(s => s.position_id === position.id);
+
+    const demand = positionShifts.length > 0
+      ? positionShifts.map(s => ({ ...toTimeRange(s, event), needed: s.needed }))
+      : eventSpan ? [{ ...eventSpan, needed: position.needed }] : [];
+
+    const { bars, lanes } = assignLanes(positionSignups.map(signup => ({
+      id: signup.id,
+      label: signup.volunteer_name,
+      range: toTimeRange(signup, event),
+    })));
+
+    return {
+      positionId: position.id,
+      positionName: position.name,
+      bars,
+      lanes,
+      segments: buildSegments(demand, bars.map(bar => bar.range)),
+    };
+  });
+}
+
+export const isUnderstaffed = (segment: CoverageSegment) => segment.staffed < segment.needed;
+
+// Merge adjacent understaffed segments into gaps, worst (most missing volunteer-minutes) first.
+export function findCoverageGaps(timelines: PositionTimeline[]): CoverageGap[] {
+  const gaps: CoverageGap[] = [];
+
+  timelines.forEach(timeline => {
+    let current: CoverageGap | null = null;
+    timeline.segments.forEach(segment => {
+      if (!isUnderstaffed(segment)) {
+        current = null;
+        return;
+      }
+      const missing = segment.needed - segment.staffed;
+      if (current && current.end === segment.start) {
+        current.end = segment.end;
+        current.shortfall = Math.max(current.shortfall, missing);
+        current.missingMinutes += missing * (segment.end - segment.start);
+      } else {
+        current = {
+          positionId: timeline.positionId,
+          positionName: timeline.positionName,
+          start: segment.start,
+          end: segment.end,
+          shortfall: missing,
+          missingMinutes: missing * (segment.end - segment.start),
+        };
+        gaps.push(current);
+      }
+    });
+  });
+
+  return gaps.sort((a, b) => b.missingMinutes - a.missingMinutes || a.start - b.start);
+}
+
+// Whole-hour bounds that contain every segment and bar, for drawing the time axis.
+export function getTimelineBounds(timelines: PositionTimeline[]): TimeRange | null {
+  const ranges = timelines.flatMap(t => [...t.segments, ...t.bars.map(b => b.range)]);
+  if (ranges.length === 0) return null;
+  return {
+    start: Math.floor(Math.min(...ranges.map(r => r.start)) / 60) * 60,
+    end: Math.ceil(Math.max(...ranges.map(r => r.end)) / 60) * 60,
+  };
+}
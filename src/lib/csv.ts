@@ -0,0 +1,74 @@
+// Reading and writing CSV files as spreadsheets export them: comma separated, fields with
+// commas, quotes or line breaks wrapped in double quotes, and quotes doubled inside them.
+
+import { downloadFile } from './download';
+
+export interface CsvRow {
+  // Line of the file the row starts on, counting from 1
+  line: number;
+  cells: string[];
+}
+
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Quoted fields may span lines, so rows and lines are counted apart
+  let line = 1;
+  let rowLine = 1;
+
+  // Spreadsheets often save a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  // Blank lines carry no data
+  return rows.filter(({ cells }) => cells.some(cell => cell.trim()));
+}
+
+// Spreadsheets run a cell starting with one of these as a formula. Cells copied from an
+// uploaded file are prefixed with a quote, so they are shown as text.
+export const escapeFormula = (value: string) => (/^[=+\-@]/.test(value) ? `'${value}` : value);
+
+const escapeField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]) =>
+  rows.map(row => row.map(escapeField).join(',')).join('\n');
+
+export const downloadCsv = (fileName: string, rows: string[][]) =>
+  downloadFile(fileName, toCsv(rows), 'text/csv;charset=utf-8;');
@@ -14,31 +14,52 @@ export interface Database {
           id: string
           name: string
           date: string
+          end_date: string | null
           time: string
           location: string
           user_id: string
           created_at: string
           custom_map_url: string | null
+          map_calibration: Json | null
+          timezone: string
+          organization_id: string
+          auto_promote_waitlist: boolean
+          geofence_mode: 'off' | 'warn' | 'block'
+          geofence_radius_m: number
         }
         Insert: {
           id?: string
           name: string
           date: string
+          end_date?: string | null
           time: string
           location: string
           user_id: string
           created_at?: string
           custom_map_url?: string | null
+          map_calibration?: Json | null
+          timezone?: string
+          organization_id: string
+          auto_promote_waitlist?: boolean
+          geofence_mode?: 'off' | 'warn' | 'block'
+          geofence_radius_m?: number
         }
         Update: {
           id?: string
           name?: string
           date?: string
+          end_date?: string | null
           time?: string
           location?: string
           user_id?: string
           created_at?: string
           custom_map_url?: string | null
+          map_calibration?: Json | null
+          timezone?: string
+          organization_id?: string
+          auto_promote_waitlist?: boolean
+          geofence_mode?: 'off' | 'warn' | 'block'
+          geofence_radius_m?: number
         }
       }
       volunteer_positions: {
@@ -47,39 +68,74 @@ export interface Database {
           event_id: string
           name: string
           needed: number
-          filled: number
           description: string | null
           skill_level: string | null
           latitude: number
           longitude: number
           user_id: string
           created_at: string
+          geofence_mode: 'off' | 'warn' | 'block' | null
+          geofence_radius_m: number | null
         }
         Insert: {
           id?: string
           event_id: string
           name: string
           needed: number
-          filled?: number
           description?: string | null
           skill_level?: string | null
           latitude: number
           longitude: number
           user_id: string
           created_at?: string
+          geofence_mode?: 'off' | 'warn' | 'block' | null
+          geofence_radius_m?: number | null
         }
         Update: {
           id?: string
           event_id?: string
           name?: string
           needed?: number
-          filled?: number
           description?: string | null
           skill_level?: string | null
           latitude?: number
           longitude?: number
           user_id?: string
           created_at?: string
+          geofence_mode?: 'off' | 'warn' | 'block' | null
+          geofence_radius_m?: number | null
+        }
+      }
+      shifts: {
+        Row: {
+          id: string
+          position_id: string
+          start_time: string
+          end_time: string
+          starts_at: string
+          ends_at: string
+          needed: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          position_id: string
+          start_time?: string
+          end_time?: string
+          starts_at: string
+          ends_at: string
+          needed: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          position_id?: string
+          start_time?: string
+          end_time?: string
+          starts_at?: string
+          ends_at?: string
+          needed?: number
+          created_at?: string
         }
       }
       volunteer_signups: {
@@ -90,9 +146,19 @@ export interface Database {
           phone_number: string
           start_time: string
           end_time: string
+          starts_at: string
+          ends_at: string
           arrived: boolean
+          checked_in_at: string | null
+          checked_out_at: string | null
           other_notes: string | null
           organization: string | null
+          shift_id: string | null
+          version: number
+          volunteer_id: string | null
+          group_id: string | null
+          awaiting_member: boolean
+          custom_fields: Json
           created_at: string
         }
         Insert: {
@@ -100,11 +166,21 @@ export interface Database {
           position_id: string
           volunteer_name: string
           phone_number: string
-          start_time: string
-          end_time: string
+          start_time?: string
+          end_time?: string
+          starts_at: string
+          ends_at: string
           arrived?: boolean
+          checked_in_at?: string | null
+          checked_out_at?: string | null
           other_notes?: string | null
           organization?: string | null
+          shift_id?: string | null
+          version?: number
+          volunteer_id?: string | null
+          group_id?: string | null
+          awaiting_member?: boolean
+          custom_fields?: Json
           created_at?: string
         }
         Update: {
@@ -114,21 +190,1035 @@ export interface Database {
           phone_number?: string
           start_time?: string
           end_time?: string
+          starts_at?: string
+          ends_at?: string
           arrived?: boolean
+          checked_in_at?: string | null
+          checked_out_at?: string | null
           other_notes?: string | null
           organization?: string | null
+          shift_id?: string | null
+          version?: number
+          volunteer_id?: string | null
+          group_id?: string | null
+          awaiting_member?: boolean
+          custom_fields?: Json
+          created_at?: string
+        }
+      }
+      auto_checkout_runs: {
+        Row: {
+          id: string
+          ran_at: string
+          checked_out: number
+        }
+        Insert: {
+          id?: string
+          ran_at?: string
+          checked_out?: number
+        }
+        Update: {
+          id?: string
+          ran_at?: string
+          checked_out?: number
+        }
+      }
+      auto_checkout_log: {
+        Row: {
+          id: string
+          run_id: string
+          signup_id: string | null
+          position_id: string
+          event_id: string
+          volunteer_name: string
+          shift_end_at: string
+          checked_out_at: string
+        }
+        Insert: {
+          id?: string
+          run_id: string
+          signup_id?: string | null
+          position_id: string
+          event_id: string
+          volunteer_name: string
+          shift_end_at: string
+          checked_out_at?: string
+        }
+        Update: {
+          id?: string
+          run_id?: string
+          signup_id?: string | null
+          position_id?: string
+          event_id?: string
+          volunteer_name?: string
+          shift_end_at?: string
+          checked_out_at?: string
+        }
+      }
+      event_members: {
+        Row: {
+          id: string
+          event_id: string
+          user_id: string
+          email: string | null
+          role: 'owner' | 'coordinator' | 'checkin'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          user_id: string
+          email?: string | null
+          role: 'owner' | 'coordinator' | 'checkin'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          user_id?: string
+          email?: string | null
+          role?: 'owner' | 'coordinator' | 'checkin'
+          created_at?: string
+        }
+      }
+      event_invitations: {
+        Row: {
+          id: string
+          event_id: string
+          email: string
+          role: 'owner' | 'coordinator' | 'checkin'
+          token: string
+          invited_by: string | null
+          created_at: string
+          accepted_at: string | null
+          accepted_by: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          email: string
+          role: 'owner' | 'coordinator' | 'checkin'
+          token?: string
+          invited_by?: string | null
+          created_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          email?: string
+          role?: 'owner' | 'coordinator' | 'checkin'
+          token?: string
+          invited_by?: string | null
+          created_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+        }
+      }
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          default_timezone: string
+          phone_country_code: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          default_timezone?: string
+          phone_country_code?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          default_timezone?: string
+          phone_country_code?: string
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      organization_members: {
+        Row: {
+          id: string
+          organization_id: string
+          user_id: string
+          email: string | null
+          role: 'admin' | 'member'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          user_id: string
+          email?: string | null
+          role: 'admin' | 'member'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          user_id?: string
+          email?: string | null
+          role?: 'admin' | 'member'
+          created_at?: string
+        }
+      }
+      organization_invitations: {
+        Row: {
+          id: string
+          organization_id: string
+          email: string
+          role: 'admin' | 'member'
+          token: string
+          invited_by: string | null
+          created_at: string
+          accepted_at: string | null
+          accepted_by: string | null
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          email: string
+          role: 'admin' | 'member'
+          token?: string
+          invited_by?: string | null
+          created_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          email?: string
+          role?: 'admin' | 'member'
+          token?: string
+          invited_by?: string | null
+          created_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+        }
+      }
+      volunteers: {
+        Row: {
+          id: string
+          organization_id: string
+          name: string
+          phone_number: string
+          phone_key: string
+          email: string | null
+          organization: string | null
+          skills: string[]
+          notes: string | null
+          portal_token: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          name: string
+          phone_number: string
+          email?: string | null
+          organization?: string | null
+          skills?: string[]
+          notes?: string | null
+          portal_token?: string
           created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          name?: string
+          phone_number?: string
+          email?: string | null
+          organization?: string | null
+          skills?: string[]
+          notes?: string | null
+          portal_token?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      volunteer_availability: {
+        Row: {
+          id: string
+          event_id: string
+          volunteer_id: string
+          starts_at: string
+          ends_at: string
+          preferred_position_ids: string[]
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          volunteer_id: string
+          starts_at: string
+          ends_at: string
+          preferred_position_ids?: string[]
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          volunteer_id?: string
+          starts_at?: string
+          ends_at?: string
+          preferred_position_ids?: string[]
+          created_at?: string | null
+        }
+      }
+      waitlist_entries: {
+        Row: {
+          id: string
+          event_id: string
+          position_id: string | null
+          shift_id: string | null
+          volunteer_name: string
+          phone_number: string
+          organization: string | null
+          priority: number
+          status: 'waiting' | 'promoted' | 'withdrawn'
+          signup_id: string | null
+          promoted_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          position_id?: string | null
+          shift_id?: string | null
+          volunteer_name: string
+          phone_number: string
+          organization?: string | null
+          priority?: number
+          status?: 'waiting' | 'promoted' | 'withdrawn'
+          signup_id?: string | null
+          promoted_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          position_id?: string | null
+          shift_id?: string | null
+          volunteer_name?: string
+          phone_number?: string
+          organization?: string | null
+          priority?: number
+          status?: 'waiting' | 'promoted' | 'withdrawn'
+          signup_id?: string | null
+          promoted_at?: string | null
+          created_at?: string | null
+        }
+      }
+      volunteer_notifications: {
+        Row: {
+          id: string
+          event_id: string
+          signup_id: string | null
+          volunteer_name: string
+          phone_number: string
+          body: string
+          status: 'pending' | 'sent'
+          created_at: string | null
+          sent_at: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          signup_id?: string | null
+          volunteer_name: string
+          phone_number: string
+          body: string
+          status?: 'pending' | 'sent'
+          created_at?: string | null
+          sent_at?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          signup_id?: string | null
+          volunteer_name?: string
+          phone_number?: string
+          body?: string
+          status?: 'pending' | 'sent'
+          created_at?: string | null
+          sent_at?: string | null
+        }
+      }
+      staffing_history: {
+        Row: {
+          id: string
+          event_id: string
+          position_id: string
+          shift_id: string | null
+          signup_id: string | null
+          volunteer_name: string
+          action: 'promoted'
+          reason: string | null
+          automatic: boolean
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          position_id: string
+          shift_id?: string | null
+          signup_id?: string | null
+          volunteer_name: string
+          action: 'promoted'
+          reason?: string | null
+          automatic?: boolean
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          position_id?: string
+          shift_id?: string | null
+          signup_id?: string | null
+          volunteer_name?: string
+          action?: 'promoted'
+          reason?: string | null
+          automatic?: boolean
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      shift_swaps: {
+        Row: {
+          id: string
+          event_id: string
+          signup_id: string | null
+          volunteer_id: string
+          position_id: string
+          starts_at: string
+          ends_at: string
+          kind: 'swap' | 'drop'
+          status: 'open' | 'pending' | 'approved' | 'rejected' | 'withdrawn'
+          note: string | null
+          claimed_by: string | null
+          claimed_at: string | null
+          decided_by: string | null
+          decided_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          signup_id?: string | null
+          volunteer_id: string
+          position_id: string
+          starts_at: string
+          ends_at: string
+          kind: 'swap' | 'drop'
+          status?: 'open' | 'pending' | 'approved' | 'rejected' | 'withdrawn'
+          note?: string | null
+          claimed_by?: string | null
+          claimed_at?: string | null
+          decided_by?: string | null
+          decided_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          signup_id?: string | null
+          volunteer_id?: string
+          position_id?: string
+          starts_at?: string
+          ends_at?: string
+          kind?: 'swap' | 'drop'
+          status?: 'open' | 'pending' | 'approved' | 'rejected' | 'withdrawn'
+          note?: string | null
+          claimed_by?: string | null
+          claimed_at?: string | null
+          decided_by?: string | null
+          decided_at?: string | null
+          created_at?: string
+        }
+      }
+      attendance_records: {
+        Row: {
+          id: string
+          signup_id: string
+          event_id: string
+          position_id: string
+          volunteer_name: string
+          kind: 'check_in' | 'check_out'
+          occurred_at: string
+          source: 'volunteer' | 'staff' | 'auto_checkout' | null
+          recorded_by: string | null
+          created_at: string
+          distance_m: number | null
+          accuracy_m: number | null
+          outside_geofence: boolean | null
+          geofence_override: boolean
+        }
+        Insert: {
+          id?: string
+          signup_id: string
+          event_id: string
+          position_id: string
+          volunteer_name: string
+          kind: 'check_in' | 'check_out'
+          occurred_at?: string
+          source?: 'volunteer' | 'staff' | 'auto_checkout' | null
+          recorded_by?: string | null
+          created_at?: string
+          distance_m?: number | null
+          accuracy_m?: number | null
+          outside_geofence?: boolean | null
+          geofence_override?: boolean
+        }
+        Update: {
+          id?: string
+          signup_id?: string
+          event_id?: string
+          position_id?: string
+          volunteer_name?: string
+          kind?: 'check_in' | 'check_out'
+          occurred_at?: string
+          source?: 'volunteer' | 'staff' | 'auto_checkout' | null
+          recorded_by?: string | null
+          created_at?: string
+          distance_m?: number | null
+          accuracy_m?: number | null
+          outside_geofence?: boolean | null
+          geofence_override?: boolean
+        }
+      }
+      service_certificates: {
+        Row: {
+          id: string
+          event_id: string
+          volunteer_id: string | null
+          volunteer_key: string
+          volunteer_name: string
+          code: string
+          positions: string[]
+          first_day: string
+          last_day: string
+          hours: number
+          signer_name: string
+          signer_title: string | null
+          issued_by: string | null
+          issued_at: string
+          superseded_at: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          volunteer_id?: string | null
+          volunteer_key: string
+          volunteer_name: string
+          code: string
+          positions: string[]
+          first_day: string
+          last_day: string
+          hours: number
+          signer_name: string
+          signer_title?: string | null
+          issued_by?: string | null
+          issued_at?: string
+          superseded_at?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          volunteer_id?: string | null
+          volunteer_key?: string
+          volunteer_name?: string
+          code?: string
+          positions?: string[]
+          first_day?: string
+          last_day?: string
+          hours?: number
+          signer_name?: string
+          signer_title?: string | null
+          issued_by?: string | null
+          issued_at?: string
+          superseded_at?: string | null
+        }
+      }
+      volunteer_groups: {
+        Row: {
+          id: string
+          organization_id: string
+          name: string
+          leader_name: string
+          phone_number: string
+          email: string | null
+          notes: string | null
+          leader_token: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          name: string
+          leader_name: string
+          phone_number: string
+          email?: string | null
+          notes?: string | null
+          leader_token?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          name?: string
+          leader_name?: string
+          phone_number?: string
+          email?: string | null
+          notes?: string | null
+          leader_token?: string
+          created_at?: string
+        }
+      }
+      signup_fields: {
+        Row: {
+          id: string
+          event_id: string
+          label: string
+          kind: 'text' | 'select' | 'checkbox' | 'date'
+          options: string[]
+          required: boolean
+          max_length: number | null
+          help_text: string | null
+          sort_order: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          label: string
+          kind: 'text' | 'select' | 'checkbox' | 'date'
+          options?: string[]
+          required?: boolean
+          max_length?: number | null
+          help_text?: string | null
+          sort_order?: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          label?: string
+          kind?: 'text' | 'select' | 'checkbox' | 'date'
+          options?: string[]
+          required?: boolean
+          max_length?: number | null
+          help_text?: string | null
+          sort_order?: number
+          created_at?: string | null
+        }
+      }
+      waivers: {
+        Row: {
+          id: string
+          event_id: string
+          position_id: string | null
+          title: string
+          archived_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          position_id?: string | null
+          title: string
+          archived_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          position_id?: string | null
+          title?: string
+          archived_at?: string | null
+          created_at?: string | null
+        }
+      }
+      waiver_versions: {
+        Row: {
+          id: string
+          waiver_id: string
+          version: number
+          body: string
+          published_by: string | null
+          published_at: string
+        }
+        Insert: {
+          id?: string
+          waiver_id: string
+          version: number
+          body: string
+          published_by?: string | null
+          published_at?: string
+        }
+        Update: {
+          id?: string
+          waiver_id?: string
+          version?: number
+          body?: string
+          published_by?: string | null
+          published_at?: string
+        }
+      }
+      waiver_signatures: {
+        Row: {
+          id: string
+          waiver_version_id: string | null
+          waiver_title: string
+          waiver_version: number
+          event_id: string
+          signup_id: string | null
+          volunteer_name: string
+          phone_number: string
+          method: 'typed' | 'drawn'
+          typed_name: string | null
+          drawing: string | null
+          signed_at: string
+          recorded_by: string | null
+        }
+        Insert: {
+          id?: string
+          waiver_version_id?: string | null
+          waiver_title: string
+          waiver_version: number
+          event_id: string
+          signup_id?: string | null
+          volunteer_name: string
+          phone_number: string
+          method: 'typed' | 'drawn'
+          typed_name?: string | null
+          drawing?: string | null
+          signed_at?: string
+          recorded_by?: string | null
+        }
+        Update: {
+          id?: string
+          waiver_version_id?: string | null
+          waiver_title?: string
+          waiver_version?: number
+          event_id?: string
+          signup_id?: string | null
+          volunteer_name?: string
+          phone_number?: string
+          method?: 'typed' | 'drawn'
+          typed_name?: string | null
+          drawing?: string | null
+          signed_at?: string
+          recorded_by?: string | null
         }
       }
     }
     Views: {
-      [_ in never]: never
+      position_staffing: {
+        Row: {
+          position_id: string
+          event_id: string
+          needed: number
+          assigned: number
+          checked_in: number
+          checked_out: number
+        }
+      }
+      my_event_roles: {
+        Row: {
+          event_id: string
+          role: 'owner' | 'coordinator' | 'checkin'
+        }
+      }
+      signup_hours: {
+        Row: {
+          signup_id: string
+          event_id: string
+          position_id: string
+          volunteer_id: string | null
+          volunteer_name: string
+          starts_at: string
+          ends_at: string
+          arrived: boolean
+          scheduled_hours: number
+          actual_hours: number
+          check_ins: number
+        }
+      }
     }
     Functions: {
-      [_ in never]: never
+      assign_volunteer: {
+        Args: {
+          p_position_id: string
+          p_shift_id: string | null
+          p_volunteer_name: string
+          p_phone_number: string
+          p_starts_at: string
+          p_ends_at: string
+          p_other_notes?: string | null
+          p_organization?: string | null
+          p_volunteer_id?: string | null
+          p_allow_conflict?: boolean
+          p_custom_fields?: Json | null
+        }
+        Returns: Json
+      }
+      update_volunteer: {
+        Args: {
+          p_signup_id: string
+          p_expected_version: number
+          p_position_id: string
+          p_shift_id: string | null
+          p_volunteer_name: string
+          p_phone_number: string
+          p_starts_at: string
+          p_ends_at: string
+          p_other_notes?: string | null
+          p_organization?: string | null
+          p_volunteer_id?: string | null
+          p_allow_conflict?: boolean
+          p_custom_fields?: Json | null
+        }
+        Returns: Json
+      }
+      remove_volunteer: {
+        Args: {
+          p_signup_id: string
+          p_expected_version: number
+        }
+        Returns: Json
+      }
+      accept_invitation: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      create_organization: {
+        Args: {
+          p_name: string
+          p_default_timezone?: string
+        }
+        Returns: string
+      }
+      accept_organization_invitation: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      find_signup_conflicts: {
+        Args: {
+          p_position_id: string
+          p_phone_number: string
+          p_starts_at: string
+          p_ends_at: string
+          p_exclude_signup_id?: string | null
+          p_volunteer_id?: string | null
+        }
+        Returns: {
+          signup_id: string
+          volunteer_name: string
+          position_name: string
+          starts_at: string
+          ends_at: string
+        }[]
+      }
+      import_volunteers: {
+        Args: {
+          p_signups: Json
+        }
+        Returns: number
+      }
+      is_event_volunteer: {
+        Args: {
+          p_event_id: string
+          p_volunteer_id: string
+        }
+        Returns: boolean
+      }
+      promote_waitlist_entry: {
+        Args: {
+          p_entry_id: string
+          p_shift_id?: string | null
+          p_reason?: string | null
+          p_automatic?: boolean
+        }
+        Returns: Json
+      }
+      promote_next_waitlisted: {
+        Args: {
+          p_shift_id: string
+          p_reason?: string | null
+          p_automatic?: boolean
+        }
+        Returns: Json
+      }
+      replace_no_show: {
+        Args: {
+          p_signup_id: string
+          p_expected_version: number
+        }
+        Returns: Json
+      }
+      get_volunteer_portal: {
+        Args: {
+          p_token: string
+        }
+        Returns: Json
+      }
+      portal_offer_shift: {
+        Args: {
+          p_token: string
+          p_signup_id: string
+          p_kind: string
+          p_note?: string
+        }
+        Returns: undefined
+      }
+      portal_withdraw_offer: {
+        Args: {
+          p_token: string
+          p_swap_id: string
+        }
+        Returns: undefined
+      }
+      portal_claim_shift: {
+        Args: {
+          p_token: string
+          p_swap_id: string
+        }
+        Returns: undefined
+      }
+      portal_update_contact: {
+        Args: {
+          p_token: string
+          p_phone_number: string
+          p_email: string
+        }
+        Returns: undefined
+      }
+      approve_shift_swap: {
+        Args: {
+          p_swap_id: string
+        }
+        Returns: Json
+      }
+      reject_shift_swap: {
+        Args: {
+          p_swap_id: string
+        }
+        Returns: undefined
+      }
+      issue_certificates: {
+        Args: {
+          p_event_id: string
+          p_signer_name: string
+          p_signer_title?: string | null
+        }
+        Returns: Database['public']['Tables']['service_certificates']['Row'][]
+      }
+      verify_certificate: {
+        Args: {
+          p_code: string
+        }
+        Returns: Json
+      }
+      assign_group_seats: {
+        Args: {
+          p_group_id: string
+          p_position_id: string
+          p_shift_id: string | null
+          p_starts_at: string
+          p_ends_at: string
+          p_seats: number
+        }
+        Returns: number
+      }
+      get_group_portal: {
+        Args: {
+          p_token: string
+        }
+        Returns: Json
+      }
+      group_fill_seat: {
+        Args: {
+          p_token: string
+          p_signup_id: string
+          p_expected_version: number
+          p_volunteer_name: string
+          p_phone_number?: string | null
+          p_custom_fields?: Json | null
+        }
+        Returns: undefined
+      }
+      save_waiver: {
+        Args: {
+          p_waiver_id: string | null
+          p_event_id: string
+          p_position_id: string | null
+          p_title: string
+          p_body: string
+        }
+        Returns: string
+      }
+      sign_waiver: {
+        Args: {
+          p_signup_id: string
+          p_waiver_version_id: string
+          p_method: string
+          p_typed_name?: string | null
+          p_drawing?: string | null
+        }
+        Returns: Database['public']['Tables']['waiver_signatures']['Row']
+      }
+      unsigned_waivers: {
+        Args: {
+          p_signup_id: string
+        }
+        Returns: {
+          waiver_id: string
+          waiver_version_id: string
+          title: string
+          version: number
+          body: string
+        }[]
+      }
+      merge_volunteers: {
+        Args: {
+          p_keep_id: string
+          p_merge_ids: string[]
+        }
+        Returns: string
+      }
+      set_arrival: {
+        Args: {
+          p_signup_id: string
+          p_expected_version: number
+          p_arrived: boolean
+          p_source?: string
+          p_occurred_at?: string | null
+          p_latitude?: number | null
+          p_longitude?: number | null
+          p_accuracy_m?: number | null
+          p_geofence_override?: boolean
+        }
+        Returns: Json
+      }
     }
     Enums: {
-      [_ in never]: never
+      event_role: 'owner' | 'coordinator' | 'checkin'
+      organization_role: 'admin' | 'member'
     }
     CompositeTypes: {
       [_ in never]: never
@@ -0,0 +1,11 @@
+// Saves a file the page built, such as an export, through the browser's download prompt.
+
+export function downloadFile(fileName: string, contents: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url));
+}
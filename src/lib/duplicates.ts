@@ -0,0 +1,116 @@
+// Groups directory profiles that probably belong to the same person. Two profiles match
+// when they share a phone number and have similar names, share an email address, or have
+// the same name once case, punctuation and word order are ignored. Matches chain, so a
+// group can hold more than two profiles.
+
+import { VolunteerProfile } from './volunteers';
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateGroup {
+  volunteers: VolunteerProfile[];
+  reasons: DuplicateReason[];
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone, similar name',
+  email: 'Same email',
+  name: 'Same name',
+};
+
+const nameTokens = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+const nameKey = (name: string) => [...nameTokens(name)].sort().join(' ');
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// "Jon Smith" ~ "John Smith", "J. Smith" ~ "John Smith", "Maria" ~ "Maria Lopez"
+export function isSimilarName(a: string, b: string): boolean {
+  const keyA = nameKey(a);
+  const keyB = nameKey(b);
+  if (!keyA || !keyB) return false;
+  if (keyA === keyB) return true;
+  if (editDistance(keyA, keyB) <= Math.max(1, Math.floor(Math.min(keyA.length, keyB.length) / 6))) {
+    return true;
+  }
+
+  // Every word of the shorter name matches a word of the longer one, initials included
+  const [shorter, longer] = [nameTokens(a), nameTokens(b)].sort((x, y) => x.length - y.length);
+  return shorter.every(token =>
+    longer.some(other => other === token || (token.length === 1 && other.startsWith(token)))
+  );
+}
+
+export function findDuplicateGroups(volunteers: VolunteerProfile[]): DuplicateGroup[] {
+  const parent = volunteers.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, Set<DuplicateReason>>();
+
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+    parent[rootB] = rootA;
+    reasons.set(rootA, merged);
+  };
+
+  // Only profiles sharing a phone, email or name are compared
+  const buckets = new Map<string, number[]>();
+  const addToBucket = (key: string, index: number) => {
+    buckets.set(key, [...(buckets.get(key) ?? []), index]);
+  };
+  volunteers.forEach((volunteer, index) => {
+    addToBucket(`phone:${volunteer.phone_number}`, index);
+    if (volunteer.email) addToBucket(`email:${volunteer.email.trim().toLowerCase()}`, index);
+    const key = nameKey(volunteer.name);
+    if (key) addToBucket(`name:${key}`, index);
+  });
+
+  buckets.forEach((indexes, key) => {
+    if (indexes.length < 2) return;
+    const reason = key.slice(0, key.indexOf(':')) as DuplicateReason;
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        // A shared phone alone may be a household, so the names must be close too
+        if (reason === 'phone' && !isSimilarName(volunteers[indexes[i]].name, volunteers[indexes[j]].name)) {
+          continue;
+        }
+        link(indexes[i], indexes[j], reason);
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  volunteers.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      volunteers: members.map(index => volunteers[index]),
+      reasons: Array.from(reasons.get(find(root)) ?? []),
+    }));
+}
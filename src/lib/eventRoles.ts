@@ -0,0 +1,47 @@
+// What each member role may do on an event. The database policies enforce the same rules;
+// these only decide which actions the UI offers.
+
+export type EventRole = 'owner' | 'coordinator' | 'checkin';
+
+export type EventPermission =
+  | 'manageEvent'
+  | 'manageTeam'
+  | 'managePositions'
+  | 'manageAssignments'
+  | 'checkIn'
+  | 'readMessages'
+  | 'updateMessages';
+
+const PERMISSIONS: Record<EventRole, EventPermission[]> = {
+  owner: [
+    'manageEvent',
+    'manageTeam',
+    'managePositions',
+    'manageAssignments',
+    'checkIn',
+    'readMessages',
+    'updateMessages',
+  ],
+  coordinator: ['managePositions', 'manageAssignments', 'checkIn', 'readMessages', 'updateMessages'],
+  checkin: ['checkIn', 'readMessages'],
+};
+
+export const EVENT_ROLES: EventRole[] = ['owner', 'coordinator', 'checkin'];
+
+export const ROLE_LABELS: Record<EventRole, string> = {
+  owner: 'Owner',
+  coordinator: 'Coordinator',
+  checkin: 'Check-in Staff',
+};
+
+export const ROLE_DESCRIPTIONS: Record<EventRole, string> = {
+  owner: 'Manages everything, including the event and its team',
+  coordinator: 'Edits positions, shifts and volunteer assignments',
+  checkin: 'Checks volunteers in and out and reads messages',
+};
+
+export const roleCan = (role: EventRole | null | undefined, permission: EventPermission) =>
+  !!role && PERMISSIONS[role].includes(permission);
+
+export const getInvitationLink = (token: string) =>
+  `${window.location.origin}/invitations/${token}`;
@@ -0,0 +1,74 @@
+// How far from its position a volunteer may check themselves in. Events set a default
+// that positions can override; `set_arrival` enforces the same rules.
+
+export type GeofenceMode = 'off' | 'warn' | 'block';
+
+export const GEOFENCE_MODES: GeofenceMode[] = ['off', 'warn', 'block'];
+
+export const GEOFENCE_MODE_LABELS: Record<GeofenceMode, string> = {
+  off: 'Off',
+  warn: 'Warn when too far away',
+  block: 'Block when too far away',
+};
+
+export const DEFAULT_GEOFENCE_RADIUS_M = 100;
+
+export interface Geofence {
+  mode: GeofenceMode;
+  radius_m: number;
+}
+
+// Where the device was when checking in, as reported by the browser
+export interface CheckInLocation {
+  latitude: number;
+  longitude: number;
+  accuracy_m: number;
+}
+
+export const resolveGeofence = (
+  position: { geofence_mode: GeofenceMode | null; geofence_radius_m: number | null },
+  event: { geofence_mode: GeofenceMode; geofence_radius_m: number }
+): Geofence => ({
+  mode: position.geofence_mode ?? event.geofence_mode,
+  radius_m: position.geofence_radius_m ?? event.geofence_radius_m,
+});
+
+// Haversine distance in meters
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const R = 6371e3;
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lon2 - lon1) * Math.PI / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+export interface GeofenceCheck {
+  // Null when the device has not shared its location
+  distance_m: number | null;
+  // A check-in without a location counts as outside while the geofence is on
+  outside: boolean;
+}
+
+export function checkGeofence(
+  geofence: Geofence,
+  position: { latitude: number; longitude: number },
+  location: CheckInLocation | null
+): GeofenceCheck {
+  const distance_m = location
+    ? calculateDistance(location.latitude, location.longitude, position.latitude, position.longitude)
+    : null;
+  return {
+    distance_m,
+    outside: geofence.mode !== 'off' && (distance_m === null || distance_m > geofence.radius_m),
+  };
+}
+
+export const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
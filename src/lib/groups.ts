@@ -0,0 +1,112 @@
+// Volunteer groups: teams from a church, company or school booked as a block of seats,
+// whose leader names the members later through a private link.
+
+import { supabase } from './supabase';
+import { SignupField, SignupFieldValues } from './signupFields';
+
+export interface VolunteerGroup {
+  id: string;
+  name: string;
+  leader_name: string;
+  // The leader's number; members without their own are reached through it
+  phone_number: string;
+  email: string | null;
+  notes: string | null;
+  // Secret in the leader's link
+  leader_token: string;
+}
+
+export const VOLUNTEER_GROUP_COLUMNS = 'id, name, leader_name, phone_number, email, notes, leader_token';
+
+export interface GroupSeat {
+  id: string;
+  version: number;
+  awaiting_member: boolean;
+  // Null while the seat is open
+  volunteer_name: string | null;
+  // The member's own number; null when they are reached through the leader
+  phone_number: string | null;
+  custom_fields: SignupFieldValues;
+  arrived: boolean;
+  starts_at: string;
+  ends_at: string;
+  position: { id: string; name: string };
+  event: { id: string; name: string; location: string | null; timezone: string };
+}
+
+export interface GroupPortal {
+  group: { name: string; leader_name: string };
+  organization_name: string;
+  // Seats that have not ended, soonest first
+  seats: GroupSeat[];
+  // Signup fields of the seats' events
+  fields: SignupField[];
+}
+
+// The fields of a signup a group's attendance is counted from
+export interface GroupSignup {
+  group_id: string | null;
+  organization: string | null;
+  awaiting_member: boolean;
+  arrived: boolean;
+  checked_in_at: string | null;
+}
+
+export interface GroupAttendance {
+  groupId: string;
+  name: string;
+  seats: number;
+  named: number;
+  // Seats checked in at least once
+  showedUp: number;
+  onSite: number;
+}
+
+export const groupPortalUrl = (token: string) => `${window.location.origin}/group/${token}`;
+
+export async function getGroupPortal(token: string): Promise<GroupPortal> {
+  const { data, error } = await supabase.rpc('get_group_portal', { p_token: token });
+  if (error) throw new Error(error.message);
+  return data as unknown as GroupPortal;
+}
+
+// An empty name opens the seat again
+export async function fillGroupSeat(
+  token: string,
+  seat: GroupSeat,
+  name: string,
+  phoneNumber: string,
+  customFields: SignupFieldValues
+) {
+  const { error } = await supabase.rpc('group_fill_seat', {
+    p_token: token,
+    p_signup_id: seat.id,
+    p_expected_version: seat.version,
+    p_volunteer_name: name,
+    p_phone_number: phoneNumber,
+    p_custom_fields: customFields,
+  });
+  if (error) throw new Error(error.message);
+}
+
+// Seats are labelled with the group's name, which is copied into `organization`
+export function summarizeGroupAttendance(signups: GroupSignup[]): GroupAttendance[] {
+  const groups = new Map<string, GroupAttendance>();
+  signups.forEach(signup => {
+    if (!signup.group_id) return;
+    const group = groups.get(signup.group_id) ?? {
+      groupId: signup.group_id,
+      name: signup.organization ?? 'Group',
+      seats: 0,
+      named: 0,
+      showedUp: 0,
+      onSite: 0,
+    };
+    group.seats += 1;
+    if (!signup.awaiting_member) group.named += 1;
+    if (signup.checked_in_at) group.showedUp += 1;
+    if (signup.arrived) group.onSite += 1;
+    groups.set(signup.group_id, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
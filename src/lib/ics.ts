@@ -0,0 +1,53 @@
+// iCalendar (RFC 5545) files, so volunteers can add their shifts to their own calendar.
+
+import { downloadFile } from './download';
+
+export interface CalendarEntry {
+  uid: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  location?: string | null;
+  description?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+// 2025-11-03T09:30:00.000Z -> 20251103T093000Z
+const toIcsTime = (instant: string | Date) =>
+  new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string) => {
+  const parts = [];
+  for (let i = 0; i < line.length; i += 74) parts.push(line.slice(i, i + 74));
+  return parts.join('\r\n ');
+};
+
+export function buildCalendar(entries: CalendarEntry[], now: Date = new Date()): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//volunteer-management//Shifts//EN', 'CALSCALE:GREGORIAN'];
+  entries.forEach(entry => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}`,
+      `DTSTAMP:${toIcsTime(now)}`,
+      `DTSTART:${toIcsTime(entry.starts_at)}`,
+      `DTEND:${toIcsTime(entry.ends_at)}`,
+      `SUMMARY:${escapeText(entry.title)}`
+    );
+    if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`);
+    if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+    if (entry.latitude != null && entry.longitude != null) {
+      lines.push(`GEO:${entry.latitude};${entry.longitude}`);
+    }
+    lines.push('END:VEVENT');
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export const downloadCalendar = (fileName: string, entries: CalendarEntry[]) =>
+  downloadFile(fileName, buildCalendar(entries), 'text/calendar;charset=utf-8;');
@@ -0,0 +1,190 @@
+// Georeferencing for uploaded custom map images.
+//
+// A custom map is rendered by CustomMapView in Leaflet's CRS.Simple space, where a
+// point is [y, x] in image pixels (origin at the bottom-left corner). Organizers pin
+// three or more of those image points to real-world [lat, lng] pairs, and we fit an
+// affine transform between the two spaces with least squares. The fitted transform is
+// stored alongside the control points on `events.map_calibration`.
+
+export type ImagePoint = [number, number];
+export type WorldPoint = [number, number];
+
+export interface ControlPoint {
+  image: ImagePoint;
+  world: WorldPoint;
+}
+
+export interface AffineTransform {
+  // lat = lat[0] * y + lat[1] * x + lat[2]
+  lat: [number, number, number];
+  // lng = lng[0] * y + lng[1] * x + lng[2]
+  lng: [number, number, number];
+}
+
+export interface MapCalibration {
+  control_points: ControlPoint[];
+  transform: AffineTransform;
+  rms_error_m: number;
+  calibrated_at: string;
+}
+
+export const MIN_CONTROL_POINTS = 3;
+
+const METERS_PER_DEGREE = 111320;
+
+const isFinitePair = (value: unknown): value is [number, number] =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  typeof value[0] === 'number' &&
+  typeof value[1] === 'number' &&
+  Number.isFinite(value[0]) &&
+  Number.isFinite(value[1]);
+
+// Solve a 3x3 linear system with Gaussian elimination and partial pivoting.
+// Returns null when the system is singular (e.g. all control points are collinear).
+function solve3x3(matrix: number[][], rhs: number[]): [number, number, number] | null {
+  const m = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < 3; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 3; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = 0; row < 3; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k < 4; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+    }
+  }
+
+  return [m[0][3] / m[0][0], m[1][3] / m[1][1], m[2][3] / m[2][2]];
+}
+
+// Fit an affine transform from image space to world space. Throws if there are too
+// few control points or if they do not span an area of the image.
+export function fitAffineTransform(points: ControlPoint[]): AffineTransform {
+  const valid = points.filter(p => isFinitePair(p.image) && isFinitePair(p.world));
+  if (valid.length < MIN_CONTROL_POINTS) {
+    throw new Error(`At least ${MIN_CONTROL_POINTS} control points are required`);
+  }
+
+  // Normal equations: (AᵀA) c = Aᵀb, where each row of A is [y, x, 1].
+  const ata = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const atLat = [0, 0, 0];
+  const atLng = [0, 0, 0];
+
+  valid.forEach(({ image, world }) => {
+    const row = [image[0], image[1], 1];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        ata[i][j] += row[i] * row[j];
+      }
+      atLat[i] += row[i] * world[0];
+      atLng[i] += row[i] * world[1];
+    }
+  });
+
+  const lat = solve3x3(ata, atLat);
+  const lng = solve3x3(ata, atLng);
+  if (!lat || !lng) {
+    throw new Error('Control points must not all lie on a straight line');
+  }
+
+  return { lat, lng };
+}
+
+export function imageToWorld(transform: AffineTransform, image: ImagePoint): WorldPoint {
+  const [y, x] = image;
+  return [
+    transform.lat[0] * y + transform.lat[1] * x + transform.lat[2],
+    transform.lng[0] * y + transform.lng[1] * x + transform.lng[2],
+  ];
+}
+
+export function worldToImage(transform: AffineTransform, world: WorldPoint): ImagePoint {
+  const [a, b, c] = transform.lat;
+  const [d, e, f] = transform.lng;
+  const det = a * e - b * d;
+  if (Math.abs(det) < 1e-18) {
+    throw new Error('Calibration transform is not invertible');
+  }
+
+  const dLat = world[0] - c;
+  const dLng = world[1] - f;
+  return [
+    (e * dLat - b * dLng) / det,
+    (a * dLng - d * dLat) / det,
+  ];
+}
+
+// Approximate ground distance in meters between two nearby world points.
+function distanceMeters(from: WorldPoint, to: WorldPoint): number {
+  const dLat = (to[0] - from[0]) * METERS_PER_DEGREE;
+  const dLng = (to[1] - from[1]) * METERS_PER_DEGREE * Math.cos((from[0] * Math.PI) / 180);
+  return Math.sqrt(dLat * dLat + dLng * dLng);
+}
+
+// Root-mean-square error of the fitted transform over its own control points, in meters.
+export function calibrationError(transform: AffineTransform, points: ControlPoint[]): number {
+  if (points.length === 0) return 0;
+  const sumOfSquares = points.reduce((sum, point) => {
+    const d = distanceMeters(point.world, imageToWorld(transform, point.image));
+    return sum + d * d;
+  }, 0);
+  return Math.sqrt(sumOfSquares / points.length);
+}
+
+export function buildCalibration(points: ControlPoint[]): MapCalibration {
+  const transform = fitAffineTransform(points);
+  return {
+    control_points: points,
+    transform,
+    rms_error_m: calibrationError(transform, points),
+    calibrated_at: new Date().toISOString(),
+  };
+}
+
+// Narrow an untyped `events.map_calibration` value to a usable calibration.
+export function parseCalibration(value: unknown): MapCalibration | null {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Partial<MapCalibration>;
+  const transform = candidate.transform;
+  if (
+    !transform ||
+    !Array.isArray(transform.lat) || transform.lat.length !== 3 ||
+    !Array.isArray(transform.lng) || transform.lng.length !== 3 ||
+    ![...transform.lat, ...transform.lng].every(n => typeof n === 'number' && Number.isFinite(n))
+  ) {
+    return null;
+  }
+  return {
+    control_points: Array.isArray(candidate.control_points) ? candidate.control_points : [],
+    transform,
+    rms_error_m: typeof candidate.rms_error_m === 'number' ? candidate.rms_error_m : 0,
+    calibrated_at: candidate.calibrated_at ?? '',
+  };
+}
+
+// Project a stored position onto the custom map image, or null if the event's map has
+// not been calibrated (or the coordinates are unusable).
+export function projectToImage(
+  calibration: MapCalibration | null,
+  world: [number | null | undefined, number | null | undefined]
+): ImagePoint | null {
+  if (!calibration || !isFinitePair(world)) return null;
+  try {
+    return worldToImage(calibration.transform, world);
+  } catch (error) {
+    console.error('Error projecting coordinates onto custom map:', error);
+    return null;
+  }
+}
@@ -0,0 +1,209 @@
+// Check-ins, check-outs and messages made on the check-in page without a connection.
+// They are kept on the device and replayed in the order they were made once the
+// network is back. Each signed-in user has their own queue, so a shared tablet never
+// replays someone else's actions.
+
+import { supabase } from './supabase';
+import { SignupRef, StaleSignupError, setArrival } from './signupOperations';
+import { CheckInLocation } from './geofence';
+
+const QUEUE_PREFIX = 'offlineQueue:';
+const SNAPSHOT_PREFIX = 'offlineSnapshot:';
+
+interface QueuedActionBase {
+  id: string;
+  queued_at: string;
+  // Why the server refused the action; it waits until it is retried or discarded
+  conflict: string | null;
+}
+
+export interface QueuedArrival extends QueuedActionBase {
+  kind: 'arrival';
+  signup: SignupRef;
+  position_id: string;
+  volunteer_name: string;
+  arrived: boolean;
+  location: CheckInLocation | null;
+  geofence_override: boolean;
+}
+
+export interface QueuedMessage extends QueuedActionBase {
+  kind: 'message';
+  message: {
+    title: string;
+    content: string;
+    volunteer_id: string | null;
+    phone_number: string | null;
+    position_id: string;
+    event_id: string;
+  };
+}
+
+export type QueuedAction = QueuedArrival | QueuedMessage;
+
+export type ReplayResult =
+  | { status: 'done' }
+  | { status: 'offline' }
+  | { status: 'conflict'; conflict: string };
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : (error as { message?: string } | null)?.message ?? '';
+
+// supabase-js reports a failed request as an error instead of throwing
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine ||
+  /failed to fetch|networkerror|load failed|network request failed/i.test(errorMessage(error));
+
+export function loadQueue(userId: string): QueuedAction[] {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_PREFIX + userId) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveQueue(userId: string, queue: QueuedAction[]) {
+  if (queue.length === 0) {
+    localStorage.removeItem(QUEUE_PREFIX + userId);
+  } else {
+    localStorage.setItem(QUEUE_PREFIX + userId, JSON.stringify(queue));
+  }
+}
+
+export const isQueueKey = (key: string | null, userId: string) => key === QUEUE_PREFIX + userId;
+
+const newAction = () => ({
+  id: crypto.randomUUID(),
+  queued_at: new Date().toISOString(),
+  conflict: null,
+});
+
+// A check-in and a later check-out of the same signup are both kept, so the attendance
+// ledger records the visit; repeating the last queued action does nothing
+export function addArrival(
+  queue: QueuedAction[],
+  arrival: Omit<QueuedArrival, 'kind' | keyof QueuedActionBase>
+): QueuedAction[] {
+  const last = queue.filter(
+    (action): action is QueuedArrival =>
+      action.kind === 'arrival' && action.signup.id === arrival.signup.id && !action.conflict
+  ).pop();
+  if (last?.arrived === arrival.arrived) return queue;
+  return [...queue, { ...newAction(), kind: 'arrival', ...arrival }];
+}
+
+export const addMessage = (queue: QueuedAction[], message: QueuedMessage['message']): QueuedAction[] => [
+  ...queue,
+  { ...newAction(), kind: 'message', message },
+];
+
+// Shows queued check-ins and check-outs as if they had been sent
+export function applyQueuedArrivals<T extends { id: string; arrived: boolean }>(
+  volunteers: T[],
+  queue: QueuedAction[]
+): T[] {
+  const arrivals = new Map(
+    queue
+      .filter((action): action is QueuedArrival => action.kind === 'arrival' && !action.conflict)
+      .map(action => [action.signup.id, action.arrived])
+  );
+  if (arrivals.size === 0) return volunteers;
+  return volunteers.map(volunteer =>
+    arrivals.has(volunteer.id) ? { ...volunteer, arrived: arrivals.get(volunteer.id)! } : volunteer
+  );
+}
+
+export const describeAction = (action: QueuedAction) =>
+  action.kind === 'arrival'
+    ? `${action.arrived ? 'Check in' : 'Check out'} ${action.volunteer_name}`
+    : `Message "${action.message.title}"`;
+
+async function replayArrival(action: QueuedArrival, retried = false): Promise<ReplayResult> {
+  try {
+    await setArrival(action.signup, action.arrived, 'volunteer', {
+      occurredAt: action.queued_at,
+      location: action.location,
+      geofenceOverride: action.geofence_override,
+    });
+    return { status: 'done' };
+  } catch (error) {
+    if (isNetworkError(error)) return { status: 'offline' };
+    if (!(error instanceof StaleSignupError)) return { status: 'conflict', conflict: errorMessage(error) };
+  }
+
+  // The signup changed while this device was offline, or an earlier queued action changed it
+  const { data, error } = await supabase
+    .from('volunteer_signups')
+    .select('arrived, version')
+    .eq('id', action.signup.id)
+    .maybeSingle();
+  if (error) {
+    return isNetworkError(error) ? { status: 'offline' } : { status: 'conflict', conflict: error.message };
+  }
+  if (!data) {
+    return { status: 'conflict', conflict: `${action.volunteer_name} is no longer signed up for this position` };
+  }
+  // Someone else already did the same
+  if (data.arrived === action.arrived) return { status: 'done' };
+
+  // Edits that left the arrival alone, such as new notes, do not stand in the way
+  const { count, error: ledgerError } = await supabase
+    .from('attendance_records')
+    .select('id', { count: 'exact', head: true })
+    .eq('signup_id', action.signup.id)
+    .gt('occurred_at', action.queued_at);
+  if (ledgerError) {
+    return isNetworkError(ledgerError)
+      ? { status: 'offline' }
+      : { status: 'conflict', conflict: ledgerError.message };
+  }
+  if (count || retried) {
+    return {
+      status: 'conflict',
+      conflict: `${action.volunteer_name} was checked ${data.arrived ? 'in' : 'out'} by someone else after this was recorded`,
+    };
+  }
+  return replayArrival({ ...action, signup: { ...action.signup, version: data.version } }, true);
+}
+
+async function replayMessage(action: QueuedMessage): Promise<ReplayResult> {
+  const { error } = await supabase.from('messages').insert([action.message]);
+  if (!error) return { status: 'done' };
+  return isNetworkError(error) ? { status: 'offline' } : { status: 'conflict', conflict: error.message };
+}
+
+export const replayAction = (action: QueuedAction) =>
+  action.kind === 'arrival' ? replayArrival(action) : replayMessage(action);
+
+// Applies a refused check-in or check-out on top of whatever the signup is now
+export async function refreshArrival(action: QueuedArrival): Promise<QueuedArrival> {
+  const { data, error } = await supabase
+    .from('volunteer_signups')
+    .select('version')
+    .eq('id', action.signup.id)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error(`${action.volunteer_name} is no longer signed up for this position`);
+  return { ...action, signup: { ...action.signup, version: data.version }, conflict: null };
+}
+
+// The last data the check-in page loaded, shown while offline
+export function saveSnapshot(key: string, data: unknown) {
+  try {
+    localStorage.setItem(SNAPSHOT_PREFIX + key, JSON.stringify(data));
+  } catch (error) {
+    console.error('Error saving offline snapshot:', error);
+  }
+}
+
+export function loadSnapshot<T>(key: string): T | undefined {
+  const saved = localStorage.getItem(SNAPSHOT_PREFIX + key);
+  return saved ? (JSON.parse(saved) as T) : undefined;
+}
+
+// Snapshots hold volunteers' names and phone numbers; they go when the user signs out
+export function clearSnapshots() {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(SNAPSHOT_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+}
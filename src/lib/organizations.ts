@@ -0,0 +1,31 @@
+// Organization membership. Admins act as owners of every event in the organization and
+// members as coordinators; the database combines this with each event's own team.
+
+export type OrganizationRole = 'admin' | 'member';
+
+export interface Organization {
+  id: string;
+  name: string;
+  default_timezone: string;
+  // Calling code for phone numbers entered without one, e.g. '1' or '44'
+  phone_country_code: string;
+}
+
+export interface OrganizationMembership extends Organization {
+  role: OrganizationRole;
+}
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['admin', 'member'];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export const ORGANIZATION_ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  admin: 'Manages the organization, its members and all of its events',
+  member: 'Creates events and coordinates all of the organization\'s events',
+};
+
+export const getOrganizationInvitationLink = (token: string) =>
+  `${window.location.origin}/organization-invitations/${token}`;
@@ -0,0 +1,193 @@
+// Minimal PDF documents: pages of text, lines and boxes in the standard Helvetica fonts,
+// which every PDF reader has built in, so nothing needs to be embedded. Those fonts only
+// cover Western European scripts; check text with `canPrint` before drawing it.
+
+import { downloadFile } from './download';
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export type PdfColor = [number, number, number];
+
+// Positions are in points (1/72 inch) from the top-left corner of the page
+export type PdfItem =
+  | {
+      type: 'text';
+      x: number;
+      y: number;
+      text: string;
+      size: number;
+      font?: PdfFont;
+      align?: 'left' | 'center' | 'right';
+      color?: PdfColor;
+    }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; width?: number; color?: PdfColor }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; lineWidth?: number; color?: PdfColor };
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  items: PdfItem[];
+}
+
+// US Letter, landscape
+export const LETTER_LANDSCAPE = { width: 792, height: 612 };
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+};
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2', italic: 'F3' };
+
+// Glyph widths of characters 32-126, in 1/1000 of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+const UNPRINTABLE = 63; // '?'
+
+const toWinAnsi = (char: string) => {
+  const code = char.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? UNPRINTABLE;
+};
+
+// False when some characters, such as Cyrillic or CJK, would print as '?'
+export const canPrint = (text: string) =>
+  Array.from(text).every(char => char === '?' || toWinAnsi(char) !== UNPRINTABLE);
+
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = toWinAnsi(char);
+    return sum + (code >= 32 && code <= 126 ? widths[code - 32] : 556);
+  }, 0);
+  return (units * size) / 1000;
+}
+
+// Break text into lines no wider than `maxWidth`, at spaces where possible
+export function wrapText(text: string, size: number, maxWidth: number, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size, font) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Characters other than printable ASCII are written as octal escapes, so the file stays
+// ASCII and string lengths are byte offsets
+const escapeString = (text: string) =>
+  Array.from(text)
+    .map(char => {
+      const code = toWinAnsi(char);
+      if (code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+      const ascii = String.fromCharCode(code);
+      return ascii === '(' || ascii === ')' || ascii === '\\' ? `\\${ascii}` : ascii;
+    })
+    .join('');
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const color = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)}`;
+
+function drawItem(item: PdfItem, pageHeight: number): string {
+  switch (item.type) {
+    case 'text': {
+      const font = item.font ?? 'regular';
+      const width = textWidth(item.text, item.size, font);
+      const x = item.align === 'center' ? item.x - width / 2 : item.align === 'right' ? item.x - width : item.x;
+      return [
+        'BT',
+        `/${FONT_RESOURCES[font]} ${num(item.size)} Tf`,
+        `${color(item.color ?? [0, 0, 0])} rg`,
+        `${num(x)} ${num(pageHeight - item.y)} Td`,
+        `(${escapeString(item.text)}) Tj`,
+        'ET',
+      ].join('\n');
+    }
+    case 'line':
+      return [
+        `${num(item.width ?? 1)} w`,
+        `${color(item.color ?? [0, 0, 0])} RG`,
+        `${num(item.x1)} ${num(pageHeight - item.y1)} m ${num(item.x2)} ${num(pageHeight - item.y2)} l S`,
+      ].join('\n');
+    case 'rect':
+      return [
+        `${num(item.lineWidth ?? 1)} w`,
+        `${color(item.color ?? [0, 0, 0])} RG`,
+        `${num(item.x)} ${num(pageHeight - item.y - item.height)} ${num(item.width)} ${num(item.height)} re S`,
+      ].join('\n');
+  }
+}
+
+export function buildPdf(pages: PdfPage[], title?: string): string {
+  const objects: string[] = [];
+  const add = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalog = add('');
+  const pageTree = add('');
+  const info = add(`<< /Producer (volunteer-management)${title ? ` /Title (${escapeString(title)})` : ''} >>`);
+  const fonts = (Object.keys(FONT_NAMES) as PdfFont[]).map(font => ({
+    font,
+    ref: add(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`),
+  }));
+  const resources = `<< /Font << ${fonts.map(({ font, ref }) => `/${FONT_RESOURCES[font]} ${ref} 0 R`).join(' ')} >> >>`;
+
+  const pageRefs = pages.map(page => {
+    const content = page.items.map(item => drawItem(item, page.height)).join('\n');
+    const stream = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources ${resources} /Contents ${stream} 0 R >>`
+    );
+  });
+
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pageTree} 0 R >>`;
+  objects[pageTree - 1] = `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
+
+export const downloadPdf = (fileName: string, pages: PdfPage[], title?: string) =>
+  downloadFile(fileName, buildPdf(pages, title), 'application/pdf');
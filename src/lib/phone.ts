@@ -0,0 +1,43 @@
+// Phone numbers are stored in E.164 form ("+15551234567"). Numbers typed without a calling
+// code use the organization's `phone_country_code`.
+//
+// Keep in sync with normalize_phone in the database, which normalizes every write.
+
+export const DEFAULT_PHONE_COUNTRY_CODE = '1';
+
+export function normalizePhoneNumber(
+  input: string,
+  countryCode: string = DEFAULT_PHONE_COUNTRY_CODE
+): string | null {
+  const trimmed = input.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+
+  if (trimmed.startsWith('+')) {
+    // Already has a calling code
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (countryCode === '1' && digits.length === 11 && digits.startsWith('1')) {
+    // North American number dialled with its leading 1
+  } else {
+    // National number; drop the trunk prefix
+    const national = digits.replace(/^0+/, '');
+    if (countryCode === '1' && national.length !== 10) return null;
+    digits = countryCode + national;
+  }
+
+  if (digits.length < 8 || digits.length > 15 || digits.startsWith('0')) return null;
+  return `+${digits}`;
+}
+
+// For forms that do not know the organization's calling code; the database normalizes
+// (and rejects) the number when it is saved
+export const isPlausiblePhoneNumber = (input: string) => {
+  const digits = input.replace(/\D/g, '');
+  return /^\+?[0-9\-\s().]*$/.test(input.trim()) && digits.length >= 7 && digits.length <= 15;
+};
+
+// For react-hook-form `validate`
+export const validatePhoneNumber = (countryCode?: string) => (value: string) =>
+  (countryCode ? !!normalizePhoneNumber(value, countryCode) : isPlausiblePhoneNumber(value)) ||
+  'Please enter a valid phone number';
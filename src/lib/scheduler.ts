@@ -0,0 +1,205 @@
+// Proposes volunteers for an event's open shift seats from a pool of availability. Runs
+// in the browser; the coordinator reviews the proposal before anything is saved.
+//
+// A volunteer can take a seat when one of their availability windows covers the whole
+// shift, their directory skills include the position's `skill_level` (when it has one),
+// and the shift does not overlap their existing signups or other proposed seats.
+//
+// Seats are filled greedily, most constrained first: shifts with the fewest eligible
+// volunteers per open seat go first, and within a seat volunteers are ranked by
+// preference, keeping organization groups together, spreading the load, and saving
+// volunteers who could fill many other seats. A repair pass then tries to fill each
+// seat left open by moving one volunteer and replacing them in their old seat.
+
+import { ShiftWindow, windowsOverlap } from './shifts';
+
+export interface SchedulerPosition {
+  id: string;
+  name: string;
+  skill_level: string | null;
+}
+
+export interface SchedulerShift extends ShiftWindow {
+  id: string;
+  position_id: string;
+  needed: number;
+}
+
+export interface AvailabilityWindow extends ShiftWindow {
+  preferred_position_ids: string[];
+}
+
+export interface PoolVolunteer {
+  id: string;
+  name: string;
+  phone_number: string;
+  organization: string | null;
+  skills: string[];
+  availability: AvailabilityWindow[];
+}
+
+export interface BookedSignup extends ShiftWindow {
+  shift_id: string | null;
+  volunteer_id: string | null;
+  phone_number: string;
+  organization: string | null;
+}
+
+export interface ProposedAssignment {
+  shift_id: string;
+  volunteer_id: string;
+}
+
+export interface ScheduleProposal {
+  assignments: ProposedAssignment[];
+  // Seats of each shift that nobody in the pool could take
+  openSeats: Map<string, number>;
+}
+
+export interface ScheduleInput {
+  positions: SchedulerPosition[];
+  shifts: SchedulerShift[];
+  signups: BookedSignup[];
+  pool: PoolVolunteer[];
+}
+
+const PREFERRED_POSITION_SCORE = 4;
+const OTHER_POSITION_SCORE = -2;
+const GROUP_IN_SHIFT_SCORE = 3;
+const GROUP_IN_POSITION_SCORE = 1;
+const LOAD_SCORE = -2;
+const FLEXIBILITY_SCORE = -0.5;
+
+const normalizeSkill = (skill: string) => skill.trim().toLowerCase();
+
+export const hasRequiredSkill = (volunteer: PoolVolunteer, position: SchedulerPosition | undefined) =>
+  !position?.skill_level?.trim() ||
+  volunteer.skills.some(skill => normalizeSkill(skill) === normalizeSkill(position.skill_level!));
+
+const toTime = (instant: string) => new Date(instant).getTime();
+
+// The availability window that covers the whole shift, if any
+export const findCoveringWindow = (volunteer: PoolVolunteer, shift: ShiftWindow) =>
+  volunteer.availability.find(
+    window => toTime(window.starts_at) <= toTime(shift.starts_at) && toTime(window.ends_at) >= toTime(shift.ends_at)
+  );
+
+// Eligible regardless of what else the volunteer is booked for
+export const canWorkShift = (
+  volunteer: PoolVolunteer,
+  shift: SchedulerShift,
+  position: SchedulerPosition | undefined
+) => hasRequiredSkill(volunteer, position) && !!findCoveringWindow(volunteer, shift);
+
+export const isSignupOf = (signup: BookedSignup, volunteer: PoolVolunteer) =>
+  signup.volunteer_id === volunteer.id || signup.phone_number === volunteer.phone_number;
+
+export function proposeSchedule({ positions, shifts, signups, pool }: ScheduleInput): ScheduleProposal {
+  const positionsById = new Map(positions.map(p => [p.id, p]));
+  const shiftsById = new Map(shifts.map(s => [s.id, s]));
+  const eligibleFor = new Map(
+    shifts.map(shift => [
+      shift.id,
+      pool.filter(v => canWorkShift(v, shift, positionsById.get(shift.position_id))),
+    ])
+  );
+  const optionsOf = new Map(
+    pool.map(v => [v.id, shifts.filter(shift => eligibleFor.get(shift.id)!.includes(v)).length])
+  );
+
+  const assignments: ProposedAssignment[] = [];
+
+  const isBusy = (volunteer: PoolVolunteer, shift: SchedulerShift, ignore?: ProposedAssignment) =>
+    signups.some(s => isSignupOf(s, volunteer) && windowsOverlap(s, shift)) ||
+    assignments.some(
+      a => a !== ignore && a.volunteer_id === volunteer.id && windowsOverlap(shiftsById.get(a.shift_id)!, shift)
+    );
+
+  const groupsIn = (predicate: (shift: SchedulerShift) => boolean) => {
+    const groups = new Set<string>();
+    signups.forEach(s => {
+      const shift = s.shift_id ? shiftsById.get(s.shift_id) : undefined;
+      if (s.organization && shift && predicate(shift)) groups.add(s.organization);
+    });
+    assignments
+      .filter(a => predicate(shiftsById.get(a.shift_id)!))
+      .forEach(a => {
+        const organization = pool.find(v => v.id === a.volunteer_id)?.organization;
+        if (organization) groups.add(organization);
+      });
+    return groups;
+  };
+
+  const score = (volunteer: PoolVolunteer, shift: SchedulerShift) => {
+    let total = 0;
+    const preferred = findCoveringWindow(volunteer, shift)?.preferred_position_ids ?? [];
+    if (preferred.includes(shift.position_id)) total += PREFERRED_POSITION_SCORE;
+    else if (preferred.length > 0) total += OTHER_POSITION_SCORE;
+
+    if (volunteer.organization) {
+      if (groupsIn(s => s.id === shift.id).has(volunteer.organization)) total += GROUP_IN_SHIFT_SCORE;
+      else if (groupsIn(s => s.position_id === shift.position_id).has(volunteer.organization)) {
+        total += GROUP_IN_POSITION_SCORE;
+      }
+    }
+
+    total += LOAD_SCORE * assignments.filter(a => a.volunteer_id === volunteer.id).length;
+    total += FLEXIBILITY_SCORE * optionsOf.get(volunteer.id)!;
+    return total;
+  };
+
+  const pickFor = (shift: SchedulerShift, ignore?: ProposedAssignment) =>
+    eligibleFor
+      .get(shift.id)!
+      .filter(v => v.id !== ignore?.volunteer_id && !isBusy(v, shift, ignore))
+      .map(v => ({ volunteer: v, score: score(v, shift) }))
+      .sort((a, b) => b.score - a.score || a.volunteer.name.localeCompare(b.volunteer.name))[0]?.volunteer;
+
+  const openSeats = new Map(
+    shifts.map(shift => [
+      shift.id,
+      Math.max(0, shift.needed - signups.filter(s => s.shift_id === shift.id).length),
+    ])
+  );
+
+  // Most constrained shifts first
+  const order = shifts
+    .filter(shift => openSeats.get(shift.id)! > 0)
+    .sort(
+      (a, b) =>
+        eligibleFor.get(a.id)!.length / openSeats.get(a.id)! - eligibleFor.get(b.id)!.length / openSeats.get(b.id)! ||
+        toTime(a.starts_at) - toTime(b.starts_at)
+    );
+
+  for (const shift of order) {
+    while (openSeats.get(shift.id)! > 0) {
+      const volunteer = pickFor(shift);
+      if (!volunteer) break;
+      assignments.push({ shift_id: shift.id, volunteer_id: volunteer.id });
+      openSeats.set(shift.id, openSeats.get(shift.id)! - 1);
+    }
+  }
+
+  // Repair: move a volunteer into an open seat when someone else can take their old one
+  for (const shift of order) {
+    for (const volunteer of eligibleFor.get(shift.id)!) {
+      if (openSeats.get(shift.id)! === 0) break;
+      const blocking = assignments.filter(
+        a => a.volunteer_id === volunteer.id && windowsOverlap(shiftsById.get(a.shift_id)!, shift)
+      );
+      if (blocking.length !== 1) continue;
+      const [moved] = blocking;
+      if (moved.shift_id === shift.id) continue;
+      if (signups.some(s => isSignupOf(s, volunteer) && windowsOverlap(s, shift))) continue;
+
+      const replacement = pickFor(shiftsById.get(moved.shift_id)!, moved);
+      if (!replacement) continue;
+
+      moved.volunteer_id = replacement.id;
+      assignments.push({ shift_id: shift.id, volunteer_id: volunteer.id });
+      openSeats.set(shift.id, openSeats.get(shift.id)! - 1);
+    }
+  }
+
+  return { assignments, openSeats };
+}
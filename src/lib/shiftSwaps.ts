@@ -0,0 +1,69 @@
+// Volunteers' requests to give up a shift. A swap is offered until another qualified
+// volunteer claims it; a claimed swap and a drop both wait for a coordinator's approval.
+
+export type SwapKind = 'swap' | 'drop';
+
+export type SwapStatus = 'open' | 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export interface ShiftSwapRequest {
+  id: string;
+  event_id: string;
+  signup_id: string | null;
+  position_id: string;
+  starts_at: string;
+  ends_at: string;
+  kind: SwapKind;
+  status: SwapStatus;
+  note: string | null;
+  created_at: string;
+  position: { name: string; event: { name: string; timezone: string } };
+  offered_by: { name: string; phone_number: string };
+  claimed_by: { name: string; phone_number: string } | null;
+}
+
+export const SHIFT_SWAP_COLUMNS = `
+  id,
+  event_id,
+  signup_id,
+  position_id,
+  starts_at,
+  ends_at,
+  kind,
+  status,
+  note,
+  created_at,
+  position:volunteer_positions(name, event:events(name, timezone)),
+  offered_by:volunteers!shift_swaps_volunteer_id_fkey(name, phone_number),
+  claimed_by:volunteers!shift_swaps_claimed_by_fkey(name, phone_number)
+`;
+
+// The generated types cannot tell to-one embeds from to-many ones, so they may arrive as arrays
+type Embedded<T> = T | T[] | null;
+
+// A row as selected with SHIFT_SWAP_COLUMNS
+export type ShiftSwapRow = Omit<ShiftSwapRequest, 'position' | 'offered_by' | 'claimed_by'> & {
+  position: Embedded<{ name: string; event: Embedded<ShiftSwapRequest['position']['event']> }>;
+  offered_by: Embedded<ShiftSwapRequest['offered_by']>;
+  claimed_by: Embedded<NonNullable<ShiftSwapRequest['claimed_by']>>;
+};
+
+const single = <T>(value: Embedded<T>): T | null => (Array.isArray(value) ? value[0] ?? null : value);
+
+export const toShiftSwapRequest = (row: ShiftSwapRow): ShiftSwapRequest => {
+  const position = single(row.position)!;
+  return {
+    ...row,
+    position: { name: position.name, event: single(position.event)! },
+    offered_by: single(row.offered_by)!,
+    claimed_by: single(row.claimed_by),
+  };
+};
+
+// Seats each position would lose if its pending drops were approved
+export const countPendingDrops = (requests: ShiftSwapRequest[]) => {
+  const counts = new Map<string, number>();
+  requests
+    .filter(request => request.kind === 'drop' && request.status === 'pending')
+    .forEach(request => counts.set(request.position_id, (counts.get(request.position_id) ?? 0) + 1));
+  return counts;
+};
@@ -0,0 +1,113 @@
+// Shifts are the staffing windows under a volunteer position. Each shift has its own
+// time window and needed count, and volunteer signups are assigned into a shift.
+//
+// A window is a pair of instants (`starts_at`, `ends_at`). Organizers enter it as a date
+// and two wall-clock times in the event's time zone; an end time at or before the start
+// time means the window runs past midnight.
+
+import { addDays, daysBetween, formatCalendarDate, toZonedDateTime, zonedTimeToInstant } from './timezone';
+
+export interface ShiftWindow {
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface Shift extends ShiftWindow {
+  id: string;
+  position_id: string;
+  needed: number;
+}
+
+// The parts of an event that shift windows are entered and shown against.
+export interface EventSchedule {
+  date: string;
+  end_date: string | null;
+  timezone: string;
+}
+
+export interface ShiftWindowInput {
+  date: string;
+  start_time: string;
+  end_time: string;
+}
+
+export type CoverageStatus = 'filled' | 'partial' | 'needs';
+
+export interface ShiftCoverage {
+  shift: Shift;
+  assigned: number;
+  needed: number;
+  status: CoverageStatus;
+}
+
+// Every calendar date the event runs on, in order.
+export const getEventDates = (event: EventSchedule): string[] => {
+  const days = event.end_date ? Math.max(0, daysBetween(event.date, event.end_date)) : 0;
+  return Array.from({ length: days + 1 }, (_, i) => addDays(event.date, i));
+};
+
+export const isMultiDayEvent = (event: EventSchedule) =>
+  !!event.end_date && event.end_date !== event.date;
+
+export function buildShiftWindow(input: ShiftWindowInput, timeZone: string): ShiftWindow {
+  const overnight = input.end_time <= input.start_time;
+  const endDate = overnight ? addDays(input.date, 1) : input.date;
+  return {
+    starts_at: zonedTimeToInstant(input.date, input.start_time, timeZone).toISOString(),
+    ends_at: zonedTimeToInstant(endDate, input.end_time, timeZone).toISOString(),
+  };
+}
+
+// Back to form values for editing. Windows longer than a day lose their extra days.
+export function splitShiftWindow(window: ShiftWindow, timeZone: string): ShiftWindowInput {
+  const start = toZonedDateTime(window.starts_at, timeZone);
+  const end = toZonedDateTime(window.ends_at, timeZone);
+  return { date: start.date, start_time: start.time, end_time: end.time };
+}
+
+// "22:00 - 02:00 (+1d)", or "Sat, Jun 1 22:00 - 02:00 (+1d)" with the date shown.
+export function formatShiftWindow(
+  window: ShiftWindow,
+  timeZone: string,
+  { showDate = false }: { showDate?: boolean } = {}
+): string {
+  const start = toZonedDateTime(window.starts_at, timeZone);
+  const end = toZonedDateTime(window.ends_at, timeZone);
+  const extraDays = daysBetween(start.date, end.date);
+  return `${showDate ? `${formatCalendarDate(start.date)} ` : ''}${start.time} - ${end.time}${
+    extraDays > 0 ? ` (+${extraDays}d)` : ''
+  }`;
+}
+
+const toTime = (instant: string) => new Date(instant).getTime();
+
+// Windows that share any instant; one ending as the other starts does not overlap
+export const windowsOverlap = (a: ShiftWindow, b: ShiftWindow) =>
+  toTime(a.starts_at) < toTime(b.ends_at) && toTime(b.starts_at) < toTime(a.ends_at);
+
+export const sortShifts = <T extends ShiftWindow>(shifts: T[]) =>
+  [...shifts].sort((a, b) =>
+    toTime(a.starts_at) - toTime(b.starts_at) || toTime(a.ends_at) - toTime(b.ends_at)
+  );
+
+export const getCoverageStatus = (assigned: number, needed: number): CoverageStatus => {
+  if (needed > 0 && assigned >= needed) return 'filled';
+  if (assigned > 0) return 'partial';
+  return 'needs';
+};
+
+// Count the signups in each shift of a position, in shift order.
+export function getShiftCoverage(
+  shifts: Shift[],
+  signups: Array<{ shift_id: string | null }>
+): ShiftCoverage[] {
+  return sortShifts(shifts).map(shift => {
+    const assigned = signups.filter(s => s.shift_id === shift.id).length;
+    return {
+      shift,
+      assigned,
+      needed: shift.needed,
+      status: getCoverageStatus(assigned, shift.needed),
+    };
+  });
+}
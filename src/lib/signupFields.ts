@@ -0,0 +1,51 @@
+// Custom signup fields: the questions an event asks each volunteer, such as a T-shirt
+// size or a waiver to agree to. Answers are kept on the signup, keyed by field id, and
+// checked by the server (clean_signup_fields) when a form saves them.
+
+import { formatCalendarDate } from './timezone';
+
+export type SignupFieldKind = 'text' | 'select' | 'checkbox' | 'date';
+
+export interface SignupField {
+  id: string;
+  event_id: string;
+  label: string;
+  kind: SignupFieldKind;
+  // The choices of a select field
+  options: string[];
+  // A required checkbox must be checked
+  required: boolean;
+  max_length: number | null;
+  help_text: string | null;
+  sort_order: number;
+}
+
+export const SIGNUP_FIELD_COLUMNS = 'id, event_id, label, kind, options, required, max_length, help_text, sort_order';
+
+export const SIGNUP_FIELD_KINDS: SignupFieldKind[] = ['text', 'select', 'checkbox', 'date'];
+
+export const FIELD_KIND_LABELS: Record<SignupFieldKind, string> = {
+  text: 'Text',
+  select: 'Choice',
+  checkbox: 'Checkbox',
+  date: 'Date',
+};
+
+export type SignupFieldValues = Record<string, string | boolean>;
+
+export const sortFields = (fields: SignupField[]) =>
+  [...fields].sort((a, b) => a.sort_order - b.sort_order);
+
+// An answer as shown in lists and exports
+export function formatFieldValue(field: SignupField, values: SignupFieldValues | null | undefined): string {
+  const value = values?.[field.id];
+  if (field.kind === 'checkbox') return value === true ? 'Yes' : 'No';
+  if (typeof value !== 'string' || value === '') return '';
+  return field.kind === 'date' ? formatCalendarDate(value) : value;
+}
+
+// Form values for a signup's saved answers; checkboxes need a boolean to start from
+export const toFieldFormValues = (fields: SignupField[], values: SignupFieldValues | null | undefined) =>
+  Object.fromEntries(
+    fields.map(field => [field.id, values?.[field.id] ?? (field.kind === 'checkbox' ? false : '')])
+  ) as SignupFieldValues;
@@ -0,0 +1,249 @@
+// Checks spreadsheet rows of volunteer assignments before they are imported. Each row is
+// matched to a position of the event by name and to one of its shifts by time window, and
+// is rejected when a value is missing or malformed, when it repeats another row or an
+// existing signup, or when it overlaps another booking of the same person.
+//
+// Dates are written as YYYY-MM-DD and times as 24-hour or am/pm wall-clock times in the
+// event's time zone. A row without a date is on the event's first day; an end time at or
+// before the start time runs past midnight, as in the assignment form.
+
+import { SignupInput } from './signupOperations';
+import { EventSchedule, Shift, ShiftWindow, buildShiftWindow, formatShiftWindow, getEventDates, windowsOverlap } from './shifts';
+import { isPlausiblePhoneNumber, normalizePhoneNumber } from './phone';
+import { zonedTimeToInstant } from './timezone';
+import { CsvRow, escapeFormula } from './csv';
+
+export type ImportField =
+  | 'volunteer_name'
+  | 'phone_number'
+  | 'organization'
+  | 'position'
+  | 'start'
+  | 'end'
+  | 'other_notes';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'volunteer_name', label: 'Name', required: true, aliases: ['name', 'volunteer', 'volunteer name', 'full name'] },
+  { field: 'phone_number', label: 'Phone', required: true, aliases: ['phone', 'phone number', 'mobile', 'cell'] },
+  { field: 'organization', label: 'Organization', required: false, aliases: ['organization', 'organisation', 'group', 'company'] },
+  { field: 'position', label: 'Position', required: true, aliases: ['position', 'role', 'job', 'station'] },
+  { field: 'start', label: 'Start', required: true, aliases: ['start', 'start time', 'starts', 'from'] },
+  { field: 'end', label: 'End', required: true, aliases: ['end', 'end time', 'ends', 'to', 'until'] },
+  { field: 'other_notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comments', 'other notes'] },
+];
+
+// The column index each field is read from, or null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportPosition {
+  id: string;
+  name: string;
+}
+
+export interface ExistingSignup extends ShiftWindow {
+  id: string;
+  position_id: string;
+  phone_number: string;
+}
+
+export interface ImportContext {
+  event: EventSchedule;
+  positions: ImportPosition[];
+  shifts: Shift[];
+  signups: ExistingSignup[];
+  // Unknown for events shared from another organization; the server normalizes those
+  phoneCountryCode?: string;
+}
+
+export interface ImportRow {
+  // Line in the file the row starts on, counting the header as line 1
+  line: number;
+  cells: string[];
+  input: SignupInput | null;
+  errors: string[];
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(({ field, aliases }) => {
+      const index = normalized.findIndex(header => aliases.includes(header));
+      return [field, index === -1 ? null : index];
+    })
+  ) as ColumnMapping;
+}
+
+interface ParsedDateTime {
+  date: string | null;
+  time: string;
+}
+
+// "2025-06-14 09:30", "2025-06-14T9:30", "9:30", "9:30 pm", "9pm"
+export function parseDateTime(value: string): ParsedDateTime | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(?:(\d{4}-\d{2}-\d{2})[t\s]+)?(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  const [, date, hourText, minuteText, meridiem] = match;
+  let hours = Number(hourText);
+  const minutes = Number(minuteText ?? '0');
+  if (!minuteText && !meridiem) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  if (date && Number.isNaN(new Date(`${date}T00:00:00Z`).getTime())) return null;
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return { date: date ?? null, time: `${pad(hours)}:${pad(minutes)}` };
+}
+
+const toTime = (instant: string) => new Date(instant).getTime();
+
+const sameWindow = (a: ShiftWindow, b: ShiftWindow) =>
+  toTime(a.starts_at) === toTime(b.starts_at) && toTime(a.ends_at) === toTime(b.ends_at);
+
+function parseWindow(startText: string, endText: string, event: EventSchedule): ShiftWindow | string {
+  const start = parseDateTime(startText);
+  if (!start) return `Start "${startText}" is not a valid date and time`;
+  const end = parseDateTime(endText);
+  if (!end) return `End "${endText}" is not a valid date and time`;
+
+  const date = start.date ?? event.date;
+  if (!getEventDates(event).includes(date)) return `Start date ${date} is outside the event`;
+
+  if (!end.date) {
+    if (end.time === start.time) return 'A shift must end at a different time than it starts';
+    return buildShiftWindow({ date, start_time: start.time, end_time: end.time }, event.timezone);
+  }
+
+  const window = {
+    starts_at: zonedTimeToInstant(date, start.time, event.timezone).toISOString(),
+    ends_at: zonedTimeToInstant(end.date, end.time, event.timezone).toISOString(),
+  };
+  if (toTime(window.ends_at) <= toTime(window.starts_at)) return 'End is not after start';
+  return window;
+}
+
+export function validateImportRows(rows: CsvRow[], mapping: ColumnMapping, context: ImportContext): ImportRow[] {
+  const { event, positions, shifts, phoneCountryCode } = context;
+  const positionsByName = new Map(positions.map(p => [p.name.trim().toLowerCase(), p]));
+  const positionNames = new Map(positions.map(p => [p.id, p.name]));
+  const signups = context.signups.filter(s => positionNames.has(s.position_id));
+  const accepted: ImportRow[] = [];
+
+  const read = (cells: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (cells[index] ?? '').trim();
+  };
+
+  const describe = (signup: ExistingSignup | SignupInput) =>
+    `${positionNames.get(signup.position_id)} (${formatShiftWindow(signup, event.timezone, { showDate: true })})`;
+
+  return rows.map(({ line, cells }) => {
+    const row: ImportRow = { line, cells, input: null, errors: [] };
+
+    const name = read(cells, 'volunteer_name');
+    if (!name) row.errors.push('Name is missing');
+
+    const phoneText = read(cells, 'phone_number');
+    const phone = phoneCountryCode
+      ? normalizePhoneNumber(phoneText, phoneCountryCode)
+      : isPlausiblePhoneNumber(phoneText) ? phoneText : null;
+    if (!phoneText) {
+      row.errors.push('Phone is missing');
+    } else if (!phone) {
+      row.errors.push(`Phone "${phoneText}" is not a valid phone number`);
+    }
+
+    const positionText = read(cells, 'position');
+    const position = positionsByName.get(positionText.toLowerCase());
+    if (!positionText) {
+      row.errors.push('Position is missing');
+    } else if (!position) {
+      row.errors.push(`Unknown position "${positionText}"`);
+    }
+
+    const startText = read(cells, 'start');
+    const endText = read(cells, 'end');
+    let window: ShiftWindow | null = null;
+    if (!startText || !endText) {
+      row.errors.push(!startText ? 'Start is missing' : 'End is missing');
+    } else {
+      const parsed = parseWindow(startText, endText, event);
+      if (typeof parsed === 'string') {
+        row.errors.push(parsed);
+      } else {
+        window = parsed;
+      }
+    }
+
+    // Positions with shifts only take signups into one of them
+    let shiftId: string | null = null;
+    if (position && window) {
+      const positionShifts = shifts.filter(s => s.position_id === position.id);
+      const shift = positionShifts.find(s => sameWindow(s, window!));
+      if (positionShifts.length > 0 && !shift) {
+        row.errors.push(`${position.name} has no shift at that time`);
+      }
+      shiftId = shift?.id ?? null;
+    }
+
+    if (row.errors.length > 0 || !position || !window || !phone) return row;
+
+    const input: SignupInput = {
+      position_id: position.id,
+      shift_id: shiftId,
+      volunteer_id: null,
+      volunteer_name: name,
+      phone_number: phone,
+      ...window,
+      other_notes: read(cells, 'other_notes') || null,
+      organization: read(cells, 'organization') || null,
+    };
+
+    const samePerson = (other: { phone_number: string }) => other.phone_number === phone;
+    const duplicateRow = accepted.find(
+      other => samePerson(other.input!) && other.input!.position_id === input.position_id && sameWindow(other.input!, input)
+    );
+    const existing = signups.find(
+      other => samePerson(other) && other.position_id === input.position_id && sameWindow(other, input)
+    );
+
+    if (duplicateRow) {
+      row.errors.push(`Duplicate of line ${duplicateRow.line}`);
+    } else if (existing) {
+      row.errors.push(`Already assigned to ${describe(existing)}`);
+    } else {
+      signups
+        .filter(other => samePerson(other) && windowsOverlap(other, input))
+        .forEach(other => row.errors.push(`Overlaps existing signup at ${describe(other)}`));
+      accepted
+        .filter(other => samePerson(other.input!) && windowsOverlap(other.input!, input))
+        .forEach(other => row.errors.push(`Overlaps line ${other.line}`));
+    }
+
+    if (row.errors.length === 0) {
+      row.input = input;
+      accepted.push(row);
+    }
+    return row;
+  });
+}
+
+// The rejected rows as they were uploaded, with the reasons in an extra column
+export const buildRejectionReport = (headers: string[], rows: ImportRow[]): string[][] => [
+  ['Line', ...headers.map(escapeFormula), 'Errors'],
+  ...rows
+    .filter(row => row.errors.length > 0)
+    .map(row => [
+      String(row.line),
+      ...headers.map((_, i) => escapeFormula(row.cells[i] ?? '')),
+      row.errors.join('; '),
+    ]),
+];
@@ -0,0 +1,252 @@
+// Client wrappers for the signup database functions. Each call is one transaction on the
+// server, so a signup and the counts derived from it can never be left half-updated.
+//
+// Calls that change an existing signup pass the `version` the page last loaded; the server
+// rejects them with a StaleSignupError if someone else has changed the signup since.
+//
+// Assigning or updating a signup that overlaps another signup of the same person in the
+// event fails with a ShiftConflictError unless `allowConflict` is set.
+
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { Json } from './database.types';
+import { PositionStaffing } from './staffing';
+import { AttendanceSource } from './attendance';
+import { SignupFieldValues } from './signupFields';
+import { CheckInLocation } from './geofence';
+
+export interface SignupRecord {
+  id: string;
+  position_id: string;
+  shift_id: string | null;
+  volunteer_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  starts_at: string;
+  ends_at: string;
+  arrived: boolean;
+  other_notes: string | null;
+  organization: string | null;
+  custom_fields: SignupFieldValues;
+  version: number;
+}
+
+export interface SignupResult {
+  signup: SignupRecord;
+  position: PositionStaffing;
+  // Set when update_volunteer moved the volunteer to another position
+  previous_position?: PositionStaffing;
+}
+
+export interface SignupInput {
+  position_id: string;
+  shift_id: string | null;
+  // The directory profile; when null the server links one by name and phone number
+  volunteer_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  starts_at: string;
+  ends_at: string;
+  other_notes: string | null;
+  organization: string | null;
+  // Answers to the event's signup fields. Left out, a new signup has none and an existing
+  // one keeps its answers.
+  custom_fields?: SignupFieldValues;
+}
+
+export interface SignupWriteOptions {
+  // Book the volunteer even if they already have a signup at an overlapping time
+  allowConflict?: boolean;
+}
+
+// A signup of a bulk import, with the file line its errors are reported against
+export interface ImportSignup extends SignupInput {
+  line: number;
+}
+
+export interface SignupRef {
+  id: string;
+  version: number;
+}
+
+// Postgres serialization_failure, raised when the expected version does not match
+const STALE_ERROR_CODE = '40001';
+
+export class StaleSignupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StaleSignupError';
+  }
+}
+
+// Postgres exclusion_violation, raised when the volunteer is already booked at that time
+const CONFLICT_ERROR_CODE = '23P01';
+
+export interface SignupConflict {
+  signup_id: string;
+  volunteer_name: string;
+  position_name: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+export class ShiftConflictError extends Error {
+  constructor(message: string, public conflicts: SignupConflict[]) {
+    super(message);
+    this.name = 'ShiftConflictError';
+  }
+}
+
+const parseConflicts = (details: string): SignupConflict[] => {
+  if (!details) return [];
+  try {
+    return JSON.parse(details);
+  } catch {
+    return [];
+  }
+};
+
+const toError = (error: PostgrestError) => {
+  switch (error.code) {
+    case STALE_ERROR_CODE:
+      return new StaleSignupError(error.message);
+    case CONFLICT_ERROR_CODE:
+      return new ShiftConflictError(error.message, parseConflicts(error.details));
+    default:
+      return new Error(error.message);
+  }
+};
+
+function unwrap({ data, error }: { data: unknown; error: PostgrestError | null }): SignupResult {
+  if (error) throw toError(error);
+  return data as SignupResult;
+}
+
+const toArgs = (input: SignupInput, options: SignupWriteOptions) => ({
+  p_position_id: input.position_id,
+  p_shift_id: input.shift_id,
+  p_volunteer_name: input.volunteer_name,
+  p_phone_number: input.phone_number,
+  p_starts_at: input.starts_at,
+  p_ends_at: input.ends_at,
+  p_other_notes: input.other_notes,
+  p_organization: input.organization,
+  p_volunteer_id: input.volunteer_id,
+  p_allow_conflict: options.allowConflict ?? false,
+  p_custom_fields: input.custom_fields ?? null,
+});
+
+export const assignVolunteer = async (input: SignupInput, options: SignupWriteOptions = {}) =>
+  unwrap(await supabase.rpc('assign_volunteer', toArgs(input, options)));
+
+export const updateVolunteer = async (
+  signup: SignupRef,
+  input: SignupInput,
+  options: SignupWriteOptions = {}
+) =>
+  unwrap(await supabase.rpc('update_volunteer', {
+    p_signup_id: signup.id,
+    p_expected_version: signup.version,
+    ...toArgs(input, options),
+  }));
+
+export const removeVolunteer = async (signup: SignupRef) =>
+  unwrap(await supabase.rpc('remove_volunteer', {
+    p_signup_id: signup.id,
+    p_expected_version: signup.version,
+  }));
+
+export interface ArrivalOptions {
+  // When a check-in queued offline actually happened
+  occurredAt?: string | null;
+  // Where the device was; a self check-in may be refused outside the position's geofence
+  location?: CheckInLocation | null;
+  // A coordinator lets a self check-in through although it is outside the geofence
+  geofenceOverride?: boolean;
+}
+
+// `source` is recorded in the attendance ledger: 'volunteer' for self check-in. The server
+// records 'staff' only for owners and coordinators; other members check in as volunteers.
+export const setArrival = async (
+  signup: SignupRef,
+  arrived: boolean,
+  source: Exclude<AttendanceSource, 'auto_checkout'> = 'staff',
+  options: ArrivalOptions = {}
+) =>
+  unwrap(await supabase.rpc('set_arrival', {
+    p_signup_id: signup.id,
+    p_expected_version: signup.version,
+    p_arrived: arrived,
+    p_source: source,
+    p_occurred_at: options.occurredAt ?? null,
+    p_latitude: options.location?.latitude ?? null,
+    p_longitude: options.location?.longitude ?? null,
+    p_accuracy_m: options.location?.accuracy_m ?? null,
+    p_geofence_override: options.geofenceOverride ?? false,
+  }));
+
+// All signups are created in one transaction; the first failing one aborts the import
+export async function importVolunteers(signups: ImportSignup[]): Promise<number> {
+  const { data, error } = await supabase.rpc('import_volunteers', {
+    p_signups: signups as unknown as Json,
+  });
+  if (error) throw toError(error);
+  return data;
+}
+
+// Assigns a waitlisted volunteer to a shift; standby volunteers need `shiftId`
+export const promoteWaitlistEntry = async (entryId: string, shiftId: string | null = null) =>
+  unwrap(await supabase.rpc('promote_waitlist_entry', {
+    p_entry_id: entryId,
+    p_shift_id: shiftId,
+  }));
+
+// The following return null when nobody on the waitlist could take the seat
+
+export async function promoteNextWaitlisted(shiftId: string): Promise<SignupResult | null> {
+  const { data, error } = await supabase.rpc('promote_next_waitlisted', { p_shift_id: shiftId });
+  if (error) throw toError(error);
+  return data as SignupResult | null;
+}
+
+// Removes a volunteer who did not turn up and promotes the next in line for their shift
+export async function replaceNoShow(signup: SignupRef): Promise<SignupResult | null> {
+  const { data, error } = await supabase.rpc('replace_no_show', {
+    p_signup_id: signup.id,
+    p_expected_version: signup.version,
+  });
+  if (error) throw toError(error);
+  return data as SignupResult | null;
+}
+
+// Hands the signup to the volunteer who claimed it, or removes it for a drop
+export const approveShiftSwap = async (swapId: string) =>
+  unwrap(await supabase.rpc('approve_shift_swap', { p_swap_id: swapId }));
+
+export async function rejectShiftSwap(swapId: string) {
+  const { error } = await supabase.rpc('reject_shift_swap', { p_swap_id: swapId });
+  if (error) throw toError(error);
+}
+
+export interface GroupSeatsInput {
+  group_id: string;
+  position_id: string;
+  shift_id: string | null;
+  starts_at: string;
+  ends_at: string;
+  seats: number;
+}
+
+// Books open seats for a group; its leader names the members later
+export async function assignGroupSeats(input: GroupSeatsInput): Promise<number> {
+  const { data, error } = await supabase.rpc('assign_group_seats', {
+    p_group_id: input.group_id,
+    p_position_id: input.position_id,
+    p_shift_id: input.shift_id,
+    p_starts_at: input.starts_at,
+    p_ends_at: input.ends_at,
+    p_seats: input.seats,
+  });
+  if (error) throw toError(error);
+  return data;
+}
@@ -0,0 +1,18 @@
+// Per-position staffing, counted by the `position_staffing` view from the signup rows.
+//
+// - assigned: volunteers signed up for the position
+// - checked_in: volunteers currently on site
+// - checked_out: volunteers who checked in and have since left
+
+export interface PositionStaffing {
+  position_id: string;
+  event_id: string;
+  needed: number;
+  assigned: number;
+  checked_in: number;
+  checked_out: number;
+}
+
+export type StaffingCounts = Pick<PositionStaffing, 'assigned' | 'checked_in' | 'checked_out'>;
+
+export const EMPTY_STAFFING: StaffingCounts = { assigned: 0, checked_in: 0, checked_out: 0 };
@@ -0,0 +1,145 @@
+// Event-local time handling.
+//
+// Each event carries an IANA time zone (`events.timezone`). Event dates and shift times
+// are stored as wall-clock values in that zone, so anything comparing them to "now" or
+// turning them into instants must go through these helpers rather than the browser's
+// own zone (`Date#getHours` and friends).
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  minutes: number; // minutes after midnight
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getBrowserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+
+// All zones the browser knows about, for the event form's picker.
+export const listTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [];
+  return zones.includes(DEFAULT_TIMEZONE) ? zones : [DEFAULT_TIMEZONE, ...zones];
+};
+
+const resolveTimeZone = (timeZone: string | null | undefined) =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+
+const getZonedParts = (instant: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return parts;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The wall-clock date and time in `timeZone` at `instant`.
+export function toZonedDateTime(instant: Date | string, timeZone: string | null | undefined): ZonedDateTime {
+  const parts = getZonedParts(new Date(instant), resolveTimeZone(timeZone));
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+    minutes: parts.hour * 60 + parts.minute,
+  };
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of any zone.
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / 86400000);
+}
+
+// Short label for a calendar date, e.g. "Sat, Jun 1".
+export const formatCalendarDate = (date: string) =>
+  new Intl.DateTimeFormat(undefined, { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' })
+    .format(new Date(`${date}T00:00:00Z`));
+
+// Offset of `timeZone` from UTC at `instant`, in milliseconds.
+const getOffset = (instant: Date, timeZone: string) => {
+  const parts = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// The instant at which the wall clock in `timeZone` reads `date` `time`. A time skipped
+// or repeated by a DST change resolves to the nearest valid instant.
+export function zonedTimeToInstant(date: string, time: string, timeZone: string | null | undefined): Date {
+  const zone = resolveTimeZone(timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes || 0, seconds || 0);
+
+  // Two passes settle the offset across a DST boundary
+  let instant = wallClock - getOffset(new Date(wallClock), zone);
+  instant = wallClock - getOffset(new Date(instant), zone);
+  return new Date(instant);
+}
+
+// Format an instant as it reads on the wall clock in `timeZone`.
+export function formatInTimeZone(
+  instant: Date,
+  timeZone: string | null | undefined,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string {
+  return new Intl.DateTimeFormat(undefined, { ...options, timeZone: resolveTimeZone(timeZone) }).format(instant);
+}
+
+// Short zone label such as "EDT" or "GMT+2" for showing next to event-local times.
+export function getTimeZoneLabel(timeZone: string | null | undefined, at: Date = new Date()): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone: resolveTimeZone(timeZone), timeZoneName: 'short' })
+    .formatToParts(at)
+    .find(p => p.type === 'timeZoneName');
+  return part?.value ?? resolveTimeZone(timeZone);
+}
+
+// An event's start as shown to users, e.g. "Jun 1, 2025, 9:00 AM EDT".
+export function formatEventDateTime(date: string, time: string, timeZone: string | null | undefined): string {
+  try {
+    const instant = zonedTimeToInstant(date, time, timeZone);
+    if (Number.isNaN(instant.getTime())) return `${date} ${time}`;
+    return `${formatInTimeZone(instant, timeZone)} ${getTimeZoneLabel(timeZone, instant)}`;
+  } catch (error) {
+    console.error('Error formatting event date/time:', error);
+    return `${date} ${time}`;
+  }
+}
@@ -0,0 +1,89 @@
+// The personal portal a volunteer opens from their secret link, without an account. Every
+// call carries the link's token; the server only returns and changes that volunteer's data.
+
+import { supabase } from './supabase';
+import { SwapKind, SwapStatus } from './shiftSwaps';
+
+export interface PortalShift {
+  id: string;
+  version: number;
+  starts_at: string;
+  ends_at: string;
+  arrived: boolean;
+  position: {
+    id: string;
+    name: string;
+    description: string | null;
+    latitude: number | null;
+    longitude: number | null;
+  };
+  event: {
+    id: string;
+    name: string;
+    location: string | null;
+    timezone: string;
+  };
+  // The volunteer's open request to give up the shift, if any
+  request: { id: string; kind: SwapKind; status: SwapStatus } | null;
+}
+
+// A shift another volunteer offered that this volunteer could take
+export interface ClaimableShift {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  note: string | null;
+  position: { name: string; description: string | null };
+  event: { name: string; location: string | null; timezone: string };
+}
+
+export interface VolunteerPortal {
+  volunteer: {
+    name: string;
+    phone_number: string;
+    email: string | null;
+    organization: string | null;
+  };
+  organization_name: string;
+  // Shifts that have not ended, soonest first
+  shifts: PortalShift[];
+  claimable: ClaimableShift[];
+}
+
+export const portalUrl = (token: string) => `${window.location.origin}/me/${token}`;
+
+export async function getVolunteerPortal(token: string): Promise<VolunteerPortal> {
+  const { data, error } = await supabase.rpc('get_volunteer_portal', { p_token: token });
+  if (error) throw new Error(error.message);
+  return data as unknown as VolunteerPortal;
+}
+
+// A swap waits for another volunteer to claim it; a drop goes straight to the coordinators
+export async function offerPortalShift(token: string, shift: PortalShift, kind: SwapKind, note: string) {
+  const { error } = await supabase.rpc('portal_offer_shift', {
+    p_token: token,
+    p_signup_id: shift.id,
+    p_kind: kind,
+    p_note: note,
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function withdrawPortalOffer(token: string, requestId: string) {
+  const { error } = await supabase.rpc('portal_withdraw_offer', { p_token: token, p_swap_id: requestId });
+  if (error) throw new Error(error.message);
+}
+
+export async function claimPortalShift(token: string, shift: ClaimableShift) {
+  const { error } = await supabase.rpc('portal_claim_shift', { p_token: token, p_swap_id: shift.id });
+  if (error) throw new Error(error.message);
+}
+
+export async function updatePortalContact(token: string, phoneNumber: string, email: string) {
+  const { error } = await supabase.rpc('portal_update_contact', {
+    p_token: token,
+    p_phone_number: phoneNumber,
+    p_email: email,
+  });
+  if (error) throw new Error(error.message);
+}
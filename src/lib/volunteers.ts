@@ -0,0 +1,25 @@
+// Volunteer profiles in an organization's directory. Signups keep a copy of the name and
+// phone number and point at the profile through `volunteer_id`.
+
+export interface VolunteerProfile {
+  id: string;
+  organization_id: string;
+  name: string;
+  phone_number: string;
+  email: string | null;
+  organization: string | null;
+  skills: string[];
+  notes: string | null;
+}
+
+export const VOLUNTEER_PROFILE_COLUMNS =
+  'id, organization_id, name, phone_number, email, organization, skills, notes';
+
+// "First aid, driving" -> ['First aid', 'driving'], without blanks or repeats
+export const parseSkills = (input: string) =>
+  Array.from(new Set(input.split(',').map(skill => skill.trim()).filter(Boolean)));
+
+export const formatSkills = (skills: string[]) => skills.join(', ');
+
+// Search term for PostgREST `or` filters; commas and parentheses would break the filter
+export const toSearchPattern = (term: string) => `%${term.trim().replace(/[,()%]/g, ' ')}%`;
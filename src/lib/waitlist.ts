@@ -0,0 +1,56 @@
+// Volunteers waiting for a seat. An entry waits for one shift, for any shift of a position,
+// or for any shift of the event (standby). promote_next_waitlisted fills a seat from the
+// shift's own line first, then the position's, then standby.
+
+import { ShiftWindow } from './shifts';
+
+export type WaitlistStatus = 'waiting' | 'promoted' | 'withdrawn';
+
+export interface WaitlistEntry {
+  id: string;
+  event_id: string;
+  position_id: string | null;
+  shift_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  organization: string | null;
+  priority: number;
+  status: WaitlistStatus;
+  created_at: string;
+}
+
+export interface StaffingHistoryEntry {
+  id: string;
+  position_id: string;
+  shift_id: string | null;
+  volunteer_name: string;
+  action: 'promoted';
+  reason: string | null;
+  automatic: boolean;
+  created_at: string;
+}
+
+export interface VolunteerNotification {
+  id: string;
+  volunteer_name: string;
+  phone_number: string;
+  body: string;
+  status: 'pending' | 'sent';
+  created_at: string;
+}
+
+// Minutes after a shift starts before an absent volunteer counts as a no-show
+export const NO_SHOW_GRACE_MINUTES = 15;
+
+export const isNoShow = (signup: ShiftWindow & { arrived: boolean }, now: Date = new Date()) =>
+  !signup.arrived &&
+  now.getTime() >= new Date(signup.starts_at).getTime() + NO_SHOW_GRACE_MINUTES * 60_000 &&
+  now < new Date(signup.ends_at);
+
+// Line order: highest priority first, then first come
+export const sortWaitlist = <T extends Pick<WaitlistEntry, 'priority' | 'created_at'>>(entries: T[]) =>
+  [...entries].sort((a, b) => b.priority - a.priority || a.created_at.localeCompare(b.created_at));
+
+// Whether the entry may be promoted into a shift of the position
+export const waitsFor = (entry: WaitlistEntry, shift: { id: string; position_id: string }) =>
+  entry.shift_id ? entry.shift_id === shift.id : !entry.position_id || entry.position_id === shift.position_id;
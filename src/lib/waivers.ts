@@ -0,0 +1,131 @@
+// Liability waivers signed on the check-in page. A waiver's wording is versioned: changing
+// it asks everyone to sign again, and each signature keeps the version that was signed.
+
+import { supabase } from './supabase';
+import { downloadCsv } from './csv';
+import { formatShiftWindow } from './shifts';
+import { formatInTimeZone } from './timezone';
+
+export interface WaiverVersion {
+  id: string;
+  version: number;
+  body: string;
+  published_at: string;
+}
+
+export interface Waiver {
+  id: string;
+  event_id: string;
+  // Null when every position of the event needs it
+  position_id: string | null;
+  title: string;
+  archived_at: string | null;
+  versions: WaiverVersion[];
+}
+
+export const WAIVER_COLUMNS = 'id, event_id, position_id, title, archived_at, versions:waiver_versions(id, version, body, published_at)';
+
+// A waiver version a signup still has to sign
+export interface PendingWaiver {
+  waiver_id: string;
+  waiver_version_id: string;
+  title: string;
+  version: number;
+  body: string;
+}
+
+export type SignatureMethod = 'typed' | 'drawn';
+
+export interface WaiverSignature {
+  id: string;
+  waiver_title: string;
+  waiver_version: number;
+  volunteer_name: string;
+  phone_number: string;
+  method: SignatureMethod;
+  typed_name: string | null;
+  signed_at: string;
+  signup: {
+    starts_at: string;
+    ends_at: string;
+    position: { name: string };
+  } | null;
+}
+
+// Drawings are left out; the report only says a signature was drawn
+export const WAIVER_SIGNATURE_COLUMNS = `
+  id,
+  waiver_title,
+  waiver_version,
+  volunteer_name,
+  phone_number,
+  method,
+  typed_name,
+  signed_at,
+  signup:volunteer_signups(starts_at, ends_at, position:volunteer_positions(name))
+`;
+
+export const currentVersion = (waiver: Waiver): WaiverVersion | null =>
+  waiver.versions.reduce<WaiverVersion | null>(
+    (latest, version) => (!latest || version.version > latest.version ? version : latest),
+    null
+  );
+
+export async function getPendingWaivers(signupId: string): Promise<PendingWaiver[]> {
+  const { data, error } = await supabase.rpc('unsigned_waivers', { p_signup_id: signupId });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Adds a version when the wording changed. Returns the waiver's id.
+export async function saveWaiver(input: {
+  id: string | null;
+  event_id: string;
+  position_id: string | null;
+  title: string;
+  body: string;
+}): Promise<string> {
+  const { data, error } = await supabase.rpc('save_waiver', {
+    p_waiver_id: input.id,
+    p_event_id: input.event_id,
+    p_position_id: input.position_id,
+    p_title: input.title,
+    p_body: input.body,
+  });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// `signature` is the typed name, or a PNG data URL of the drawing
+export async function signWaiver(
+  signupId: string,
+  waiver: PendingWaiver,
+  method: SignatureMethod,
+  signature: string
+) {
+  const { error } = await supabase.rpc('sign_waiver', {
+    p_signup_id: signupId,
+    p_waiver_version_id: waiver.waiver_version_id,
+    p_method: method,
+    p_typed_name: method === 'typed' ? signature : null,
+    p_drawing: method === 'drawn' ? signature : null,
+  });
+  if (error) throw new Error(error.message);
+}
+
+export function downloadSignatureReport(fileName: string, signatures: WaiverSignature[], timeZone: string) {
+  downloadCsv(fileName, [
+    ['Volunteer', 'Phone Number', 'Position', 'Shift', 'Waiver', 'Version', 'Signature', 'Signed At', 'Time Zone'],
+    ...signatures.map(signature => [
+      signature.volunteer_name,
+      signature.phone_number,
+      signature.signup?.position.name ?? '',
+      signature.signup ? formatShiftWindow(signature.signup, timeZone, { showDate: true }) : '',
+      signature.waiver_title,
+      String(signature.waiver_version),
+      signature.method === 'typed' ? `Typed: ${signature.typed_name}` : 'Drawn',
+      formatInTimeZone(new Date(signature.signed_at), timeZone),
+      timeZone,
+    ]),
+  ]);
+}
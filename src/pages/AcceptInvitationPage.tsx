@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { UserPlus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { EventRole, ROLE_DESCRIPTIONS, ROLE_LABELS } from '../lib/eventRoles';
+
+interface Invitation {
+  email: string;
+  role: EventRole;
+  accepted_at: string | null;
+}
+
+export function AcceptInvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Only visible when it was sent to the signed-in user's email
+  const { data: invitation, isLoading } = useQuery({
+    queryKey: ['invitation', token],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('event_invitations')
+        .select('email, role, accepted_at')
+        .eq('token', token ?? '')
+        .maybeSingle();
+      if (error) throw error;
+      return data as Invitation | null;
+    },
+    enabled: !!token,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        const { data, error } = await supabase.rpc('accept_invitation', { p_token: token ?? '' });
+        if (error) throw new Error(error.message);
+        return data as string;
+      } catch (error) {
+        console.error('Error accepting invitation:', error);
+        throw error;
+      }
+    },
+    onSuccess: (eventId) => {
+      queryClient.invalidateQueries({ queryKey: ['event-roles'] });
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success('You have joined the event');
+      navigate(`/overview?eventId=${eventId}`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to accept invitation');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-lg mx-auto bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium mb-4 flex items-center">
+        <UserPlus className="h-5 w-5 mr-2 text-indigo-600" />
+        Event Invitation
+      </h2>
+      {!invitation ? (
+        <p className="text-sm text-gray-600">
+          This invitation was not found. It may have been revoked, or sent to an email address
+          other than {user?.email}.
+        </p>
+      ) : invitation.accepted_at ? (
+        <p className="text-sm text-gray-600">This invitation has already been accepted.</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            You have been invited to join an event as{' '}
+            <span className="font-medium text-gray-900">{ROLE_LABELS[invitation.role]}</span>.
+            {' '}{ROLE_DESCRIPTIONS[invitation.role]}.
+          </p>
+          <button
+            onClick={() => acceptMutation.mutate()}
+            disabled={acceptMutation.isPending}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {acceptMutation.isPending ? 'Joining...' : 'Join Event'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
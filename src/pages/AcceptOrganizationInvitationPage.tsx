@@ -0,0 +1,106 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { Building2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import {
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  ORGANIZATION_ROLE_LABELS,
+  OrganizationRole,
+} from '../lib/organizations';
+
+interface Invitation {
+  email: string;
+  role: OrganizationRole;
+  accepted_at: string | null;
+}
+
+export function AcceptOrganizationInvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const { switchOrganization } = useOrganization();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Only visible when it was sent to the signed-in user's email
+  const { data: invitation, isLoading } = useQuery({
+    queryKey: ['organization-invitation', token],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organization_invitations')
+        .select('email, role, accepted_at')
+        .eq('token', token ?? '')
+        .maybeSingle();
+      if (error) throw error;
+      return data as Invitation | null;
+    },
+    enabled: !!token,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        const { data, error } = await supabase.rpc('accept_organization_invitation', { p_token: token ?? '' });
+        if (error) throw new Error(error.message);
+        return data as string;
+      } catch (error) {
+        console.error('Error accepting organization invitation:', error);
+        throw error;
+      }
+    },
+    onSuccess: (organizationId) => {
+      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+      queryClient.invalidateQueries({ queryKey: ['event-roles'] });
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      switchOrganization(organizationId);
+      toast.success('You have joined the organization');
+      navigate('/');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to accept invitation');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-lg mx-auto bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium mb-4 flex items-center">
+        <Building2 className="h-5 w-5 mr-2 text-indigo-600" />
+        Organization Invitation
+      </h2>
+      {!invitation ? (
+        <p className="text-sm text-gray-600">
+          This invitation was not found. It may have been revoked, or sent to an email address
+          other than {user?.email}.
+        </p>
+      ) : invitation.accepted_at ? (
+        <p className="text-sm text-gray-600">This invitation has already been accepted.</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            You have been invited to join an organization as{' '}
+            <span className="font-medium text-gray-900">{ORGANIZATION_ROLE_LABELS[invitation.role]}</span>.
+            {' '}{ORGANIZATION_ROLE_DESCRIPTIONS[invitation.role]}.
+          </p>
+          <button
+            onClick={() => acceptMutation.mutate()}
+            disabled={acceptMutation.isPending}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {acceptMutation.isPending ? 'Joining...' : 'Join Organization'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
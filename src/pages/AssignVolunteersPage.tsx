@@ -2,48 +2,95 @@ import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { toast } from 'react-hot-toast';
-import { Users, Edit2, Trash2, CheckCircle, XCircle, Search, Filter } from 'lucide-react';
+import { Users, Edit2, Trash2, CheckCircle, XCircle, Search, Filter, UserCheck, AlertTriangle, Upload } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { useAuth } from '../contexts/AuthContext';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { VolunteerSuggestions } from '../components/VolunteerSuggestions';
+import { VolunteerImportWizard } from '../components/VolunteerImportWizard';
+import { SignupFieldInputs } from '../components/SignupFieldInputs';
+import { VolunteerProfile } from '../lib/volunteers';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { normalizePhoneNumber, validatePhoneNumber } from '../lib/phone';
 import { useAutoCheckout } from '../hooks/useAutoCheckout';
+import {
+  EventSchedule,
+  Shift,
+  buildShiftWindow,
+  formatShiftWindow,
+  getEventDates,
+  isMultiDayEvent,
+  sortShifts,
+  splitShiftWindow,
+  windowsOverlap,
+} from '../lib/shifts';
+import { formatCalendarDate } from '../lib/timezone';
+import {
+  SIGNUP_FIELD_COLUMNS,
+  SignupField,
+  SignupFieldValues,
+  formatFieldValue,
+  sortFields,
+  toFieldFormValues,
+} from '../lib/signupFields';
+import {
+  ShiftConflictError,
+  SignupInput,
+  StaleSignupError,
+  assignVolunteer,
+  removeVolunteer,
+  setArrival,
+  updateVolunteer,
+} from '../lib/signupOperations';
 
 interface Volunteer {
   id: string;
   position_id: string;
+  shift_id: string | null;
+  volunteer_id: string | null;
   volunteer_name: string;
   phone_number: string;
-  start_time: string;
-  end_time: string;
+  starts_at: string;
+  ends_at: string;
   arrived: boolean;
   other_notes: string | null;
   organization: string | null;
+  custom_fields: SignupFieldValues;
+  version: number;
 }
 
 interface VolunteerFormData {
   position_id: string;
+  shift_id: string;
+  volunteer_id: string;
   volunteer_name: string;
   phone_number: string;
+  date: string;
   start_time: string;
   end_time: string;
   other_notes: string;
   organization: string;
+  custom_fields: SignupFieldValues;
 }
 
 interface Position {
   id: string;
+  event_id: string;
   name: string;
-  event: { name: string };
+  event: EventSchedule & { name: string; organization_id: string };
   needed: number;
-  filled: number;
   latitude: number;
   longitude: number;
 }
 
 export function AssignVolunteersPage() {
-  const { user } = useAuth();
+  const { can } = useEventRoles();
+  const { organizations } = useOrganization();
   const queryClient = useQueryClient();
   const [editingVolunteer, setEditingVolunteer] = useState<Volunteer | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set by the organizer to book a volunteer over their other overlapping signups
+  const [allowConflict, setAllowConflict] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   
   // Filter and search state
   const [searchTerm, setSearchTerm] = useState('');
@@ -51,7 +98,12 @@ export function AssignVolunteersPage() {
   const [selectedPosition, setSelectedPosition] = useState('');
   const [selectedOrganization, setSelectedOrganization] = useState('');
 
-  const { register, handleSubmit, reset, setValue, formState: { errors } } = useForm<VolunteerFormData>();
+  const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<VolunteerFormData>();
+  const formPositionId = watch('position_id');
+  const formShiftId = watch('shift_id');
+  const [formVolunteerId, formVolunteerName, formPhone] = watch(['volunteer_id', 'volunteer_name', 'phone_number']);
+  const [formDate, formStart, formEnd] = watch(['date', 'start_time', 'end_time']);
+  const endsNextDay = !!formStart && !!formEnd && formEnd < formStart;
 
   const { data: positions } = useQuery({
     queryKey: ['positions'],
@@ -61,14 +113,13 @@ export function AssignVolunteersPage() {
           .from('volunteer_positions')
           .select(`
             id,
+            event_id,
             name,
             needed,
-            filled,
             latitude,
             longitude,
-            event:events(name)
-          `)
-          .eq('user_id', user?.id);
+            event:events(name, date, end_date, timezone, organization_id)
+          `);
         if (error) throw error;
         return (data as any[]).map(item => ({
           ...item,
@@ -91,15 +142,20 @@ export function AssignVolunteersPage() {
             id,
             volunteer_name,
             phone_number,
-            start_time,
-            end_time,
+            starts_at,
+            ends_at,
             arrived,
             other_notes,
             organization,
+            custom_fields,
             position_id,
+            shift_id,
+            volunteer_id,
+            version,
             position:volunteer_positions(
               name,
-              event:events(name)
+              event_id,
+              event:events(name, timezone)
             )
           `);
         if (error) throw error;
@@ -117,13 +173,112 @@ export function AssignVolunteersPage() {
     },
   });
 
-  // Set up automatic check-out for volunteers whose shifts have ended
+  const { data: shifts } = useQuery({
+    queryKey: ['shifts'],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('shifts')
+          .select('id, position_id, starts_at, ends_at, needed');
+        if (error) throw error;
+        return data as Shift[];
+      } catch (error) {
+        console.error('Error fetching shifts:', error);
+        throw error;
+      }
+    },
+  });
+
+  const { data: signupFields } = useQuery({
+    queryKey: ['signup-fields'],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('signup_fields')
+          .select(SIGNUP_FIELD_COLUMNS);
+        if (error) throw error;
+        return sortFields(data as SignupField[]);
+      } catch (error) {
+        console.error('Error fetching signup fields:', error);
+        throw error;
+      }
+    },
+  });
+
+  const fieldsForEvent = (eventId: string | undefined) =>
+    (signupFields || []).filter(field => field.event_id === eventId);
+
+  // Shifts of the position picked in the form, with how many volunteers each already has
+  const positionShifts = useMemo(() => {
+    if (!shifts || !formPositionId) return [];
+    return sortShifts(shifts.filter(shift => shift.position_id === formPositionId)).map(shift => ({
+      ...shift,
+      assigned: (volunteers || []).filter(v => v.shift_id === shift.id && v.id !== editingVolunteer?.id).length,
+    }));
+  }, [shifts, volunteers, formPositionId, editingVolunteer]);
+
+  // The event of the position picked in the form, whose dates and zone the times are in
+  const formPosition = useMemo(
+    () => positions?.find(position => position.id === formPositionId) ?? null,
+    [positions, formPositionId]
+  );
+  const formEvent = formPosition?.event ?? null;
+  const formEventDates = useMemo(() => (formEvent ? getEventDates(formEvent) : []), [formEvent]);
+  const formFields = useMemo(
+    () => (signupFields || []).filter(field => field.event_id === formPosition?.event_id),
+    [signupFields, formPosition]
+  );
+  // Unknown for events shared from another organization; the server normalizes those
+  const phoneCountryCode = organizations.find(o => o.id === formEvent?.organization_id)?.phone_country_code;
+
+  // The volunteer's other signups in the event that overlap the form's window. The server
+  // runs the same check (find_signup_conflicts), so this only shows it before submitting.
+  const formConflicts = useMemo(() => {
+    if (!volunteers || !formPosition || !formDate || !formStart || !formEnd || !formPhone?.trim()) return [];
+    const window = buildShiftWindow(
+      { date: formDate, start_time: formStart, end_time: formEnd },
+      formPosition.event.timezone
+    );
+    const phone = (phoneCountryCode && normalizePhoneNumber(formPhone, phoneCountryCode)) || formPhone.trim();
+    return volunteers.filter(v =>
+      v.id !== editingVolunteer?.id &&
+      v.position.event_id === formPosition.event_id &&
+      (v.phone_number === phone || (!!formVolunteerId && v.volunteer_id === formVolunteerId)) &&
+      windowsOverlap(v, window)
+    );
+  }, [volunteers, formPosition, formDate, formStart, formEnd, formPhone, formVolunteerId, phoneCountryCode, editingVolunteer]);
+
+  // An override only covers the conflicts it was given for
+  useEffect(() => {
+    setAllowConflict(false);
+  }, [formConflicts.length, editingVolunteer]);
+
+  // Keep the date within the picked event
+  useEffect(() => {
+    if (formEventDates.length > 0 && !formEventDates.includes(formDate)) {
+      setValue('date', formEventDates[0]);
+    }
+  }, [formEventDates, formDate, setValue]);
+
+  // Signups in a shift take the shift's time window
+  useEffect(() => {
+    if (!formShiftId || !shifts || !formEvent) return;
+    const shift = positionShifts.find(s => s.id === formShiftId);
+    if (!shift) {
+      // The position changed under the selected shift
+      setValue('shift_id', '');
+    } else {
+      const window = splitShiftWindow(shift, formEvent.timezone);
+      setValue('date', window.date);
+      setValue('start_time', window.start_time);
+      setValue('end_time', window.end_time);
+    }
+  }, [formShiftId, shifts, positionShifts, formEvent, setValue]);
+
+  // Show toasts when the server-side job checks out volunteers whose shifts have ended
   useAutoCheckout({
     volunteers: volunteers || [],
     enabled: true,
-    checkInterval: 60000, // Check every minute
-    bufferMinutes: 1, // 1 minute buffer after shift ends
-    maxLateCheckoutWindow: 5 // Only check out within 5 minutes of shift end
   });
 
   // Filter volunteers based on search and filter criteria
@@ -174,19 +329,77 @@ export function AssignVolunteersPage() {
     if (editingVolunteer) {
       console.log('Setting form values for editing volunteer:', editingVolunteer);
       setValue('position_id', editingVolunteer.position_id);
+      setValue('shift_id', editingVolunteer.shift_id || '');
+      setValue('volunteer_id', editingVolunteer.volunteer_id || '');
       setValue('volunteer_name', editingVolunteer.volunteer_name);
       setValue('phone_number', editingVolunteer.phone_number);
-      setValue('start_time', editingVolunteer.start_time);
-      setValue('end_time', editingVolunteer.end_time);
+      const timeZone = positions?.find(p => p.id === editingVolunteer.position_id)?.event.timezone;
+      if (timeZone) {
+        const window = splitShiftWindow(editingVolunteer, timeZone);
+        setValue('date', window.date);
+        setValue('start_time', window.start_time);
+        setValue('end_time', window.end_time);
+      }
       setValue('other_notes', editingVolunteer.other_notes || '');
       setValue('organization', editingVolunteer.organization || '');
     }
-  }, [editingVolunteer, setValue]);
+  }, [editingVolunteer, positions, setValue]);
+
+  // Separate so answers fill in once the event's fields have loaded
+  useEffect(() => {
+    if (editingVolunteer && signupFields) {
+      const eventId = positions?.find(p => p.id === editingVolunteer.position_id)?.event_id;
+      const fields = signupFields.filter(field => field.event_id === eventId);
+      setValue('custom_fields', toFieldFormValues(fields, editingVolunteer.custom_fields));
+    }
+  }, [editingVolunteer, signupFields, positions, setValue]);
+
+  // The form's values as the signup functions expect them
+  const toSignupInput = (data: VolunteerFormData): SignupInput => {
+    if (!formEvent) {
+      throw new Error('Unknown event for the selected position');
+    }
+    return {
+      position_id: data.position_id,
+      shift_id: data.shift_id || null,
+      volunteer_id: data.volunteer_id || null,
+      volunteer_name: data.volunteer_name,
+      phone_number: (phoneCountryCode && normalizePhoneNumber(data.phone_number, phoneCountryCode)) || data.phone_number.trim(),
+      ...buildShiftWindow(data, formEvent.timezone),
+      other_notes: data.other_notes || null,
+      organization: data.organization || null,
+      // Until the fields load, an edit keeps the saved answers
+      custom_fields: signupFields ? data.custom_fields ?? {} : undefined,
+    };
+  };
+
+  // Fill the form from a directory profile
+  const selectProfile = (profile: VolunteerProfile) => {
+    setValue('volunteer_id', profile.id);
+    setValue('volunteer_name', profile.name, { shouldValidate: true });
+    setValue('phone_number', profile.phone_number, { shouldValidate: true });
+    setValue('organization', profile.organization || '');
+  };
+
+  // Someone else changed the signup; reload so the next attempt uses current data
+  const refreshIfStale = (error: Error) => {
+    if (error instanceof StaleSignupError) {
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      setEditingVolunteer(null);
+      reset();
+    }
+  };
+
+  // The server found a conflict this page had not loaded yet; reload so it shows inline
+  const refreshIfConflict = (error: Error) => {
+    if (error instanceof ShiftConflictError) {
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+    }
+  };
 
   const createMutation = useMutation({
     mutationFn: async (data: VolunteerFormData) => {
       setIsSubmitting(true);
-      console.log('Creating volunteer with data:', data);
       
       // Validate required fields
       if (!data.position_id || !data.volunteer_name || !data.phone_number || !data.start_time || !data.end_time) {
@@ -194,37 +407,9 @@ export function AssignVolunteersPage() {
       }
       
       try {
-        const insertData = {
-          position_id: data.position_id,
-          volunteer_name: data.volunteer_name,
-          phone_number: data.phone_number,
-          start_time: data.start_time,
-          end_time: data.end_time,
-          arrived: false,
-          other_notes: data.other_notes || null,
-          organization: data.organization || null
-        };
-
-        const { data: signup, error: signupError } = await supabase
-          .from('volunteer_signups')
-          .insert([insertData])
-          .select('id')
-          .single();
-        
-        if (signupError) throw signupError;
-
-        // Note: We don't increment the filled count here because the volunteer
-        // is only assigned, not checked in. The filled count should only reflect
-        // volunteers who have actually arrived (arrived = true).
-
-        return signup;
+        return await assignVolunteer(toSignupInput(data), { allowConflict });
       } catch (error) {
         console.error('Error creating volunteer assignment:', error);
-        console.error('Error details:', {
-          message: error instanceof Error ? error.message : 'Unknown error',
-          stack: error instanceof Error ? error.stack : undefined,
-          data: error
-        });
         throw error;
       } finally {
         setIsSubmitting(false);
@@ -233,57 +418,23 @@ export function AssignVolunteersPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['volunteers'] });
       queryClient.invalidateQueries({ queryKey: ['positions'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteer-directory'] });
       toast.success('Volunteer assigned successfully');
       reset();
     },
     onError: (error) => {
+      refreshIfConflict(error);
       toast.error(error instanceof Error ? error.message : 'Failed to assign volunteer');
     },
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: Partial<Volunteer>) => {
+    mutationFn: async ({ volunteer, data }: { volunteer: Volunteer; data: VolunteerFormData }) => {
       setIsSubmitting(true);
-      console.log('Updating volunteer with data:', data);
       try {
-        // If position_id is changing and the volunteer is checked in, we need to update the filled counts
-        if (data.position_id && editingVolunteer && data.position_id !== editingVolunteer.position_id && editingVolunteer.arrived) {
-          // Decrement the old position's filled count (only if volunteer was checked in)
-          const { error: decrementError } = await supabase
-            .rpc('decrement_filled_count', { position_id: editingVolunteer.position_id });
-          
-          if (decrementError) {
-            console.error('Error decrementing filled count for old position:', decrementError);
-            console.warn('Continuing despite RPC function failure');
-          }
-
-          // Increment the new position's filled count (only if volunteer is checked in)
-          const { error: incrementError } = await supabase
-            .rpc('increment_filled_count', { position_id: data.position_id });
-          
-          if (incrementError) {
-            console.error('Error incrementing filled count for new position:', incrementError);
-            console.warn('Continuing despite RPC function failure');
-          }
-        }
-
-        // Prepare update data
-        const updateData = { ...data };
-        delete updateData.id; // Remove id from update data
-
-        const { error } = await supabase
-          .from('volunteer_signups')
-          .update(updateData)
-          .eq('id', data.id)
-          .select('id');
-        if (error) throw error;
+        return await updateVolunteer(volunteer, toSignupInput(data), { allowConflict });
       } catch (error) {
         console.error('Error updating volunteer:', error);
-        console.error('Error details:', {
-          message: error instanceof Error ? error.message : 'Unknown error',
-          stack: error instanceof Error ? error.stack : undefined,
-          data: error
-        });
         throw error;
       } finally {
         setIsSubmitting(false);
@@ -291,35 +442,23 @@ export function AssignVolunteersPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteer-directory'] });
       toast.success('Volunteer updated successfully');
       setEditingVolunteer(null);
       reset();
     },
     onError: (error) => {
+      refreshIfStale(error);
+      refreshIfConflict(error);
       toast.error(error instanceof Error ? error.message : 'Failed to update volunteer');
     },
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async ({ id, position_id, arrived }: { id: string; position_id: string; arrived: boolean }) => {
+    mutationFn: async (volunteer: Volunteer) => {
       try {
-        const { error: deleteError } = await supabase
-          .from('volunteer_signups')
-          .delete()
-          .eq('id', id);
-        
-        if (deleteError) throw deleteError;
-
-        // Decrement the filled count for the position only if the volunteer was checked in
-        if (arrived) {
-          const { error: decrementError } = await supabase
-            .rpc('decrement_filled_count', { position_id });
-            
-          if (decrementError) {
-            console.error('Error decrementing filled count:', decrementError);
-            console.warn('Continuing despite RPC function failure');
-          }
-        }
+        return await removeVolunteer(volunteer);
       } catch (error) {
         console.error('Error deleting volunteer:', error);
         throw error;
@@ -331,41 +470,15 @@ export function AssignVolunteersPage() {
       toast.success('Volunteer removed successfully');
     },
     onError: (error) => {
+      refreshIfStale(error);
       toast.error(error instanceof Error ? error.message : 'Failed to remove volunteer');
     },
   });
 
   const toggleArrivalMutation = useMutation({
-    mutationFn: async ({ id, arrived, position_id }: { id: string; arrived: boolean; position_id: string }) => {
+    mutationFn: async (volunteer: Volunteer) => {
       try {
-        // Update volunteer signup arrival status
-        const { error } = await supabase
-          .from('volunteer_signups')
-          .update({ arrived })
-          .eq('id', id)
-          .select('id');
-        if (error) throw error;
-
-        // Update the filled count for the position
-        if (arrived) {
-          // Volunteer is checking in - increment filled count
-          const { error: incrementError } = await supabase
-            .rpc('increment_filled_count', { position_id });
-          
-          if (incrementError) {
-            console.error('Error incrementing filled count:', incrementError);
-            console.warn('Continuing despite RPC function failure');
-          }
-        } else {
-          // Volunteer is unchecking - decrement filled count
-          const { error: decrementError } = await supabase
-            .rpc('decrement_filled_count', { position_id });
-          
-          if (decrementError) {
-            console.error('Error decrementing filled count:', decrementError);
-            console.warn('Continuing despite RPC function failure');
-          }
-        }
+        return await setArrival(volunteer, !volunteer.arrived);
       } catch (error) {
         console.error('Error toggling volunteer arrival:', error);
         throw error;
@@ -377,23 +490,25 @@ export function AssignVolunteersPage() {
       toast.success('Volunteer status updated');
     },
     onError: (error) => {
+      refreshIfStale(error);
       toast.error(error instanceof Error ? error.message : 'Failed to update volunteer status');
     },
   });
 
   const onSubmit = (data: VolunteerFormData) => {
+    // An end time before the start time means the shift runs past midnight
+    if (data.start_time === data.end_time) {
+      toast.error('A shift must end at a different time than it starts');
+      return;
+    }
+
+    if (formConflicts.length > 0 && !allowConflict) {
+      toast.error(`${data.volunteer_name} is already assigned at an overlapping time`);
+      return;
+    }
+
     if (editingVolunteer) {
-      // Only update fields that have changed
-      const updates: Partial<Volunteer> = { id: editingVolunteer.id };
-      if (data.volunteer_name !== editingVolunteer.volunteer_name) updates.volunteer_name = data.volunteer_name;
-      if (data.phone_number !== editingVolunteer.phone_number) updates.phone_number = data.phone_number;
-      if (data.start_time !== editingVolunteer.start_time) updates.start_time = data.start_time;
-      if (data.end_time !== editingVolunteer.end_time) updates.end_time = data.end_time;
-      if (data.position_id !== editingVolunteer.position_id) updates.position_id = data.position_id;
-      if (data.other_notes !== (editingVolunteer.other_notes || '')) updates.other_notes = data.other_notes || null;
-      if (data.organization !== (editingVolunteer.organization || '')) updates.organization = data.organization || null;
-      
-      updateMutation.mutate(updates);
+      updateMutation.mutate({ volunteer: editingVolunteer, data });
     } else {
       createMutation.mutate(data);
     }
@@ -409,10 +524,30 @@ export function AssignVolunteersPage() {
 
   return (
     <div className="space-y-6">
+      {showImport && (
+        <VolunteerImportWizard
+          positions={positions}
+          shifts={shifts || []}
+          signups={volunteers}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
       <div className="bg-white shadow rounded-lg p-6">
-        <h2 className="text-lg font-medium mb-4">
-          {editingVolunteer ? 'Edit Volunteer Assignment' : 'Assign New Volunteer'}
-        </h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-medium">
+            {editingVolunteer ? 'Edit Volunteer Assignment' : 'Assign New Volunteer'}
+          </h2>
+          {!showImport && (
+            <button
+              onClick={() => setShowImport(true)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+            </button>
+          )}
+        </div>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700">Position</label>
@@ -421,7 +556,7 @@ export function AssignVolunteersPage() {
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             >
               <option value="">Select a position</option>
-              {positions?.map((position) => (
+              {positions?.filter(position => can(position.event_id, 'manageAssignments')).map((position) => (
                 <option 
                   key={position.id} 
                   value={position.id}
@@ -435,12 +570,61 @@ export function AssignVolunteersPage() {
             )}
           </div>
 
+          {formPositionId && (
+            positionShifts.length > 0 ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Shift</label>
+                <select
+                  {...register('shift_id', {
+                    validate: value => positionShifts.length === 0 || !!value || 'Shift is required',
+                  })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">Select a shift</option>
+                  {positionShifts.map((shift) => (
+                    <option key={shift.id} value={shift.id}>
+                      {formEvent && formatShiftWindow(shift, formEvent.timezone, { showDate: isMultiDayEvent(formEvent) })}
+                      {' '}({shift.assigned}/{shift.needed} assigned
+                      {shift.assigned >= shift.needed ? ' - full' : ''})
+                    </option>
+                  ))}
+                </select>
+                {errors.shift_id && (
+                  <p className="mt-1 text-sm text-red-600">{errors.shift_id.message}</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                This position has no shifts yet, so enter the volunteer's times below.
+                Add shifts on the Positions page to track coverage per time window.
+              </p>
+            )
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Volunteer Name</label>
             <input
-              {...register('volunteer_name', { required: 'Volunteer name is required' })}
+              {...register('volunteer_name', {
+                required: 'Volunteer name is required',
+                // Typing over a picked profile unlinks it; the server relinks by name and phone
+                onChange: () => setValue('volunteer_id', ''),
+              })}
+              autoComplete="off"
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             />
+            <input type="hidden" {...register('volunteer_id')} />
+            {formVolunteerId ? (
+              <p className="mt-1 text-xs text-green-600 flex items-center">
+                <UserCheck className="h-3 w-3 mr-1" />
+                Linked to a volunteer directory profile
+              </p>
+            ) : formEvent && (
+              <VolunteerSuggestions
+                organizationId={formEvent.organization_id}
+                search={formVolunteerName || ''}
+                onSelect={selectProfile}
+              />
+            )}
             {errors.volunteer_name && (
               <p className="mt-1 text-sm text-red-600">{errors.volunteer_name.message}</p>
             )}
@@ -460,10 +644,8 @@ export function AssignVolunteersPage() {
             <input
               {...register('phone_number', { 
                 required: 'Phone number is required',
-                pattern: {
-                  value: /^[0-9+\-\s()]*$/,
-                  message: 'Please enter a valid phone number'
-                }
+                onChange: () => setValue('volunteer_id', ''),
+                validate: validatePhoneNumber(phoneCountryCode),
               })}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             />
@@ -472,13 +654,28 @@ export function AssignVolunteersPage() {
             )}
           </div>
 
+          {formEvent && isMultiDayEvent(formEvent) && !formShiftId && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Date</label>
+              <select
+                {...register('date', { required: 'Date is required' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {formEventDates.map(date => (
+                  <option key={date} value={date}>{formatCalendarDate(date)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700">Start Time</label>
               <input
                 type="time"
                 {...register('start_time', { required: 'Start time is required' })}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                readOnly={!!formShiftId}
+                className="mt-1 block w-full read-only:bg-gray-50 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
               />
               {errors.start_time && (
                 <p className="mt-1 text-sm text-red-600">{errors.start_time.message}</p>
@@ -486,11 +683,14 @@ export function AssignVolunteersPage() {
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-gray-700">End Time</label>
+              <label className="block text-sm font-medium text-gray-700">
+                End Time{endsNextDay && <span className="ml-1 font-normal text-indigo-600">(next day)</span>}
+              </label>
               <input
                 type="time"
                 {...register('end_time', { required: 'End time is required' })}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                readOnly={!!formShiftId}
+                className="mt-1 block w-full read-only:bg-gray-50 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
               />
               {errors.end_time && (
                 <p className="mt-1 text-sm text-red-600">{errors.end_time.message}</p>
@@ -498,6 +698,42 @@ export function AssignVolunteersPage() {
             </div>
           </div>
 
+          {formConflicts.length > 0 && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-3">
+              <p className="flex items-center text-sm font-medium text-amber-800">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                This volunteer is already assigned at an overlapping time
+              </p>
+              <ul className="mt-2 ml-6 list-disc text-sm text-amber-700">
+                {formConflicts.map(conflict => (
+                  <li key={conflict.id}>
+                    {conflict.position.name}:{' '}
+                    {formatShiftWindow(conflict, conflict.position.event?.timezone, { showDate: true })}
+                  </li>
+                ))}
+              </ul>
+              <label className="mt-2 flex items-center text-sm text-amber-800">
+                <input
+                  type="checkbox"
+                  checked={allowConflict}
+                  onChange={(e) => setAllowConflict(e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Assign anyway
+              </label>
+            </div>
+          )}
+
+          {formFields.length > 0 && (
+            <div className="space-y-4 border-t border-gray-200 pt-4">
+              <SignupFieldInputs
+                fields={formFields}
+                register={register}
+                errors={errors.custom_fields as Partial<Record<string, { message?: string }>> | undefined}
+              />
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Other Notes (Optional)</label>
             <textarea
@@ -661,7 +897,10 @@ export function AssignVolunteersPage() {
                         {volunteer.phone_number}
                       </p>
                       <p className="text-sm text-gray-500">
-                        {volunteer.start_time} - {volunteer.end_time}
+                        {formatShiftWindow(volunteer, volunteer.position.event?.timezone, { showDate: true })}
+                        {!volunteer.shift_id && (
+                          <span className="ml-2 text-xs text-orange-500">(no shift)</span>
+                        )}
                       </p>
                       {volunteer.organization && volunteer.organization.trim() && (
                         <p className="text-sm text-gray-500">
@@ -673,15 +912,19 @@ export function AssignVolunteersPage() {
                           <span className="font-medium">Notes:</span> {volunteer.other_notes}
                         </p>
                       )}
+                      {fieldsForEvent(volunteer.position.event_id)
+                        .filter(field => formatFieldValue(field, volunteer.custom_fields))
+                        .map(field => (
+                          <p key={field.id} className="text-sm text-gray-500">
+                            <span className="font-medium">{field.label}:</span>{' '}
+                            {formatFieldValue(field, volunteer.custom_fields)}
+                          </p>
+                        ))}
                     </div>
                   </div>
                   <div className="flex space-x-3">
                     <button
-                      onClick={() => toggleArrivalMutation.mutate({ 
-                        id: volunteer.id, 
-                        arrived: !volunteer.arrived,
-                        position_id: volunteer.position_id
-                      })}
+                      onClick={() => toggleArrivalMutation.mutate(volunteer)}
                       className={`${
                         volunteer.arrived ? 'text-green-500' : 'text-gray-400'
                       } hover:text-gray-500`}
@@ -703,11 +946,7 @@ export function AssignVolunteersPage() {
                     <button
                       onClick={() => {
                         if (window.confirm('Are you sure you want to remove this volunteer?')) {
-                          deleteMutation.mutate({ 
-                            id: volunteer.id, 
-                            position_id: volunteer.position_id,
-                            arrived: volunteer.arrived
-                          });
+                          deleteMutation.mutate(volunteer);
                         }
                       }}
                       className="text-gray-400 hover:text-gray-500"
@@ -1,20 +1,42 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'react-hot-toast';
-import { CheckCircle, AlertCircle, Info, MapPin, X, Clock, AlertTriangle } from 'lucide-react';
+import { CheckCircle, AlertCircle, Info, MapPin, X, Clock, AlertTriangle, UsersRound } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAutoCheckout } from '../hooks/useAutoCheckout';
+import { formatEventDateTime, getTimeZoneLabel } from '../lib/timezone';
+import { formatShiftWindow, isMultiDayEvent } from '../lib/shifts';
+import { StaleSignupError, setArrival } from '../lib/signupOperations';
+import { isPlausiblePhoneNumber } from '../lib/phone';
+import { PendingWaiver, getPendingWaivers } from '../lib/waivers';
+import { WaiverSigningModal } from '../components/WaiverSigningModal';
+import { OfflineStatusBar } from '../components/OfflineStatusBar';
+import { useOfflineQueue } from '../contexts/OfflineQueueContext';
+import { applyQueuedArrivals, isNetworkError, loadSnapshot, saveSnapshot } from '../lib/offlineQueue';
+import {
+  CheckInLocation,
+  Geofence,
+  GeofenceCheck,
+  GeofenceMode,
+  checkGeofence,
+  formatDistance,
+  resolveGeofence,
+} from '../lib/geofence';
+import { useEventRoles } from '../hooks/useEventRoles';
 
 interface Volunteer {
   id: string;
   position_id: string;
   volunteer_name: string;
   phone_number: string;
-  start_time: string;
-  end_time: string;
+  starts_at: string;
+  ends_at: string;
   arrived: boolean;
   organization: string | null;
+  version: number;
+  group_id: string | null;
+  awaiting_member: boolean;
 }
 
 interface Position {
@@ -24,12 +46,18 @@ interface Position {
   skill_level: string;
   latitude: number;
   longitude: number;
+  geofence_mode: GeofenceMode | null;
+  geofence_radius_m: number | null;
   event: {
     id: string;
     name: string;
     date: string;
     time: string;
     location: string;
+    timezone: string;
+    geofence_mode: GeofenceMode;
+    geofence_radius_m: number;
+    end_date: string | null;
   };
 }
 
@@ -47,17 +75,23 @@ function MessageForm({
   const [messageFrom, setMessageFrom] = useState(selectedVolunteer || 'other');
   const [phoneNumber, setPhoneNumber] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const { queueMessage } = useOfflineQueue();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (messageFrom === 'other' && !isPlausiblePhoneNumber(phoneNumber)) {
+      toast.error('Please enter a valid phone number');
+      return;
+    }
     setIsSending(true);
 
     try {
+      // The database stores the number in E.164 form using the event's country code
       const messageData = {
         title,
         content,
         volunteer_id: messageFrom !== 'other' ? messageFrom : null,
-        phone_number: messageFrom === 'other' ? phoneNumber : null,
+        phone_number: messageFrom === 'other' ? phoneNumber.trim() : null,
         position_id: position.id,
         event_id: position.event.id,
       };
@@ -66,15 +100,20 @@ function MessageForm({
         .from('messages')
         .insert([messageData]);
 
-      if (error) throw error;
-
-      toast.success('Message sent successfully');
+      if (error && isNetworkError(error)) {
+        queueMessage(messageData);
+        toast.success('Message saved. It will be sent when you are back online.');
+      } else if (error) {
+        throw error;
+      } else {
+        toast.success('Message sent successfully');
+      }
       setTitle('');
       setContent('');
       setPhoneNumber('');
     } catch (error) {
       console.error('Error sending message:', error);
-      toast.error('Failed to send message');
+      toast.error(error instanceof Error ? error.message : 'Failed to send message');
     } finally {
       setIsSending(false);
     }
@@ -153,10 +192,14 @@ function MessageForm({
 interface ConfirmationPopupProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => void;
+  onConfirm: (geofenceOverride?: boolean) => void;
   volunteer: Volunteer | null;
   isCheckIn: boolean;
   isLoading: boolean;
+  timeZone: string;
+  geofence: Geofence;
+  geofenceCheck: GeofenceCheck;
+  canOverride: boolean;
 }
 
 function ConfirmationPopup({ 
@@ -165,10 +208,20 @@ function ConfirmationPopup({
   onConfirm, 
   volunteer, 
   isCheckIn, 
-  isLoading 
+  isLoading,
+  timeZone,
+  geofence,
+  geofenceCheck,
+  canOverride
 }: ConfirmationPopupProps) {
   if (!isOpen || !volunteer) return null;
 
+  const outside = isCheckIn && geofenceCheck.outside;
+  const blocked = outside && geofence.mode === 'block';
+  const whereabouts = geofenceCheck.distance_m === null
+    ? 'Your location is not available.'
+    : `You appear to be ${formatDistance(geofenceCheck.distance_m)} from the check-in location.`;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
@@ -201,9 +254,23 @@ function ConfirmationPopup({
           <div>
             <p className="text-sm font-medium text-gray-500">Shift Time</p>
             <p className="text-base text-gray-900">
-              {volunteer.start_time} - {volunteer.end_time}
+              {formatShiftWindow(volunteer, timeZone, { showDate: true })} {getTimeZoneLabel(timeZone)}
             </p>
           </div>
+
+          {outside && (
+            <div className={`flex items-start p-3 rounded-md text-sm ${
+              blocked ? 'bg-red-50 text-red-800' : 'bg-yellow-50 text-yellow-800'
+            }`}>
+              <MapPin className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              <p>
+                {whereabouts}{' '}
+                {blocked
+                  ? `Check-in is only possible within ${formatDistance(geofence.radius_m)}.${canOverride ? ' As a coordinator you can override this.' : ' Ask a coordinator to check you in.'}`
+                  : 'Your check-in will be flagged for the coordinator.'}
+              </p>
+            </div>
+          )}
         </div>
         
         <div className="flex space-x-3">
@@ -214,17 +281,27 @@ function ConfirmationPopup({
           >
             Cancel
           </button>
-          <button
-            onClick={onConfirm}
-            disabled={isLoading}
-            className={`flex-1 px-4 py-2 text-sm font-medium text-white rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${
-              isCheckIn
-                ? 'bg-green-600 hover:bg-green-700 focus:ring-green-500'
-                : 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
-            }`}
-          >
-            {isLoading ? 'Processing...' : `Confirm ${isCheckIn ? 'Check-In' : 'Check-Out'}`}
-          </button>
+          {blocked && canOverride ? (
+            <button
+              onClick={() => onConfirm(true)}
+              disabled={isLoading}
+              className="flex-1 px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50"
+            >
+              {isLoading ? 'Processing...' : 'Staff Override'}
+            </button>
+          ) : (
+            <button
+              onClick={() => onConfirm()}
+              disabled={isLoading || blocked}
+              className={`flex-1 px-4 py-2 text-sm font-medium text-white rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${
+                isCheckIn
+                  ? 'bg-green-600 hover:bg-green-700 focus:ring-green-500'
+                  : 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+              }`}
+            >
+              {isLoading ? 'Processing...' : `Confirm ${isCheckIn ? 'Check-In' : 'Check-Out'}`}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -243,6 +320,7 @@ interface TimeWarningPopupProps {
     message: string;
     color: string;
   } | null;
+  timeZone: string;
 }
 
 function TimeWarningPopup({ 
@@ -252,7 +330,8 @@ function TimeWarningPopup({
   volunteer, 
   isCheckIn, 
   isLoading,
-  timeStatus
+  timeStatus,
+  timeZone
 }: TimeWarningPopupProps) {
   if (!isOpen || !volunteer || !timeStatus) return null;
 
@@ -298,7 +377,7 @@ function TimeWarningPopup({
           <div>
             <p className="text-sm font-medium text-gray-500">Scheduled Shift</p>
             <p className="text-base text-gray-900">
-              {volunteer.start_time} - {volunteer.end_time}
+              {formatShiftWindow(volunteer, timeZone, { showDate: true })} {getTimeZoneLabel(timeZone)}
             </p>
           </div>
           
@@ -334,13 +413,127 @@ function TimeWarningPopup({
   );
 }
 
+// Lets a group leader check in several named members at once
+function GroupCheckIn({
+  name,
+  members,
+  timeZone,
+  showDate,
+  location,
+  onDone,
+}: {
+  name: string;
+  members: Volunteer[];
+  timeZone: string;
+  showDate: boolean;
+  location: CheckInLocation | null;
+  onDone: () => void;
+}) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const { queueArrival } = useOfflineQueue();
+
+  const groupCheckInMutation = useMutation({
+    mutationFn: async (toCheckIn: Volunteer[]) => {
+      // One at a time, so a member someone else just checked in does not stop the rest
+      let checkedIn = 0;
+      let queued = 0;
+      const errors: string[] = [];
+      for (const member of toCheckIn) {
+        try {
+          await setArrival(member, true, 'volunteer', { location });
+          checkedIn += 1;
+        } catch (error) {
+          if (isNetworkError(error)) {
+            queueArrival({
+              signup: member,
+              position_id: member.position_id,
+              volunteer_name: member.volunteer_name,
+              arrived: true,
+              location,
+              geofence_override: false,
+            });
+            queued += 1;
+            continue;
+          }
+          console.error('Error checking in group member:', error);
+          errors.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+      return { checkedIn, queued, errors };
+    },
+    networkMode: 'always',
+    onSuccess: ({ checkedIn, queued, errors }) => {
+      onDone();
+      setSelected(new Set());
+      if (checkedIn > 0) toast.success(`${checkedIn} member${checkedIn === 1 ? '' : 's'} of ${name} checked in`);
+      if (queued > 0) toast.success(`${queued} member${queued === 1 ? '' : 's'} of ${name} checked in on this device. Syncing when back online.`);
+      // Members with waivers to sign check in on their own, where they can sign them
+      if (errors.length > 0) {
+        toast.error(`${errors.length} member${errors.length === 1 ? '' : 's'} could not be checked in: ${errors[0]}`);
+      }
+    },
+  });
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-900 flex items-center">
+          <UsersRound className="h-4 w-4 mr-1 text-indigo-600" />
+          {name}
+        </p>
+        <button
+          type="button"
+          onClick={() => setSelected(selected.size === members.length ? new Set() : new Set(members.map(m => m.id)))}
+          className="text-xs text-indigo-600 hover:text-indigo-500"
+        >
+          {selected.size === members.length ? 'Clear' : 'Select all'}
+        </button>
+      </div>
+      <div className="space-y-1">
+        {members.map(member => (
+          <label key={member.id} className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={selected.has(member.id)}
+              onChange={() => toggle(member.id)}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 mr-2"
+            />
+            <span className="flex-1">{member.volunteer_name}</span>
+            <span className="text-xs text-gray-500">{formatShiftWindow(member, timeZone, { showDate })}</span>
+          </label>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => groupCheckInMutation.mutate(members.filter(m => selected.has(m.id)))}
+        disabled={selected.size === 0 || groupCheckInMutation.isPending}
+        className="mt-3 w-full px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {groupCheckInMutation.isPending ? 'Processing...' : `Check In ${selected.size || ''} Selected`}
+      </button>
+    </div>
+  );
+}
+
 export function CheckInPage() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { actions: queuedActions, queueArrival } = useOfflineQueue();
+  const { can } = useEventRoles();
   const [selectedVolunteer, setSelectedVolunteer] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
-  const [userLocation, setUserLocation] = useState<{lat: number, lng: number} | null>(null);
+  const [userLocation, setUserLocation] = useState<CheckInLocation | null>(null);
   const [locationError, setLocationError] = useState<string | null>(null);
   const [confirmationPopup, setConfirmationPopup] = useState<{
     isOpen: boolean;
@@ -366,6 +559,11 @@ export function CheckInPage() {
     isCheckIn: true,
     timeStatus: null
   });
+  const [waiverSigning, setWaiverSigning] = useState<{
+    volunteer: Volunteer;
+    waivers: PendingWaiver[];
+    geofenceOverride: boolean;
+  } | null>(null);
   const [debugInfo, setDebugInfo] = useState<{
     positionId: string | null;
     positionFound: boolean;
@@ -382,23 +580,25 @@ export function CheckInPage() {
   
   const positionId = searchParams.get('position');
   
-  useEffect(() => {
+  // The page waits for the first reading; later ones refresh it in place
+  const locate = useCallback((showLoading: boolean) => {
     if (navigator.geolocation) {
-      setIsLoading(true);
+      if (showLoading) setIsLoading(true);
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          const { latitude, longitude } = position.coords;
-          setUserLocation({ lat: latitude, lng: longitude });
+          const { latitude, longitude, accuracy } = position.coords;
+          setUserLocation({ latitude, longitude, accuracy_m: accuracy });
+          setLocationError(null);
           setDebugInfo(prev => ({
             ...prev,
-            userLocation: `${latitude}, ${longitude}`
+            userLocation: `${latitude}, ${longitude} (±${Math.round(accuracy)} m)`
           }));
-          setIsLoading(false);
+          if (showLoading) setIsLoading(false);
         },
         (error) => {
           console.error('Geolocation error:', error);
           setLocationError(`Unable to get your location: ${error.message}`);
-          setIsLoading(false);
+          if (showLoading) setIsLoading(false);
         },
         { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
       );
@@ -406,6 +606,10 @@ export function CheckInPage() {
       setLocationError('Geolocation is not supported by your browser');
     }
   }, []);
+
+  useEffect(() => {
+    locate(true);
+  }, [locate]);
   
   useEffect(() => {
     setDebugInfo(prev => ({
@@ -450,12 +654,18 @@ export function CheckInPage() {
             skill_level,
             latitude,
             longitude,
+            geofence_mode,
+            geofence_radius_m,
             event:events(
               id,
               name,
               date,
               time,
-              location
+              location,
+              timezone,
+              end_date,
+              geofence_mode,
+              geofence_radius_m
             )
           `)
           .eq('id', positionId)
@@ -486,11 +696,17 @@ export function CheckInPage() {
           positionFound: true
         }));
         
-        return {
+        const found = {
           ...data,
           event: Array.isArray(data.event) ? data.event[0] : data.event
         } as Position;
+        saveSnapshot(`position:${positionId}`, found);
+        return found;
       } catch (err) {
+        // Offline: show what was loaded last time
+        const saved = isNetworkError(err) ? loadSnapshot<Position>(`position:${positionId}`) : undefined;
+        if (saved) return saved;
+
         const error = err instanceof Error ? err : new Error('Unknown error fetching position');
         console.error('Error in position query:', error);
         setDebugInfo(prev => ({
@@ -501,12 +717,13 @@ export function CheckInPage() {
       }
     },
     enabled: !!positionId,
+    networkMode: 'always',
     retry: 3,
     retryDelay: 1000,
     staleTime: 1000 * 60 * 5,
   });
 
-  const { data: volunteers, isLoading: volunteersLoading, error: volunteersError } = useQuery({
+  const { data: loadedVolunteers, isLoading: volunteersLoading, error: volunteersError } = useQuery({
     queryKey: ['volunteers', positionId],
     queryFn: async () => {
       if (!positionId) {
@@ -522,7 +739,7 @@ export function CheckInPage() {
           .from('volunteer_signups')
           .select('*')
           .eq('position_id', positionId)
-          .order('start_time', { ascending: true });
+          .order('starts_at', { ascending: true });
 
         if (error) {
           console.error('Supabase error fetching volunteers:', error);
@@ -535,68 +752,59 @@ export function CheckInPage() {
           volunteersFound: (data?.length || 0) > 0
         }));
         
+        saveSnapshot(`volunteers:${positionId}`, data);
         return data as Volunteer[];
       } catch (err) {
+        const saved = isNetworkError(err) ? loadSnapshot<Volunteer[]>(`volunteers:${positionId}`) : undefined;
+        if (saved) return saved;
+
         const error = err instanceof Error ? err : new Error('Unknown error fetching volunteers');
         console.error('Error in volunteers query:', error);
         throw error;
       }
     },
     enabled: !!positionId,
+    networkMode: 'always',
     retry: 3,
     retryDelay: 1000,
     staleTime: 1000 * 60,
   });
 
-  // Set up automatic check-out for volunteers whose shifts have ended
+  // Check-ins made offline show as done until they are synced
+  const volunteers = loadedVolunteers && applyQueuedArrivals(loadedVolunteers, queuedActions);
+
+  // Show toasts when the server-side job checks out volunteers whose shifts have ended
   useAutoCheckout({
     volunteers: volunteers || [],
     enabled: true,
-    checkInterval: 60000, // Check every minute
-    bufferMinutes: 1, // 1 minute buffer after shift ends
-    maxLateCheckoutWindow: 5 // Only check out within 5 minutes of shift end
   });
 
   const checkInMutation = useMutation({
-    mutationFn: async ({ volunteerId, arrived }: { volunteerId: string; arrived: boolean }) => {
-      console.log(`${arrived ? 'Checking in' : 'Checking out'} volunteer with ID:`, volunteerId);
+    mutationFn: async ({ volunteer, arrived, geofenceOverride = false }: {
+      volunteer: Volunteer;
+      arrived: boolean;
+      geofenceOverride?: boolean;
+    }) => {
+      console.log(`${arrived ? 'Checking in' : 'Checking out'} volunteer with ID:`, volunteer.id);
       setIsLoading(true);
       
       try {
-        // Update volunteer signup arrival status
-        const { error: signupError } = await supabase
-          .from('volunteer_signups')
-          .update({ arrived })
-          .eq('id', volunteerId);
-          
-        if (signupError) {
-          console.error('Supabase error updating volunteer status:', signupError);
-          throw signupError;
-        }
-
-        // Update the filled count for the position
-        if (arrived) {
-          // Volunteer is checking in - increment filled count
-          const { error: incrementError } = await supabase
-            .rpc('increment_filled_count', { position_id: position?.id });
-            
-          if (incrementError) {
-            console.error('Supabase error incrementing filled count:', incrementError);
-            throw incrementError;
-          }
-        } else {
-          // Volunteer is checking out - decrement filled count
-          const { error: decrementError } = await supabase
-            .rpc('decrement_filled_count', { position_id: position?.id });
-            
-          if (decrementError) {
-            console.error('Supabase error decrementing filled count:', decrementError);
-            throw decrementError;
-          }
-        }
-        
+        await setArrival(volunteer, arrived, 'volunteer', { location: userLocation, geofenceOverride });
         console.log(`Volunteer ${arrived ? 'check-in' : 'check-out'} successful`);
+        return { queued: false };
       } catch (err) {
+        // Kept on the device and sent once the connection is back
+        if (isNetworkError(err)) {
+          queueArrival({
+            signup: volunteer,
+            position_id: volunteer.position_id,
+            volunteer_name: volunteer.volunteer_name,
+            arrived,
+            location: userLocation,
+            geofence_override: geofenceOverride,
+          });
+          return { queued: true };
+        }
         const error = err instanceof Error ? err : new Error(`Unknown error ${arrived ? 'checking in' : 'checking out'} volunteer`);
         console.error('Error in check-in mutation:', error);
         throw error;
@@ -604,15 +812,25 @@ export function CheckInPage() {
         setIsLoading(false);
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['volunteers', positionId] });
-      queryClient.invalidateQueries({ queryKey: ['positions'] });
-      queryClient.invalidateQueries({ queryKey: ['positions', position?.event?.id] });
-      toast.success('Volunteer status updated!');
+    networkMode: 'always',
+    onSuccess: ({ queued }) => {
+      if (queued) {
+        toast.success('Saved on this device. It will sync when you are back online.');
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['volunteers', positionId] });
+        queryClient.invalidateQueries({ queryKey: ['positions'] });
+        queryClient.invalidateQueries({ queryKey: ['positions', position?.event?.id] });
+        toast.success('Volunteer status updated!');
+      }
       setSelectedVolunteer('');
       setConfirmationPopup({ isOpen: false, volunteer: null, isCheckIn: true });
     },
     onError: (error) => {
+      // Someone else checked this volunteer in or out; show the current state
+      if (error instanceof StaleSignupError) {
+        queryClient.invalidateQueries({ queryKey: ['volunteers', positionId] });
+        setConfirmationPopup({ isOpen: false, volunteer: null, isCheckIn: true });
+      }
       toast.error(error instanceof Error ? error.message : 'Failed to update volunteer status');
     },
   });
@@ -640,13 +858,43 @@ export function CheckInPage() {
     }
   };
 
-  const handleConfirmCheckIn = () => {
-    if (confirmationPopup.volunteer) {
-      checkInMutation.mutate({
-        volunteerId: confirmationPopup.volunteer.id,
-        arrived: confirmationPopup.isCheckIn
-      });
+  const handleConfirmCheckIn = async (geofenceOverride = false) => {
+    const { volunteer, isCheckIn } = confirmationPopup;
+    if (!volunteer) return;
+
+    // Waivers still to sign are signed first; check-in follows once they are done
+    if (isCheckIn) {
+      setIsLoading(true);
+      try {
+        const waivers = await getPendingWaivers(volunteer.id);
+        if (waivers.length > 0) {
+          setConfirmationPopup({ isOpen: false, volunteer: null, isCheckIn: true });
+          setWaiverSigning({ volunteer, waivers, geofenceOverride });
+          return;
+        }
+      } catch (error) {
+        // Offline the check-in is queued; waivers are checked when it is synced
+        if (!isNetworkError(error)) {
+          console.error('Error fetching waivers:', error);
+          toast.error(error instanceof Error ? error.message : 'Failed to load waivers');
+          return;
+        }
+      } finally {
+        setIsLoading(false);
+      }
     }
+
+    checkInMutation.mutate({ volunteer, arrived: isCheckIn, geofenceOverride });
+  };
+
+  const handleWaiversSigned = () => {
+    if (!waiverSigning) return;
+    setWaiverSigning(null);
+    checkInMutation.mutate({
+      volunteer: waiverSigning.volunteer,
+      arrived: true,
+      geofenceOverride: waiverSigning.geofenceOverride,
+    });
   };
 
   const handleCloseConfirmation = () => {
@@ -669,47 +917,27 @@ export function CheckInPage() {
     setTimeWarningPopup({ isOpen: false, volunteer: null, isCheckIn: true, timeStatus: null });
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371e3;
-    const φ1 = lat1 * Math.PI/180;
-    const φ2 = lat2 * Math.PI/180;
-    const Δφ = (lat2-lat1) * Math.PI/180;
-    const Δλ = (lon2-lon1) * Math.PI/180;
-
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-
-    return R * c;
+  // Compare instants so overnight shifts and later days of an event work from any zone
+  const getShiftMinutesFromNow = (volunteer: Volunteer) => {
+    const now = Date.now();
+    const start = new Date(volunteer.starts_at).getTime();
+    const end = new Date(volunteer.ends_at).getTime();
+    return {
+      untilStart: Math.ceil((start - now) / 60000),
+      sinceEnd: Math.floor((now - end) / 60000),
+    };
   };
 
   const isWithinShiftTime = (volunteer: Volunteer) => {
-    const now = new Date();
-    const currentTime = now.getHours() * 60 + now.getMinutes(); // Convert to minutes since midnight
-    
-    // Parse start and end times
-    const [startHour, startMin] = volunteer.start_time.split(':').map(Number);
-    const [endHour, endMin] = volunteer.end_time.split(':').map(Number);
-    
-    const startTime = startHour * 60 + startMin;
-    const endTime = endHour * 60 + endMin;
-    
-    return currentTime >= startTime && currentTime <= endTime;
+    const { untilStart, sinceEnd } = getShiftMinutesFromNow(volunteer);
+    return untilStart <= 0 && sinceEnd <= 0;
   };
 
   const getTimeStatus = (volunteer: Volunteer) => {
-    const now = new Date();
-    const currentTime = now.getHours() * 60 + now.getMinutes();
-    
-    const [startHour, startMin] = volunteer.start_time.split(':').map(Number);
-    const [endHour, endMin] = volunteer.end_time.split(':').map(Number);
-    
-    const startTime = startHour * 60 + startMin;
-    const endTime = endHour * 60 + endMin;
+    const { untilStart, sinceEnd } = getShiftMinutesFromNow(volunteer);
     
-    if (currentTime < startTime) {
-      const minutesUntilStart = startTime - currentTime;
+    if (untilStart > 0) {
+      const minutesUntilStart = untilStart;
       const hours = Math.floor(minutesUntilStart / 60);
       const minutes = minutesUntilStart % 60;
       return {
@@ -717,8 +945,8 @@ export function CheckInPage() {
         message: `Shift starts in ${hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`}`,
         color: 'text-orange-600'
       };
-    } else if (currentTime > endTime) {
-      const minutesAfterEnd = currentTime - endTime;
+    } else if (sinceEnd > 0) {
+      const minutesAfterEnd = sinceEnd;
       const hours = Math.floor(minutesAfterEnd / 60);
       const minutes = minutesAfterEnd % 60;
       return {
@@ -735,21 +963,6 @@ export function CheckInPage() {
     }
   };
 
-  const isNearPosition = () => {
-    if (!userLocation || !position?.latitude || !position?.longitude) {
-      return true;
-    }
-    
-    const distance = calculateDistance(
-      userLocation.lat, 
-      userLocation.lng, 
-      position.latitude, 
-      position.longitude
-    );
-    
-    return distance <= 200;
-  };
-
   const showDebugInfo = () => {
     return (
       <div className="mt-8 p-4 border border-gray-300 rounded-md bg-gray-50">
@@ -825,11 +1038,26 @@ export function CheckInPage() {
     );
   }
 
-  const nearPosition = isNearPosition();
+  const geofence = resolveGeofence(position, position.event);
+  const geofenceCheck = checkGeofence(geofence, position, userLocation);
+  const withinRadius = geofenceCheck.distance_m !== null && geofenceCheck.distance_m <= geofence.radius_m;
+  const timeZoneLabel = getTimeZoneLabel(position.event.timezone);
+  const multiDay = isMultiDayEvent(position.event);
+
+  // Named group members still to arrive, by group
+  const groupsToCheckIn = new Map<string, { name: string; members: Volunteer[] }>();
+  (volunteers || []).forEach(volunteer => {
+    if (!volunteer.group_id || volunteer.awaiting_member || volunteer.arrived) return;
+    const group = groupsToCheckIn.get(volunteer.group_id) ?? { name: volunteer.organization || 'Group', members: [] };
+    group.members.push(volunteer);
+    groupsToCheckIn.set(volunteer.group_id, group);
+  });
 
   return (
     <div className="min-h-screen bg-gray-100 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
+        <OfflineStatusBar />
+
         <div className="bg-white p-8 rounded-lg shadow">
           <div>
             <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-indigo-100">
@@ -844,7 +1072,7 @@ export function CheckInPage() {
             <div>
               <h3 className="text-lg font-medium text-gray-900">{position.event.name}</h3>
               <p className="mt-1 text-sm text-gray-500">
-                {new Date(`${position.event.date} ${position.event.time}`).toLocaleString()}
+                {formatEventDateTime(position.event.date, position.event.time, position.event.timezone)}
               </p>
               <p className="text-sm text-gray-500">{position.event.location}</p>
             </div>
@@ -859,20 +1087,35 @@ export function CheckInPage() {
                 <p className="text-sm text-gray-500">Skill Level: {position.skill_level}</p>
               )}
               
-              {userLocation && position.latitude && position.longitude && (
+              {userLocation && geofenceCheck.distance_m !== null && (
                 <div className="mt-2 flex items-center">
                   <MapPin className="h-4 w-4 text-gray-400 mr-1" />
-                  <p className={`text-sm ${nearPosition ? 'text-green-600' : 'text-orange-500'}`}>
-                    {nearPosition 
+                  <p className={`text-sm ${withinRadius ? 'text-green-600' : 'text-orange-500'}`}>
+                    {withinRadius 
                       ? 'You are near the check-in location' 
-                      : 'You appear to be away from the check-in location'}
+                      : `You appear to be ${formatDistance(geofenceCheck.distance_m)} from the check-in location`}
+                    <span className="text-gray-400"> (±{formatDistance(userLocation.accuracy_m)})</span>
                   </p>
                 </div>
               )}
+
+              {geofence.mode === 'block' && geofenceCheck.outside && (
+                <p className="text-sm text-red-600 mt-2">
+                  Check-in is only possible within {formatDistance(geofence.radius_m)} of this position.{' '}
+                  <button
+                    type="button"
+                    onClick={() => locate(false)}
+                    className="font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Update my location
+                  </button>
+                </p>
+              )}
               
               {locationError && (
                 <p className="text-sm text-orange-500 mt-2">
-                  {locationError} (You can still check in)
+                  {locationError}{' '}
+                  {geofence.mode === 'block' ? '(Event staff can check you in)' : '(You can still check in)'}
                 </p>
               )}
             </div>
@@ -912,7 +1155,7 @@ export function CheckInPage() {
                                 )}
                               </div>
                               <p className="text-xs text-gray-500">
-                                {volunteer.start_time} - {volunteer.end_time}
+                                {formatShiftWindow(volunteer, position.event.timezone, { showDate: multiDay })} {timeZoneLabel}
                               </p>
                               {!volunteer.arrived && !isWithinTime && (
                                 <p className={`text-xs ${timeStatus.color} mt-1`}>
@@ -950,6 +1193,27 @@ export function CheckInPage() {
           </div>
         </div>
 
+        {groupsToCheckIn.size > 0 && (
+          <div className="bg-white p-8 rounded-lg shadow space-y-3">
+            <h3 className="text-lg font-medium text-gray-900">Group Check-In</h3>
+            <p className="text-sm text-gray-500">Group leaders can check in several members at once.</p>
+            {Array.from(groupsToCheckIn.entries()).map(([groupId, group]) => (
+              <GroupCheckIn
+                key={groupId}
+                name={group.name}
+                members={group.members}
+                timeZone={position.event.timezone}
+                showDate={multiDay}
+                location={userLocation}
+                onDone={() => {
+                  queryClient.invalidateQueries({ queryKey: ['volunteers', positionId] });
+                  queryClient.invalidateQueries({ queryKey: ['positions'] });
+                }}
+              />
+            ))}
+          </div>
+        )}
+
         {position && volunteers && (
           <MessageForm
             position={position}
@@ -967,6 +1231,10 @@ export function CheckInPage() {
           volunteer={confirmationPopup.volunteer}
           isCheckIn={confirmationPopup.isCheckIn}
           isLoading={isLoading}
+          timeZone={position.event.timezone}
+          geofence={geofence}
+          geofenceCheck={geofenceCheck}
+          canOverride={can(position.event.id, 'manageAssignments')}
         />
         
         <TimeWarningPopup
@@ -977,7 +1245,18 @@ export function CheckInPage() {
           isCheckIn={timeWarningPopup.isCheckIn}
           isLoading={isLoading}
           timeStatus={timeWarningPopup.timeStatus}
+          timeZone={position.event.timezone}
         />
+
+        {waiverSigning && (
+          <WaiverSigningModal
+            signupId={waiverSigning.volunteer.id}
+            volunteerName={waiverSigning.volunteer.volunteer_name}
+            waivers={waiverSigning.waivers}
+            onClose={() => setWaiverSigning(null)}
+            onComplete={handleWaiversSigned}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { format } from 'date-fns';
 import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
 import { 
   ChevronRight, 
@@ -13,10 +12,36 @@ import {
   Mail,
   AlertCircle,
   CheckCircle,
-  Clock
+  Clock,
+  Award,
+  UsersRound,
+  ClipboardList,
+  FileSignature
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAutoCheckout } from '../hooks/useAutoCheckout';
+import {
+  CoverageStatus,
+  Shift,
+  ShiftCoverage,
+  ShiftWindow,
+  formatShiftWindow,
+  getCoverageStatus,
+  getShiftCoverage,
+  isMultiDayEvent,
+  sortShifts,
+} from '../lib/shifts';
+import { buildCoverageTimelines, findCoverageGaps } from '../lib/coverage';
+import { CoverageTimeline } from '../components/CoverageTimeline';
+import { usePositionStaffing } from '../hooks/usePositionStaffing';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { ServiceCertificatesModal } from '../components/ServiceCertificatesModal';
+import { summarizeGroupAttendance } from '../lib/groups';
+import { SignupFieldsModal } from '../components/SignupFieldsModal';
+import { WaiversModal } from '../components/WaiversModal';
+import { SIGNUP_FIELD_COLUMNS, SignupField, SignupFieldValues, formatFieldValue, sortFields } from '../lib/signupFields';
+import { formatCalendarDate, formatEventDateTime, getTimeZoneLabel } from '../lib/timezone';
+import { downloadCsv } from '../lib/csv';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 
@@ -34,13 +59,15 @@ interface Event {
   date: string;
   time: string;
   location: string;
+  timezone: string;
+  end_date: string | null;
+  organization_id: string;
 }
 
 interface Position {
   id: string;
   name: string;
   needed: number;
-  filled: number;
   description: string;
   skill_level: string;
   latitude: number;
@@ -50,16 +77,34 @@ interface Position {
 interface Volunteer {
   id: string;
   position_id: string;
+  shift_id: string | null;
   volunteer_name: string;
   phone_number: string;
-  start_time: string;
-  end_time: string;
+  starts_at: string;
+  ends_at: string;
   arrived: boolean;
   other_notes: string | null;
   organization: string | null;
+  group_id: string | null;
+  awaiting_member: boolean;
+  checked_in_at: string | null;
+  custom_fields: SignupFieldValues;
 }
 
-type PositionStatus = 'all' | 'filled' | 'partial' | 'needs';
+interface PositionCoverage {
+  shifts: ShiftCoverage[];
+  assigned: number;
+  needed: number;
+  status: CoverageStatus;
+}
+
+type PositionStatus = 'all' | CoverageStatus;
+
+const coverageBadgeClasses: Record<CoverageStatus, string> = {
+  filled: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  needs: 'bg-red-100 text-red-800',
+};
 type SortField = 'name' | 'status' | 'volunteers';
 type SortOrder = 'asc' | 'desc';
 
@@ -71,6 +116,10 @@ export function EventOverviewPage() {
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
   const [mapCenter, setMapCenter] = useState<[number, number] | null>(null);
+  const [showCertificates, setShowCertificates] = useState(false);
+  const [showSignupFields, setShowSignupFields] = useState(false);
+  const [showWaivers, setShowWaivers] = useState(false);
+  const { can } = useEventRoles();
 
   // Fetch event details
   const { data: event } = useQuery({
@@ -121,13 +170,87 @@ export function EventOverviewPage() {
     enabled: !!positions && positions.length > 0,
   });
 
-  // Set up automatic check-out for volunteers whose shifts have ended
+  const { data: signupFields } = useQuery({
+    queryKey: ['signup-fields', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('signup_fields')
+        .select(SIGNUP_FIELD_COLUMNS)
+        .eq('event_id', eventId!);
+
+      if (error) throw error;
+      return sortFields(data as SignupField[]);
+    },
+    enabled: !!eventId,
+  });
+
+  // Fetch shifts for all positions in the event
+  const { data: shifts } = useQuery({
+    queryKey: ['shifts', eventId],
+    queryFn: async () => {
+      if (!positions) return [];
+
+      const { data, error } = await supabase
+        .from('shifts')
+        .select('id, position_id, starts_at, ends_at, needed')
+        .in('position_id', positions.map(p => p.id));
+
+      if (error) throw error;
+      return data as Shift[];
+    },
+    enabled: !!positions && positions.length > 0,
+  });
+
+  const { getStaffing } = usePositionStaffing(eventId);
+
+  // Coverage is reported per shift; positions without shifts fall back to assigned/needed
+  const coverageByPosition = useMemo(() => {
+    const coverage = new Map<string, PositionCoverage>();
+    (positions || []).forEach(position => {
+      const positionShifts = (shifts || []).filter(s => s.position_id === position.id);
+      if (positionShifts.length === 0) {
+        const { assigned } = getStaffing(position.id);
+        coverage.set(position.id, {
+          shifts: [],
+          assigned,
+          needed: position.needed,
+          status: getCoverageStatus(assigned, position.needed),
+        });
+        return;
+      }
+
+      const positionVolunteers = (volunteers || []).filter(v => v.position_id === position.id);
+      const shiftCoverage = getShiftCoverage(positionShifts, positionVolunteers);
+      const assigned = shiftCoverage.reduce((sum, c) => sum + Math.min(c.assigned, c.needed), 0);
+      const needed = shiftCoverage.reduce((sum, c) => sum + c.needed, 0);
+      coverage.set(position.id, {
+        shifts: shiftCoverage,
+        assigned,
+        needed,
+        status: shiftCoverage.every(c => c.status === 'filled')
+          ? 'filled'
+          : shiftCoverage.some(c => c.assigned > 0) ? 'partial' : 'needs',
+      });
+    });
+    return coverage;
+  }, [positions, shifts, volunteers, getStaffing]);
+
+  // Concurrent staffing across the event day, which assigned/needed alone cannot show
+  const coverageTimelines = useMemo(
+    () => event ? buildCoverageTimelines(positions || [], shifts || [], volunteers || [], event) : [],
+    [event, positions, shifts, volunteers]
+  );
+  const coverageGaps = useMemo(() => findCoverageGaps(coverageTimelines), [coverageTimelines]);
+
+  const groupAttendance = useMemo(() => summarizeGroupAttendance(volunteers || []), [volunteers]);
+
+  const getCoverage = (positionId: string): PositionCoverage =>
+    coverageByPosition.get(positionId) ?? { shifts: [], assigned: 0, needed: 0, status: 'needs' };
+
+  // Show toasts when the server-side job checks out volunteers whose shifts have ended
   useAutoCheckout({
     volunteers: volunteers || [],
     enabled: true,
-    checkInterval: 60000, // Check every minute
-    bufferMinutes: 1, // 1 minute buffer after shift ends
-    maxLateCheckoutWindow: 5 // Only check out within 5 minutes of shift end
   });
 
   // Calculate map center based on position coordinates
@@ -149,21 +272,16 @@ export function EventOverviewPage() {
 
     // Apply status filter
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(position => {
-        const ratio = position.filled / position.needed;
-        switch (statusFilter) {
-          case 'filled':
-            return ratio === 1;
-          case 'partial':
-            return ratio > 0 && ratio < 1;
-          case 'needs':
-            return ratio === 0;
-          default:
-            return true;
-        }
-      });
+      filtered = filtered.filter(position =>
+        coverageByPosition.get(position.id)?.status === statusFilter
+      );
     }
 
+    const ratio = (positionId: string) => {
+      const coverage = coverageByPosition.get(positionId);
+      return coverage && coverage.needed > 0 ? coverage.assigned / coverage.needed : 0;
+    };
+
     // Apply sorting
     filtered.sort((a, b) => {
       let comparison = 0;
@@ -172,21 +290,53 @@ export function EventOverviewPage() {
           comparison = a.name.localeCompare(b.name);
           break;
         case 'status':
-          comparison = (b.filled / b.needed) - (a.filled / a.needed);
+          comparison = ratio(b.id) - ratio(a.id);
           break;
         case 'volunteers':
-          comparison = b.filled - a.filled;
+          comparison = (coverageByPosition.get(b.id)?.assigned ?? 0) - (coverageByPosition.get(a.id)?.assigned ?? 0);
           break;
       }
       return sortOrder === 'asc' ? comparison : -comparison;
     });
 
     return filtered;
-  }, [positions, statusFilter, sortField, sortOrder]);
+  }, [positions, coverageByPosition, statusFilter, sortField, sortOrder]);
 
-  // Get volunteers for a specific position
+  // Get volunteers for a specific position, earliest shift first
   const getVolunteersForPosition = (positionId: string) => {
-    return volunteers?.filter(v => v.position_id === positionId) || [];
+    return sortShifts(volunteers?.filter(v => v.position_id === positionId) || []);
+  };
+
+  // Shift windows are shown in the event's zone, with dates when the event spans several days
+  const showShiftDates = !!event && isMultiDayEvent(event);
+  const formatWindow = (window: ShiftWindow) =>
+    formatShiftWindow(window, event?.timezone ?? '', { showDate: showShiftDates });
+
+  const getCoverageLabel = (position: Position) => {
+    const { shifts: shiftCoverage } = getCoverage(position.id);
+    if (shiftCoverage.length === 0) return `${getStaffing(position.id).assigned}/${position.needed} Volunteers`;
+    const covered = shiftCoverage.filter(c => c.status === 'filled').length;
+    return `${covered}/${shiftCoverage.length} Shifts Covered`;
+  };
+
+  // Group a position's volunteers under its shifts, with unscheduled signups last
+  const groupVolunteersByShift = (positionId: string) => {
+    const positionVolunteers = getVolunteersForPosition(positionId);
+    const coverage = getCoverage(positionId);
+    if (coverage.shifts.length === 0) {
+      return [{ key: 'all', label: null, volunteers: positionVolunteers }];
+    }
+
+    const groups = coverage.shifts.map(({ shift, assigned, needed }) => ({
+      key: shift.id,
+      label: `${formatWindow(shift)} (${assigned}/${needed})`,
+      volunteers: positionVolunteers.filter(v => v.shift_id === shift.id),
+    }));
+    const unscheduled = positionVolunteers.filter(v => !v.shift_id);
+    if (unscheduled.length > 0) {
+      groups.push({ key: 'unscheduled', label: 'No shift', volunteers: unscheduled });
+    }
+    return groups.filter(group => group.volunteers.length > 0);
   };
 
   // Get status color for map markers and indicators
@@ -201,29 +351,62 @@ export function EventOverviewPage() {
   const exportPositionData = () => {
     if (!positions || !volunteers) return;
 
-    const csvData = positions.map(position => {
+    const fields = signupFields || [];
+    const headers = [
+      'Position', 'Shift', 'Time Zone', 'Required', 'Assigned', 'On Site', 'Status', 'Volunteers', 'Contact Numbers',
+    ];
+    // Then one column per signup field. Labels can repeat or match a column above, so they
+    // are numbered until unique.
+    fields.forEach(field => {
+      let header = field.label;
+      for (let n = 2; headers.includes(header); n++) header = `${field.label} (${n})`;
+      headers.push(header);
+    });
+
+    // A field's answers are listed in the order of the Volunteers column
+    const fieldCells = (signups: Volunteer[]) =>
+      fields.map(field => signups.map(v => formatFieldValue(field, v.custom_fields)).join('; '));
+
+    // Shift times are event-local; label them with the event's zone
+    const timeZone = event?.timezone ?? '';
+
+    // One row per shift, or per position when it has no shifts
+    const rows = positions.flatMap(position => {
       const positionVolunteers = getVolunteersForPosition(position.id);
-      return {
-        Position: position.name,
-        Required: position.needed,
-        Filled: position.filled,
-        Status: `${position.filled}/${position.needed}`,
-        Volunteers: positionVolunteers.map(v => v.volunteer_name).join('; '),
-        'Contact Numbers': positionVolunteers.map(v => v.phone_number).join('; '),
-      };
+      const coverage = getCoverage(position.id);
+      if (coverage.shifts.length === 0) {
+        const staffing = getStaffing(position.id);
+        return [[
+          position.name,
+          '',
+          timeZone,
+          String(position.needed),
+          String(staffing.assigned),
+          String(staffing.checked_in),
+          `${staffing.assigned}/${position.needed}`,
+          positionVolunteers.map(v => v.volunteer_name).join('; '),
+          positionVolunteers.map(v => v.phone_number).join('; '),
+          ...fieldCells(positionVolunteers),
+        ]];
+      }
+      return coverage.shifts.map(({ shift, assigned, needed }) => {
+        const shiftVolunteers = positionVolunteers.filter(v => v.shift_id === shift.id);
+        return [
+          position.name,
+          formatShiftWindow(shift, timeZone, { showDate: true }),
+          timeZone,
+          String(needed),
+          String(assigned),
+          String(shiftVolunteers.filter(v => v.arrived).length),
+          `${assigned}/${needed}`,
+          shiftVolunteers.map(v => v.volunteer_name).join('; '),
+          shiftVolunteers.map(v => v.phone_number).join('; '),
+          ...fieldCells(shiftVolunteers),
+        ];
+      });
     });
 
-    const headers = Object.keys(csvData[0]);
-    const csvContent = [
-      headers.join(','),
-      ...csvData.map(row => headers.map(header => `"${row[header as keyof typeof row]}"`).join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `event-positions-${event?.name.toLowerCase().replace(/\s+/g, '-')}.csv`;
-    link.click();
+    downloadCsv(`event-positions-${event?.name.toLowerCase().replace(/\s+/g, '-')}.csv`, [headers, ...rows]);
   };
 
   if (!event || !positions || !volunteers) {
@@ -251,7 +434,8 @@ export function EventOverviewPage() {
             <div className="mt-2 space-y-1">
               <p className="text-gray-600">
                 <Clock className="inline-block h-4 w-4 mr-1" />
-                {format(new Date(`${event.date}T${event.time}`), 'PPp')}
+                {formatEventDateTime(event.date, event.time, event.timezone)}
+                {isMultiDayEvent(event) && ` – ${formatCalendarDate(event.end_date!)}`}
               </p>
               <p className="text-gray-600">
                 <MapPin className="inline-block h-4 w-4 mr-1" />
@@ -267,6 +451,33 @@ export function EventOverviewPage() {
               <Download className="h-4 w-4 mr-2" />
               Export Data
             </button>
+            {can(event.id, 'managePositions') && (
+              <button
+                onClick={() => setShowSignupFields(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <ClipboardList className="h-4 w-4 mr-2" />
+                Signup Form
+              </button>
+            )}
+            {can(event.id, 'managePositions') && (
+              <button
+                onClick={() => setShowWaivers(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <FileSignature className="h-4 w-4 mr-2" />
+                Waivers
+              </button>
+            )}
+            {can(event.id, 'manageAssignments') && (
+              <button
+                onClick={() => setShowCertificates(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Award className="h-4 w-4 mr-2" />
+                Certificates
+              </button>
+            )}
             <button
               onClick={() => navigate(`/positions/new?event=${event.id}`)}
               className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
@@ -333,57 +544,86 @@ export function EventOverviewPage() {
                     </div>
                     <div className="flex items-center space-x-2">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        position.filled === position.needed
-                          ? 'bg-green-100 text-green-800'
-                          : position.filled === 0
-                          ? 'bg-red-100 text-red-800'
-                          : 'bg-yellow-100 text-yellow-800'
+                        coverageBadgeClasses[getCoverage(position.id).status]
                       }`}>
-                        {position.filled}/{position.needed} Volunteers
+                        {getCoverageLabel(position)}
+                      </span>
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                        {getStaffing(position.id).checked_in} On Site
                       </span>
                     </div>
                   </div>
 
+                  {getCoverage(position.id).shifts.length > 0 && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {getCoverage(position.id).shifts.map(({ shift, assigned, needed, status }) => (
+                        <span
+                          key={shift.id}
+                          className={`inline-flex items-center px-2 py-0.5 rounded text-xs ${coverageBadgeClasses[status]}`}
+                        >
+                          <Clock className="h-3 w-3 mr-1" />
+                          {formatWindow(shift)}: {assigned}/{needed}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
                   {selectedPosition === position.id && (
                     <div className="mt-4 space-y-4">
                       <div className="border-t border-gray-200 pt-4">
                         <h4 className="text-sm font-medium text-gray-900 mb-2">Assigned Volunteers</h4>
-                        {getVolunteersForPosition(position.id).map((volunteer) => (
-                          <div key={volunteer.id} className="flex items-center justify-between py-2">
-                            <div>
-                              <p className="text-sm font-medium text-gray-900">
-                                {volunteer.volunteer_name}
-                                {volunteer.organization && (
-                                  <span className="text-gray-500 font-normal"> - {volunteer.organization}</span>
-                                )}
-                              </p>
-                              <p className="text-xs text-gray-500">
-                                {volunteer.start_time} - {volunteer.end_time}
+                        {groupVolunteersByShift(position.id).map(group => (
+                          <div key={group.key}>
+                            {group.label && (
+                              <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mt-2">
+                                {group.label}
                               </p>
-                              {volunteer.other_notes && (
-                                <p className="text-xs text-gray-500 italic">
-                                  Notes: {volunteer.other_notes}
-                                </p>
-                              )}
-                            </div>
-                            <div className="flex items-center space-x-2">
-                              <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs ${
-                                volunteer.arrived ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                              }`}>
-                                {volunteer.arrived ? (
-                                  <CheckCircle className="h-3 w-3 mr-1" />
-                                ) : (
-                                  <Clock className="h-3 w-3 mr-1" />
-                                )}
-                                {volunteer.arrived ? 'Checked In' : 'Not Arrived'}
-                              </span>
-                              <button
-                                onClick={() => navigate(`/volunteers/${volunteer.id}`)}
-                                className="text-gray-400 hover:text-gray-500"
-                              >
-                                <Users className="h-4 w-4" />
-                              </button>
-                            </div>
+                            )}
+                            {group.volunteers.map((volunteer) => (
+                              <div key={volunteer.id} className="flex items-center justify-between py-2">
+                                <div>
+                                  <p className="text-sm font-medium text-gray-900">
+                                    {volunteer.volunteer_name}
+                                    {volunteer.organization && (
+                                      <span className="text-gray-500 font-normal"> - {volunteer.organization}</span>
+                                    )}
+                                  </p>
+                                  <p className="text-xs text-gray-500">
+                                    {formatWindow(volunteer)}
+                                  </p>
+                                  {volunteer.other_notes && (
+                                    <p className="text-xs text-gray-500 italic">
+                                      Notes: {volunteer.other_notes}
+                                    </p>
+                                  )}
+                                  {signupFields
+                                    ?.filter(field => formatFieldValue(field, volunteer.custom_fields))
+                                    .map(field => (
+                                      <p key={field.id} className="text-xs text-gray-500">
+                                        {field.label}: {formatFieldValue(field, volunteer.custom_fields)}
+                                      </p>
+                                    ))}
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                  <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs ${
+                                    volunteer.arrived ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                                  }`}>
+                                    {volunteer.arrived ? (
+                                      <CheckCircle className="h-3 w-3 mr-1" />
+                                    ) : (
+                                      <Clock className="h-3 w-3 mr-1" />
+                                    )}
+                                    {volunteer.arrived ? 'Checked In' : 'Not Arrived'}
+                                  </span>
+                                  <button
+                                    onClick={() => navigate(`/volunteers/${volunteer.id}`)}
+                                    className="text-gray-400 hover:text-gray-500"
+                                  >
+                                    <Users className="h-4 w-4" />
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
                           </div>
                         ))}
                         {getVolunteersForPosition(position.id).length === 0 && (
@@ -455,7 +695,7 @@ export function EventOverviewPage() {
                         <div className="p-2">
                           <h3 className="font-medium">{position.name}</h3>
                           <p className="text-sm text-gray-500">
-                            {position.filled}/{position.needed} Volunteers
+                            {getCoverageLabel(position)}
                           </p>
                         </div>
                       </Popup>
@@ -481,6 +721,75 @@ export function EventOverviewPage() {
           </div>
         </div>
       </div>
+
+      {/* Coverage Timeline */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-medium text-gray-900">
+            Coverage Timeline
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              times in {getTimeZoneLabel(event.timezone)}
+            </span>
+          </h2>
+          {coverageGaps.length > 0 && (
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+              {coverageGaps.length} gap{coverageGaps.length === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+        <CoverageTimeline
+          timelines={coverageTimelines}
+          gaps={coverageGaps}
+          selectedPositionId={selectedPosition}
+          onSelectPosition={setSelectedPosition}
+        />
+      </div>
+
+      {/* Group Attendance */}
+      {groupAttendance.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+            <UsersRound className="h-5 w-5 mr-2 text-indigo-600" />
+            Groups
+          </h2>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Group</th>
+                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Seats</th>
+                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Named</th>
+                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Showed Up</th>
+                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Site</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {groupAttendance.map(group => (
+                <tr key={group.groupId}>
+                  <td className="py-2 text-sm text-gray-900">{group.name}</td>
+                  <td className="py-2 text-sm text-gray-900 text-right">{group.seats}</td>
+                  <td className={`py-2 text-sm text-right ${group.named < group.seats ? 'text-orange-600' : 'text-gray-900'}`}>
+                    {group.named}
+                  </td>
+                  <td className="py-2 text-sm text-gray-900 text-right">{group.showedUp}</td>
+                  <td className="py-2 text-sm text-gray-900 text-right">{group.onSite}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showSignupFields && (
+        <SignupFieldsModal event={event} onClose={() => setShowSignupFields(false)} />
+      )}
+
+      {showWaivers && (
+        <WaiversModal event={event} positions={positions || []} onClose={() => setShowWaivers(false)} />
+      )}
+
+      {showCertificates && (
+        <ServiceCertificatesModal event={event} onClose={() => setShowCertificates(false)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -7,6 +7,12 @@ import { format, isValid, parseISO } from 'date-fns';
 import { useSearchParams } from 'react-router-dom';
 import { toast } from 'react-hot-toast';
 import { CustomMapView } from '../components/CustomMapView';
+import { MapCalibration, parseCalibration, projectToImage } from '../lib/mapCalibration';
+import { formatEventDateTime } from '../lib/timezone';
+import { CoverageStatus, getCoverageStatus } from '../lib/shifts';
+import { usePositionStaffing } from '../hooks/usePositionStaffing';
+import { ShiftSwapQueue } from '../components/ShiftSwapQueue';
+import { SHIFT_SWAP_COLUMNS, ShiftSwapRow, countPendingDrops, toShiftSwapRequest } from '../lib/shiftSwaps';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 
@@ -24,13 +30,13 @@ interface Event {
   date: string;
   time: string;
   custom_map_url?: string | null;
+  map_calibration: MapCalibration | null;
 }
 
 interface Position {
   id: string;
   name: string;
   needed: number;
-  filled: number;
   latitude: number;
   longitude: number;
   event: {
@@ -38,6 +44,7 @@ interface Position {
     name: string;
     date: string;
     time: string;
+    timezone: string;
   };
 }
 
@@ -136,11 +143,14 @@ export function EventsOverviewPage() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('events')
-        .select('id, name, date, time, custom_map_url')
+        .select('id, name, date, time, custom_map_url, map_calibration')
         .order('date', { ascending: true });
       
       if (error) throw error;
-      return data as Event[];
+      return data.map(event => ({
+        ...event,
+        map_calibration: parseCalibration(event.map_calibration),
+      })) as Event[];
     },
   });
 
@@ -154,14 +164,14 @@ export function EventsOverviewPage() {
           id,
           name,
           needed,
-          filled,
           latitude,
           longitude,
           event:events(
             id,
             name,
             date,
-            time
+            time,
+            timezone
           )
         `);
 
@@ -178,6 +188,8 @@ export function EventsOverviewPage() {
     },
   });
 
+  const { getStaffing } = usePositionStaffing(selectedEventId);
+
   // Fetch messages
   const { data: messages } = useQuery({
     queryKey: ['messages', selectedEventId],
@@ -208,6 +220,30 @@ export function EventsOverviewPage() {
     },
   });
 
+  // Swaps and drops waiting for a coordinator
+  const { data: swapRequests } = useQuery({
+    queryKey: ['shift-swaps', selectedEventId],
+    queryFn: async () => {
+      try {
+        let query = supabase
+          .from('shift_swaps')
+          .select(SHIFT_SWAP_COLUMNS)
+          .eq('status', 'pending')
+          .not('signup_id', 'is', null)
+          .order('created_at');
+        if (selectedEventId) {
+          query = query.eq('event_id', selectedEventId);
+        }
+        const { data, error } = await query;
+        if (error) throw error;
+        return (data as unknown as ShiftSwapRow[]).map(toShiftSwapRequest);
+      } catch (error) {
+        console.error('Error fetching swap requests:', error);
+        throw error;
+      }
+    },
+  });
+
   // Add mutation for updating message status
   const updateMessageStatus = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: Message['status'] }) => {
@@ -249,6 +285,8 @@ export function EventsOverviewPage() {
         schema: 'public',
         table: 'volunteer_signups',
       }, async (payload) => {
+        queryClient.invalidateQueries({ queryKey: ['positions', 'staffing'] });
+
         if (payload.eventType === 'INSERT') {
           const { data: position } = await supabase
             .from('volunteer_positions')
@@ -268,14 +306,30 @@ export function EventsOverviewPage() {
         }
       });
 
+    const swapsChannel = supabase.channel('shift-swaps')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'shift_swaps',
+      }, () => {
+        queryClient.invalidateQueries({ queryKey: ['shift-swaps'] });
+      });
+
+    // Pending drops count against staffing before they are approved
+    const pendingDrops = countPendingDrops(swapRequests ?? []);
+
     const staffingInterval = setInterval(() => {
       if (positions) {
         positions.forEach(position => {
-          if (position.filled < position.needed) {
+          const { assigned } = getStaffing(position.id);
+          const drops = pendingDrops.get(position.id) ?? 0;
+          if (assigned - drops < position.needed) {
             addIssue({
               id: crypto.randomUUID(),
               type: 'warning',
-              message: `Position ${position.name} is understaffed (${position.filled}/${position.needed})`,
+              message: `Position ${position.name} is understaffed (${assigned}/${position.needed})${
+                drops > 0 ? `, with ${drops} drop request${drops === 1 ? '' : 's'} pending` : ''
+              }`,
               timestamp: new Date().toISOString(),
               position: {
                 id: position.id,
@@ -289,12 +343,14 @@ export function EventsOverviewPage() {
     }, 60000);
 
     signupsChannel.subscribe();
+    swapsChannel.subscribe();
 
     return () => {
       signupsChannel.unsubscribe();
+      swapsChannel.unsubscribe();
       clearInterval(staffingInterval);
     };
-  }, [positions, selectedEventId]);
+  }, [positions, selectedEventId, getStaffing, swapRequests, queryClient]);
 
   if (!events || !positions) {
     return (
@@ -313,71 +369,23 @@ export function EventsOverviewPage() {
     ? events.find(e => e.id === selectedEventId) 
     : null;
 
-  // Convert real-world coordinates to image coordinates for custom maps
-  const convertRealWorldToImage = (realWorldPos: [number, number], _eventId?: string): [number, number] => {
-    try {
-      // This is a simplified conversion - in a real app, you'd need proper coordinate mapping
-      // For now, we'll use a basic conversion that assumes the image represents a small area
-      // You could extend this to use event-specific coordinate mappings stored in the database
-      
-      if (!Array.isArray(realWorldPos) || realWorldPos.length !== 2 || 
-          typeof realWorldPos[0] !== 'number' || typeof realWorldPos[1] !== 'number' ||
-          isNaN(realWorldPos[0]) || isNaN(realWorldPos[1])) {
-        throw new Error('Invalid real world coordinates');
-      }
-
-      // Default coordinate system - you can customize this per event
-      const baseLat = 40.7128; // Example: New York City latitude
-      const baseLng = -74.0060; // Example: New York City longitude
-      const scale = 0.01; // Scale factor for conversion
-      
-      // For now, use the same conversion for all events
-      // In the future, you could store coordinate mapping parameters in the events table
-      const result: [number, number] = [
-        (realWorldPos[0] - baseLat) / scale,
-        (realWorldPos[1] - baseLng) / scale
-      ];
-      
-      console.log('Converted real world coordinates:', realWorldPos, 'to image:', result);
-      return result;
-    } catch (error) {
-      console.error('Error converting real world to image coordinates:', error);
-      return [0, 0]; // Return default image coordinates
-    }
-  };
-
-  // Create markers for custom map
-  const customMapMarkers = selectedEvent?.custom_map_url && Array.isArray(filteredPositions)
+  // Create markers for custom map, projected through the event's calibration
+  const calibration = selectedEvent?.map_calibration ?? null;
+  const customMapMarkers = selectedEvent?.custom_map_url && calibration
     ? filteredPositions
-        .filter(position => 
-          typeof position.latitude === 'number' && 
-          typeof position.longitude === 'number' &&
-          !isNaN(position.latitude) && 
-          !isNaN(position.longitude)
-        )
         .map(position => {
-          try {
-            // Determine position status
-            const ratio = position.filled / position.needed;
-            let status: 'filled' | 'partial' | 'needs' = 'needs';
-            if (ratio === 1) {
-              status = 'filled';
-            } else if (ratio > 0) {
-              status = 'partial';
-            }
-
-            return {
-              position: convertRealWorldToImage([position.latitude, position.longitude], selectedEventId || undefined),
-              popup: `${position.name} (${position.filled}/${position.needed})`,
-              isSelected: false,
-              status: status
-            };
-          } catch (error) {
-            console.error('Error converting position coordinates:', error);
-            return null;
-          }
+          const imagePosition = projectToImage(calibration, [position.latitude, position.longitude]);
+          if (!imagePosition) return null;
+
+          const { assigned } = getStaffing(position.id);
+          return {
+            position: imagePosition,
+            popup: `${position.name} (${assigned}/${position.needed})`,
+            isSelected: false,
+            status: getCoverageStatus(assigned, position.needed)
+          };
         })
-        .filter((marker): marker is { position: [number, number]; popup: string; isSelected: boolean; status: 'filled' | 'partial' | 'needs' } => marker !== null)
+        .filter((marker): marker is { position: [number, number]; popup: string; isSelected: boolean; status: CoverageStatus } => marker !== null)
     : [];
 
   const renderLiveUpdates = () => {
@@ -527,7 +535,7 @@ export function EventsOverviewPage() {
           </select>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div className="bg-blue-50 p-4 rounded-lg">
             <div className="flex items-center">
               <Users className="h-6 w-6 text-blue-500 mr-2" />
@@ -542,7 +550,7 @@ export function EventsOverviewPage() {
               <h2 className="text-lg font-semibold text-green-700">Filled Positions</h2>
             </div>
             <p className="text-3xl font-bold text-green-900 mt-2">
-              {filteredPositions.filter(p => p.filled >= p.needed).length}
+              {filteredPositions.filter(p => getStaffing(p.id).assigned >= p.needed).length}
             </p>
           </div>
           
@@ -552,21 +560,43 @@ export function EventsOverviewPage() {
               <h2 className="text-lg font-semibold text-red-700">Needs Volunteers</h2>
             </div>
             <p className="text-3xl font-bold text-red-900 mt-2">
-              {filteredPositions.filter(p => p.filled < p.needed).length}
+              {filteredPositions.filter(p => getStaffing(p.id).assigned < p.needed).length}
+            </p>
+          </div>
+
+          <div className="bg-indigo-50 p-4 rounded-lg">
+            <div className="flex items-center">
+              <MapPin className="h-6 w-6 text-indigo-500 mr-2" />
+              <h2 className="text-lg font-semibold text-indigo-700">On Site</h2>
+            </div>
+            <p className="text-3xl font-bold text-indigo-900 mt-2">
+              {filteredPositions.reduce((sum, p) => sum + getStaffing(p.id).checked_in, 0)}
+            </p>
+            <p className="text-sm text-indigo-700">
+              {filteredPositions.reduce((sum, p) => sum + getStaffing(p.id).checked_out, 0)} checked out
             </p>
           </div>
         </div>
       </div>
 
+      {swapRequests && swapRequests.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Swap and Drop Requests</h2>
+          <ShiftSwapQueue requests={swapRequests} />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white shadow rounded-lg overflow-hidden">
           <div className="p-6">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-lg font-medium text-gray-900">Position Locations</h2>
               {selectedEvent?.custom_map_url && (
-                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                  calibration ? 'bg-indigo-100 text-indigo-800' : 'bg-orange-100 text-orange-800'
+                }`}>
                   <MapPin className="h-3 w-3 mr-1" />
-                  Custom Map
+                  {calibration ? 'Custom Map' : 'Custom Map (not calibrated)'}
                 </span>
               )}
             </div>
@@ -578,6 +608,12 @@ export function EventsOverviewPage() {
                     markers={customMapMarkers}
                     className="h-full w-full"
                   />
+                  {!calibration && (
+                    <div className="absolute top-4 left-4 right-48 bg-orange-50 bg-opacity-95 p-3 rounded-lg shadow-md text-xs text-orange-800">
+                      This map has not been calibrated, so positions cannot be placed on it.
+                      Calibrate it from the Events page.
+                    </div>
+                  )}
                   {filteredPositions.length > 0 && (
                     <div className="absolute top-4 right-4 bg-white bg-opacity-90 p-3 rounded-lg shadow-md">
                       <h4 className="font-medium text-sm text-gray-900 mb-2">Positions on this map:</h4>
@@ -586,9 +622,9 @@ export function EventsOverviewPage() {
                           <div key={position.id} className="text-xs text-gray-600">
                             <span className="font-medium">{position.name}</span>
                             <span className={`ml-2 ${
-                              position.filled >= position.needed ? 'text-green-600' : 'text-red-600'
+                              getStaffing(position.id).assigned >= position.needed ? 'text-green-600' : 'text-red-600'
                             }`}>
-                              ({position.filled}/{position.needed})
+                              ({getStaffing(position.id).assigned}/{position.needed})
                             </span>
                           </div>
                         ))}
@@ -636,12 +672,12 @@ export function EventsOverviewPage() {
                           <h3 className="font-medium">{position.name}</h3>
                           <p className="text-sm text-gray-600">{position.event.name}</p>
                           <p className="text-sm text-gray-600">
-                            {safeFormatDate(`${position.event.date} ${position.event.time}`, 'PPp')}
+                            {formatEventDateTime(position.event.date, position.event.time, position.event.timezone)}
                           </p>
                           <p className={`text-sm ${
-                            position.filled >= position.needed ? 'text-green-600' : 'text-red-600'
+                            getStaffing(position.id).assigned >= position.needed ? 'text-green-600' : 'text-red-600'
                           }`}>
-                            {position.filled}/{position.needed} Volunteers
+                            {getStaffing(position.id).assigned}/{position.needed} Volunteers
                           </p>
                         </div>
                       </Popup>
@@ -2,46 +2,93 @@ import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { toast } from 'react-hot-toast';
-import { format, isValid, parseISO } from 'date-fns';
-import { Calendar, Edit2, Trash2, Eye, Map, XCircle } from 'lucide-react';
+import { Calendar, Edit2, Trash2, Eye, Map, XCircle, Crosshair, UserPlus, Mail } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
 import { useNavigate } from 'react-router-dom';
+import { MapCalibrationModal } from '../components/MapCalibrationModal';
+import { EventTeamModal } from '../components/EventTeamModal';
+import { CreateOrganizationForm } from '../components/CreateOrganizationForm';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { EventRole, ROLE_LABELS } from '../lib/eventRoles';
+import { ORGANIZATION_ROLE_LABELS, OrganizationRole } from '../lib/organizations';
+import { MapCalibration, parseCalibration } from '../lib/mapCalibration';
+import { formatCalendarDate, formatEventDateTime, getBrowserTimeZone, isValidTimeZone, listTimeZones } from '../lib/timezone';
+import { isMultiDayEvent } from '../lib/shifts';
+import { DEFAULT_GEOFENCE_RADIUS_M, GEOFENCE_MODES, GEOFENCE_MODE_LABELS, GeofenceMode } from '../lib/geofence';
 
 interface Event {
   id: string;
+  organization_id: string;
   name: string;
   date: string;
+  end_date: string | null;
   time: string;
   location: string;
+  timezone: string;
   custom_map_url?: string | null;
+  map_calibration?: MapCalibration | null;
+  geofence_mode: GeofenceMode;
+  geofence_radius_m: number;
 }
 
 interface EventFormData {
   name: string;
   date: string;
+  end_date?: string | null;
   time: string;
   location: string;
+  timezone: string;
   custom_map_url?: string | null;
+  geofence_mode: GeofenceMode;
+  geofence_radius_m: number;
 }
 
+const timeZones = listTimeZones();
+
 export function EventsPage() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [calibratingEvent, setCalibratingEvent] = useState<Event | null>(null);
+  const [teamEvent, setTeamEvent] = useState<Event | null>(null);
+  const { getRole, can } = useEventRoles();
+  const { organizations, currentOrganization, isLoading: organizationsLoading } = useOrganization();
 
-  const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<EventFormData>();
+  const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<EventFormData>({
+    defaultValues: {
+      timezone: getBrowserTimeZone(),
+      geofence_mode: 'off',
+      geofence_radius_m: DEFAULT_GEOFENCE_RADIUS_M,
+    },
+  });
   const customMapUrl = watch('custom_map_url');
 
+  // New events start in the organization's time zone
+  useEffect(() => {
+    if (currentOrganization && !editingEvent) {
+      reset({
+        timezone: currentOrganization.default_timezone,
+        geofence_mode: 'off',
+        geofence_radius_m: DEFAULT_GEOFENCE_RADIUS_M,
+      });
+    }
+  }, [currentOrganization, editingEvent, reset]);
+
   useEffect(() => {
     if (editingEvent) {
       setValue('name', editingEvent.name);
       setValue('date', editingEvent.date);
+      setValue('end_date', editingEvent.end_date || '');
       setValue('time', editingEvent.time);
       setValue('location', editingEvent.location);
+      setValue('timezone', editingEvent.timezone);
       setValue('custom_map_url', editingEvent.custom_map_url || '');
+      setValue('geofence_mode', editingEvent.geofence_mode);
+      setValue('geofence_radius_m', editingEvent.geofence_radius_m);
     }
   }, [editingEvent, setValue]);
 
@@ -55,7 +102,10 @@ export function EventsPage() {
           .order('date', { ascending: true });
 
         if (error) throw error;
-        return data;
+        return data.map(event => ({
+          ...event,
+          map_calibration: parseCalibration(event.map_calibration),
+        })) as Event[];
       } catch (error) {
         console.error('Error fetching events:', error);
         throw error;
@@ -65,6 +115,49 @@ export function EventsPage() {
     retryDelay: 1000,
   });
 
+  // Invitations sent to the signed-in user's email that they have not accepted yet
+  const { data: pendingInvitations } = useQuery({
+    queryKey: ['my-invitations', user?.email],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('event_invitations')
+          .select('id, role, token')
+          .ilike('email', user?.email ?? '')
+          .is('accepted_at', null);
+        if (error) throw error;
+        return data as Array<{ id: string; role: EventRole; token: string }>;
+      } catch (error) {
+        console.error('Error fetching invitations:', error);
+        throw error;
+      }
+    },
+    enabled: !!user?.email,
+  });
+
+  const { data: pendingOrganizationInvitations } = useQuery({
+    queryKey: ['my-organization-invitations', user?.email],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('organization_invitations')
+          .select('id, role, token')
+          .ilike('email', user?.email ?? '')
+          .is('accepted_at', null);
+        if (error) throw error;
+        return data as Array<{ id: string; role: OrganizationRole; token: string }>;
+      } catch (error) {
+        console.error('Error fetching organization invitations:', error);
+        throw error;
+      }
+    },
+    enabled: !!user?.email,
+  });
+
+  // The current organization's events, plus events other organizations shared with the user
+  const organizationEvents = events?.filter(event => event.organization_id === currentOrganization?.id) ?? [];
+  const sharedEvents = events?.filter(event => !organizations.some(o => o.id === event.organization_id)) ?? [];
+
   const handleImageUpload = async (file: File) => {
     setIsUploading(true);
     try {
@@ -110,10 +203,13 @@ export function EventsPage() {
 
   const createMutation = useMutation({
     mutationFn: async (data: EventFormData) => {
+      if (!currentOrganization) {
+        throw new Error('Create an organization before adding events');
+      }
       try {
         const { error } = await supabase
           .from('events')
-          .insert([{ ...data, user_id: user?.id }]);
+          .insert([{ ...data, user_id: user?.id, organization_id: currentOrganization.id }]);
         if (error) throw error;
       } catch (error) {
         console.error('Error creating event:', error);
@@ -122,6 +218,7 @@ export function EventsPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['event-roles'] });
       toast.success('Event created successfully');
       reset();
     },
@@ -131,13 +228,14 @@ export function EventsPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: Event) => {
+    mutationFn: async (data: EventFormData & { id: string }) => {
       try {
         const { error } = await supabase
           .from('events')
           .update(data)
           .eq('id', data.id);
-        if (error) throw error;
+        // Shortening the event is refused while shifts remain on the days it drops
+        if (error) throw new Error(error.message);
       } catch (error) {
         console.error('Error updating event:', error);
         throw error;
@@ -176,7 +274,9 @@ export function EventsPage() {
     },
   });
 
-  const onSubmit = (data: EventFormData) => {
+  const onSubmit = (formData: EventFormData) => {
+    // An empty end date means a single-day event
+    const data = { ...formData, end_date: formData.end_date || null };
     if (editingEvent) {
       updateMutation.mutate({ ...data, id: editingEvent.id });
     } else {
@@ -184,23 +284,90 @@ export function EventsPage() {
     }
   };
 
-  const formatEventDateTime = (date: string, time: string) => {
-    try {
-      const dateTimeString = `${date}T${time}:00Z`;
-      const parsedDate = parseISO(dateTimeString);
-      
-      if (!isValid(parsedDate)) {
-        return `${date} ${time}`;
-      }
-      
-      return format(parsedDate, 'PPp');
-    } catch (err) {
-      console.error('Error formatting date/time:', err);
-      return `${date} ${time}`;
-    }
-  };
+  const renderEvent = (event: Event) => (
+    <li key={event.id} className="px-4 py-4 sm:px-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Calendar className="h-5 w-5 text-gray-400 mr-3" />
+          <div>
+            <p className="text-sm font-medium text-indigo-600">
+              {event.name}
+              {getRole(event.id) && getRole(event.id) !== 'owner' && (
+                <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                  {ROLE_LABELS[getRole(event.id)!]}
+                </span>
+              )}
+            </p>
+            <p className="text-sm text-gray-500">
+              {formatEventDateTime(event.date, event.time, event.timezone)}
+              {isMultiDayEvent(event) && ` – ${formatCalendarDate(event.end_date!)}`}
+            </p>
+            <p className="text-sm text-gray-500">{event.location}</p>
+            {event.custom_map_url && (
+              <p className="text-sm text-gray-500 flex items-center mt-1">
+                <Map className="h-4 w-4 mr-1 text-gray-400" />
+                Custom map available
+                <span className={`ml-2 text-xs ${event.map_calibration ? 'text-green-600' : 'text-orange-500'}`}>
+                  {event.map_calibration ? '(calibrated)' : '(not calibrated)'}
+                </span>
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex space-x-3">
+          {event.custom_map_url && can(event.id, 'manageEvent') && (
+            <button
+              onClick={() => setCalibratingEvent(event)}
+              className="text-gray-400 hover:text-gray-500"
+              title="Calibrate custom map"
+            >
+              <Crosshair className="h-5 w-5" />
+            </button>
+          )}
+          <button
+            onClick={() => navigate(`/overview?eventId=${event.id}`)}
+            className="text-gray-400 hover:text-gray-500"
+            title="View event overview"
+          >
+            <Eye className="h-5 w-5" />
+          </button>
+          {can(event.id, 'manageTeam') && (
+            <button
+              onClick={() => setTeamEvent(event)}
+              className="text-gray-400 hover:text-gray-500"
+              title="Manage team"
+            >
+              <UserPlus className="h-5 w-5" />
+            </button>
+          )}
+          {can(event.id, 'manageEvent') && (
+            <>
+              <button
+                onClick={() => setEditingEvent(event)}
+                className="text-gray-400 hover:text-gray-500"
+                title="Edit event"
+              >
+                <Edit2 className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm('Are you sure you want to delete this event?')) {
+                    deleteMutation.mutate(event.id);
+                  }
+                }}
+                className="text-gray-400 hover:text-gray-500"
+                title="Delete event"
+              >
+                <Trash2 className="h-5 w-5" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </li>
+  );
 
-  if (isLoading) {
+  if (isLoading || organizationsLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
@@ -224,183 +391,294 @@ export function EventsPage() {
 
   return (
     <div className="space-y-6">
-      <div className="bg-white shadow rounded-lg p-6">
-        <h2 className="text-lg font-medium mb-4">
-          {editingEvent ? 'Edit Event' : 'Create New Event'}
-        </h2>
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Event Name</label>
-            <input
-              {...register('name', { required: 'Event name is required' })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-            {errors.name && (
-              <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
-            )}
-          </div>
+      {pendingInvitations && pendingInvitations.length > 0 && (
+        <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 space-y-2">
+          {pendingInvitations.map(invitation => (
+            <div key={invitation.id} className="flex items-center justify-between text-sm text-indigo-900">
+              <span className="flex items-center">
+                <Mail className="h-4 w-4 mr-2" />
+                You have been invited to an event as {ROLE_LABELS[invitation.role]}.
+              </span>
+              <button
+                onClick={() => navigate(`/invitations/${invitation.token}`)}
+                className="px-3 py-1 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                View Invitation
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Date</label>
-            <input
-              type="date"
-              {...register('date', { required: 'Date is required' })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-            {errors.date && (
-              <p className="mt-1 text-sm text-red-600">{errors.date.message}</p>
-            )}
-          </div>
+      {pendingOrganizationInvitations && pendingOrganizationInvitations.length > 0 && (
+        <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 space-y-2">
+          {pendingOrganizationInvitations.map(invitation => (
+            <div key={invitation.id} className="flex items-center justify-between text-sm text-indigo-900">
+              <span className="flex items-center">
+                <Mail className="h-4 w-4 mr-2" />
+                You have been invited to an organization as {ORGANIZATION_ROLE_LABELS[invitation.role]}.
+              </span>
+              <button
+                onClick={() => navigate(`/organization-invitations/${invitation.token}`)}
+                className="px-3 py-1 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                View Invitation
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Time</label>
-            <input
-              type="time"
-              {...register('time', { required: 'Time is required' })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-            {errors.time && (
-              <p className="mt-1 text-sm text-red-600">{errors.time.message}</p>
-            )}
-          </div>
+      {!currentOrganization ? (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium mb-1">Create Your Organization</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Events belong to an organization. Create one to start adding events, or accept an
+            invitation to join an existing one.
+          </p>
+          <CreateOrganizationForm />
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium mb-4">
+            {editingEvent ? 'Edit Event' : `Create New Event in ${currentOrganization.name}`}
+          </h2>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Event Name</label>
+              <input
+                {...register('name', { required: 'Event name is required' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+              )}
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Location</label>
-            <input
-              {...register('location', { required: 'Location is required' })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-            {errors.location && (
-              <p className="mt-1 text-sm text-red-600">{errors.location.message}</p>
-            )}
-          </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Date</label>
+              <input
+                type="date"
+                {...register('date', { required: 'Date is required' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.date && (
+                <p className="mt-1 text-sm text-red-600">{errors.date.message}</p>
+              )}
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Custom Map Image</label>
-            <div className="mt-1 flex items-center space-x-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                End Date <span className="text-gray-400 font-normal">(optional, for multi-day events)</span>
+              </label>
               <input
-                type="file"
-                accept="image/*"
-                onChange={(e) => {
-                  const file = e.target.files?.[0];
-                  if (file) handleImageUpload(file);
-                }}
-                className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+                type="date"
+                min={watch('date') || undefined}
+                {...register('end_date', {
+                  validate: (value, values) =>
+                    !value || !values.date || value >= values.date || 'End date cannot be before the start date',
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.end_date && (
+                <p className="mt-1 text-sm text-red-600">{errors.end_date.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Time</label>
+              <input
+                type="time"
+                {...register('time', { required: 'Time is required' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.time && (
+                <p className="mt-1 text-sm text-red-600">{errors.time.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Time Zone</label>
+              <select
+                {...register('timezone', {
+                  required: 'Time zone is required',
+                  validate: value => isValidTimeZone(value) || 'Unknown time zone',
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {timeZones.map(zone => (
+                  <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Shift times, check-in and automatic check-out use this zone.
+              </p>
+              {errors.timezone && (
+                <p className="mt-1 text-sm text-red-600">{errors.timezone.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Location</label>
+              <input
+                {...register('location', { required: 'Location is required' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
               />
-              {isUploading && (
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-600"></div>
+              {errors.location && (
+                <p className="mt-1 text-sm text-red-600">{errors.location.message}</p>
               )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Check-In Location</label>
+                <select
+                  {...register('geofence_mode')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  {GEOFENCE_MODES.map(mode => (
+                    <option key={mode} value={mode}>{GEOFENCE_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Allowed Distance (m)</label>
+                <input
+                  type="number"
+                  min={1}
+                  {...register('geofence_radius_m', {
+                    required: 'Distance is required',
+                    min: { value: 1, message: 'Enter at least 1 meter' },
+                    valueAsNumber: true,
+                  })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+                {errors.geofence_radius_m && (
+                  <p className="mt-1 text-sm text-red-600">{errors.geofence_radius_m.message}</p>
+                )}
+              </div>
+              <p className="col-span-2 -mt-2 text-xs text-gray-500">
+                How far from their position volunteers may check themselves in. Positions can set their own.
+                Staff can override a blocked check-in.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Custom Map Image</label>
+              <div className="mt-1 flex items-center space-x-4">
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImageUpload(file);
+                  }}
+                  className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+                />
+                {isUploading && (
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-600"></div>
+                )}
+                {customMapUrl && (
+                  <button
+                    type="button"
+                    onClick={removeCustomMap}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Remove Map
+                  </button>
+                )}
+              </div>
               {customMapUrl && (
+                <div className="mt-2">
+                  <img
+                    src={customMapUrl}
+                    alt="Custom map"
+                    className="max-h-48 rounded-lg object-cover"
+                  />
+                </div>
+              )}
+              <input type="hidden" {...register('custom_map_url')} />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              {editingEvent && (
                 <button
                   type="button"
-                  onClick={removeCustomMap}
-                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                  onClick={() => {
+                    setEditingEvent(null);
+                    reset();
+                  }}
+                  className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
                 >
-                  <XCircle className="h-4 w-4 mr-1" />
-                  Remove Map
+                  Cancel
                 </button>
               )}
-            </div>
-            {customMapUrl && (
-              <div className="mt-2">
-                <img
-                  src={customMapUrl}
-                  alt="Custom map"
-                  className="max-h-48 rounded-lg object-cover"
-                />
-              </div>
-            )}
-            <input type="hidden" {...register('custom_map_url')} />
-          </div>
-
-          <div className="flex justify-end space-x-3">
-            {editingEvent && (
               <button
-                type="button"
-                onClick={() => {
-                  setEditingEvent(null);
-                  reset();
-                }}
-                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                type="submit"
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
               >
-                Cancel
+                {editingEvent ? 'Update Event' : 'Create Event'}
               </button>
-            )}
-            <button
-              type="submit"
-              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-            >
-              {editingEvent ? 'Update Event' : 'Create Event'}
-            </button>
-          </div>
-        </form>
-      </div>
+            </div>
+          </form>
+        </div>
+      )}
 
-      <div className="bg-white shadow rounded-lg overflow-hidden">
-        <div className="px-4 py-5 sm:px-6">
-          <h3 className="text-lg font-medium leading-6 text-gray-900">
-            Upcoming Events
-          </h3>
+      {currentOrganization && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:px-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">
+              Upcoming Events
+            </h3>
+          </div>
+          <div className="border-t border-gray-200">
+            <ul className="divide-y divide-gray-200">
+              {organizationEvents.map(renderEvent)}
+              {organizationEvents.length === 0 && (
+                <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
+                  No events found. Create one above!
+                </li>
+              )}
+            </ul>
+          </div>
         </div>
-        <div className="border-t border-gray-200">
-          <ul className="divide-y divide-gray-200">
-            {events?.map((event) => (
-              <li key={event.id} className="px-4 py-4 sm:px-6">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center">
-                    <Calendar className="h-5 w-5 text-gray-400 mr-3" />
-                    <div>
-                      <p className="text-sm font-medium text-indigo-600">{event.name}</p>
-                      <p className="text-sm text-gray-500">
-                        {formatEventDateTime(event.date, event.time)}
-                      </p>
-                      <p className="text-sm text-gray-500">{event.location}</p>
-                      {event.custom_map_url && (
-                        <p className="text-sm text-gray-500 flex items-center mt-1">
-                          <Map className="h-4 w-4 mr-1 text-gray-400" />
-                          Custom map available
-                        </p>
-                      )}
-                    </div>
-                  </div>
-                  <div className="flex space-x-3">
-                    <button
-                      onClick={() => navigate(`/overview?eventId=${event.id}`)}
-                      className="text-gray-400 hover:text-gray-500"
-                      title="View event overview"
-                    >
-                      <Eye className="h-5 w-5" />
-                    </button>
-                    <button
-                      onClick={() => setEditingEvent(event)}
-                      className="text-gray-400 hover:text-gray-500"
-                      title="Edit event"
-                    >
-                      <Edit2 className="h-5 w-5" />
-                    </button>
-                    <button
-                      onClick={() => {
-                        if (window.confirm('Are you sure you want to delete this event?')) {
-                          deleteMutation.mutate(event.id);
-                        }
-                      }}
-                      className="text-gray-400 hover:text-gray-500"
-                      title="Delete event"
-                    >
-                      <Trash2 className="h-5 w-5" />
-                    </button>
-                  </div>
-                </div>
-              </li>
-            ))}
-            {events?.length === 0 && (
-              <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
-                No events found. Create one above!
-              </li>
-            )}
-          </ul>
+      )}
+
+      {sharedEvents.length > 0 && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:px-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">
+              Shared With You
+            </h3>
+          </div>
+          <div className="border-t border-gray-200">
+            <ul className="divide-y divide-gray-200">
+              {sharedEvents.map(renderEvent)}
+            </ul>
+          </div>
         </div>
-      </div>
+      )}
+
+
+      {calibratingEvent?.custom_map_url && (
+        <MapCalibrationModal
+          event={{
+            id: calibratingEvent.id,
+            name: calibratingEvent.name,
+            custom_map_url: calibratingEvent.custom_map_url,
+            map_calibration: calibratingEvent.map_calibration ?? null,
+          }}
+          onClose={() => setCalibratingEvent(null)}
+        />
+      )}
+
+      {teamEvent && (
+        <EventTeamModal
+          event={{ id: teamEvent.id, name: teamEvent.name }}
+          onClose={() => setTeamEvent(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { AlertCircle, Clock, MapPin, UsersRound } from 'lucide-react';
+import { formatShiftWindow } from '../lib/shifts';
+import { getTimeZoneLabel } from '../lib/timezone';
+import { isPlausiblePhoneNumber } from '../lib/phone';
+import { GroupSeat, fillGroupSeat, getGroupPortal } from '../lib/groups';
+import { SignupField, SignupFieldValues, toFieldFormValues } from '../lib/signupFields';
+import { SignupFieldInputs } from '../components/SignupFieldInputs';
+
+interface SeatFormData {
+  volunteer_name: string;
+  phone_number: string;
+  custom_fields: SignupFieldValues;
+}
+
+function SeatRow({ token, seat, number, fields }: {
+  token: string;
+  seat: GroupSeat;
+  number: number;
+  fields: SignupField[];
+}) {
+  const queryClient = useQueryClient();
+  const { register, handleSubmit, watch, formState: { errors, isDirty } } = useForm<SeatFormData>({
+    values: {
+      volunteer_name: seat.volunteer_name ?? '',
+      phone_number: seat.phone_number ?? '',
+      custom_fields: toFieldFormValues(fields, seat.custom_fields),
+    },
+  });
+  // The event's questions are asked once the seat has a name
+  const named = !!watch('volunteer_name')?.trim();
+
+  const fillMutation = useMutation({
+    mutationFn: async (data: SeatFormData) => {
+      try {
+        await fillGroupSeat(token, seat, data.volunteer_name.trim(), data.phone_number.trim(), data.custom_fields);
+      } catch (error) {
+        console.error('Error saving seat:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ['group-portal', token] });
+      toast.success(data.volunteer_name.trim() ? `Saved ${data.volunteer_name.trim()}` : 'Seat opened again');
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['group-portal', token] });
+      toast.error(error instanceof Error ? error.message : 'Failed to save seat');
+    },
+  });
+
+  return (
+    <form onSubmit={handleSubmit(data => fillMutation.mutate(data))} className="py-2">
+      <div className="flex items-center space-x-2">
+        <span className="w-6 text-sm text-gray-400">{number}.</span>
+        <input
+          type="text"
+          placeholder="Member name"
+          disabled={seat.arrived}
+          {...register('volunteer_name')}
+          className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-50"
+        />
+        <input
+          type="tel"
+          placeholder="Their phone (optional)"
+          disabled={seat.arrived}
+          {...register('phone_number', {
+            validate: value => !value.trim() || isPlausiblePhoneNumber(value) || 'Enter a valid phone number',
+          })}
+          className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-50"
+        />
+        {seat.arrived ? (
+          <span className="w-16 text-sm text-green-600">On site</span>
+        ) : (
+          <button
+            type="submit"
+            disabled={!isDirty || fillMutation.isPending}
+            className="w-16 px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        )}
+      </div>
+      {errors.phone_number && (
+        <p className="mt-1 ml-8 text-sm text-red-600">{errors.phone_number.message}</p>
+      )}
+      {named && fields.length > 0 && (
+        <div className="mt-2 ml-8 mr-[4.5rem] space-y-3">
+          <SignupFieldInputs
+            fields={fields}
+            register={register}
+            errors={errors.custom_fields as Partial<Record<string, { message?: string }>> | undefined}
+            disabled={seat.arrived}
+          />
+        </div>
+      )}
+    </form>
+  );
+}
+
+export function GroupLeaderPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: portal, isLoading, error } = useQuery({
+    queryKey: ['group-portal', token],
+    queryFn: async () => {
+      try {
+        return await getGroupPortal(token!);
+      } catch (error) {
+        console.error('Error fetching group portal:', error);
+        throw error;
+      }
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex flex-col items-center justify-center p-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mb-4"></div>
+        <p className="text-gray-600">Loading your group...</p>
+      </div>
+    );
+  }
+
+  if (error || !portal) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex flex-col items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-lg shadow-md text-center max-w-md w-full">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <p className="text-gray-700 mb-2">We could not open your group page</p>
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : 'This link is no longer valid.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Seats booked together are listed together
+  const blocks = new Map<string, GroupSeat[]>();
+  portal.seats.forEach(seat => {
+    const key = `${seat.position.id}|${seat.starts_at}|${seat.ends_at}`;
+    blocks.set(key, [...(blocks.get(key) ?? []), seat]);
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-2xl font-extrabold text-gray-900 flex items-center">
+            <UsersRound className="h-6 w-6 mr-2 text-indigo-600" />
+            {portal.group.name}
+          </h2>
+          <p className="text-sm text-gray-500">
+            Volunteering with {portal.organization_name}. Led by {portal.group.leader_name}.
+          </p>
+          <p className="mt-2 text-sm text-gray-600">
+            Enter the name of each member filling a seat. Members without their own phone number are
+            reached through yours. Clear a name to open the seat again.
+          </p>
+        </div>
+
+        {blocks.size === 0 ? (
+          <div className="bg-white p-6 rounded-lg shadow">
+            <p className="text-sm text-gray-500">Your group has no upcoming seats.</p>
+          </div>
+        ) : (
+          Array.from(blocks.entries()).map(([key, seats]) => {
+            const first = seats[0];
+            const named = seats.filter(s => !s.awaiting_member).length;
+            return (
+              <div key={key} className="bg-white p-6 rounded-lg shadow">
+                <div className="flex items-start justify-between mb-2">
+                  <div>
+                    <p className="text-sm font-medium text-indigo-600">{first.event.name}</p>
+                    <p className="text-base font-medium text-gray-900">{first.position.name}</p>
+                    <p className="mt-1 flex items-center text-sm text-gray-500">
+                      <Clock className="h-4 w-4 mr-1" />
+                      {formatShiftWindow(first, first.event.timezone, { showDate: true })}{' '}
+                      {getTimeZoneLabel(first.event.timezone, new Date(first.starts_at))}
+                    </p>
+                    {first.event.location && (
+                      <p className="mt-1 flex items-center text-sm text-gray-500">
+                        <MapPin className="h-4 w-4 mr-1" />
+                        {first.event.location}
+                      </p>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-500">{named}/{seats.length} named</span>
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {seats.map((seat, index) => (
+                    <SeatRow
+                      key={seat.id}
+                      token={token!}
+                      seat={seat}
+                      number={index + 1}
+                      fields={portal.fields.filter(field => field.event_id === first.event.id)}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,698 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { Edit2, KeyRound, Link2, Trash2, UserPlus, UsersRound } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { normalizePhoneNumber, validatePhoneNumber } from '../lib/phone';
+import { VOLUNTEER_GROUP_COLUMNS, VolunteerGroup, groupPortalUrl, summarizeGroupAttendance } from '../lib/groups';
+import {
+  EventSchedule,
+  Shift,
+  buildShiftWindow,
+  formatShiftWindow,
+  getEventDates,
+  isMultiDayEvent,
+  sortShifts,
+} from '../lib/shifts';
+import { formatCalendarDate } from '../lib/timezone';
+import { StaleSignupError, assignGroupSeats, removeVolunteer } from '../lib/signupOperations';
+
+interface GroupFormData {
+  name: string;
+  leader_name: string;
+  phone_number: string;
+  email: string;
+  notes: string;
+}
+
+interface SeatsFormData {
+  position_id: string;
+  shift_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  seats: number;
+}
+
+interface Position {
+  id: string;
+  event_id: string;
+  name: string;
+  event: EventSchedule & { name: string; organization_id: string };
+}
+
+interface GroupSeatRow {
+  id: string;
+  version: number;
+  group_id: string;
+  position_id: string;
+  starts_at: string;
+  ends_at: string;
+  awaiting_member: boolean;
+  arrived: boolean;
+  checked_in_at: string | null;
+  organization: string | null;
+  position: {
+    name: string;
+    event: { id: string; name: string; timezone: string };
+  };
+}
+
+const emptyGroup: GroupFormData = { name: '', leader_name: '', phone_number: '', email: '', notes: '' };
+
+function GroupSeatsForm({ group, positions, onDone }: {
+  group: VolunteerGroup;
+  positions: Position[];
+  onDone: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<SeatsFormData>({
+    defaultValues: { seats: 5 },
+  });
+  const [positionId, date] = watch(['position_id', 'date']);
+
+  const position = positions.find(p => p.id === positionId) ?? null;
+  const eventDates = useMemo(() => (position ? getEventDates(position.event) : []), [position]);
+
+  const { data: shifts } = useQuery({
+    queryKey: ['shifts', 'position', positionId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('shifts')
+          .select('id, position_id, starts_at, ends_at, needed')
+          .eq('position_id', positionId);
+        if (error) throw error;
+        return sortShifts(data as Shift[]);
+      } catch (error) {
+        console.error('Error fetching shifts:', error);
+        throw error;
+      }
+    },
+    enabled: !!positionId,
+  });
+
+  // Keep the date within the picked event
+  useEffect(() => {
+    if (eventDates.length > 0 && !eventDates.includes(date)) {
+      setValue('date', eventDates[0]);
+    }
+  }, [eventDates, date, setValue]);
+
+  const assignMutation = useMutation({
+    mutationFn: async (data: SeatsFormData) => {
+      const shift = shifts?.find(s => s.id === data.shift_id);
+      const window = shift ?? buildShiftWindow(data, position!.event.timezone);
+      try {
+        return await assignGroupSeats({
+          group_id: group.id,
+          position_id: data.position_id,
+          shift_id: shift?.id ?? null,
+          starts_at: window.starts_at,
+          ends_at: window.ends_at,
+          seats: Number(data.seats),
+        });
+      } catch (error) {
+        console.error('Error booking group seats:', error);
+        throw error;
+      }
+    },
+    onSuccess: (seats) => {
+      queryClient.invalidateQueries({ queryKey: ['group-seats'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success(`${seats} seat${seats === 1 ? '' : 's'} booked for ${group.name}`);
+      onDone();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to book seats');
+    },
+  });
+
+  const hasShifts = !!shifts && shifts.length > 0;
+
+  return (
+    <form onSubmit={handleSubmit(data => assignMutation.mutate(data))} className="mt-4 space-y-3 border-t border-gray-200 pt-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700">Position</label>
+          <select
+            {...register('position_id', { required: 'Position is required' })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="">Select a position</option>
+            {positions.map(p => (
+              <option key={p.id} value={p.id}>{p.event.name} - {p.name}</option>
+            ))}
+          </select>
+          {errors.position_id && (
+            <p className="mt-1 text-sm text-red-600">{errors.position_id.message}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Seats</label>
+          <input
+            type="number"
+            min={1}
+            max={200}
+            {...register('seats', { required: true, min: 1, max: 200 })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+      </div>
+
+      {position && hasShifts && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Shift</label>
+          <select
+            {...register('shift_id', { validate: value => !hasShifts || !!value || 'Shift is required' })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="">Select a shift</option>
+            {shifts.map(shift => (
+              <option key={shift.id} value={shift.id}>
+                {formatShiftWindow(shift, position.event.timezone, { showDate: isMultiDayEvent(position.event) })}
+              </option>
+            ))}
+          </select>
+          {errors.shift_id && (
+            <p className="mt-1 text-sm text-red-600">{errors.shift_id.message}</p>
+          )}
+        </div>
+      )}
+
+      {position && shifts && !hasShifts && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {isMultiDayEvent(position.event) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Date</label>
+              <select
+                {...register('date', { required: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {eventDates.map(d => (
+                  <option key={d} value={d}>{formatCalendarDate(d)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Start Time</label>
+            <input
+              type="time"
+              {...register('start_time', { required: 'Start time is required' })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">End Time</label>
+            <input
+              type="time"
+              {...register('end_time', { required: 'End time is required' })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={assignMutation.isPending || (!!positionId && !shifts)}
+          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Book Seats
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function GroupsPage() {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useOrganization();
+  const { can } = useEventRoles();
+  const organizationId = currentOrganization?.id;
+  const [editingGroup, setEditingGroup] = useState<VolunteerGroup | null>(null);
+  const [bookingGroupId, setBookingGroupId] = useState<string | null>(null);
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<GroupFormData>();
+
+  useEffect(() => {
+    if (editingGroup) {
+      reset({
+        name: editingGroup.name,
+        leader_name: editingGroup.leader_name,
+        phone_number: editingGroup.phone_number,
+        email: editingGroup.email || '',
+        notes: editingGroup.notes || '',
+      });
+    }
+  }, [editingGroup, reset]);
+
+  const { data: groups, isLoading } = useQuery({
+    queryKey: ['volunteer-groups', organizationId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_groups')
+          .select(VOLUNTEER_GROUP_COLUMNS)
+          .eq('organization_id', organizationId!)
+          .order('name');
+        if (error) throw error;
+        return data as VolunteerGroup[];
+      } catch (error) {
+        console.error('Error fetching groups:', error);
+        throw error;
+      }
+    },
+    enabled: !!organizationId,
+  });
+
+  const { data: positions } = useQuery({
+    queryKey: ['positions', 'groups'],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_positions')
+          .select('id, event_id, name, event:events(name, date, end_date, timezone, organization_id)');
+        if (error) throw error;
+        return (data as any[]).map(item => ({
+          ...item,
+          event: Array.isArray(item.event) ? item.event[0] : item.event,
+        })) as Position[];
+      } catch (error) {
+        console.error('Error fetching positions:', error);
+        throw error;
+      }
+    },
+  });
+
+  // Groups can only be booked at their own organization's events
+  const bookablePositions = (positions ?? []).filter(
+    p => p.event.organization_id === organizationId && can(p.event_id, 'manageAssignments')
+  );
+
+  const { data: seats } = useQuery({
+    queryKey: ['group-seats', organizationId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_signups')
+          .select(`
+            id,
+            version,
+            group_id,
+            position_id,
+            starts_at,
+            ends_at,
+            awaiting_member,
+            arrived,
+            checked_in_at,
+            organization,
+            position:volunteer_positions(
+              name,
+              event:events(id, name, timezone)
+            )
+          `)
+          .in('group_id', (groups ?? []).map(g => g.id))
+          .order('starts_at');
+        if (error) throw error;
+        return (data as any[]).map(item => {
+          const position = Array.isArray(item.position) ? item.position[0] : item.position;
+          return {
+            ...item,
+            position: {
+              ...position,
+              event: Array.isArray(position.event) ? position.event[0] : position.event,
+            },
+          };
+        }) as GroupSeatRow[];
+      } catch (error) {
+        console.error('Error fetching group seats:', error);
+        throw error;
+      }
+    },
+    enabled: !!groups && groups.length > 0,
+  });
+
+  // A group's seats at the same position and time
+  const blocksOf = (groupId: string) => {
+    const blocks = new Map<string, GroupSeatRow[]>();
+    (seats ?? []).filter(s => s.group_id === groupId).forEach(seat => {
+      const key = `${seat.position_id}|${seat.starts_at}|${seat.ends_at}`;
+      blocks.set(key, [...(blocks.get(key) ?? []), seat]);
+    });
+    return Array.from(blocks.entries()).map(([key, blockSeats]) => ({
+      key,
+      seats: blockSeats,
+      attendance: summarizeGroupAttendance(blockSeats)[0],
+    }));
+  };
+
+  const toGroup = (data: GroupFormData) => ({
+    name: data.name.trim(),
+    leader_name: data.leader_name.trim(),
+    phone_number: normalizePhoneNumber(data.phone_number, currentOrganization?.phone_country_code) ?? data.phone_number.trim(),
+    email: data.email.trim() || null,
+    notes: data.notes.trim() || null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: GroupFormData) => {
+      try {
+        const { error } = editingGroup
+          ? await supabase
+              .from('volunteer_groups')
+              .update(toGroup(data))
+              .eq('id', editingGroup.id)
+          : await supabase
+              .from('volunteer_groups')
+              .insert([{ ...toGroup(data), organization_id: organizationId! }]);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving group:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-groups'] });
+      toast.success(editingGroup ? 'Group updated' : 'Group added');
+      setEditingGroup(null);
+      reset(emptyGroup);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to save group');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('volunteer_groups')
+          .delete()
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error deleting group:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['group-seats'] });
+      toast.success('Group removed');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove group');
+    },
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('volunteer_groups')
+          .update({ leader_token: crypto.randomUUID() })
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error revoking leader link:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-groups'] });
+      toast.success('Old link revoked. Copy the new link to share it.');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke leader link');
+    },
+  });
+
+  // Open seats are removed one by one, so the waitlist can fill them
+  const releaseMutation = useMutation({
+    mutationFn: async (openSeats: GroupSeatRow[]) => {
+      try {
+        for (const seat of openSeats) {
+          await removeVolunteer(seat);
+        }
+      } catch (error) {
+        console.error('Error releasing seats:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, openSeats) => {
+      queryClient.invalidateQueries({ queryKey: ['group-seats'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success(`${openSeats.length} open seat${openSeats.length === 1 ? '' : 's'} released`);
+    },
+    onError: (error) => {
+      if (error instanceof StaleSignupError) queryClient.invalidateQueries({ queryKey: ['group-seats'] });
+      toast.error(error instanceof Error ? error.message : 'Failed to release seats');
+    },
+  });
+
+  const copyLeaderLink = async (group: VolunteerGroup) => {
+    try {
+      await navigator.clipboard.writeText(groupPortalUrl(group.leader_token));
+      toast.success(`Copied the leader link for ${group.name}`);
+    } catch (error) {
+      console.error('Error copying leader link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  if (!currentOrganization) {
+    return (
+      <div className="text-center py-4 text-gray-500">
+        Create or join an organization to keep volunteer groups.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-4">{editingGroup ? 'Edit Group' : 'Add Group'}</h2>
+        <form onSubmit={handleSubmit(data => saveMutation.mutate(data))} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Group Name</label>
+              <input
+                {...register('name', { required: 'Group name is required' })}
+                placeholder="St. Mark's Youth Group"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Leader Name</label>
+              <input
+                {...register('leader_name', { required: 'Leader name is required' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.leader_name && (
+                <p className="mt-1 text-sm text-red-600">{errors.leader_name.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Leader Phone Number</label>
+              <input
+                {...register('phone_number', {
+                  required: 'Phone number is required',
+                  validate: validatePhoneNumber(currentOrganization.phone_country_code),
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.phone_number && (
+                <p className="mt-1 text-sm text-red-600">{errors.phone_number.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Leader Email (Optional)</label>
+              <input
+                type="email"
+                {...register('email')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Notes (Optional)</label>
+            <textarea
+              {...register('notes')}
+              rows={2}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            {editingGroup && (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingGroup(null);
+                  reset(emptyGroup);
+                }}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {editingGroup ? 'Update Group' : 'Add Group'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900 flex items-center">
+            <UsersRound className="h-5 w-5 mr-2 text-indigo-600" />
+            Groups
+          </h3>
+        </div>
+        <div className="border-t border-gray-200">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : groups?.length === 0 ? (
+            <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">No groups yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {groups?.map(group => (
+                <li key={group.id} className="px-4 py-4 sm:px-6">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-indigo-600">{group.name}</p>
+                      <p className="text-sm text-gray-500">
+                        Led by {group.leader_name} · {group.phone_number}
+                        {group.email && ` · ${group.email}`}
+                      </p>
+                      {group.notes && (
+                        <p className="mt-1 text-sm text-gray-500 italic">{group.notes}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      {bookablePositions.length > 0 && (
+                        <button
+                          onClick={() => setBookingGroupId(bookingGroupId === group.id ? null : group.id)}
+                          className="text-gray-400 hover:text-gray-500"
+                          title="Book seats"
+                        >
+                          <UserPlus className="h-5 w-5" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => copyLeaderLink(group)}
+                        className="text-gray-400 hover:text-gray-500"
+                        title="Copy leader link"
+                      >
+                        <Link2 className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Revoke the leader link for ${group.name}? The old link will stop working.`)) {
+                            revokeLinkMutation.mutate(group.id);
+                          }
+                        }}
+                        className="text-gray-400 hover:text-gray-500"
+                        title="Revoke leader link"
+                      >
+                        <KeyRound className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => setEditingGroup(group)}
+                        className="text-gray-400 hover:text-gray-500"
+                        title="Edit group"
+                      >
+                        <Edit2 className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Remove ${group.name}? Its booked seats stay assigned.`)) {
+                            deleteMutation.mutate(group.id);
+                          }
+                        }}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Remove group"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {blocksOf(group.id).length > 0 && (
+                    <ul className="mt-3 space-y-1">
+                      {blocksOf(group.id).map(({ key, seats: blockSeats, attendance }) => {
+                        const first = blockSeats[0];
+                        const openSeats = blockSeats.filter(s => s.awaiting_member && !s.arrived);
+                        return (
+                          <li key={key} className="flex items-center justify-between text-sm">
+                            <span className="text-gray-700">
+                              {first.position.event.name} - {first.position.name},{' '}
+                              {formatShiftWindow(first, first.position.event.timezone, { showDate: true })}
+                              <span className="ml-2 text-gray-500">
+                                {attendance.named}/{attendance.seats} named · {attendance.onSite} on site
+                              </span>
+                            </span>
+                            {openSeats.length > 0 && can(first.position.event.id, 'manageAssignments') && (
+                              <button
+                                onClick={() => {
+                                  if (window.confirm(`Release ${openSeats.length} open seat${openSeats.length === 1 ? '' : 's'}?`)) {
+                                    releaseMutation.mutate(openSeats);
+                                  }
+                                }}
+                                disabled={releaseMutation.isPending}
+                                className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                              >
+                                Release open seats
+                              </button>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+
+                  {bookingGroupId === group.id && (
+                    <GroupSeatsForm
+                      group={group}
+                      positions={bookablePositions}
+                      onDone={() => setBookingGroupId(null)}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
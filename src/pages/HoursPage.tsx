@@ -0,0 +1,366 @@
+import { Fragment, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Download, LogIn, LogOut, MapPin, Timer } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { downloadCsv } from '../lib/csv';
+import { formatShiftWindow } from '../lib/shifts';
+import { formatInTimeZone } from '../lib/timezone';
+import {
+  ATTENDANCE_RECORD_COLUMNS,
+  ATTENDANCE_SOURCE_LABELS,
+  AttendanceRecord,
+  HoursSummary,
+  SignupHours,
+  formatHours,
+  describeRecordLocation,
+  summarizeHours,
+  volunteerKey,
+} from '../lib/attendance';
+
+interface HoursEvent {
+  id: string;
+  name: string;
+  timezone: string;
+}
+
+type Grouping = 'volunteer' | 'position';
+
+export function HoursPage() {
+  const [eventId, setEventId] = useState('');
+  const [grouping, setGrouping] = useState<Grouping>('volunteer');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // Only check-ins made beyond the allowed distance, for review
+  const [remoteOnly, setRemoteOnly] = useState(false);
+
+  const { data: events } = useQuery({
+    queryKey: ['events', 'hours'],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('events')
+          .select('id, name, timezone')
+          .order('date');
+        if (error) throw error;
+        return data as HoursEvent[];
+      } catch (error) {
+        console.error('Error fetching events:', error);
+        throw error;
+      }
+    },
+  });
+
+  const event = events?.find(e => e.id === eventId) ?? null;
+
+  const { data: positions } = useQuery({
+    queryKey: ['positions', 'hours', eventId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_positions')
+          .select('id, name')
+          .eq('event_id', eventId);
+        if (error) throw error;
+        return data as Array<{ id: string; name: string }>;
+      } catch (error) {
+        console.error('Error fetching positions:', error);
+        throw error;
+      }
+    },
+    enabled: !!event,
+  });
+
+  const { data: hours } = useQuery({
+    queryKey: ['signup-hours', eventId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('signup_hours')
+          .select('signup_id, position_id, volunteer_id, volunteer_name, starts_at, ends_at, arrived, scheduled_hours, actual_hours, check_ins')
+          .eq('event_id', eventId)
+          .order('starts_at');
+        if (error) throw error;
+        return data as SignupHours[];
+      } catch (error) {
+        console.error('Error fetching hours:', error);
+        throw error;
+      }
+    },
+    enabled: !!event,
+  });
+
+  const { data: records } = useQuery({
+    queryKey: ['attendance-records', eventId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('attendance_records')
+          .select(ATTENDANCE_RECORD_COLUMNS)
+          .eq('event_id', eventId)
+          .order('occurred_at', { ascending: false });
+        if (error) throw error;
+        return data as AttendanceRecord[];
+      } catch (error) {
+        console.error('Error fetching attendance records:', error);
+        throw error;
+      }
+    },
+    enabled: !!event,
+  });
+
+  const positionNames = useMemo(() => new Map((positions ?? []).map(p => [p.id, p.name])), [positions]);
+
+  const summaries = useMemo(
+    () =>
+      grouping === 'volunteer'
+        ? summarizeHours(hours ?? [], volunteerKey, row => row.volunteer_name)
+        : summarizeHours(hours ?? [], row => row.position_id, row => positionNames.get(row.position_id) ?? ''),
+    [hours, grouping, positionNames]
+  );
+
+  const [total] = summarizeHours(hours ?? [], () => 'event', () => event?.name ?? '');
+
+  const signupsOf = (summary: HoursSummary) =>
+    (hours ?? []).filter(row =>
+      grouping === 'volunteer' ? volunteerKey(row) === summary.key : row.position_id === summary.key
+    );
+
+  const formatTime = (instant: string) =>
+    formatInTimeZone(new Date(instant), event?.timezone);
+
+  const logRecords = (records ?? []).filter(record => !remoteOnly || record.outside_geofence);
+
+  const exportLog = () => {
+    downloadCsv(`${event!.name} attendance log.csv`, [
+      ['Volunteer', 'Position', 'Kind', 'Time', 'Source', 'Distance (m)', 'Accuracy (m)', 'Outside Geofence', 'Staff Override'],
+      ...logRecords.map(record => [
+        record.volunteer_name,
+        positionNames.get(record.position_id) ?? '',
+        record.kind === 'check_in' ? 'Check-in' : 'Check-out',
+        formatTime(record.occurred_at),
+        record.source ? ATTENDANCE_SOURCE_LABELS[record.source] : '',
+        record.distance_m === null ? '' : String(Math.round(Number(record.distance_m))),
+        record.accuracy_m === null ? '' : String(Math.round(Number(record.accuracy_m))),
+        record.outside_geofence === null ? '' : record.outside_geofence ? 'Yes' : 'No',
+        record.geofence_override ? 'Yes' : 'No',
+      ]),
+    ]);
+  };
+
+  const exportHours = () => {
+    downloadCsv(`${event!.name} hours.csv`, [
+      ['Volunteer', 'Position', 'Starts', 'Ends', 'Scheduled hours', 'Actual hours', 'Check-ins'],
+      ...(hours ?? []).map(row => [
+        row.volunteer_name,
+        positionNames.get(row.position_id) ?? '',
+        formatTime(row.starts_at),
+        formatTime(row.ends_at),
+        formatHours(Number(row.scheduled_hours)),
+        formatHours(Number(row.actual_hours)),
+        String(row.check_ins),
+      ]),
+    ]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium flex items-center">
+            <Timer className="h-5 w-5 mr-2 text-indigo-600" />
+            Volunteer Hours
+          </h2>
+          {event && hours && hours.length > 0 && (
+            <button
+              onClick={exportHours}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </button>
+          )}
+        </div>
+        <label className="block text-sm font-medium text-gray-700">Event</label>
+        <select
+          value={eventId}
+          onChange={(e) => {
+            setEventId(e.target.value);
+            setExpanded(null);
+          }}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          <option value="">Select an event</option>
+          {(events ?? []).map(e => (
+            <option key={e.id} value={e.id}>{e.name}</option>
+          ))}
+        </select>
+
+        {total && (
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-blue-50 p-4 rounded-lg">
+              <h3 className="text-sm font-semibold text-blue-700">Scheduled</h3>
+              <p className="text-3xl font-bold text-blue-900 mt-1">{formatHours(total.scheduledHours)}h</p>
+            </div>
+            <div className="bg-green-50 p-4 rounded-lg">
+              <h3 className="text-sm font-semibold text-green-700">Worked</h3>
+              <p className="text-3xl font-bold text-green-900 mt-1">{formatHours(total.actualHours)}h</p>
+            </div>
+            <div className="bg-red-50 p-4 rounded-lg">
+              <h3 className="text-sm font-semibold text-red-700">Missed Shifts</h3>
+              <p className="text-3xl font-bold text-red-900 mt-1">{total.missed}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {event && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex space-x-2 mb-4">
+            {(['volunteer', 'position'] as Grouping[]).map(option => (
+              <button
+                key={option}
+                onClick={() => {
+                  setGrouping(option);
+                  setExpanded(null);
+                }}
+                className={`px-3 py-1 rounded-md text-sm font-medium ${
+                  grouping === option ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                By {option === 'volunteer' ? 'Volunteer' : 'Position'}
+              </button>
+            ))}
+          </div>
+
+          {summaries.length === 0 ? (
+            <p className="text-sm text-gray-500">Nobody is signed up for this event yet.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 font-medium">{grouping === 'volunteer' ? 'Volunteer' : 'Position'}</th>
+                  <th className="py-2 font-medium text-right">Signups</th>
+                  <th className="py-2 font-medium text-right">Scheduled</th>
+                  <th className="py-2 font-medium text-right">Worked</th>
+                  <th className="py-2 font-medium text-right">Difference</th>
+                  <th className="py-2 font-medium text-right">Missed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summaries.map(summary => {
+                  const difference = summary.actualHours - summary.scheduledHours;
+                  return (
+                    <Fragment key={summary.key}>
+                      <tr
+                        onClick={() => setExpanded(expanded === summary.key ? null : summary.key)}
+                        className="cursor-pointer hover:bg-gray-50"
+                      >
+                        <td className="py-2 font-medium text-gray-900">{summary.label}</td>
+                        <td className="py-2 text-right">{summary.signups}</td>
+                        <td className="py-2 text-right">{formatHours(summary.scheduledHours)}</td>
+                        <td className="py-2 text-right">{formatHours(summary.actualHours)}</td>
+                        <td className={`py-2 text-right ${difference < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {difference > 0 ? '+' : ''}{formatHours(difference)}
+                        </td>
+                        <td className={`py-2 text-right ${summary.missed > 0 ? 'text-red-600' : ''}`}>{summary.missed}</td>
+                      </tr>
+                      {expanded === summary.key && (
+                        <tr>
+                          <td colSpan={6} className="pb-3">
+                            <ul className="ml-4 space-y-2">
+                              {signupsOf(summary).map(row => (
+                                <li key={row.signup_id} className="text-gray-600">
+                                  <p>
+                                    <span className="font-medium text-gray-800">
+                                      {grouping === 'volunteer' ? positionNames.get(row.position_id) : row.volunteer_name}
+                                    </span>
+                                    {' '}{formatShiftWindow(row, event.timezone, { showDate: true })}
+                                    {' - '}{formatHours(Number(row.actual_hours))} of {formatHours(Number(row.scheduled_hours))}h
+                                    {row.arrived && <span className="ml-2 text-green-600">On site</span>}
+                                  </p>
+                                  <ul className="ml-4 text-xs text-gray-500">
+                                    {(records ?? [])
+                                      .filter(record => record.signup_id === row.signup_id)
+                                      .reverse()
+                                      .map(record => (
+                                        <li key={record.id}>
+                                          {record.kind === 'check_in' ? 'In' : 'Out'} {formatTime(record.occurred_at)}
+                                          {record.source && ` (${ATTENDANCE_SOURCE_LABELS[record.source]})`}
+                                          {record.outside_geofence && (
+                                            <span className="text-orange-600"> {describeRecordLocation(record)}</span>
+                                          )}
+                                        </li>
+                                      ))}
+                                  </ul>
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {event && records && records.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium">Attendance Log</h3>
+            <div className="flex items-center space-x-4">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={remoteOnly}
+                  onChange={(e) => setRemoteOnly(e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Only check-ins outside the geofence
+              </label>
+              <button
+                onClick={exportLog}
+                disabled={logRecords.length === 0}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export Log
+              </button>
+            </div>
+          </div>
+          {logRecords.length === 0 && (
+            <p className="text-sm text-gray-500">No check-ins were made outside the geofence.</p>
+          )}
+          <ul className="divide-y divide-gray-100">
+            {logRecords.slice(0, 50).map(record => (
+              <li key={record.id} className="py-2 flex items-center text-sm">
+                {record.kind === 'check_in' ? (
+                  <LogIn className="h-4 w-4 mr-2 text-green-500" />
+                ) : (
+                  <LogOut className="h-4 w-4 mr-2 text-gray-400" />
+                )}
+                <span className="font-medium text-gray-900">{record.volunteer_name}</span>
+                <span className="ml-2 text-gray-500">
+                  {record.kind === 'check_in' ? 'checked in to' : 'checked out of'} {positionNames.get(record.position_id)}
+                </span>
+                {record.outside_geofence && (
+                  <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                    <MapPin className="h-3 w-3 mr-1" />
+                    {record.geofence_override ? 'Staff override' : 'Outside geofence'}
+                  </span>
+                )}
+                <span className="ml-auto text-gray-500">
+                  {formatTime(record.occurred_at)}
+                  {record.source && ` · ${ATTENDANCE_SOURCE_LABELS[record.source]}`}
+                  {describeRecordLocation(record) && ` · ${describeRecordLocation(record)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,466 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { Building2, Copy, Mail, Trash2, UserPlus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { CreateOrganizationForm } from '../components/CreateOrganizationForm';
+import {
+  ORGANIZATION_ROLES,
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  ORGANIZATION_ROLE_LABELS,
+  OrganizationRole,
+  getOrganizationInvitationLink,
+} from '../lib/organizations';
+import { isValidTimeZone, listTimeZones } from '../lib/timezone';
+
+interface OrganizationMember {
+  id: string;
+  user_id: string;
+  email: string | null;
+  role: OrganizationRole;
+}
+
+interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  token: string;
+}
+
+interface SettingsFormData {
+  name: string;
+  default_timezone: string;
+  phone_country_code: string;
+}
+
+interface InvitationFormData {
+  email: string;
+  role: OrganizationRole;
+}
+
+const timeZones = listTimeZones();
+
+export function OrganizationSettingsPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { currentOrganization, isLoading } = useOrganization();
+  const organizationId = currentOrganization?.id;
+  const isAdmin = currentOrganization?.role === 'admin';
+
+  const settingsForm = useForm<SettingsFormData>();
+  const inviteForm = useForm<InvitationFormData>({ defaultValues: { role: 'member' } });
+
+  useEffect(() => {
+    if (currentOrganization) {
+      settingsForm.reset({
+        name: currentOrganization.name,
+        default_timezone: currentOrganization.default_timezone,
+        phone_country_code: currentOrganization.phone_country_code,
+      });
+    }
+  }, [currentOrganization, settingsForm]);
+
+  const { data: members } = useQuery({
+    queryKey: ['organization-members', organizationId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('organization_members')
+          .select('id, user_id, email, role')
+          .eq('organization_id', organizationId)
+          .order('created_at', { ascending: true });
+        if (error) throw error;
+        return data as OrganizationMember[];
+      } catch (error) {
+        console.error('Error fetching organization members:', error);
+        throw error;
+      }
+    },
+    enabled: !!organizationId,
+  });
+
+  const { data: invitations } = useQuery({
+    queryKey: ['organization-invitations', organizationId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('organization_invitations')
+          .select('id, email, role, token')
+          .eq('organization_id', organizationId)
+          .is('accepted_at', null)
+          .order('created_at', { ascending: true });
+        if (error) throw error;
+        return data as OrganizationInvitation[];
+      } catch (error) {
+        console.error('Error fetching organization invitations:', error);
+        throw error;
+      }
+    },
+    enabled: !!organizationId && isAdmin,
+  });
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getOrganizationInvitationLink(token));
+      toast.success('Invitation link copied');
+    } catch (error) {
+      console.error('Error copying invitation link:', error);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  // Membership changes can change the user's role on every event in the organization
+  const invalidateMembership = () => {
+    queryClient.invalidateQueries({ queryKey: ['organization-members', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['organizations'] });
+    queryClient.invalidateQueries({ queryKey: ['event-roles'] });
+    queryClient.invalidateQueries({ queryKey: ['events'] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: SettingsFormData) => {
+      try {
+        const { error } = await supabase
+          .from('organizations')
+          .update({
+            name: data.name.trim(),
+            default_timezone: data.default_timezone,
+            phone_country_code: data.phone_country_code.replace(/\D/g, ''),
+          })
+          .eq('id', organizationId!);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error updating organization:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+      toast.success('Organization updated');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update organization');
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: InvitationFormData) => {
+      const email = data.email.trim().toLowerCase();
+      if (members?.some(m => m.email?.toLowerCase() === email)) {
+        throw new Error(`${email} is already a member of this organization`);
+      }
+      try {
+        const { data: invitation, error } = await supabase
+          .from('organization_invitations')
+          .insert([{ organization_id: organizationId!, email, role: data.role }])
+          .select('token')
+          .single();
+        if (error) throw error;
+        return invitation;
+      } catch (error) {
+        console.error('Error creating organization invitation:', error);
+        throw error;
+      }
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-invitations', organizationId] });
+      toast.success('Invitation created');
+      copyLink(invitation.token);
+      inviteForm.reset({ email: '', role: 'member' });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create invitation');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('organization_invitations')
+          .delete()
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error revoking organization invitation:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organization-invitations', organizationId] });
+      toast.success('Invitation revoked');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke invitation');
+    },
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: OrganizationRole }) => {
+      try {
+        const { error } = await supabase
+          .from('organization_members')
+          .update({ role })
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error changing organization role:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateMembership();
+      toast.success('Role updated');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to change role');
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('organization_members')
+          .delete()
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error removing organization member:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateMembership();
+      toast.success('Member removed');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove member');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {currentOrganization && (
+        <>
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium mb-4 flex items-center">
+              <Building2 className="h-5 w-5 mr-2 text-indigo-600" />
+              {currentOrganization.name}
+            </h2>
+            <form
+              onSubmit={settingsForm.handleSubmit(data => updateMutation.mutate(data))}
+              className="space-y-4"
+            >
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Organization Name</label>
+                <input
+                  disabled={!isAdmin}
+                  {...settingsForm.register('name', { required: 'Organization name is required' })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-50"
+                />
+                {settingsForm.formState.errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{settingsForm.formState.errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Default Time Zone</label>
+                <select
+                  disabled={!isAdmin}
+                  {...settingsForm.register('default_timezone', {
+                    validate: value => isValidTimeZone(value) || 'Unknown time zone',
+                  })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-50"
+                >
+                  {timeZones.map(zone => (
+                    <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  New events in this organization start with this time zone.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Phone Country Code</label>
+                <div className="mt-1 flex items-center">
+                  <span className="mr-1 text-sm text-gray-500">+</span>
+                  <input
+                    disabled={!isAdmin}
+                    {...settingsForm.register('phone_country_code', {
+                      required: 'Country code is required',
+                      pattern: { value: /^\+?[1-9]\d{0,2}$/, message: 'Enter a calling code such as 1 or 44' },
+                    })}
+                    className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-50"
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Phone numbers entered without a country code are stored with this one.
+                </p>
+                {settingsForm.formState.errors.phone_country_code && (
+                  <p className="mt-1 text-sm text-red-600">{settingsForm.formState.errors.phone_country_code.message}</p>
+                )}
+              </div>
+
+              {isAdmin && (
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={updateMutation.isPending}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Save Settings
+                  </button>
+                </div>
+              )}
+            </form>
+          </div>
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium mb-4">Members</h3>
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-6">
+              {members?.map(member => (
+                <li key={member.id} className="px-3 py-2 flex items-center justify-between">
+                  <span className="text-sm text-gray-900">
+                    {member.email || 'Unknown user'}
+                    {member.user_id === user?.id && <span className="ml-1 text-gray-500">(you)</span>}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    {isAdmin ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => changeRoleMutation.mutate({ id: member.id, role: e.target.value as OrganizationRole })}
+                        className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      >
+                        {ORGANIZATION_ROLES.map(role => (
+                          <option key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-sm text-gray-500">{ORGANIZATION_ROLE_LABELS[member.role]}</span>
+                    )}
+                    {(isAdmin || member.user_id === user?.id) && (
+                      <button
+                        onClick={() => {
+                          const message = member.user_id === user?.id
+                            ? `Leave ${currentOrganization.name}?`
+                            : `Remove ${member.email || 'this member'} from the organization?`;
+                          if (window.confirm(message)) {
+                            removeMemberMutation.mutate(member.id);
+                          }
+                        }}
+                        className="text-gray-400 hover:text-red-500"
+                        title={member.user_id === user?.id ? 'Leave organization' : 'Remove member'}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {isAdmin && (
+              <>
+                {invitations && invitations.length > 0 && (
+                  <>
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">Pending Invitations</h3>
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-6">
+                      {invitations.map(invitation => (
+                        <li key={invitation.id} className="px-3 py-2 flex items-center justify-between">
+                          <span className="text-sm text-gray-900 flex items-center">
+                            <Mail className="h-4 w-4 mr-2 text-gray-400" />
+                            {invitation.email}
+                            <span className="ml-2 text-gray-500">{ORGANIZATION_ROLE_LABELS[invitation.role]}</span>
+                          </span>
+                          <div className="flex items-center space-x-2">
+                            <button
+                              onClick={() => copyLink(invitation.token)}
+                              className="text-gray-400 hover:text-gray-600"
+                              title="Copy invitation link"
+                            >
+                              <Copy className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => revokeMutation.mutate(invitation.id)}
+                              className="text-gray-400 hover:text-red-500"
+                              title="Revoke invitation"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+
+                <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                  <UserPlus className="h-4 w-4 mr-2 text-indigo-600" />
+                  Invite Someone
+                </h3>
+                <form
+                  onSubmit={inviteForm.handleSubmit(data => inviteMutation.mutate(data))}
+                  className="space-y-3"
+                >
+                  <div className="flex space-x-2">
+                    <input
+                      type="email"
+                      placeholder="colleague@example.com"
+                      {...inviteForm.register('email', { required: 'Email is required' })}
+                      className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                    <select
+                      {...inviteForm.register('role')}
+                      className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    >
+                      {ORGANIZATION_ROLES.map(role => (
+                        <option key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={inviteMutation.isPending}
+                      className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Invite
+                    </button>
+                  </div>
+                  {inviteForm.formState.errors.email && (
+                    <p className="text-sm text-red-600">{inviteForm.formState.errors.email.message}</p>
+                  )}
+                  <ul className="text-xs text-gray-500 space-y-1">
+                    {ORGANIZATION_ROLES.map(role => (
+                      <li key={role}>
+                        <span className="font-medium">{ORGANIZATION_ROLE_LABELS[role]}:</span> {ORGANIZATION_ROLE_DESCRIPTIONS[role]}
+                      </li>
+                    ))}
+                  </ul>
+                </form>
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-4">
+          {currentOrganization ? 'Create Another Organization' : 'Create Your Organization'}
+        </h2>
+        <CreateOrganizationForm />
+      </div>
+    </div>
+  );
+}
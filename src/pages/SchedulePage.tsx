@@ -0,0 +1,620 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { CalendarClock, Plus, Trash2, Wand2, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { VolunteerSuggestions } from '../components/VolunteerSuggestions';
+import { VolunteerProfile } from '../lib/volunteers';
+import {
+  EventSchedule,
+  buildShiftWindow,
+  formatShiftWindow,
+  getEventDates,
+  isMultiDayEvent,
+  sortShifts,
+  windowsOverlap,
+} from '../lib/shifts';
+import { formatCalendarDate } from '../lib/timezone';
+import { ShiftConflictError, importVolunteers } from '../lib/signupOperations';
+import {
+  BookedSignup,
+  PoolVolunteer,
+  SchedulerPosition,
+  SchedulerShift,
+  canWorkShift,
+  isSignupOf,
+  proposeSchedule,
+} from '../lib/scheduler';
+
+interface ScheduleEvent extends EventSchedule {
+  id: string;
+  name: string;
+}
+
+interface AvailabilityEntry {
+  id: string;
+  volunteer_id: string;
+  starts_at: string;
+  ends_at: string;
+  preferred_position_ids: string[];
+  volunteer: Omit<PoolVolunteer, 'availability'> | null;
+}
+
+interface AvailabilityFormData {
+  date: string;
+  start_time: string;
+  end_time: string;
+  preferred_position_ids: string[];
+}
+
+interface ProposalRow {
+  key: number;
+  shift_id: string;
+  volunteer_id: string;
+  included: boolean;
+}
+
+export function SchedulePage() {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useOrganization();
+  const { can } = useEventRoles();
+  const organizationId = currentOrganization?.id;
+  const [eventId, setEventId] = useState('');
+  const [search, setSearch] = useState('');
+  const [profile, setProfile] = useState<VolunteerProfile | null>(null);
+  const [proposal, setProposal] = useState<ProposalRow[] | null>(null);
+
+  const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<AvailabilityFormData>();
+  const [formStart, formEnd] = watch(['start_time', 'end_time']);
+  const endsNextDay = !!formStart && !!formEnd && formEnd < formStart;
+
+  const { data: events } = useQuery({
+    queryKey: ['events', organizationId, 'schedule'],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('events')
+          .select('id, name, date, end_date, timezone')
+          .eq('organization_id', organizationId!)
+          .order('date');
+        if (error) throw error;
+        return data as ScheduleEvent[];
+      } catch (error) {
+        console.error('Error fetching events:', error);
+        throw error;
+      }
+    },
+    enabled: !!organizationId,
+  });
+
+  const schedulableEvents = useMemo(
+    () => (events ?? []).filter(e => can(e.id, 'manageAssignments')),
+    [events, can]
+  );
+  const event = schedulableEvents.find(e => e.id === eventId) ?? null;
+  const eventDates = useMemo(() => (event ? getEventDates(event) : []), [event]);
+
+  useEffect(() => {
+    setProposal(null);
+  }, [eventId]);
+
+  useEffect(() => {
+    if (eventDates.length > 0) setValue('date', eventDates[0]);
+  }, [eventDates, setValue]);
+
+  const { data: positions } = useQuery({
+    queryKey: ['positions', 'schedule', eventId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_positions')
+          .select('id, name, skill_level')
+          .eq('event_id', eventId)
+          .order('name');
+        if (error) throw error;
+        return data as SchedulerPosition[];
+      } catch (error) {
+        console.error('Error fetching positions:', error);
+        throw error;
+      }
+    },
+    enabled: !!event,
+  });
+
+  const positionIds = useMemo(() => (positions ?? []).map(p => p.id), [positions]);
+
+  const { data: shifts } = useQuery({
+    queryKey: ['shifts', 'schedule', eventId, positionIds],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('shifts')
+          .select('id, position_id, starts_at, ends_at, needed')
+          .in('position_id', positionIds);
+        if (error) throw error;
+        return sortShifts(data as SchedulerShift[]);
+      } catch (error) {
+        console.error('Error fetching shifts:', error);
+        throw error;
+      }
+    },
+    enabled: !!positions,
+  });
+
+  const { data: signups } = useQuery({
+    queryKey: ['volunteers', 'schedule', eventId, positionIds],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_signups')
+          .select('id, shift_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, organization')
+          .in('position_id', positionIds);
+        if (error) throw error;
+        return data as Array<BookedSignup & { id: string; volunteer_name: string }>;
+      } catch (error) {
+        console.error('Error fetching signups:', error);
+        throw error;
+      }
+    },
+    enabled: !!positions,
+  });
+
+  const { data: availability } = useQuery({
+    queryKey: ['volunteer-availability', eventId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_availability')
+          .select(`
+            id,
+            volunteer_id,
+            starts_at,
+            ends_at,
+            preferred_position_ids,
+            volunteer:volunteers(id, name, phone_number, organization, skills)
+          `)
+          .eq('event_id', eventId)
+          .order('starts_at');
+        if (error) throw error;
+        return (data as any[]).map(item => ({
+          ...item,
+          volunteer: Array.isArray(item.volunteer) ? item.volunteer[0] : item.volunteer,
+        })) as AvailabilityEntry[];
+      } catch (error) {
+        console.error('Error fetching availability:', error);
+        throw error;
+      }
+    },
+    enabled: !!event,
+  });
+
+  // One pool entry per volunteer, with all their windows
+  const pool = useMemo(() => {
+    const byVolunteer = new Map<string, PoolVolunteer>();
+    (availability ?? []).forEach(entry => {
+      if (!entry.volunteer) return;
+      const volunteer = byVolunteer.get(entry.volunteer_id) ?? { ...entry.volunteer, availability: [] };
+      volunteer.availability.push(entry);
+      byVolunteer.set(entry.volunteer_id, volunteer);
+    });
+    return Array.from(byVolunteer.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [availability]);
+
+  const positionNames = useMemo(() => new Map((positions ?? []).map(p => [p.id, p.name])), [positions]);
+  const openSeatCount = (shifts ?? []).reduce(
+    (total, shift) =>
+      total + Math.max(0, shift.needed - (signups ?? []).filter(s => s.shift_id === shift.id).length),
+    0
+  );
+
+  const addAvailabilityMutation = useMutation({
+    mutationFn: async (data: AvailabilityFormData) => {
+      try {
+        const { error } = await supabase
+          .from('volunteer_availability')
+          .insert([{
+            event_id: eventId,
+            volunteer_id: profile!.id,
+            ...buildShiftWindow(data, event!.timezone),
+            // A lone checkbox registers a single value rather than an array
+            preferred_position_ids: [data.preferred_position_ids || []].flat(),
+          }]);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error adding availability:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-availability', eventId] });
+      toast.success('Availability added');
+      setProfile(null);
+      setSearch('');
+      reset({ date: eventDates[0], start_time: '', end_time: '', preferred_position_ids: [] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to add availability');
+    },
+  });
+
+  const deleteAvailabilityMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('volunteer_availability')
+          .delete()
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error deleting availability:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-availability', eventId] });
+      toast.success('Availability removed');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove availability');
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (rows: ProposalRow[]) => {
+      try {
+        return await importVolunteers(rows.map((row, index) => {
+          const shift = shifts!.find(s => s.id === row.shift_id)!;
+          const volunteer = pool.find(v => v.id === row.volunteer_id)!;
+          return {
+            line: index + 1,
+            position_id: shift.position_id,
+            shift_id: shift.id,
+            volunteer_id: volunteer.id,
+            volunteer_name: volunteer.name,
+            phone_number: volunteer.phone_number,
+            starts_at: shift.starts_at,
+            ends_at: shift.ends_at,
+            other_notes: null,
+            organization: volunteer.organization,
+          };
+        }));
+      } catch (error) {
+        console.error('Error saving schedule:', error);
+        throw error;
+      }
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteer-directory'] });
+      toast.success(`Assigned ${count} volunteers`);
+      setProposal(null);
+    },
+    onError: (error) => {
+      // Someone was booked since the proposal was made; reload so a new one accounts for it
+      if (error instanceof ShiftConflictError) {
+        queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      }
+      toast.error(error instanceof Error ? error.message : 'Failed to save schedule');
+    },
+  });
+
+  const propose = () => {
+    if (!positions || !shifts || !signups) return;
+    const { assignments } = proposeSchedule({ positions, shifts, signups, pool });
+    setProposal(assignments.map((assignment, index) => ({ ...assignment, key: index, included: true })));
+    if (assignments.length === 0) {
+      toast.error('Nobody in the pool can fill the open seats');
+    }
+  };
+
+  const updateRow = (key: number, changes: Partial<ProposalRow>) =>
+    setProposal(rows => rows && rows.map(row => (row.key === key ? { ...row, ...changes } : row)));
+
+  // Volunteers who could take the row's seat instead, given everything else in the proposal
+  const alternativesFor = (row: ProposalRow) => {
+    const shift = shifts!.find(s => s.id === row.shift_id)!;
+    const position = positions!.find(p => p.id === shift.position_id);
+    const otherRows = (proposal ?? []).filter(r => r.included && r.key !== row.key);
+    return pool.filter(volunteer =>
+      volunteer.id === row.volunteer_id || (
+        canWorkShift(volunteer, shift, position) &&
+        !signups!.some(s => isSignupOf(s, volunteer) && windowsOverlap(s, shift)) &&
+        !otherRows.some(r =>
+          r.volunteer_id === volunteer.id && windowsOverlap(shifts!.find(s => s.id === r.shift_id)!, shift)
+        )
+      )
+    );
+  };
+
+  const includedRows = (proposal ?? []).filter(row => row.included);
+
+  if (!currentOrganization) {
+    return (
+      <div className="text-center py-4 text-gray-500">
+        Create or join an organization to schedule volunteers from its directory.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-4 flex items-center">
+          <Wand2 className="h-5 w-5 mr-2 text-indigo-600" />
+          Auto-Schedule
+        </h2>
+        <label className="block text-sm font-medium text-gray-700">Event</label>
+        <select
+          value={eventId}
+          onChange={(e) => setEventId(e.target.value)}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          <option value="">Select an event</option>
+          {schedulableEvents.map(e => (
+            <option key={e.id} value={e.id}>{e.name}</option>
+          ))}
+        </select>
+        <p className="mt-2 text-sm text-gray-500">
+          Add when each volunteer can work, then let the scheduler propose who takes each open
+          shift seat. Positions without shifts are not scheduled, and positions with a skill
+          level only get volunteers whose directory skills include it. Nothing is saved until
+          you accept the proposal.
+        </p>
+      </div>
+
+      {event && (
+        <>
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium mb-4 flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2 text-indigo-600" />
+              Availability Pool
+            </h3>
+            <form onSubmit={handleSubmit(data => addAvailabilityMutation.mutate(data))} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Volunteer</label>
+                {profile ? (
+                  <div className="mt-1 flex items-center justify-between rounded-md border border-gray-200 px-3 py-2 text-sm">
+                    <span>
+                      {profile.name} <span className="text-gray-500">{profile.phone_number}</span>
+                    </span>
+                    <button type="button" onClick={() => setProfile(null)} className="text-gray-400 hover:text-gray-500">
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <input
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search the volunteer directory..."
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                    <VolunteerSuggestions
+                      organizationId={currentOrganization.id}
+                      search={search}
+                      onSelect={setProfile}
+                    />
+                  </>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {isMultiDayEvent(event) && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Date</label>
+                    <select
+                      {...register('date', { required: 'Date is required' })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    >
+                      {eventDates.map(date => (
+                        <option key={date} value={date}>{formatCalendarDate(date)}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Available From</label>
+                  <input
+                    type="time"
+                    {...register('start_time', { required: 'Start time is required' })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  {errors.start_time && (
+                    <p className="mt-1 text-sm text-red-600">{errors.start_time.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Available Until{endsNextDay && <span className="ml-1 font-normal text-indigo-600">(next day)</span>}
+                  </label>
+                  <input
+                    type="time"
+                    {...register('end_time', {
+                      required: 'End time is required',
+                      validate: (value, values) =>
+                        value !== values.start_time || 'Must differ from the start time',
+                    })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  {errors.end_time && (
+                    <p className="mt-1 text-sm text-red-600">{errors.end_time.message}</p>
+                  )}
+                </div>
+              </div>
+
+              {positions && positions.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Preferred Positions (Optional)</label>
+                  <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                    {positions.map(position => (
+                      <label key={position.id} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          value={position.id}
+                          {...register('preferred_position_ids')}
+                          className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        {position.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={!profile || addAvailabilityMutation.isPending}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Availability
+                </button>
+              </div>
+            </form>
+
+            <ul className="mt-6 divide-y divide-gray-200 border-t border-gray-200">
+              {pool.map(volunteer => (
+                <li key={volunteer.id} className="py-3">
+                  <p className="text-sm font-medium text-gray-900">
+                    {volunteer.name}
+                    {volunteer.organization && (
+                      <span className="ml-2 text-gray-500 font-normal">{volunteer.organization}</span>
+                    )}
+                  </p>
+                  {volunteer.skills.length > 0 && (
+                    <p className="text-xs text-gray-500">Skills: {volunteer.skills.join(', ')}</p>
+                  )}
+                  <ul className="mt-1 space-y-1">
+                    {(availability ?? []).filter(entry => entry.volunteer_id === volunteer.id).map(entry => (
+                      <li key={entry.id} className="flex items-center text-sm text-gray-600">
+                        {formatShiftWindow(entry, event.timezone, { showDate: true })}
+                        {entry.preferred_position_ids.length > 0 && (
+                          <span className="ml-2 text-xs text-indigo-600">
+                            Prefers {entry.preferred_position_ids.map(id => positionNames.get(id)).filter(Boolean).join(', ')}
+                          </span>
+                        )}
+                        <button
+                          onClick={() => deleteAvailabilityMutation.mutate(entry.id)}
+                          className="ml-2 text-gray-400 hover:text-gray-500"
+                          title="Remove availability"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+              {pool.length === 0 && (
+                <li className="py-4 text-center text-sm text-gray-500">No availability added yet.</li>
+              )}
+            </ul>
+          </div>
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="text-lg font-medium">Proposed Schedule</h3>
+                <p className="text-sm text-gray-500">
+                  {openSeatCount} open shift seats
+                  {proposal && `; the proposal fills ${includedRows.length}`}
+                </p>
+              </div>
+              <button
+                onClick={propose}
+                disabled={!shifts || !signups || pool.length === 0 || openSeatCount === 0}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Wand2 className="h-4 w-4 mr-2" />
+                {proposal ? 'Propose Again' : 'Propose Schedule'}
+              </button>
+            </div>
+
+            {proposal && shifts && positions && signups && (
+              <div className="space-y-4">
+                {positions.map(position => {
+                  const positionShifts = shifts.filter(s => s.position_id === position.id);
+                  if (positionShifts.length === 0) return null;
+                  return (
+                    <div key={position.id}>
+                      <h4 className="text-sm font-medium text-gray-900">
+                        {position.name}
+                        {position.skill_level && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">Needs {position.skill_level}</span>
+                        )}
+                      </h4>
+                      <ul className="mt-1 space-y-2">
+                        {positionShifts.map(shift => {
+                          const booked = signups.filter(s => s.shift_id === shift.id);
+                          const rows = proposal.filter(row => row.shift_id === shift.id);
+                          const filled = booked.length + rows.filter(row => row.included).length;
+                          return (
+                            <li key={shift.id} className="rounded-md border border-gray-200 p-3 text-sm">
+                              <p className="text-gray-700">
+                                {formatShiftWindow(shift, event.timezone, { showDate: isMultiDayEvent(event) })}
+                                <span className={`ml-2 ${filled >= shift.needed ? 'text-green-600' : 'text-orange-500'}`}>
+                                  {filled}/{shift.needed}
+                                </span>
+                              </p>
+                              {booked.map(signup => (
+                                <p key={signup.id} className="text-gray-500">{signup.volunteer_name}</p>
+                              ))}
+                              {rows.map(row => (
+                                <div key={row.key} className="mt-1 flex items-center">
+                                  <input
+                                    type="checkbox"
+                                    checked={row.included}
+                                    onChange={(e) => updateRow(row.key, { included: e.target.checked })}
+                                    className="mr-2 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                                  />
+                                  <span className="mr-2 font-medium text-green-600">+</span>
+                                  <select
+                                    value={row.volunteer_id}
+                                    onChange={(e) => updateRow(row.key, { volunteer_id: e.target.value })}
+                                    disabled={!row.included}
+                                    className="rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:opacity-50"
+                                  >
+                                    {alternativesFor(row).map(volunteer => (
+                                      <option key={volunteer.id} value={volunteer.id}>
+                                        {volunteer.name}{volunteer.organization ? ` (${volunteer.organization})` : ''}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </div>
+                              ))}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  );
+                })}
+
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={() => setProposal(null)}
+                    className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={() => acceptMutation.mutate(includedRows)}
+                    disabled={includedRows.length === 0 || acceptMutation.isPending}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {acceptMutation.isPending ? 'Saving...' : `Accept ${includedRows.length} Assignments`}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { AlertCircle, Award, CheckCircle, Search } from 'lucide-react';
+import { formatHours } from '../lib/attendance';
+import { formatServiceDays, verifyCertificate } from '../lib/certificates';
+
+interface LookupFormData {
+  code: string;
+}
+
+export function VerifyCertificatePage() {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const { register, handleSubmit } = useForm<LookupFormData>({ values: { code: code ?? '' } });
+
+  const { data: certificate, isLoading, error } = useQuery({
+    queryKey: ['certificate-verification', code],
+    queryFn: async () => {
+      try {
+        return await verifyCertificate(code!);
+      } catch (error) {
+        console.error('Error verifying certificate:', error);
+        throw error;
+      }
+    },
+    enabled: !!code,
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-2xl font-extrabold text-gray-900 flex items-center">
+            <Award className="h-6 w-6 mr-2 text-indigo-600" />
+            Verify a Service Certificate
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Enter the verification code printed on the certificate.
+          </p>
+          <form
+            onSubmit={handleSubmit(data => navigate(`/verify/${encodeURIComponent(data.code.trim())}`))}
+            className="mt-4 flex space-x-2"
+          >
+            <input
+              type="text"
+              placeholder="XXXX-XXXX-XXXX"
+              {...register('code', { required: true })}
+              className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm uppercase"
+            />
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Verify
+            </button>
+          </form>
+        </div>
+
+        {code && isLoading && (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        )}
+
+        {code && !isLoading && (error || !certificate) && (
+          <div className="bg-white p-6 rounded-lg shadow text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <p className="text-gray-700">
+              {error instanceof Error ? error.message : `No certificate has the code ${code}.`}
+            </p>
+          </div>
+        )}
+
+        {certificate && (
+          <div className="bg-white p-6 rounded-lg shadow">
+            {certificate.superseded_at ? (
+              <p className="flex items-center text-sm font-medium text-yellow-700 mb-4">
+                <AlertCircle className="h-5 w-5 mr-2" />
+                This certificate was replaced by a newer one on{' '}
+                {new Intl.DateTimeFormat(undefined, { dateStyle: 'long' }).format(new Date(certificate.superseded_at))}.
+                Ask the volunteer for the current certificate.
+              </p>
+            ) : (
+              <p className="flex items-center text-sm font-medium text-green-700 mb-4">
+                <CheckCircle className="h-5 w-5 mr-2" />
+                This certificate is valid.
+              </p>
+            )}
+            <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
+              <dt className="text-gray-500">Volunteer</dt>
+              <dd className="col-span-2 font-medium text-gray-900">{certificate.volunteer_name}</dd>
+              <dt className="text-gray-500">Hours</dt>
+              <dd className="col-span-2 text-gray-900">{formatHours(Number(certificate.hours))}</dd>
+              <dt className="text-gray-500">Event</dt>
+              <dd className="col-span-2 text-gray-900">{certificate.event_name}</dd>
+              <dt className="text-gray-500">Organization</dt>
+              <dd className="col-span-2 text-gray-900">{certificate.organization_name}</dd>
+              <dt className="text-gray-500">Positions</dt>
+              <dd className="col-span-2 text-gray-900">{certificate.positions.join(', ')}</dd>
+              <dt className="text-gray-500">Dates</dt>
+              <dd className="col-span-2 text-gray-900">
+                {formatServiceDays(certificate.first_day, certificate.last_day)}
+              </dd>
+              <dt className="text-gray-500">Signed by</dt>
+              <dd className="col-span-2 text-gray-900">
+                {certificate.signer_name}
+                {certificate.signer_title && `, ${certificate.signer_title}`}
+              </dd>
+              <dt className="text-gray-500">Code</dt>
+              <dd className="col-span-2 font-mono text-gray-900">{certificate.code}</dd>
+            </dl>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
+import { AlertCircle, CalendarPlus, Clock, MapPin, Repeat, User, UserMinus } from 'lucide-react';
+import { formatShiftWindow } from '../lib/shifts';
+import { getTimeZoneLabel } from '../lib/timezone';
+import { validatePhoneNumber } from '../lib/phone';
+import { CalendarEntry, downloadCalendar } from '../lib/ics';
+import { SwapKind } from '../lib/shiftSwaps';
+import {
+  ClaimableShift,
+  PortalShift,
+  claimPortalShift,
+  getVolunteerPortal,
+  offerPortalShift,
+  updatePortalContact,
+  withdrawPortalOffer,
+} from '../lib/volunteerPortal';
+import 'leaflet/dist/leaflet.css';
+import L from 'leaflet';
+
+// Fix for Leaflet marker icons in production
+delete (L.Icon.Default.prototype as any)._getIconUrl;
+L.Icon.Default.mergeOptions({
+  iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
+  iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
+  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
+});
+
+interface ContactFormData {
+  phone_number: string;
+  email: string;
+}
+
+const toCalendarEntry = (shift: PortalShift): CalendarEntry => ({
+  uid: `${shift.id}@volunteer-management`,
+  title: `${shift.position.name} - ${shift.event.name}`,
+  starts_at: shift.starts_at,
+  ends_at: shift.ends_at,
+  location: shift.event.location,
+  description: shift.position.description,
+  latitude: shift.position.latitude,
+  longitude: shift.position.longitude,
+});
+
+export function VolunteerPortalPage() {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  // The shift being offered, and how
+  const [offer, setOffer] = useState<{ shiftId: string; kind: SwapKind } | null>(null);
+  const [offerNote, setOfferNote] = useState('');
+
+  const { register, handleSubmit, reset, formState: { errors, isDirty } } = useForm<ContactFormData>();
+
+  const { data: portal, isLoading, error } = useQuery({
+    queryKey: ['volunteer-portal', token],
+    queryFn: async () => {
+      try {
+        return await getVolunteerPortal(token!);
+      } catch (error) {
+        console.error('Error fetching volunteer portal:', error);
+        throw error;
+      }
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (portal) {
+      reset({
+        phone_number: portal.volunteer.phone_number,
+        email: portal.volunteer.email || '',
+      });
+    }
+  }, [portal, reset]);
+
+  const refreshPortal = () => queryClient.invalidateQueries({ queryKey: ['volunteer-portal', token] });
+
+  const offerMutation = useMutation({
+    mutationFn: async ({ shift, kind }: { shift: PortalShift; kind: SwapKind }) => {
+      try {
+        await offerPortalShift(token!, shift, kind, offerNote);
+      } catch (error) {
+        console.error('Error offering shift:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { kind }) => {
+      refreshPortal();
+      setOffer(null);
+      setOfferNote('');
+      toast.success(
+        kind === 'swap'
+          ? 'Your shift is offered. Once someone claims it, your coordinator will approve the swap.'
+          : 'Your coordinator will review your request'
+      );
+    },
+    onError: (error) => {
+      refreshPortal();
+      toast.error(error instanceof Error ? error.message : 'Failed to send request');
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      try {
+        await withdrawPortalOffer(token!, requestId);
+      } catch (error) {
+        console.error('Error withdrawing request:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      refreshPortal();
+      toast.success('Request withdrawn. You are still signed up for this shift.');
+    },
+    onError: (error) => {
+      refreshPortal();
+      toast.error(error instanceof Error ? error.message : 'Failed to withdraw request');
+    },
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (shift: ClaimableShift) => {
+      try {
+        await claimPortalShift(token!, shift);
+      } catch (error) {
+        console.error('Error claiming shift:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      refreshPortal();
+      toast.success('Shift claimed. Your coordinator will confirm the swap.');
+    },
+    onError: (error) => {
+      refreshPortal();
+      toast.error(error instanceof Error ? error.message : 'Failed to claim shift');
+    },
+  });
+
+  const contactMutation = useMutation({
+    mutationFn: async (data: ContactFormData) => {
+      try {
+        await updatePortalContact(token!, data.phone_number.trim(), data.email.trim());
+      } catch (error) {
+        console.error('Error updating contact details:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      refreshPortal();
+      toast.success('Contact details updated');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update contact details');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex flex-col items-center justify-center p-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mb-4"></div>
+        <p className="text-gray-600">Loading your shifts...</p>
+      </div>
+    );
+  }
+
+  if (error || !portal) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex flex-col items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-lg shadow-md text-center max-w-md w-full">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <p className="text-gray-700 mb-2">We could not open your volunteer page</p>
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : 'This link is no longer valid.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const mapped = portal.shifts.filter(shift => shift.position.latitude && shift.position.longitude);
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow">
+          <div className="flex items-start justify-between">
+            <div>
+              <h2 className="text-2xl font-extrabold text-gray-900">{portal.volunteer.name}</h2>
+              <p className="text-sm text-gray-500">Volunteering with {portal.organization_name}</p>
+            </div>
+            {portal.shifts.length > 0 && (
+              <button
+                onClick={() => downloadCalendar('my-shifts.ics', portal.shifts.map(toCalendarEntry))}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Add All to Calendar
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Upcoming Shifts</h3>
+          {portal.shifts.length === 0 ? (
+            <p className="text-sm text-gray-500">You have no upcoming shifts.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {portal.shifts.map(shift => {
+                const started = new Date(shift.starts_at) <= new Date();
+                return (
+                  <li key={shift.id} className="py-4">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-indigo-600">{shift.event.name}</p>
+                        <p className="text-base font-medium text-gray-900">{shift.position.name}</p>
+                        <p className="mt-1 flex items-center text-sm text-gray-500">
+                          <Clock className="h-4 w-4 mr-1" />
+                          {formatShiftWindow(shift, shift.event.timezone, { showDate: true })}{' '}
+                          {getTimeZoneLabel(shift.event.timezone, new Date(shift.starts_at))}
+                        </p>
+                        {shift.event.location && (
+                          <p className="mt-1 flex items-center text-sm text-gray-500">
+                            <MapPin className="h-4 w-4 mr-1" />
+                            {shift.event.location}
+                          </p>
+                        )}
+                        {shift.position.description && (
+                          <p className="mt-1 text-sm text-gray-600">{shift.position.description}</p>
+                        )}
+                        {shift.arrived && (
+                          <p className="mt-1 text-sm text-green-600">You are checked in</p>
+                        )}
+                        {shift.request && (
+                          <p className="mt-1 text-sm text-orange-600">
+                            {shift.request.kind === 'drop'
+                              ? 'You asked to drop this shift; waiting for your coordinator'
+                              : shift.request.status === 'open'
+                                ? 'Offered for a swap; waiting for someone to claim it'
+                                : 'Claimed by another volunteer; waiting for your coordinator'}
+                            <button
+                              onClick={() => withdrawMutation.mutate(shift.request!.id)}
+                              disabled={withdrawMutation.isPending}
+                              className="ml-2 text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                            >
+                              Withdraw
+                            </button>
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={() => downloadCalendar(`${shift.position.name}.ics`, [toCalendarEntry(shift)])}
+                          className="text-gray-400 hover:text-indigo-600"
+                          title="Add to calendar"
+                        >
+                          <CalendarPlus className="h-5 w-5" />
+                        </button>
+                        {!shift.request && !started && (
+                          <>
+                            <button
+                              onClick={() => setOffer({ shiftId: shift.id, kind: 'swap' })}
+                              className="text-gray-400 hover:text-indigo-600"
+                              title="Offer for a swap"
+                            >
+                              <Repeat className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => setOffer({ shiftId: shift.id, kind: 'drop' })}
+                              className="text-gray-400 hover:text-red-600"
+                              title="Ask to drop this shift"
+                            >
+                              <UserMinus className="h-5 w-5" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {offer?.shiftId === shift.id && (
+                      <div className="mt-3 rounded-md bg-gray-50 p-3">
+                        <p className="text-sm text-gray-700">
+                          {offer.kind === 'swap'
+                            ? 'Other volunteers can claim this shift. You stay signed up until your coordinator approves the swap.'
+                            : 'You stay signed up until your coordinator approves your request.'}
+                        </p>
+                        <label className="mt-2 block text-sm font-medium text-gray-700">
+                          Anything others should know? (Optional)
+                        </label>
+                        <textarea
+                          value={offerNote}
+                          onChange={(e) => setOfferNote(e.target.value)}
+                          rows={2}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                        <div className="mt-2 flex justify-end space-x-2">
+                          <button
+                            onClick={() => setOffer(null)}
+                            className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                          >
+                            Close
+                          </button>
+                          <button
+                            onClick={() => offerMutation.mutate({ shift, kind: offer.kind })}
+                            disabled={offerMutation.isPending}
+                            className="px-3 py-1 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                          >
+                            {offer.kind === 'swap' ? 'Offer Shift' : 'Ask to Drop'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {portal.claimable.length > 0 && (
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Shifts You Can Take</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Other volunteers are looking for someone to take these shifts.
+            </p>
+            <ul className="divide-y divide-gray-200">
+              {portal.claimable.map(shift => (
+                <li key={shift.id} className="py-3 flex items-start justify-between">
+                  <div className="text-sm">
+                    <p className="font-medium text-indigo-600">{shift.event.name}</p>
+                    <p className="font-medium text-gray-900">{shift.position.name}</p>
+                    <p className="text-gray-500">
+                      {formatShiftWindow(shift, shift.event.timezone, { showDate: true })}{' '}
+                      {getTimeZoneLabel(shift.event.timezone, new Date(shift.starts_at))}
+                    </p>
+                    {shift.position.description && <p className="text-gray-600">{shift.position.description}</p>}
+                    {shift.note && <p className="mt-1 text-gray-600 italic">{shift.note}</p>}
+                  </div>
+                  <button
+                    onClick={() => claimMutation.mutate(shift)}
+                    disabled={claimMutation.isPending}
+                    className="ml-4 px-3 py-1 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Claim
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {mapped.length > 0 && (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="h-72">
+              <MapContainer
+                center={[mapped[0].position.latitude!, mapped[0].position.longitude!]}
+                zoom={15}
+                style={{ height: '100%', width: '100%' }}
+              >
+                <TileLayer
+                  url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                  attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                />
+                {mapped.map(shift => (
+                  <Marker key={shift.id} position={[shift.position.latitude!, shift.position.longitude!]}>
+                    <Popup>
+                      <div className="p-2">
+                        <h3 className="font-medium">{shift.position.name}</h3>
+                        <p className="text-sm text-gray-500">
+                          {formatShiftWindow(shift, shift.event.timezone, { showDate: true })}
+                        </p>
+                      </div>
+                    </Popup>
+                  </Marker>
+                ))}
+              </MapContainer>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+            <User className="h-5 w-5 mr-2 text-indigo-600" />
+            Contact Details
+          </h3>
+          <form onSubmit={handleSubmit(data => contactMutation.mutate(data))} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Phone Number</label>
+              <input
+                type="tel"
+                {...register('phone_number', {
+                  required: 'Phone number is required',
+                  validate: validatePhoneNumber(),
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.phone_number && (
+                <p className="mt-1 text-sm text-red-600">{errors.phone_number.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Email (Optional)</label>
+              <input
+                type="email"
+                {...register('email')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={!isDirty || contactMutation.isPending}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,18 @@ import { useState, useEffect, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { toast } from 'react-hot-toast';
-import { MapPin, Edit2, Trash2, QrCode } from 'lucide-react';
+import { MapPin, Edit2, Trash2, QrCode, Clock } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { QRCodeSVG } from 'qrcode.react';
 import { MapContainer, TileLayer, Marker, Popup, useMapEvents, useMap } from 'react-leaflet';
 import { CustomMapView } from '../components/CustomMapView';
+import { ShiftManager } from '../components/ShiftManager';
+import { usePositionStaffing } from '../hooks/usePositionStaffing';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { Shift } from '../lib/shifts';
+import { MapCalibration, imageToWorld, parseCalibration, projectToImage } from '../lib/mapCalibration';
+import { GEOFENCE_MODES, GEOFENCE_MODE_LABELS, GeofenceMode } from '../lib/geofence';
 import L from 'leaflet';
 
 // Fix for Leaflet marker icons in production
@@ -23,17 +29,24 @@ interface Position {
   event_id: string;
   name: string;
   needed: number;
-  filled: number;
   description: string | null;
   skill_level: string | null;
   latitude: number;
   longitude: number;
+  geofence_mode: GeofenceMode | null;
+  geofence_radius_m: number | null;
 }
 
 interface Event {
   id: string;
   name: string;
+  date: string;
+  end_date: string | null;
+  timezone: string;
   custom_map_url: string | null;
+  map_calibration: MapCalibration | null;
+  geofence_mode: GeofenceMode;
+  geofence_radius_m: number;
 }
 
 interface PositionFormData {
@@ -44,6 +57,9 @@ interface PositionFormData {
   skill_level: string;
   latitude: number;
   longitude: number;
+  // Empty uses the event's setting
+  geofence_mode: GeofenceMode | '';
+  geofence_radius_m: string;
 }
 
 // Component to handle map marker placement for OpenStreetMap
@@ -110,6 +126,7 @@ export function VolunteerPositionsPage() {
   const [selectedPosition, setSelectedPosition] = useState<[number, number] | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [customMapSelectedPosition, setCustomMapSelectedPosition] = useState<[number, number] | null>(null);
+  const [expandedShiftsPositionId, setExpandedShiftsPositionId] = useState<string | null>(null);
   const mapRef = useRef<L.Map | null>(null);
 
   const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<PositionFormData>();
@@ -121,11 +138,13 @@ export function VolunteerPositionsPage() {
       try {
         const { data, error } = await supabase
           .from('events')
-          .select('id, name, custom_map_url')
-          .eq('user_id', user?.id)
+          .select('id, name, date, end_date, timezone, custom_map_url, map_calibration, geofence_mode, geofence_radius_m')
           .order('date', { ascending: true });
         if (error) throw error;
-        return data as Event[];
+        return data.map(event => ({
+          ...event,
+          map_calibration: parseCalibration(event.map_calibration),
+        })) as Event[];
       } catch (error) {
         console.error('Error fetching events:', error);
         throw error;
@@ -133,7 +152,7 @@ export function VolunteerPositionsPage() {
     },
   });
 
-  const { data: positions, isLoading, error } = useQuery({
+  const { data: allPositions, isLoading, error } = useQuery({
     queryKey: ['positions'],
     queryFn: async () => {
       try {
@@ -143,7 +162,6 @@ export function VolunteerPositionsPage() {
             *,
             event:events(name)
           `)
-          .eq('user_id', user?.id)
           .order('created_at', { ascending: false });
         if (error) throw error;
         return data;
@@ -154,6 +172,28 @@ export function VolunteerPositionsPage() {
     },
   });
 
+  const { getStaffing } = usePositionStaffing();
+  const { can } = useEventRoles();
+
+  // Only events the user coordinates are managed here
+  const positions = allPositions?.filter(p => can(p.event_id, 'managePositions'));
+
+  const { data: shifts } = useQuery({
+    queryKey: ['shifts'],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('shifts')
+          .select('id, position_id, starts_at, ends_at, needed');
+        if (error) throw error;
+        return data as Shift[];
+      } catch (error) {
+        console.error('Error fetching shifts:', error);
+        throw error;
+      }
+    },
+  });
+
   // Get user's location
   useEffect(() => {
     if (navigator.geolocation) {
@@ -183,63 +223,10 @@ export function VolunteerPositionsPage() {
   }, [selectedPosition, setValue]);
 
   // Defensive: ensure events is always an array
-  const safeEvents = Array.isArray(events) ? events : [];
+  const safeEvents = Array.isArray(events) ? events.filter(e => can(e.id, 'managePositions')) : [];
   const selectedEvent = safeEvents.find(e => e.id === selectedEventId);
 
-  // Convert image coordinates to approximate real-world coordinates for custom maps
-  const convertImageToRealWorld = (imagePos: [number, number]): [number, number] => {
-    try {
-      // This is a simplified conversion - in a real app, you'd need proper coordinate mapping
-      // For now, we'll use a basic conversion that assumes the image represents a small area
-      const baseLat = 40.7128; // Example: New York City latitude
-      const baseLng = -74.0060; // Example: New York City longitude
-      const scale = 0.01; // Scale factor for conversion
-      
-      if (!Array.isArray(imagePos) || imagePos.length !== 2 || 
-          typeof imagePos[0] !== 'number' || typeof imagePos[1] !== 'number' ||
-          isNaN(imagePos[0]) || isNaN(imagePos[1])) {
-        throw new Error('Invalid image coordinates');
-      }
-      
-      const result: [number, number] = [
-        baseLat + (imagePos[0] * scale),
-        baseLng + (imagePos[1] * scale)
-      ];
-      
-      console.log('Converted image coordinates:', imagePos, 'to real world:', result);
-      return result;
-    } catch (error) {
-      console.error('Error converting image to real world coordinates:', error);
-      return [40.7128, -74.0060]; // Return default coordinates
-    }
-  };
-
-  // Convert real-world coordinates to approximate image coordinates for custom maps
-  const convertRealWorldToImage = (realWorldPos: [number, number]): [number, number] => {
-    try {
-      // Reverse of convertImageToRealWorld
-      const baseLat = 40.7128;
-      const baseLng = -74.0060;
-      const scale = 0.01;
-      
-      if (!Array.isArray(realWorldPos) || realWorldPos.length !== 2 || 
-          typeof realWorldPos[0] !== 'number' || typeof realWorldPos[1] !== 'number' ||
-          isNaN(realWorldPos[0]) || isNaN(realWorldPos[1])) {
-        throw new Error('Invalid real world coordinates');
-      }
-      
-      const result: [number, number] = [
-        (realWorldPos[0] - baseLat) / scale,
-        (realWorldPos[1] - baseLng) / scale
-      ];
-      
-      console.log('Converted real world coordinates:', realWorldPos, 'to image:', result);
-      return result;
-    } catch (error) {
-      console.error('Error converting real world to image coordinates:', error);
-      return [0, 0]; // Return default image coordinates
-    }
-  };
+  const calibration = selectedEvent?.map_calibration ?? null;
 
   // Set form values when editing position
   useEffect(() => {
@@ -251,16 +238,18 @@ export function VolunteerPositionsPage() {
       setValue('skill_level', editingPosition.skill_level || '');
       setValue('latitude', editingPosition.latitude);
       setValue('longitude', editingPosition.longitude);
+      setValue('geofence_mode', editingPosition.geofence_mode ?? '');
+      setValue('geofence_radius_m', editingPosition.geofence_radius_m?.toString() ?? '');
       
       // Set selected position for both custom and regular maps
       setSelectedPosition([editingPosition.latitude, editingPosition.longitude]);
       
-      // For custom maps, try to convert real-world coordinates to image coordinates
+      // For calibrated custom maps, project the stored coordinates onto the image
       const event = safeEvents.find(e => e.id === editingPosition.event_id);
       if (event?.custom_map_url) {
-        // Convert real-world coordinates to approximate image coordinates
-        const imagePos = convertRealWorldToImage([editingPosition.latitude, editingPosition.longitude]);
-        setCustomMapSelectedPosition(imagePos);
+        setCustomMapSelectedPosition(
+          projectToImage(event.map_calibration, [editingPosition.latitude, editingPosition.longitude])
+        );
       } else {
         setCustomMapSelectedPosition(null);
       }
@@ -271,15 +260,14 @@ export function VolunteerPositionsPage() {
   }, [editingPosition, setValue, safeEvents]);
 
   const createMutation = useMutation({
-    mutationFn: async (data: PositionFormData) => {
+    mutationFn: async (data: Omit<Position, 'id'>) => {
       setIsSubmitting(true);
       try {
         const { error } = await supabase
           .from('volunteer_positions')
           .insert([{ 
             ...data, 
-            user_id: user?.id,
-            filled: 0
+            user_id: user?.id
           }]);
         if (error) throw error;
       } catch (error) {
@@ -352,12 +340,17 @@ export function VolunteerPositionsPage() {
     },
   });
 
-  const onSubmit = (data: PositionFormData) => {
+  const onSubmit = (formData: PositionFormData) => {
     if (!selectedPosition) {
       toast.error('Please select a position on the map');
       return;
     }
-    
+
+    const data = {
+      ...formData,
+      geofence_mode: formData.geofence_mode || null,
+      geofence_radius_m: formData.geofence_radius_m ? Number(formData.geofence_radius_m) : null,
+    };
     if (editingPosition) {
       updateMutation.mutate({ ...data, id: editingPosition.id });
     } else {
@@ -407,39 +400,32 @@ export function VolunteerPositionsPage() {
         console.error('Invalid image position received:', imagePos);
         return;
       }
+
+      if (!calibration) {
+        toast.error('Calibrate this custom map on the Events page before placing positions');
+        return;
+      }
       
       setCustomMapSelectedPosition(imagePos);
-      const realWorldPos = convertImageToRealWorld(imagePos);
-      setSelectedPosition(realWorldPos);
+      setSelectedPosition(imageToWorld(calibration.transform, imagePos));
     } catch (error) {
       console.error('Error handling custom map click:', error);
       toast.error('Error selecting position on map');
     }
   };
 
-  // Create markers for custom map
-  const customMapMarkers = Array.isArray(filteredPositions)
-    ? filteredPositions
-        .filter(position => 
-          typeof position.latitude === 'number' && 
-          typeof position.longitude === 'number' &&
-          !isNaN(position.latitude) && 
-          !isNaN(position.longitude)
-        )
-        .map(position => {
-          try {
-            return {
-              position: convertRealWorldToImage([position.latitude, position.longitude]),
-              popup: `${position.name} (${position.filled}/${position.needed})`,
-              isSelected: false
-            };
-          } catch (error) {
-            console.error('Error converting position coordinates:', error);
-            return null;
-          }
-        })
-        .filter((marker): marker is { position: [number, number]; popup: string; isSelected: boolean } => marker !== null)
-    : [];
+  // Create markers for custom map, projected through the event's calibration
+  const customMapMarkers = filteredPositions
+    .filter(position => !editingPosition || position.id !== editingPosition.id)
+    .map(position => {
+      const imagePosition = projectToImage(calibration, [position.latitude, position.longitude]);
+      return imagePosition ? {
+        position: imagePosition,
+        popup: `${position.name} (${getStaffing(position.id).assigned}/${position.needed})`,
+        isSelected: false
+      } : null;
+    })
+    .filter((marker): marker is { position: [number, number]; popup: string; isSelected: boolean } => marker !== null);
 
   // Add selected position marker for custom map
   if (customMapSelectedPosition && Array.isArray(customMapSelectedPosition) && customMapSelectedPosition.length === 2) {
@@ -457,7 +443,7 @@ export function VolunteerPositionsPage() {
   const markers = Array.isArray(filteredPositions)
     ? filteredPositions.map(position => ({
         position: [position.latitude, position.longitude] as [number, number],
-        popup: `${position.name} (${position.filled}/${position.needed})`
+        popup: `${position.name} (${getStaffing(position.id).assigned}/${position.needed})`
       }))
     : [];
 
@@ -487,6 +473,12 @@ export function VolunteerPositionsPage() {
                   onClick={(pos) => handleCustomMapClick(pos)}
                   className="h-full w-full"
                 />
+                {!calibration && (
+                  <div className="absolute bottom-4 left-4 right-4 bg-orange-50 bg-opacity-95 p-3 rounded-lg shadow-md text-xs text-orange-800">
+                    This custom map has not been calibrated yet. Pin at least three landmarks to
+                    real-world coordinates from the Events page, then place positions here.
+                  </div>
+                )}
                 {Array.isArray(customMapSelectedPosition) && customMapSelectedPosition.length === 2 && (
                   <div className="absolute top-4 right-4 bg-white bg-opacity-90 p-3 rounded-lg shadow-md">
                     <h4 className="font-medium text-sm text-gray-900 mb-2">Selected Position:</h4>
@@ -506,9 +498,9 @@ export function VolunteerPositionsPage() {
                         <div key={position.id} className="text-xs text-gray-600">
                           <span className="font-medium">{position.name}</span>
                           <span className={`ml-2 ${
-                            position.filled >= position.needed ? 'text-green-600' : 'text-red-600'
+                            getStaffing(position.id).assigned >= position.needed ? 'text-green-600' : 'text-red-600'
                           }`}>
-                            ({position.filled}/{position.needed})
+                            ({getStaffing(position.id).assigned}/{position.needed})
                           </span>
                         </div>
                       ))}
@@ -545,7 +537,7 @@ export function VolunteerPositionsPage() {
                       <div className="p-2">
                         <h3 className="font-medium">{position.name}</h3>
                         <p className="text-sm text-gray-600">
-                          {position.filled}/{position.needed} Volunteers
+                          {getStaffing(position.id).assigned}/{position.needed} Volunteers
                         </p>
                       </div>
                     </Popup>
@@ -623,6 +615,39 @@ export function VolunteerPositionsPage() {
               placeholder="Enter skill level requirements"
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Auto-Schedule only places volunteers whose directory skills include this.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Check-In Location</label>
+              <select
+                {...register('geofence_mode')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">
+                  Event setting{selectedEvent && ` (${GEOFENCE_MODE_LABELS[selectedEvent.geofence_mode]})`}
+                </option>
+                {GEOFENCE_MODES.map(mode => (
+                  <option key={mode} value={mode}>{GEOFENCE_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Allowed Distance (m)</label>
+              <input
+                type="number"
+                min={1}
+                {...register('geofence_radius_m', { min: { value: 1, message: 'Enter at least 1 meter' } })}
+                placeholder={selectedEvent ? `Event setting (${selectedEvent.geofence_radius_m})` : 'Event setting'}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.geofence_radius_m && (
+                <p className="mt-1 text-sm text-red-600">{errors.geofence_radius_m.message}</p>
+              )}
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -746,7 +771,8 @@ export function VolunteerPositionsPage() {
                             <div className="ml-6">
                               <p className="text-sm font-medium text-indigo-600">{position.name}</p>
                               <p className="text-sm text-gray-500">
-                                Volunteers: {position.filled}/{position.needed}
+                                Volunteers: {getStaffing(position.id).assigned}/{position.needed} assigned
+                                {' '}&middot; {getStaffing(position.id).checked_in} on site
                               </p>
                               {position.description && (
                                 <p className="text-sm text-gray-500">{position.description}</p>
@@ -757,6 +783,18 @@ export function VolunteerPositionsPage() {
                             </div>
                           </div>
                           <div className="flex space-x-3">
+                            <button
+                              onClick={() => setExpandedShiftsPositionId(
+                                expandedShiftsPositionId === position.id ? null : position.id
+                              )}
+                              className={`inline-flex items-center text-sm ${
+                                expandedShiftsPositionId === position.id ? 'text-indigo-600' : 'text-gray-400 hover:text-gray-500'
+                              }`}
+                              title="Manage shifts"
+                            >
+                              <Clock className="h-5 w-5 mr-1" />
+                              {(shifts || []).filter(s => s.position_id === position.id).length}
+                            </button>
                             <button
                               onClick={() => setShowQRCode(position.id)}
                               className="text-gray-400 hover:text-gray-500"
@@ -784,6 +822,16 @@ export function VolunteerPositionsPage() {
                             </button>
                           </div>
                         </div>
+                        {expandedShiftsPositionId === position.id && (() => {
+                          const positionEvent = safeEvents.find(e => e.id === position.event_id);
+                          return positionEvent && (
+                            <ShiftManager
+                              positionId={position.id}
+                              shifts={(shifts || []).filter(s => s.position_id === position.id)}
+                              event={positionEvent}
+                            />
+                          );
+                        })()}
                       </li>
                     ))}
                   </ul>
@@ -0,0 +1,485 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { BookUser, Edit2, History, KeyRound, Link2, Merge, Search, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useOrganization } from '../contexts/OrganizationContext';
+import {
+  VOLUNTEER_PROFILE_COLUMNS,
+  VolunteerProfile,
+  formatSkills,
+  parseSkills,
+  toSearchPattern,
+} from '../lib/volunteers';
+import { formatShiftWindow } from '../lib/shifts';
+import { normalizePhoneNumber, validatePhoneNumber } from '../lib/phone';
+import { portalUrl } from '../lib/volunteerPortal';
+import { DuplicateVolunteers } from '../components/DuplicateVolunteers';
+
+interface DirectoryEntry extends VolunteerProfile {
+  // Secret in the volunteer's personal portal link
+  portal_token: string;
+  signups: Array<{ count: number }>;
+}
+
+interface HistoryEntry {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  arrived: boolean;
+  checked_in_at: string | null;
+  position: {
+    name: string;
+    event: { name: string; timezone: string };
+  };
+}
+
+interface ProfileFormData {
+  name: string;
+  phone_number: string;
+  email: string;
+  organization: string;
+  skills: string;
+  notes: string;
+}
+
+export function VolunteersPage() {
+  const queryClient = useQueryClient();
+  const { currentOrganization } = useOrganization();
+  const organizationId = currentOrganization?.id;
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editingProfile, setEditingProfile] = useState<VolunteerProfile | null>(null);
+  const [historyProfile, setHistoryProfile] = useState<VolunteerProfile | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<ProfileFormData>();
+
+  useEffect(() => {
+    if (editingProfile) {
+      reset({
+        name: editingProfile.name,
+        phone_number: editingProfile.phone_number,
+        email: editingProfile.email || '',
+        organization: editingProfile.organization || '',
+        skills: formatSkills(editingProfile.skills),
+        notes: editingProfile.notes || '',
+      });
+    }
+  }, [editingProfile, reset]);
+
+  const { data: profiles, isLoading } = useQuery({
+    queryKey: ['volunteer-directory', organizationId, 'list', searchTerm.trim()],
+    queryFn: async () => {
+      try {
+        let query = supabase
+          .from('volunteers')
+          .select(`${VOLUNTEER_PROFILE_COLUMNS}, portal_token, signups:volunteer_signups(count)`)
+          .eq('organization_id', organizationId!)
+          .order('name');
+        if (searchTerm.trim()) {
+          const pattern = toSearchPattern(searchTerm);
+          query = query.or(
+            `name.ilike.${pattern},phone_number.ilike.${pattern},email.ilike.${pattern},organization.ilike.${pattern}`
+          );
+        }
+        const { data, error } = await query;
+        if (error) throw error;
+        return data as unknown as DirectoryEntry[];
+      } catch (error) {
+        console.error('Error fetching volunteer directory:', error);
+        throw error;
+      }
+    },
+    enabled: !!organizationId,
+  });
+
+  const { data: history } = useQuery({
+    queryKey: ['volunteer-history', historyProfile?.id],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_signups')
+          .select(`
+            id,
+            starts_at,
+            ends_at,
+            arrived,
+            checked_in_at,
+            position:volunteer_positions(
+              name,
+              event:events(name, timezone)
+            )
+          `)
+          .eq('volunteer_id', historyProfile!.id)
+          .order('starts_at', { ascending: false });
+        if (error) throw error;
+        return (data as any[]).map(item => {
+          const position = Array.isArray(item.position) ? item.position[0] : item.position;
+          return {
+            ...item,
+            position: {
+              ...position,
+              event: Array.isArray(position.event) ? position.event[0] : position.event,
+            },
+          };
+        }) as HistoryEntry[];
+      } catch (error) {
+        console.error('Error fetching volunteer history:', error);
+        throw error;
+      }
+    },
+    enabled: !!historyProfile,
+  });
+
+  const toProfile = (data: ProfileFormData) => ({
+    name: data.name.trim(),
+    phone_number: normalizePhoneNumber(data.phone_number, currentOrganization?.phone_country_code) ?? data.phone_number.trim(),
+    email: data.email.trim() || null,
+    organization: data.organization.trim() || null,
+    skills: parseSkills(data.skills),
+    notes: data.notes.trim() || null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ProfileFormData) => {
+      try {
+        const { error } = editingProfile
+          ? await supabase
+              .from('volunteers')
+              .update(toProfile(data))
+              .eq('id', editingProfile.id)
+          : await supabase
+              .from('volunteers')
+              .insert([{ ...toProfile(data), organization_id: organizationId! }]);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving volunteer profile:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      // Renaming a profile also renames its signups
+      queryClient.invalidateQueries({ queryKey: ['volunteer-directory'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      toast.success(editingProfile ? 'Volunteer profile updated' : 'Volunteer added to the directory');
+      setEditingProfile(null);
+      reset({ name: '', phone_number: '', email: '', organization: '', skills: '', notes: '' });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to save volunteer profile');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('volunteers')
+          .delete()
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error deleting volunteer profile:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-directory'] });
+      if (historyProfile?.id === id) setHistoryProfile(null);
+      toast.success('Volunteer removed from the directory');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove volunteer');
+    },
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('volunteers')
+          .update({ portal_token: crypto.randomUUID() })
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error revoking portal link:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-directory'] });
+      toast.success('Old link revoked. Copy the new link to share it.');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke portal link');
+    },
+  });
+
+  const copyPortalLink = async (profile: DirectoryEntry) => {
+    try {
+      await navigator.clipboard.writeText(portalUrl(profile.portal_token));
+      toast.success(`Copied ${profile.name}'s personal link`);
+    } catch (error) {
+      console.error('Error copying portal link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  if (!currentOrganization) {
+    return (
+      <div className="text-center py-4 text-gray-500">
+        Create or join an organization to keep a volunteer directory.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-4">
+          {editingProfile ? 'Edit Volunteer' : 'Add Volunteer to Directory'}
+        </h2>
+        <form onSubmit={handleSubmit(data => saveMutation.mutate(data))} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                {...register('name', { required: 'Name is required' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Phone Number</label>
+              <input
+                {...register('phone_number', {
+                  required: 'Phone number is required',
+                  validate: validatePhoneNumber(currentOrganization?.phone_country_code),
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.phone_number && (
+                <p className="mt-1 text-sm text-red-600">{errors.phone_number.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Email (Optional)</label>
+              <input
+                type="email"
+                {...register('email')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Organization (Optional)</label>
+              <input
+                {...register('organization')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Skills (Optional)</label>
+            <input
+              {...register('skills')}
+              placeholder="First aid, forklift, Spanish"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Separate skills with commas.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Notes (Optional)</label>
+            <textarea
+              {...register('notes')}
+              rows={3}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            {editingProfile && (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingProfile(null);
+                  reset({ name: '', phone_number: '', email: '', organization: '', skills: '', notes: '' });
+                }}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {editingProfile ? 'Update Volunteer' : 'Add Volunteer'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {showDuplicates && (
+        <DuplicateVolunteers
+          organizationId={currentOrganization.id}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
+          <h3 className="text-lg font-medium leading-6 text-gray-900 flex items-center">
+            <BookUser className="h-5 w-5 mr-2 text-indigo-600" />
+            Volunteer Directory
+          </h3>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowDuplicates(true)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Merge className="h-4 w-4 mr-2" />
+              Find Duplicates
+            </button>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search name, phone, email..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+          </div>
+        </div>
+        <div className="border-t border-gray-200">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {profiles?.map(profile => (
+                <li key={profile.id} className="px-4 py-4 sm:px-6">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-indigo-600">
+                        {profile.name}
+                        {profile.organization && (
+                          <span className="ml-2 text-gray-500 font-normal">{profile.organization}</span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {profile.phone_number}
+                        {profile.email && ` · ${profile.email}`}
+                      </p>
+                      {profile.skills.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {profile.skills.map(skill => (
+                            <span
+                              key={skill}
+                              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-50 text-indigo-700"
+                            >
+                              {skill}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {profile.notes && (
+                        <p className="mt-1 text-sm text-gray-500 italic">{profile.notes}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => setHistoryProfile(historyProfile?.id === profile.id ? null : profile)}
+                        className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+                        title="Show history"
+                      >
+                        <History className="h-5 w-5 mr-1" />
+                        {profile.signups[0]?.count ?? 0}
+                      </button>
+                      <button
+                        onClick={() => copyPortalLink(profile)}
+                        className="text-gray-400 hover:text-gray-500"
+                        title="Copy personal link"
+                      >
+                        <Link2 className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Revoke ${profile.name}'s personal link? The old link will stop working.`)) {
+                            revokeLinkMutation.mutate(profile.id);
+                          }
+                        }}
+                        className="text-gray-400 hover:text-gray-500"
+                        title="Revoke personal link"
+                      >
+                        <KeyRound className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => setEditingProfile(profile)}
+                        className="text-gray-400 hover:text-gray-500"
+                        title="Edit volunteer"
+                      >
+                        <Edit2 className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Remove ${profile.name} from the directory? Their past signups are kept.`)) {
+                            deleteMutation.mutate(profile.id);
+                          }
+                        }}
+                        className="text-gray-400 hover:text-gray-500"
+                        title="Remove from directory"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {historyProfile?.id === profile.id && (
+                    <div className="mt-3 border border-gray-200 rounded-md">
+                      {history && history.length > 0 ? (
+                        <ul className="divide-y divide-gray-100">
+                          {history.map(entry => (
+                            <li key={entry.id} className="px-3 py-2 text-sm flex items-center justify-between">
+                              <span className="text-gray-900">
+                                {entry.position.event.name} - {entry.position.name}
+                              </span>
+                              <span className="text-gray-500">
+                                {formatShiftWindow(entry, entry.position.event.timezone, { showDate: true })}
+                                <span className={`ml-2 text-xs ${entry.checked_in_at ? 'text-green-600' : 'text-gray-400'}`}>
+                                  {entry.arrived ? 'On site' : entry.checked_in_at ? 'Attended' : 'Not checked in'}
+                                </span>
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="px-3 py-2 text-sm text-gray-500">No signups yet.</p>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+              {profiles?.length === 0 && (
+                <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
+                  No volunteers found.
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
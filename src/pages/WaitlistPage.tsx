@@ -0,0 +1,712 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { ArrowUpCircle, BellRing, History, ListOrdered, Trash2, UserX } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useEventRoles } from '../hooks/useEventRoles';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { validatePhoneNumber } from '../lib/phone';
+import { EventSchedule, Shift, formatShiftWindow, isMultiDayEvent, sortShifts } from '../lib/shifts';
+import { formatInTimeZone } from '../lib/timezone';
+import {
+  StaleSignupError,
+  promoteNextWaitlisted,
+  promoteWaitlistEntry,
+  replaceNoShow,
+} from '../lib/signupOperations';
+import {
+  StaffingHistoryEntry,
+  VolunteerNotification,
+  WaitlistEntry,
+  isNoShow,
+  sortWaitlist,
+  waitsFor,
+} from '../lib/waitlist';
+
+interface WaitlistEvent extends EventSchedule {
+  id: string;
+  name: string;
+  organization_id: string;
+  auto_promote_waitlist: boolean;
+}
+
+interface Signup {
+  id: string;
+  position_id: string;
+  shift_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  starts_at: string;
+  ends_at: string;
+  arrived: boolean;
+  version: number;
+}
+
+interface WaitlistFormData {
+  volunteer_name: string;
+  phone_number: string;
+  organization: string;
+  // '' for standby, otherwise "position:<id>" or "shift:<id>"
+  target: string;
+  priority: number;
+}
+
+export function WaitlistPage() {
+  const queryClient = useQueryClient();
+  const { can } = useEventRoles();
+  const { organizations } = useOrganization();
+  const [eventId, setEventId] = useState('');
+  // The shift picked for each entry that is not waiting for a specific one
+  const [promoteTargets, setPromoteTargets] = useState<Record<string, string>>({});
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<WaitlistFormData>({
+    defaultValues: { target: '', priority: 0 },
+  });
+
+  const { data: events } = useQuery({
+    queryKey: ['events', 'waitlist'],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('events')
+          .select('id, name, date, end_date, timezone, organization_id, auto_promote_waitlist')
+          .order('date');
+        if (error) throw error;
+        return data as WaitlistEvent[];
+      } catch (error) {
+        console.error('Error fetching events:', error);
+        throw error;
+      }
+    },
+  });
+
+  const managedEvents = useMemo(
+    () => (events ?? []).filter(e => can(e.id, 'manageAssignments')),
+    [events, can]
+  );
+  const event = managedEvents.find(e => e.id === eventId) ?? null;
+  const phoneCountryCode = organizations.find(o => o.id === event?.organization_id)?.phone_country_code;
+
+  const { data: positions } = useQuery({
+    queryKey: ['positions', 'waitlist', eventId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_positions')
+          .select('id, name')
+          .eq('event_id', eventId)
+          .order('name');
+        if (error) throw error;
+        return data as Array<{ id: string; name: string }>;
+      } catch (error) {
+        console.error('Error fetching positions:', error);
+        throw error;
+      }
+    },
+    enabled: !!event,
+  });
+
+  const positionIds = useMemo(() => (positions ?? []).map(p => p.id), [positions]);
+  const positionNames = useMemo(() => new Map((positions ?? []).map(p => [p.id, p.name])), [positions]);
+
+  const { data: shifts } = useQuery({
+    queryKey: ['shifts', 'waitlist', eventId, positionIds],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('shifts')
+          .select('id, position_id, starts_at, ends_at, needed')
+          .in('position_id', positionIds);
+        if (error) throw error;
+        return sortShifts(data as Shift[]);
+      } catch (error) {
+        console.error('Error fetching shifts:', error);
+        throw error;
+      }
+    },
+    enabled: !!positions,
+  });
+
+  const { data: signups } = useQuery({
+    queryKey: ['volunteers', 'waitlist', eventId, positionIds],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_signups')
+          .select('id, position_id, shift_id, volunteer_name, phone_number, starts_at, ends_at, arrived, version')
+          .in('position_id', positionIds);
+        if (error) throw error;
+        return data as Signup[];
+      } catch (error) {
+        console.error('Error fetching signups:', error);
+        throw error;
+      }
+    },
+    enabled: !!positions,
+  });
+
+  const { data: waitlist } = useQuery({
+    queryKey: ['waitlist', eventId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('waitlist_entries')
+          .select('id, event_id, position_id, shift_id, volunteer_name, phone_number, organization, priority, status, created_at')
+          .eq('event_id', eventId)
+          .eq('status', 'waiting');
+        if (error) throw error;
+        return sortWaitlist(data as WaitlistEntry[]);
+      } catch (error) {
+        console.error('Error fetching waitlist:', error);
+        throw error;
+      }
+    },
+    enabled: !!event,
+  });
+
+  const { data: notifications } = useQuery({
+    queryKey: ['volunteer-notifications', eventId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('volunteer_notifications')
+          .select('id, volunteer_name, phone_number, body, status, created_at')
+          .eq('event_id', eventId)
+          .eq('status', 'pending')
+          .order('created_at');
+        if (error) throw error;
+        return data as VolunteerNotification[];
+      } catch (error) {
+        console.error('Error fetching notifications:', error);
+        throw error;
+      }
+    },
+    enabled: !!event,
+  });
+
+  const { data: history } = useQuery({
+    queryKey: ['staffing-history', eventId],
+    queryFn: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('staffing_history')
+          .select('id, position_id, shift_id, volunteer_name, action, reason, automatic, created_at')
+          .eq('event_id', eventId)
+          .order('created_at', { ascending: false })
+          .limit(25);
+        if (error) throw error;
+        return data as StaffingHistoryEntry[];
+      } catch (error) {
+        console.error('Error fetching staffing history:', error);
+        throw error;
+      }
+    },
+    enabled: !!event,
+  });
+
+  // Shifts with seats left, with how many
+  const openShifts = useMemo(
+    () =>
+      (shifts ?? [])
+        .map(shift => ({
+          ...shift,
+          open: shift.needed - (signups ?? []).filter(s => s.shift_id === shift.id).length,
+        }))
+        .filter(shift => shift.open > 0),
+    [shifts, signups]
+  );
+
+  const noShows = (signups ?? []).filter(signup => signup.shift_id && isNoShow(signup));
+
+  const describeShift = (shiftId: string | null) => {
+    const shift = shifts?.find(s => s.id === shiftId);
+    if (!shift || !event) return '';
+    return formatShiftWindow(shift, event.timezone, { showDate: isMultiDayEvent(event) });
+  };
+
+  const refreshStaffing = () => {
+    queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+    queryClient.invalidateQueries({ queryKey: ['positions'] });
+    queryClient.invalidateQueries({ queryKey: ['volunteer-directory'] });
+    queryClient.invalidateQueries({ queryKey: ['waitlist', eventId] });
+    queryClient.invalidateQueries({ queryKey: ['volunteer-notifications', eventId] });
+    queryClient.invalidateQueries({ queryKey: ['staffing-history', eventId] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (data: WaitlistFormData) => {
+      const [kind, id] = data.target.split(':');
+      const shift = kind === 'shift' ? shifts?.find(s => s.id === id) : undefined;
+      try {
+        const { error } = await supabase
+          .from('waitlist_entries')
+          .insert([{
+            event_id: eventId,
+            position_id: shift?.position_id ?? (kind === 'position' ? id : null),
+            shift_id: shift?.id ?? null,
+            volunteer_name: data.volunteer_name,
+            phone_number: data.phone_number.trim(),
+            organization: data.organization || null,
+            priority: Number(data.priority) || 0,
+          }]);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error adding to waitlist:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist', eventId] });
+      toast.success('Added to the waitlist');
+      reset({ volunteer_name: '', phone_number: '', organization: '', target: '', priority: 0 });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to add to the waitlist');
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('waitlist_entries')
+          .update({ status: 'withdrawn' })
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error withdrawing from waitlist:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist', eventId] });
+      toast.success('Removed from the waitlist');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove from the waitlist');
+    },
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async ({ entry, shiftId }: { entry: WaitlistEntry; shiftId: string | null }) => {
+      try {
+        return await promoteWaitlistEntry(entry.id, shiftId);
+      } catch (error) {
+        console.error('Error promoting volunteer:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { entry }) => {
+      refreshStaffing();
+      toast.success(`${entry.volunteer_name} promoted off the waitlist`);
+    },
+    onError: (error) => {
+      if (error instanceof StaleSignupError) refreshStaffing();
+      toast.error(error instanceof Error ? error.message : 'Failed to promote volunteer');
+    },
+  });
+
+  const fillMutation = useMutation({
+    mutationFn: async (shiftId: string) => {
+      try {
+        return await promoteNextWaitlisted(shiftId);
+      } catch (error) {
+        console.error('Error filling shift from waitlist:', error);
+        throw error;
+      }
+    },
+    onSuccess: (result) => {
+      refreshStaffing();
+      if (result) {
+        toast.success(`${result.signup.volunteer_name} promoted off the waitlist`);
+      } else {
+        toast.error('Nobody on the waitlist can take that shift');
+      }
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to fill shift');
+    },
+  });
+
+  const replaceMutation = useMutation({
+    mutationFn: async (signup: Signup) => {
+      try {
+        return await replaceNoShow(signup);
+      } catch (error) {
+        console.error('Error replacing no-show:', error);
+        throw error;
+      }
+    },
+    onSuccess: (result, signup) => {
+      refreshStaffing();
+      toast.success(
+        result
+          ? `${signup.volunteer_name} replaced by ${result.signup.volunteer_name}`
+          : `${signup.volunteer_name} removed; nobody on the waitlist could take the shift`
+      );
+    },
+    onError: (error) => {
+      if (error instanceof StaleSignupError) refreshStaffing();
+      toast.error(error instanceof Error ? error.message : 'Failed to replace volunteer');
+    },
+  });
+
+  const markSentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        const { error } = await supabase
+          .from('volunteer_notifications')
+          .update({ status: 'sent', sent_at: new Date().toISOString() })
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error updating notification:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-notifications', eventId] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update notification');
+    },
+  });
+
+  const autoPromoteMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      try {
+        const { error } = await supabase
+          .from('events')
+          .update({ auto_promote_waitlist: enabled })
+          .eq('id', eventId);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error updating event:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, enabled) => {
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      toast.success(enabled ? 'Open seats will be filled from the waitlist' : 'Automatic promotion turned off');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update event');
+    },
+  });
+
+  // Entries in line order, grouped the way they wait
+  const entries = waitlist ?? [];
+  const lines = [
+    ...(shifts ?? []).map(shift => ({
+      key: shift.id,
+      title: `${positionNames.get(shift.position_id)} - ${describeShift(shift.id)}`,
+      entries: entries.filter(e => e.shift_id === shift.id),
+    })),
+    ...(positions ?? []).map(position => ({
+      key: position.id,
+      title: `${position.name} - any shift`,
+      entries: entries.filter(e => e.position_id === position.id && !e.shift_id),
+    })),
+    { key: 'standby', title: 'Standby - any shift of the event', entries: entries.filter(e => !e.position_id) },
+  ].filter(line => line.entries.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-4 flex items-center">
+          <ListOrdered className="h-5 w-5 mr-2 text-indigo-600" />
+          Waitlist
+        </h2>
+        <label className="block text-sm font-medium text-gray-700">Event</label>
+        <select
+          value={eventId}
+          onChange={(e) => setEventId(e.target.value)}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          <option value="">Select an event</option>
+          {managedEvents.map(e => (
+            <option key={e.id} value={e.id}>{e.name}</option>
+          ))}
+        </select>
+        {event && (
+          <label className="mt-4 flex items-start text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={event.auto_promote_waitlist}
+              disabled={!can(event.id, 'manageEvent') || autoPromoteMutation.isPending}
+              onChange={(e) => autoPromoteMutation.mutate(e.target.checked)}
+              className="mr-2 mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-50"
+            />
+            <span>
+              Promote automatically
+              <span className="block text-xs text-gray-500">
+                When a volunteer is removed from a shift, the next in line takes their seat.
+                {!can(event.id, 'manageEvent') && ' Only event owners can change this.'}
+              </span>
+            </span>
+          </label>
+        )}
+      </div>
+
+      {event && (
+        <>
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium mb-4">Open Seats</h3>
+            {openShifts.length === 0 && noShows.length === 0 ? (
+              <p className="text-sm text-gray-500">Every shift is full and everyone has turned up.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {openShifts.map(shift => (
+                  <li key={shift.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {positionNames.get(shift.position_id)} - {describeShift(shift.id)}
+                      </p>
+                      <p className="text-sm text-orange-500">
+                        {shift.open} of {shift.needed} seats open;{' '}
+                        {(waitlist ?? []).filter(e => waitsFor(e, shift)).length} waiting
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => fillMutation.mutate(shift.id)}
+                      disabled={fillMutation.isPending || !(waitlist ?? []).some(e => waitsFor(e, shift))}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <ArrowUpCircle className="h-4 w-4 mr-2" />
+                      Fill from Waitlist
+                    </button>
+                  </li>
+                ))}
+                {noShows.map(signup => (
+                  <li key={signup.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 flex items-center">
+                        <UserX className="h-4 w-4 mr-2 text-red-500" />
+                        {signup.volunteer_name} has not checked in
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {positionNames.get(signup.position_id)} - {describeShift(signup.shift_id)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Remove ${signup.volunteer_name} and give the seat to the next in line?`)) {
+                          replaceMutation.mutate(signup);
+                        }
+                      }}
+                      disabled={replaceMutation.isPending}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Replace
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium mb-4">Add to Waitlist</h3>
+            <form onSubmit={handleSubmit(data => addMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Volunteer Name</label>
+                  <input
+                    {...register('volunteer_name', { required: 'Volunteer name is required' })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  {errors.volunteer_name && (
+                    <p className="mt-1 text-sm text-red-600">{errors.volunteer_name.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Phone Number</label>
+                  <input
+                    {...register('phone_number', {
+                      required: 'Phone number is required',
+                      validate: validatePhoneNumber(phoneCountryCode),
+                    })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  {errors.phone_number && (
+                    <p className="mt-1 text-sm text-red-600">{errors.phone_number.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Organization (Optional)</label>
+                  <input
+                    {...register('organization')}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Priority</label>
+                  <input
+                    type="number"
+                    {...register('priority')}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Higher goes first; equal priorities go in the order added.</p>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Waiting For</label>
+                <select
+                  {...register('target')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">Standby - any shift of the event</option>
+                  {(positions ?? []).map(position => (
+                    <optgroup key={position.id} label={position.name}>
+                      <option value={`position:${position.id}`}>{position.name} - any shift</option>
+                      {(shifts ?? []).filter(s => s.position_id === position.id).map(shift => (
+                        <option key={shift.id} value={`shift:${shift.id}`}>
+                          {position.name} - {describeShift(shift.id)}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={addMutation.isPending}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Add to Waitlist
+                </button>
+              </div>
+            </form>
+          </div>
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium mb-4">In Line</h3>
+            {lines.length === 0 && (
+              <p className="text-sm text-gray-500">Nobody is waiting.</p>
+            )}
+            <div className="space-y-4">
+              {lines.map(line => (
+                <div key={line.key}>
+                  <h4 className="text-sm font-medium text-gray-900">{line.title}</h4>
+                  <ol className="mt-1 divide-y divide-gray-100">
+                    {line.entries.map((entry, index) => {
+                      const targets = openShifts.filter(shift => waitsFor(entry, shift));
+                      const shiftId = entry.shift_id ?? promoteTargets[entry.id] ?? targets[0]?.id ?? '';
+                      return (
+                        <li key={entry.id} className="py-2 flex items-center justify-between">
+                          <div className="text-sm">
+                            <span className="text-gray-400 mr-2">{index + 1}.</span>
+                            <span className="font-medium text-gray-900">{entry.volunteer_name}</span>
+                            <span className="ml-2 text-gray-500">{entry.phone_number}</span>
+                            {entry.organization && <span className="ml-2 text-gray-500">{entry.organization}</span>}
+                            {entry.priority !== 0 && (
+                              <span className="ml-2 text-xs text-indigo-600">Priority {entry.priority}</span>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            {!entry.shift_id && targets.length > 0 && (
+                              <select
+                                value={shiftId}
+                                onChange={(e) => setPromoteTargets(current => ({ ...current, [entry.id]: e.target.value }))}
+                                className="rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                              >
+                                {targets.map(shift => (
+                                  <option key={shift.id} value={shift.id}>
+                                    {positionNames.get(shift.position_id)} - {describeShift(shift.id)}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            <button
+                              onClick={() => promoteMutation.mutate({ entry, shiftId: shiftId || null })}
+                              disabled={promoteMutation.isPending || !targets.some(shift => shift.id === shiftId)}
+                              className="text-gray-400 hover:text-green-600 disabled:opacity-50"
+                              title={targets.length > 0 ? 'Promote into an open seat' : 'No open seat to promote into'}
+                            >
+                              <ArrowUpCircle className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => withdrawMutation.mutate(entry.id)}
+                              className="text-gray-400 hover:text-gray-500"
+                              title="Remove from waitlist"
+                            >
+                              <Trash2 className="h-5 w-5" />
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {notifications && notifications.length > 0 && (
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium mb-1 flex items-center">
+                <BellRing className="h-5 w-5 mr-2 text-indigo-600" />
+                Notifications to Send
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Let promoted volunteers know, then mark each message sent.
+              </p>
+              <ul className="divide-y divide-gray-200">
+                {notifications.map(notification => (
+                  <li key={notification.id} className="py-3 flex items-start justify-between">
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">
+                        {notification.volunteer_name}{' '}
+                        <a
+                          href={`sms:${notification.phone_number}?body=${encodeURIComponent(notification.body)}`}
+                          className="font-normal text-indigo-600 hover:text-indigo-500"
+                        >
+                          {notification.phone_number}
+                        </a>
+                      </p>
+                      <p className="text-gray-600">{notification.body}</p>
+                    </div>
+                    <button
+                      onClick={() => markSentMutation.mutate(notification.id)}
+                      className="ml-4 px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Mark Sent
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium mb-4 flex items-center">
+              <History className="h-5 w-5 mr-2 text-indigo-600" />
+              Recent Promotions
+            </h3>
+            {history && history.length > 0 ? (
+              <ul className="divide-y divide-gray-200">
+                {history.map(entry => (
+                  <li key={entry.id} className="py-2 text-sm">
+                    <p className="text-gray-900">
+                      {entry.volunteer_name} promoted into {positionNames.get(entry.position_id)}
+                      {entry.shift_id && ` - ${describeShift(entry.shift_id)}`}
+                      {entry.automatic && <span className="ml-2 text-xs text-indigo-600">automatic</span>}
+                    </p>
+                    <p className="text-gray-500">
+                      {formatInTimeZone(new Date(entry.created_at), event.timezone)}
+                      {entry.reason && ` - ${entry.reason}`}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">Nobody has been promoted off the waitlist yet.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
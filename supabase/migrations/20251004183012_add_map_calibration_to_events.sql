@@ -0,0 +1,55 @@
+/*
+  # Add custom map calibration to events
+
+  1. Changes
+    - Add `map_calibration` (jsonb, nullable) column to `events`
+      - `control_points` - image [y, x] points pinned to real-world [lat, lng] pairs
+      - `transform` - fitted affine transform from image space to real-world space
+      - `rms_error_m` - fit error over the control points, in meters
+      - `calibrated_at` - when the calibration was saved
+
+  2. Notes
+    - A calibration only makes sense for the image it was made against, so it is
+      cleared whenever `custom_map_url` changes.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'map_calibration'
+  ) THEN
+    ALTER TABLE events ADD COLUMN map_calibration jsonb;
+  END IF;
+END $$;
+
+ALTER TABLE events
+  DROP CONSTRAINT IF EXISTS events_map_calibration_points_check;
+
+ALTER TABLE events
+  ADD CONSTRAINT events_map_calibration_points_check
+  CHECK (
+    map_calibration IS NULL
+    OR jsonb_array_length(map_calibration -> 'control_points') >= 3
+  );
+
+-- Reset the calibration when the map image is replaced or removed
+CREATE OR REPLACE FUNCTION clear_map_calibration_on_map_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.custom_map_url IS DISTINCT FROM OLD.custom_map_url
+     AND NEW.map_calibration IS NOT DISTINCT FROM OLD.map_calibration THEN
+    NEW.map_calibration := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_map_calibration_on_map_change ON events;
+
+CREATE TRIGGER clear_map_calibration_on_map_change
+  BEFORE UPDATE OF custom_map_url ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_map_calibration_on_map_change();
@@ -0,0 +1,167 @@
+/*
+  # Add shifts to volunteer positions
+
+  1. New Tables
+    - `shifts`
+      - `id` (uuid, primary key)
+      - `position_id` (uuid, references volunteer_positions)
+      - `start_time` (time)
+      - `end_time` (time)
+      - `needed` (integer) - volunteers needed during this window
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `shift_id` column to `volunteer_signups` (nullable, references shifts)
+    - Signups assigned to a shift take their start and end times from the shift
+    - Existing signups are grouped into one shift per distinct time window
+
+  3. Security
+    - Enable RLS on `shifts` table
+    - Add policies for event owners, mirroring `volunteer_positions`
+*/
+
+CREATE TABLE IF NOT EXISTS shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  needed integer NOT NULL CHECK (needed > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS shifts_position_id_idx ON shifts(position_id);
+
+ALTER TABLE shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read shifts for their events"
+  ON shifts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = shifts.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert shifts for their events"
+  ON shifts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update shifts for their events"
+  ON shifts
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = shifts.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete shifts for their events"
+  ON shifts
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = shifts.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+-- Link signups to shifts
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_signups' AND column_name = 'shift_id'
+  ) THEN
+    ALTER TABLE volunteer_signups
+      ADD COLUMN shift_id uuid REFERENCES shifts(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS volunteer_signups_shift_id_idx ON volunteer_signups(shift_id);
+
+-- Backfill: one shift per distinct time window already in use at a position
+INSERT INTO shifts (position_id, start_time, end_time, needed)
+SELECT position_id, start_time, end_time, count(*)
+FROM volunteer_signups
+WHERE shift_id IS NULL
+GROUP BY position_id, start_time, end_time;
+
+UPDATE volunteer_signups
+SET shift_id = shifts.id
+FROM shifts
+WHERE volunteer_signups.shift_id IS NULL
+  AND shifts.position_id = volunteer_signups.position_id
+  AND shifts.start_time = volunteer_signups.start_time
+  AND shifts.end_time = volunteer_signups.end_time;
+
+-- Signups in a shift always carry the shift's position and time window
+CREATE OR REPLACE FUNCTION sync_signup_with_shift()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  shift_row shifts%ROWTYPE;
+BEGIN
+  IF NEW.shift_id IS NOT NULL THEN
+    SELECT * INTO shift_row FROM shifts WHERE id = NEW.shift_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Shift % does not exist', NEW.shift_id;
+    END IF;
+    NEW.position_id := shift_row.position_id;
+    NEW.start_time := shift_row.start_time;
+    NEW.end_time := shift_row.end_time;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_signup_with_shift ON volunteer_signups;
+
+CREATE TRIGGER sync_signup_with_shift
+  BEFORE INSERT OR UPDATE OF shift_id, position_id, start_time, end_time ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_signup_with_shift();
+
+-- Moving a shift's window moves the signups in it
+CREATE OR REPLACE FUNCTION propagate_shift_times()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.start_time IS DISTINCT FROM OLD.start_time
+     OR NEW.end_time IS DISTINCT FROM OLD.end_time THEN
+    UPDATE volunteer_signups
+    SET start_time = NEW.start_time,
+        end_time = NEW.end_time
+    WHERE shift_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS propagate_shift_times ON shifts;
+
+CREATE TRIGGER propagate_shift_times
+  AFTER UPDATE OF start_time, end_time ON shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION propagate_shift_times();
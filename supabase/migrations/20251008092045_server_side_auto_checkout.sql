@@ -0,0 +1,169 @@
+/*
+  # Server-side Automatic Check-out
+
+  Replaces the browser-driven useAutoCheckout interval, which only ran while a page was
+  open and raced across tabs, with a single scheduled database job.
+
+  1. New Tables
+    - `auto_checkout_runs`: one row per job run
+      - `id` (uuid, primary key)
+      - `ran_at` (timestamptz) - the time the run evaluated shifts against
+      - `checked_out` (integer) - number of volunteers checked out by the run
+    - `auto_checkout_log`: one row per volunteer checked out
+      - `id` (uuid, primary key)
+      - `run_id` (uuid, references auto_checkout_runs)
+      - `signup_id` (uuid, references volunteer_signups)
+      - `position_id` (uuid, references volunteer_positions)
+      - `event_id` (uuid, references events)
+      - `volunteer_name` (text)
+      - `shift_end_at` (timestamptz) - the shift end that triggered the check-out
+      - `checked_out_at` (timestamptz)
+      - Unique on (signup_id, shift_end_at) so a shift is only ever checked out once
+
+  2. New Functions
+    - `run_auto_checkout(p_now, p_buffer_minutes, p_max_late_minutes)`: checks out every
+      arrived volunteer whose shift ended at least p_buffer_minutes before p_now,
+      decrements the position's filled count, and records the run. With no
+      p_max_late_minutes a run catches up on every shift the job missed while it was
+      not running; the log's unique key stops a shift from being checked out twice.
+      Safe to call concurrently and repeatedly.
+
+  3. Scheduling
+    - pg_cron runs `run_auto_checkout()` every minute
+
+  4. Security
+    - RLS on both tables; event owners can read the log for their events
+    - `run_auto_checkout` is only executable by the service role (and pg_cron)
+    - `auto_checkout_log` is published for realtime so open pages can show toasts
+
+  Event dates and shift times are interpreted in the database time zone.
+*/
+
+CREATE TABLE IF NOT EXISTS auto_checkout_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ran_at timestamptz NOT NULL DEFAULT now(),
+  checked_out integer NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS auto_checkout_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES auto_checkout_runs(id) ON DELETE CASCADE,
+  signup_id uuid REFERENCES volunteer_signups(id) ON DELETE SET NULL,
+  position_id uuid NOT NULL REFERENCES volunteer_positions(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  volunteer_name text NOT NULL,
+  shift_end_at timestamptz NOT NULL,
+  checked_out_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (signup_id, shift_end_at)
+);
+
+CREATE INDEX IF NOT EXISTS auto_checkout_log_event_id_idx ON auto_checkout_log(event_id);
+
+ALTER TABLE auto_checkout_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auto_checkout_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read auto check-outs for their events"
+  ON auto_checkout_log
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = auto_checkout_log.event_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION run_auto_checkout(
+  p_now timestamptz DEFAULT now(),
+  p_buffer_minutes integer DEFAULT 1,
+  p_max_late_minutes integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id uuid;
+  v_checked_out integer;
+BEGIN
+  INSERT INTO auto_checkout_runs (ran_at)
+  VALUES (p_now)
+  RETURNING id INTO v_run_id;
+
+  -- Shifts that end at or before they start run past midnight
+  WITH arrived AS (
+    SELECT
+      s.id,
+      s.position_id,
+      p.event_id,
+      s.volunteer_name,
+      (e.date + s.end_time
+        + CASE WHEN s.end_time <= s.start_time THEN interval '1 day' ELSE interval '0' END
+      )::timestamptz AS shift_end_at
+    FROM volunteer_signups s
+    JOIN volunteer_positions p ON p.id = s.position_id
+    JOIN events e ON e.id = p.event_id
+    WHERE s.arrived = true
+    FOR UPDATE OF s SKIP LOCKED
+  ),
+  logged AS (
+    INSERT INTO auto_checkout_log (
+      run_id, signup_id, position_id, event_id, volunteer_name, shift_end_at, checked_out_at
+    )
+    SELECT v_run_id, id, position_id, event_id, volunteer_name, shift_end_at, p_now
+    FROM arrived
+    WHERE p_now >= shift_end_at + make_interval(mins => p_buffer_minutes)
+    AND (p_max_late_minutes IS NULL OR p_now <= shift_end_at + make_interval(mins => p_buffer_minutes + p_max_late_minutes))
+    ON CONFLICT (signup_id, shift_end_at) DO NOTHING
+    RETURNING signup_id, position_id
+  ),
+  checked_out AS (
+    UPDATE volunteer_signups
+    SET arrived = false
+    FROM logged
+    WHERE volunteer_signups.id = logged.signup_id
+    RETURNING volunteer_signups.position_id
+  ),
+  decremented AS (
+    UPDATE volunteer_positions
+    SET filled = GREATEST(0, filled - counts.total)
+    FROM (
+      SELECT position_id, count(*) AS total
+      FROM checked_out
+      GROUP BY position_id
+    ) counts
+    WHERE volunteer_positions.id = counts.position_id
+    RETURNING volunteer_positions.id
+  )
+  SELECT count(*) INTO v_checked_out FROM checked_out;
+
+  UPDATE auto_checkout_runs
+  SET checked_out = v_checked_out
+  WHERE id = v_run_id;
+
+  RETURN v_checked_out;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION run_auto_checkout(timestamptz, integer, integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION run_auto_checkout(timestamptz, integer, integer) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION run_auto_checkout(timestamptz, integer, integer) TO service_role;
+
+-- Run the job every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'auto-checkout',
+  '* * * * *',
+  $$SELECT public.run_auto_checkout()$$
+);
+
+-- Let open pages subscribe to check-outs
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE auto_checkout_log;
+  END IF;
+END $$;
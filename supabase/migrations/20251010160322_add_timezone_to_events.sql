@@ -0,0 +1,109 @@
+/*
+  # Per-event Time Zone
+
+  Event dates and shift times are wall-clock values. Until now they were compared against
+  whichever clock was looking at them (the browser, or the database session for the
+  automatic check-out job). Each event now records the IANA zone those values are in.
+
+  1. Changes
+    - Add `timezone` (text, IANA zone name, default 'UTC') to `events`
+    - Add `is_valid_timezone(text)` and a CHECK constraint using it
+    - `run_auto_checkout` evaluates shift end times in the event's zone
+
+  2. Notes
+    - Existing events are set to 'UTC'; organizers should pick the correct zone when they
+      next edit the event
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_timezone(p_timezone text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'timezone'
+  ) THEN
+    ALTER TABLE events ADD COLUMN timezone text NOT NULL DEFAULT 'UTC';
+    ALTER TABLE events ADD CONSTRAINT events_timezone_valid CHECK (is_valid_timezone(timezone));
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION run_auto_checkout(
+  p_now timestamptz DEFAULT now(),
+  p_buffer_minutes integer DEFAULT 1,
+  p_max_late_minutes integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id uuid;
+  v_checked_out integer;
+BEGIN
+  INSERT INTO auto_checkout_runs (ran_at)
+  VALUES (p_now)
+  RETURNING id INTO v_run_id;
+
+  -- Shift end is a wall-clock time in the event's zone; shifts that end at or before
+  -- they start run past midnight
+  WITH arrived AS (
+    SELECT
+      s.id,
+      s.position_id,
+      p.event_id,
+      s.volunteer_name,
+      (e.date + s.end_time
+        + CASE WHEN s.end_time <= s.start_time THEN interval '1 day' ELSE interval '0' END
+      ) AT TIME ZONE e.timezone AS shift_end_at
+    FROM volunteer_signups s
+    JOIN volunteer_positions p ON p.id = s.position_id
+    JOIN events e ON e.id = p.event_id
+    WHERE s.arrived = true
+    FOR UPDATE OF s SKIP LOCKED
+  ),
+  logged AS (
+    INSERT INTO auto_checkout_log (
+      run_id, signup_id, position_id, event_id, volunteer_name, shift_end_at, checked_out_at
+    )
+    SELECT v_run_id, id, position_id, event_id, volunteer_name, shift_end_at, p_now
+    FROM arrived
+    WHERE p_now >= shift_end_at + make_interval(mins => p_buffer_minutes)
+    AND (p_max_late_minutes IS NULL OR p_now <= shift_end_at + make_interval(mins => p_buffer_minutes + p_max_late_minutes))
+    ON CONFLICT (signup_id, shift_end_at) DO NOTHING
+    RETURNING signup_id, position_id
+  ),
+  checked_out AS (
+    UPDATE volunteer_signups
+    SET arrived = false
+    FROM logged
+    WHERE volunteer_signups.id = logged.signup_id
+    RETURNING volunteer_signups.position_id
+  ),
+  decremented AS (
+    UPDATE volunteer_positions
+    SET filled = GREATEST(0, filled - counts.total)
+    FROM (
+      SELECT position_id, count(*) AS total
+      FROM checked_out
+      GROUP BY position_id
+    ) counts
+    WHERE volunteer_positions.id = counts.position_id
+    RETURNING volunteer_positions.id
+  )
+  SELECT count(*) INTO v_checked_out FROM checked_out;
+
+  UPDATE auto_checkout_runs
+  SET checked_out = v_checked_out
+  WHERE id = v_run_id;
+
+  RETURN v_checked_out;
+END;
+$$;
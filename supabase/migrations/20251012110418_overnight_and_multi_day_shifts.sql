@@ -0,0 +1,293 @@
+/*
+  # Overnight and Multi-day Shifts
+
+  Shift windows were a pair of `time` values on the event's single date, so a shift that
+  crossed midnight (22:00 - 02:00) looked like it ended before it started, and an event
+  could not run over several days.
+
+  1. Changes
+    - Add `end_date` (date, nullable) to `events`; null means a single-day event
+    - Add `starts_at` and `ends_at` (timestamptz) to `shifts` and `volunteer_signups`.
+      These are now the source of truth for a window; `ends_at` must be after `starts_at`
+    - `start_time` / `end_time` are kept, derived from `starts_at` / `ends_at` in the
+      event's time zone, for readers that only need the wall-clock time
+    - Existing windows are anchored to the event date; ones that ended at or before
+      their start are moved to end on the following day
+    - Signups in a shift copy the shift's `starts_at` / `ends_at`
+    - Changing an event's time zone keeps its shifts at the same wall-clock times, and
+      moving its date moves its shifts and signups by as many days. Changing the dates so
+      that a shift would start after the event's last day is refused.
+    - `run_auto_checkout` uses `ends_at` directly
+*/
+
+-- Events can span several dates
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'end_date'
+  ) THEN
+    ALTER TABLE events ADD COLUMN end_date date;
+    ALTER TABLE events ADD CONSTRAINT events_end_date_after_date
+      CHECK (end_date IS NULL OR end_date >= date);
+  END IF;
+END $$;
+
+-- Anchor shift and signup windows to full timestamps
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'shifts' AND column_name = 'starts_at'
+  ) THEN
+    ALTER TABLE shifts ADD COLUMN starts_at timestamptz;
+    ALTER TABLE shifts ADD COLUMN ends_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_signups' AND column_name = 'starts_at'
+  ) THEN
+    ALTER TABLE volunteer_signups ADD COLUMN starts_at timestamptz;
+    ALTER TABLE volunteer_signups ADD COLUMN ends_at timestamptz;
+  END IF;
+END $$;
+
+UPDATE shifts
+SET starts_at = (e.date + shifts.start_time) AT TIME ZONE e.timezone,
+    ends_at = (e.date + shifts.end_time
+      + CASE WHEN shifts.end_time <= shifts.start_time THEN interval '1 day' ELSE interval '0' END
+    ) AT TIME ZONE e.timezone
+FROM volunteer_positions p
+JOIN events e ON e.id = p.event_id
+WHERE p.id = shifts.position_id
+AND shifts.starts_at IS NULL;
+
+UPDATE volunteer_signups
+SET starts_at = (e.date + volunteer_signups.start_time) AT TIME ZONE e.timezone,
+    ends_at = (e.date + volunteer_signups.end_time
+      + CASE WHEN volunteer_signups.end_time <= volunteer_signups.start_time THEN interval '1 day' ELSE interval '0' END
+    ) AT TIME ZONE e.timezone
+FROM volunteer_positions p
+JOIN events e ON e.id = p.event_id
+WHERE p.id = volunteer_signups.position_id
+AND volunteer_signups.starts_at IS NULL;
+
+ALTER TABLE shifts ALTER COLUMN starts_at SET NOT NULL;
+ALTER TABLE shifts ALTER COLUMN ends_at SET NOT NULL;
+ALTER TABLE volunteer_signups ALTER COLUMN starts_at SET NOT NULL;
+ALTER TABLE volunteer_signups ALTER COLUMN ends_at SET NOT NULL;
+
+ALTER TABLE shifts
+  ADD CONSTRAINT shifts_ends_after_start CHECK (ends_at > starts_at);
+ALTER TABLE volunteer_signups
+  ADD CONSTRAINT volunteer_signups_ends_after_start CHECK (ends_at > starts_at);
+
+CREATE INDEX IF NOT EXISTS shifts_starts_at_idx ON shifts(starts_at);
+CREATE INDEX IF NOT EXISTS volunteer_signups_ends_at_idx ON volunteer_signups(ends_at);
+
+-- Wall-clock time of an instant in the time zone of a position's event
+CREATE OR REPLACE FUNCTION position_local_time(p_position_id uuid, p_instant timestamptz)
+RETURNS time
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (p_instant AT TIME ZONE e.timezone)::time
+  FROM volunteer_positions p
+  JOIN events e ON e.id = p.event_id
+  WHERE p.id = p_position_id;
+$$;
+
+CREATE OR REPLACE FUNCTION derive_shift_local_times()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.start_time := position_local_time(NEW.position_id, NEW.starts_at);
+  NEW.end_time := position_local_time(NEW.position_id, NEW.ends_at);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS derive_shift_local_times ON shifts;
+
+CREATE TRIGGER derive_shift_local_times
+  BEFORE INSERT OR UPDATE OF position_id, starts_at, ends_at ON shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION derive_shift_local_times();
+
+-- Signups in a shift always carry the shift's position and window
+CREATE OR REPLACE FUNCTION sync_signup_with_shift()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  shift_row shifts%ROWTYPE;
+BEGIN
+  IF NEW.shift_id IS NOT NULL THEN
+    SELECT * INTO shift_row FROM shifts WHERE id = NEW.shift_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Shift % does not exist', NEW.shift_id;
+    END IF;
+    NEW.position_id := shift_row.position_id;
+    NEW.starts_at := shift_row.starts_at;
+    NEW.ends_at := shift_row.ends_at;
+  END IF;
+  NEW.start_time := position_local_time(NEW.position_id, NEW.starts_at);
+  NEW.end_time := position_local_time(NEW.position_id, NEW.ends_at);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_signup_with_shift ON volunteer_signups;
+
+CREATE TRIGGER sync_signup_with_shift
+  BEFORE INSERT OR UPDATE OF shift_id, position_id, starts_at, ends_at ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_signup_with_shift();
+
+-- Moving a shift's window moves the signups in it
+CREATE OR REPLACE FUNCTION propagate_shift_times()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.starts_at IS DISTINCT FROM OLD.starts_at
+     OR NEW.ends_at IS DISTINCT FROM OLD.ends_at THEN
+    UPDATE volunteer_signups
+    SET starts_at = NEW.starts_at,
+        ends_at = NEW.ends_at
+    WHERE shift_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS propagate_shift_times ON shifts;
+
+CREATE TRIGGER propagate_shift_times
+  AFTER UPDATE OF starts_at, ends_at ON shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION propagate_shift_times();
+
+-- Correcting an event's time zone keeps its shifts at the same wall-clock times; moving
+-- the event to another date moves them by the same number of days
+CREATE OR REPLACE FUNCTION reanchor_event_windows()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shift interval := (NEW.date - OLD.date) * interval '1 day';
+  v_late_start timestamptz;
+BEGIN
+  IF NEW.timezone IS DISTINCT FROM OLD.timezone OR NEW.date <> OLD.date THEN
+    UPDATE shifts
+    SET starts_at = ((shifts.starts_at AT TIME ZONE OLD.timezone) + v_shift) AT TIME ZONE NEW.timezone,
+        ends_at = ((shifts.ends_at AT TIME ZONE OLD.timezone) + v_shift) AT TIME ZONE NEW.timezone
+    FROM volunteer_positions p
+    WHERE p.id = shifts.position_id
+    AND p.event_id = NEW.id;
+
+    -- Signups in a shift were moved along with it above
+    UPDATE volunteer_signups
+    SET starts_at = ((volunteer_signups.starts_at AT TIME ZONE OLD.timezone) + v_shift) AT TIME ZONE NEW.timezone,
+        ends_at = ((volunteer_signups.ends_at AT TIME ZONE OLD.timezone) + v_shift) AT TIME ZONE NEW.timezone
+    FROM volunteer_positions p
+    WHERE p.id = volunteer_signups.position_id
+    AND p.event_id = NEW.id
+    AND volunteer_signups.shift_id IS NULL;
+  END IF;
+
+  -- A shorter event must not leave shifts behind on days it no longer has
+  SELECT min(s.starts_at) INTO v_late_start
+  FROM shifts s
+  JOIN volunteer_positions p ON p.id = s.position_id
+  WHERE p.event_id = NEW.id
+  AND (s.starts_at AT TIME ZONE NEW.timezone)::date > coalesce(NEW.end_date, NEW.date);
+
+  IF v_late_start IS NOT NULL THEN
+    RAISE EXCEPTION 'A shift starts on %, after the last day of the event. Move or delete it first.',
+      to_char(v_late_start AT TIME ZONE NEW.timezone, 'Mon FMDD')
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reanchor_event_windows ON events;
+
+CREATE TRIGGER reanchor_event_windows
+  AFTER UPDATE OF timezone, date, end_date ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION reanchor_event_windows();
+
+CREATE OR REPLACE FUNCTION run_auto_checkout(
+  p_now timestamptz DEFAULT now(),
+  p_buffer_minutes integer DEFAULT 1,
+  p_max_late_minutes integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id uuid;
+  v_checked_out integer;
+BEGIN
+  INSERT INTO auto_checkout_runs (ran_at)
+  VALUES (p_now)
+  RETURNING id INTO v_run_id;
+
+  WITH arrived AS (
+    SELECT
+      s.id,
+      s.position_id,
+      p.event_id,
+      s.volunteer_name,
+      s.ends_at AS shift_end_at
+    FROM volunteer_signups s
+    JOIN volunteer_positions p ON p.id = s.position_id
+    WHERE s.arrived = true
+    AND s.ends_at <= p_now
+    FOR UPDATE OF s SKIP LOCKED
+  ),
+  logged AS (
+    INSERT INTO auto_checkout_log (
+      run_id, signup_id, position_id, event_id, volunteer_name, shift_end_at, checked_out_at
+    )
+    SELECT v_run_id, id, position_id, event_id, volunteer_name, shift_end_at, p_now
+    FROM arrived
+    WHERE p_now >= shift_end_at + make_interval(mins => p_buffer_minutes)
+    AND (p_max_late_minutes IS NULL OR p_now <= shift_end_at + make_interval(mins => p_buffer_minutes + p_max_late_minutes))
+    ON CONFLICT (signup_id, shift_end_at) DO NOTHING
+    RETURNING signup_id, position_id
+  ),
+  checked_out AS (
+    UPDATE volunteer_signups
+    SET arrived = false
+    FROM logged
+    WHERE volunteer_signups.id = logged.signup_id
+    RETURNING volunteer_signups.position_id
+  ),
+  decremented AS (
+    UPDATE volunteer_positions
+    SET filled = GREATEST(0, filled - counts.total)
+    FROM (
+      SELECT position_id, count(*) AS total
+      FROM checked_out
+      GROUP BY position_id
+    ) counts
+    WHERE volunteer_positions.id = counts.position_id
+    RETURNING volunteer_positions.id
+  )
+  SELECT count(*) INTO v_checked_out FROM checked_out;
+
+  UPDATE auto_checkout_runs
+  SET checked_out = v_checked_out
+  WHERE id = v_run_id;
+
+  RETURN v_checked_out;
+END;
+$$;
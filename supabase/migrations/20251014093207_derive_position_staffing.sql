@@ -0,0 +1,162 @@
+/*
+  # Derive Position Staffing from Signups
+
+  `volunteer_positions.filled` was kept up to date by the app calling
+  `increment_filled_count` / `decrement_filled_count` on assignment, removal, check-in and
+  check-out, so it meant "assigned" or "on site" depending on which path ran last and had
+  to be reset by hand when it drifted. Staffing is now counted from the signup rows.
+
+  1. Changes
+    - Add `checked_in_at` and `checked_out_at` (timestamptz) to `volunteer_signups`, set by
+      a trigger whenever `arrived` changes
+    - Add the `position_staffing` view with, per position:
+      - `assigned`: signups on the position
+      - `checked_in`: signups currently on site (`arrived = true`)
+      - `checked_out`: signups that checked in and have since left
+    - `run_auto_checkout` no longer touches `filled`
+    - Drop `increment_filled_count`, `decrement_filled_count` and `volunteer_positions.filled`
+
+  2. Security
+    - The view runs with the caller's permissions, so the existing RLS policies on
+      `volunteer_positions` and `volunteer_signups` still apply
+    - Only the trigger writes `checked_in_at` and `checked_out_at`; values sent with an
+      insert or update are replaced or kept as they were
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_signups' AND column_name = 'checked_in_at'
+  ) THEN
+    ALTER TABLE volunteer_signups ADD COLUMN checked_in_at timestamptz;
+    ALTER TABLE volunteer_signups ADD COLUMN checked_out_at timestamptz;
+  END IF;
+END $$;
+
+-- Volunteers already on site have no recorded check-in time; use the migration time
+UPDATE volunteer_signups
+SET checked_in_at = now()
+WHERE arrived = true
+AND checked_in_at IS NULL;
+
+-- Automatic check-outs are already logged
+UPDATE volunteer_signups
+SET checked_out_at = l.checked_out_at
+FROM (
+  SELECT signup_id, max(checked_out_at) AS checked_out_at
+  FROM auto_checkout_log
+  GROUP BY signup_id
+) l
+WHERE l.signup_id = volunteer_signups.id
+AND volunteer_signups.arrived = false
+AND volunteer_signups.checked_out_at IS NULL;
+
+CREATE OR REPLACE FUNCTION record_signup_attendance()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.checked_in_at := CASE WHEN NEW.arrived THEN now() END;
+    NEW.checked_out_at := NULL;
+  ELSIF NEW.arrived AND NOT OLD.arrived THEN
+    NEW.checked_in_at := now();
+    NEW.checked_out_at := NULL;
+  ELSIF OLD.arrived AND NOT NEW.arrived THEN
+    NEW.checked_in_at := OLD.checked_in_at;
+    NEW.checked_out_at := now();
+  ELSE
+    NEW.checked_in_at := OLD.checked_in_at;
+    NEW.checked_out_at := OLD.checked_out_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_signup_attendance ON volunteer_signups;
+
+CREATE TRIGGER record_signup_attendance
+  BEFORE INSERT OR UPDATE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION record_signup_attendance();
+
+CREATE OR REPLACE VIEW position_staffing
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id AS position_id,
+  p.event_id,
+  p.needed,
+  count(s.id)::integer AS assigned,
+  (count(s.id) FILTER (WHERE s.arrived))::integer AS checked_in,
+  (count(s.id) FILTER (WHERE NOT s.arrived AND s.checked_out_at IS NOT NULL))::integer AS checked_out
+FROM volunteer_positions p
+LEFT JOIN volunteer_signups s ON s.position_id = p.id
+GROUP BY p.id;
+
+GRANT SELECT ON position_staffing TO authenticated;
+
+CREATE OR REPLACE FUNCTION run_auto_checkout(
+  p_now timestamptz DEFAULT now(),
+  p_buffer_minutes integer DEFAULT 1,
+  p_max_late_minutes integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id uuid;
+  v_checked_out integer;
+BEGIN
+  INSERT INTO auto_checkout_runs (ran_at)
+  VALUES (p_now)
+  RETURNING id INTO v_run_id;
+
+  WITH arrived AS (
+    SELECT
+      s.id,
+      s.position_id,
+      p.event_id,
+      s.volunteer_name,
+      s.ends_at AS shift_end_at
+    FROM volunteer_signups s
+    JOIN volunteer_positions p ON p.id = s.position_id
+    WHERE s.arrived = true
+    AND s.ends_at <= p_now
+    FOR UPDATE OF s SKIP LOCKED
+  ),
+  logged AS (
+    INSERT INTO auto_checkout_log (
+      run_id, signup_id, position_id, event_id, volunteer_name, shift_end_at, checked_out_at
+    )
+    SELECT v_run_id, id, position_id, event_id, volunteer_name, shift_end_at, p_now
+    FROM arrived
+    WHERE p_now >= shift_end_at + make_interval(mins => p_buffer_minutes)
+    AND (p_max_late_minutes IS NULL OR p_now <= shift_end_at + make_interval(mins => p_buffer_minutes + p_max_late_minutes))
+    ON CONFLICT (signup_id, shift_end_at) DO NOTHING
+    RETURNING signup_id
+  ),
+  checked_out AS (
+    UPDATE volunteer_signups
+    SET arrived = false
+    FROM logged
+    WHERE volunteer_signups.id = logged.signup_id
+    RETURNING volunteer_signups.id
+  )
+  SELECT count(*) INTO v_checked_out FROM checked_out;
+
+  UPDATE auto_checkout_runs
+  SET checked_out = v_checked_out
+  WHERE id = v_run_id;
+
+  RETURN v_checked_out;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS increment_filled_count(uuid);
+DROP FUNCTION IF EXISTS decrement_filled_count(uuid);
+
+ALTER TABLE volunteer_positions DROP COLUMN IF EXISTS filled;
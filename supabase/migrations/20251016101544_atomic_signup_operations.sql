@@ -0,0 +1,265 @@
+/*
+  # Atomic Signup Operations
+
+  Assigning, editing, moving, removing and checking in volunteers were made of several
+  client calls (a signup write plus count updates), so a failure halfway through left
+  the data half-changed. Each operation is now a single database function that runs in
+  one transaction.
+
+  1. Changes
+    - Add `version` (integer) to `volunteer_signups`, incremented on every update
+    - New functions, each returning `{ signup, position }` where `position` is the
+      signup's row from `position_staffing`:
+      - `assign_volunteer`: create a signup
+      - `update_volunteer`: edit a signup's details and placement; moving a volunteer to
+        another position or shift also returns the staffing of the position they left as
+        `previous_position`
+      - `remove_volunteer`: delete a signup
+      - `set_arrival`: check a volunteer in or out
+    - Functions that change an existing signup take the `version` the caller last saw
+      and reject the change if the signup has changed since
+
+  2. Security
+    - Functions run with the caller's permissions, so the existing RLS policies apply
+    - Only the trigger writes `version`; a value sent with an insert or update is ignored
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_signups' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE volunteer_signups ADD COLUMN version integer NOT NULL DEFAULT 1;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION bump_signup_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.version := CASE WHEN TG_OP = 'INSERT' THEN 1 ELSE OLD.version + 1 END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_signup_version ON volunteer_signups;
+
+CREATE TRIGGER bump_signup_version
+  BEFORE INSERT OR UPDATE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_signup_version();
+
+-- Raise if a signup's name, phone or placement is not valid
+CREATE OR REPLACE FUNCTION validate_signup(
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_volunteer_name text,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF coalesce(trim(p_volunteer_name), '') = '' THEN
+    RAISE EXCEPTION 'Volunteer name is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(p_phone_number), '') = '' THEN
+    RAISE EXCEPTION 'Phone number is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM volunteer_positions WHERE id = p_position_id) THEN
+    RAISE EXCEPTION 'Position not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_shift_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM shifts WHERE id = p_shift_id AND position_id = p_position_id
+    ) THEN
+      RAISE EXCEPTION 'Shift does not belong to this position' USING ERRCODE = '22023';
+    END IF;
+  ELSIF p_starts_at IS NULL OR p_ends_at IS NULL OR p_ends_at <= p_starts_at THEN
+    RAISE EXCEPTION 'A shift must end after it starts' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- Lock a signup and check the caller is changing the version they last saw
+CREATE OR REPLACE FUNCTION lock_signup(p_signup_id uuid, p_expected_version integer)
+RETURNS volunteer_signups
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  SELECT * INTO v_signup
+  FROM volunteer_signups
+  WHERE id = p_signup_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Volunteer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_signup.version <> p_expected_version THEN
+    RAISE EXCEPTION 'This volunteer was changed by someone else. Reload and try again.'
+      USING ERRCODE = '40001';
+  END IF;
+
+  RETURN v_signup;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION signup_result(p_signup volunteer_signups)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'signup', to_jsonb(p_signup),
+    'position', (
+      SELECT to_jsonb(ps) FROM position_staffing ps WHERE ps.position_id = p_signup.position_id
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION assign_volunteer(
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_volunteer_name text,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_other_notes text DEFAULT NULL,
+  p_organization text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  PERFORM validate_signup(
+    p_position_id, p_shift_id, p_volunteer_name, p_phone_number, p_starts_at, p_ends_at
+  );
+
+  -- A shift's window replaces the given one (see sync_signup_with_shift)
+  INSERT INTO volunteer_signups (
+    position_id, shift_id, volunteer_name, phone_number, starts_at, ends_at,
+    arrived, other_notes, organization
+  )
+  VALUES (
+    p_position_id, p_shift_id, trim(p_volunteer_name), trim(p_phone_number),
+    p_starts_at, p_ends_at, false, p_other_notes, p_organization
+  )
+  RETURNING * INTO v_signup;
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_volunteer(
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_volunteer_name text,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_other_notes text DEFAULT NULL,
+  p_organization text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous volunteer_signups;
+  v_signup volunteer_signups;
+  v_result jsonb;
+BEGIN
+  v_previous := lock_signup(p_signup_id, p_expected_version);
+
+  PERFORM validate_signup(
+    p_position_id, p_shift_id, p_volunteer_name, p_phone_number, p_starts_at, p_ends_at
+  );
+
+  UPDATE volunteer_signups
+  SET position_id = p_position_id,
+      shift_id = p_shift_id,
+      volunteer_name = trim(p_volunteer_name),
+      phone_number = trim(p_phone_number),
+      starts_at = p_starts_at,
+      ends_at = p_ends_at,
+      other_notes = p_other_notes,
+      organization = p_organization
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  v_result := signup_result(v_signup);
+
+  IF v_previous.position_id <> v_signup.position_id THEN
+    v_result := v_result || jsonb_build_object(
+      'previous_position', (
+        SELECT to_jsonb(ps) FROM position_staffing ps WHERE ps.position_id = v_previous.position_id
+      )
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_volunteer(p_signup_id uuid, p_expected_version integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  PERFORM lock_signup(p_signup_id, p_expected_version);
+
+  DELETE FROM volunteer_signups
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_arrival(
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_arrived boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  v_signup := lock_signup(p_signup_id, p_expected_version);
+
+  IF v_signup.arrived = p_arrived THEN
+    RAISE EXCEPTION 'Volunteer is already checked %', CASE WHEN p_arrived THEN 'in' ELSE 'out' END
+      USING ERRCODE = '40001';
+  END IF;
+
+  UPDATE volunteer_signups
+  SET arrived = p_arrived
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_volunteer(uuid, uuid, text, text, timestamptz, timestamptz, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_volunteer(uuid, integer, uuid, uuid, text, text, timestamptz, timestamptz, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_volunteer(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_arrival(uuid, integer, boolean) TO authenticated;
@@ -0,0 +1,459 @@
+/*
+  # Event Roles and Invitations
+
+  Every policy keyed off `events.user_id = auth.uid()`, so only the account that created
+  an event could manage it. Events now have members, each with a role:
+
+    - owner: manages everything, including the event itself and its team
+    - coordinator: edits positions, shifts and volunteer assignments
+    - checkin: reads the event, checks volunteers in and out, and reads messages
+
+  1. New Tables
+    - `event_members` (event_id, user_id, role); one row per user per event
+    - `event_invitations` (event_id, email, role, token); accepted with `accept_invitation`
+
+  2. Changes
+    - Every event's creator is added as its owner, now and for new events
+    - `has_event_role(event_id, roles)` checks the current user's role
+    - Policies on events, positions, shifts, signups, messages and automatic check-outs
+      are rewritten around membership
+    - Check-in staff can update a signup's arrival but nothing else about it
+    - An event always keeps at least one owner
+    - `remove_volunteer` reports when the caller may not remove the signup
+
+  3. Security
+    - `accept_invitation` only accepts an invitation sent to the signed-in user's email
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'event_role') THEN
+    CREATE TYPE event_role AS ENUM ('owner', 'coordinator', 'checkin');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS event_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  email text,
+  role event_role NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS event_members_user_id_idx ON event_members(user_id);
+
+CREATE TABLE IF NOT EXISTS event_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  role event_role NOT NULL,
+  token uuid UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+  invited_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES auth.users(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS event_invitations_pending_email_idx
+  ON event_invitations(event_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE event_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Existing events are owned by their creator
+INSERT INTO event_members (event_id, user_id, email, role)
+SELECT e.id, e.user_id, u.email, 'owner'
+FROM events e
+JOIN auth.users u ON u.id = e.user_id
+ON CONFLICT (event_id, user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION add_event_creator_as_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO event_members (event_id, user_id, email, role)
+  SELECT NEW.id, NEW.user_id, u.email, 'owner'
+  FROM auth.users u
+  WHERE u.id = NEW.user_id
+  ON CONFLICT (event_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_event_creator_as_owner ON events;
+
+CREATE TRIGGER add_event_creator_as_owner
+  AFTER INSERT ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION add_event_creator_as_owner();
+
+-- Runs as definer so policies on event_members can use it without recursing
+CREATE OR REPLACE FUNCTION has_event_role(
+  p_event_id uuid,
+  p_roles event_role[] DEFAULT ARRAY['owner', 'coordinator', 'checkin']::event_role[]
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM event_members
+    WHERE event_id = p_event_id
+    AND user_id = auth.uid()
+    AND role = ANY(p_roles)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION position_event_id(p_position_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT event_id FROM volunteer_positions WHERE id = p_position_id;
+$$;
+
+REVOKE ALL ON FUNCTION position_event_id(uuid) FROM public;
+
+GRANT EXECUTE ON FUNCTION has_event_role(uuid, event_role[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION position_event_id(uuid) TO authenticated;
+
+-- Events
+DROP POLICY IF EXISTS "Users can read their own events" ON events;
+DROP POLICY IF EXISTS "Users can update their own events" ON events;
+DROP POLICY IF EXISTS "Users can delete their own events" ON events;
+
+CREATE POLICY "Members can read their events"
+  ON events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR has_event_role(id));
+
+CREATE POLICY "Owners can update their events"
+  ON events
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(id, ARRAY['owner']::event_role[]));
+
+CREATE POLICY "Owners can delete their events"
+  ON events
+  FOR DELETE
+  TO authenticated
+  USING (has_event_role(id, ARRAY['owner']::event_role[]));
+
+-- Volunteer positions
+DROP POLICY IF EXISTS "Users can read volunteer positions for their events" ON volunteer_positions;
+DROP POLICY IF EXISTS "Users can insert volunteer positions for their events" ON volunteer_positions;
+DROP POLICY IF EXISTS "Users can update their volunteer positions" ON volunteer_positions;
+DROP POLICY IF EXISTS "Users can delete their volunteer positions" ON volunteer_positions;
+
+CREATE POLICY "Members can read volunteer positions for their events"
+  ON volunteer_positions
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+CREATE POLICY "Coordinators can insert volunteer positions for their events"
+  ON volunteer_positions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can update volunteer positions for their events"
+  ON volunteer_positions
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]))
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can delete volunteer positions for their events"
+  ON volunteer_positions
+  FOR DELETE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+-- Shifts
+DROP POLICY IF EXISTS "Users can read shifts for their events" ON shifts;
+DROP POLICY IF EXISTS "Users can insert shifts for their events" ON shifts;
+DROP POLICY IF EXISTS "Users can update shifts for their events" ON shifts;
+DROP POLICY IF EXISTS "Users can delete shifts for their events" ON shifts;
+
+CREATE POLICY "Members can read shifts for their events"
+  ON shifts
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(position_event_id(position_id)));
+
+CREATE POLICY "Coordinators can insert shifts for their events"
+  ON shifts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(position_event_id(position_id), ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can update shifts for their events"
+  ON shifts
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(position_event_id(position_id), ARRAY['owner', 'coordinator']::event_role[]))
+  WITH CHECK (has_event_role(position_event_id(position_id), ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can delete shifts for their events"
+  ON shifts
+  FOR DELETE
+  TO authenticated
+  USING (has_event_role(position_event_id(position_id), ARRAY['owner', 'coordinator']::event_role[]));
+
+-- Volunteer signups
+DROP POLICY IF EXISTS "Users can read volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Users can insert volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Users can update volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Users can delete volunteer signups for their events" ON volunteer_signups;
+
+CREATE POLICY "Members can read volunteer signups for their events"
+  ON volunteer_signups
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(position_event_id(position_id)));
+
+CREATE POLICY "Coordinators can insert volunteer signups for their events"
+  ON volunteer_signups
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(position_event_id(position_id), ARRAY['owner', 'coordinator']::event_role[]));
+
+-- Check-in staff may update rows too; guard_signup_update limits them to arrival
+CREATE POLICY "Members can update volunteer signups for their events"
+  ON volunteer_signups
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(position_event_id(position_id)))
+  WITH CHECK (has_event_role(position_event_id(position_id)));
+
+CREATE POLICY "Coordinators can delete volunteer signups for their events"
+  ON volunteer_signups
+  FOR DELETE
+  TO authenticated
+  USING (has_event_role(position_event_id(position_id), ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE OR REPLACE FUNCTION guard_signup_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Scheduled jobs and cascades from shift or event changes run without a user
+  IF auth.uid() IS NULL
+     OR pg_trigger_depth() > 1
+     OR has_event_role(position_event_id(OLD.position_id), ARRAY['owner', 'coordinator']::event_role[]) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.position_id IS DISTINCT FROM OLD.position_id
+     OR NEW.shift_id IS DISTINCT FROM OLD.shift_id
+     OR NEW.volunteer_name IS DISTINCT FROM OLD.volunteer_name
+     OR NEW.phone_number IS DISTINCT FROM OLD.phone_number
+     OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+     OR NEW.ends_at IS DISTINCT FROM OLD.ends_at
+     OR NEW.other_notes IS DISTINCT FROM OLD.other_notes
+     OR NEW.organization IS DISTINCT FROM OLD.organization THEN
+    RAISE EXCEPTION 'Check-in staff can only check volunteers in and out'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_signup_update ON volunteer_signups;
+
+CREATE TRIGGER guard_signup_update
+  BEFORE UPDATE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_signup_update();
+
+-- Messages
+DROP POLICY IF EXISTS "Users can read messages for their events" ON messages;
+DROP POLICY IF EXISTS "Users can update message status for their events" ON messages;
+
+CREATE POLICY "Members can read messages for their events"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+CREATE POLICY "Coordinators can update message status for their events"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+-- Automatic check-outs
+DROP POLICY IF EXISTS "Users can read auto check-outs for their events" ON auto_checkout_log;
+
+CREATE POLICY "Members can read auto check-outs for their events"
+  ON auto_checkout_log
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+-- Event members
+CREATE POLICY "Members can read the team for their events"
+  ON event_members
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+CREATE POLICY "Owners can add members to their events"
+  ON event_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(event_id, ARRAY['owner']::event_role[]));
+
+CREATE POLICY "Owners can change member roles for their events"
+  ON event_members
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner']::event_role[]))
+  WITH CHECK (has_event_role(event_id, ARRAY['owner']::event_role[]));
+
+CREATE POLICY "Owners can remove members from their events"
+  ON event_members
+  FOR DELETE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner']::event_role[]) OR user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION keep_event_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+     AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+     AND EXISTS (SELECT 1 FROM events WHERE id = OLD.event_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM event_members
+       WHERE event_id = OLD.event_id
+       AND role = 'owner'
+       AND id <> OLD.id
+     ) THEN
+    RAISE EXCEPTION 'An event must keep at least one owner' USING ERRCODE = '23514';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_event_owner ON event_members;
+
+CREATE TRIGGER keep_event_owner
+  BEFORE UPDATE OF role OR DELETE ON event_members
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_event_owner();
+
+-- Event invitations
+CREATE POLICY "Owners and invitees can read invitations"
+  ON event_invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_event_role(event_id, ARRAY['owner']::event_role[])
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Owners can invite people to their events"
+  ON event_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(event_id, ARRAY['owner']::event_role[]));
+
+CREATE POLICY "Owners and invitees can delete invitations"
+  ON event_invitations
+  FOR DELETE
+  TO authenticated
+  USING (
+    has_event_role(event_id, ARRAY['owner']::event_role[])
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+-- Join an event with the invited role. Returns the event id.
+CREATE OR REPLACE FUNCTION accept_invitation(p_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation event_invitations;
+  v_email text := auth.jwt() ->> 'email';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invitation' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM event_invitations
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been accepted' USING ERRCODE = '22023';
+  END IF;
+
+  IF lower(v_invitation.email) <> lower(coalesce(v_email, '')) THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address' USING ERRCODE = '42501';
+  END IF;
+
+  -- An existing member takes the invited role unless they are already an owner
+  INSERT INTO event_members (event_id, user_id, email, role)
+  VALUES (v_invitation.event_id, auth.uid(), v_email, v_invitation.role)
+  ON CONFLICT (event_id, user_id) DO UPDATE
+  SET role = EXCLUDED.role
+  WHERE event_members.role <> 'owner';
+
+  UPDATE event_invitations
+  SET accepted_at = now(),
+      accepted_by = auth.uid()
+  WHERE id = v_invitation.id;
+
+  RETURN v_invitation.event_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_invitation(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION remove_volunteer(p_signup_id uuid, p_expected_version integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  PERFORM lock_signup(p_signup_id, p_expected_version);
+
+  DELETE FROM volunteer_signups
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  -- Check-in staff can see and lock the row, but the delete policy filters it out
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You do not have permission to remove this volunteer' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN signup_result(v_signup);
+END;
+$$;
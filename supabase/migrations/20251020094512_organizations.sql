@@ -0,0 +1,386 @@
+/*
+  # Organizations
+
+  Events belonged to the account that created them, plus whoever was invited to each one.
+  An organization now owns events and has its own members:
+
+    - admin: manages the organization, its members, and every one of its events
+    - member: creates events in the organization and coordinates every one of them
+
+  Event roles still apply on top of this. A user's role on an event is the strongest of
+  their event membership and the role their organization membership gives them.
+
+  1. New Tables
+    - `organizations` (name, default_timezone)
+    - `organization_members` (organization_id, user_id, role)
+    - `organization_invitations` (organization_id, email, role, token); accepted with
+      `accept_organization_invitation`
+
+  2. Changes
+    - `events.organization_id`; every existing event creator gets an organization that
+      takes over their events
+    - `effective_event_role(event_id)` combines event and organization membership, and
+      `has_event_role` now uses it
+    - `my_event_roles` view lists the current user's role on each event they can reach
+    - New events must be created in an organization the creator belongs to, and can only
+      be moved to another organization the owner belongs to
+    - An organization always keeps at least one admin
+
+  3. Security
+    - Organizations are created through `create_organization`, which adds the caller
+      as its admin
+    - `accept_organization_invitation` only accepts an invitation sent to the signed-in
+      user's email
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'organization_role') THEN
+    CREATE TYPE organization_role AS ENUM ('admin', 'member');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  default_timezone text NOT NULL DEFAULT 'UTC',
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  email text,
+  role organization_role NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_user_id_idx ON organization_members(user_id);
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  role organization_role NOT NULL,
+  token uuid UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+  invited_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES auth.users(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS organization_invitations_pending_email_idx
+  ON organization_invitations(organization_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'organization_id'
+  ) THEN
+    ALTER TABLE events ADD COLUMN organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Every account that has created events gets an organization that owns them
+INSERT INTO organizations (name, default_timezone, created_by)
+SELECT
+  split_part(u.email, '@', 1) || '''s organization',
+  coalesce((
+    SELECT e.timezone FROM events e
+    WHERE e.user_id = u.id
+    ORDER BY e.created_at DESC
+    LIMIT 1
+  ), 'UTC'),
+  u.id
+FROM auth.users u
+WHERE EXISTS (SELECT 1 FROM events e WHERE e.user_id = u.id AND e.organization_id IS NULL);
+
+INSERT INTO organization_members (organization_id, user_id, email, role)
+SELECT o.id, o.created_by, u.email, 'admin'
+FROM organizations o
+JOIN auth.users u ON u.id = o.created_by
+ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+UPDATE events e
+SET organization_id = o.id
+FROM organizations o
+WHERE o.created_by = e.user_id
+AND e.organization_id IS NULL;
+
+ALTER TABLE events ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS events_organization_id_idx ON events(organization_id);
+
+-- Runs as definer so policies on organization_members can use it without recursing
+CREATE OR REPLACE FUNCTION has_organization_role(
+  p_organization_id uuid,
+  p_roles organization_role[] DEFAULT ARRAY['admin', 'member']::organization_role[]
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id
+    AND user_id = auth.uid()
+    AND role = ANY(p_roles)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_organization_role(uuid, organization_role[]) TO authenticated;
+
+-- The strongest role the current user holds on an event, or null. Organization admins act
+-- as owners and organization members as coordinators; event_role sorts strongest first.
+CREATE OR REPLACE FUNCTION effective_event_role(p_event_id uuid)
+RETURNS event_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM (
+    SELECT role
+    FROM event_members
+    WHERE event_id = p_event_id
+    AND user_id = auth.uid()
+    UNION ALL
+    SELECT CASE om.role WHEN 'admin' THEN 'owner'::event_role ELSE 'coordinator'::event_role END
+    FROM events e
+    JOIN organization_members om ON om.organization_id = e.organization_id
+    WHERE e.id = p_event_id
+    AND om.user_id = auth.uid()
+  ) roles
+  ORDER BY role
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION effective_event_role(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION has_event_role(
+  p_event_id uuid,
+  p_roles event_role[] DEFAULT ARRAY['owner', 'coordinator', 'checkin']::event_role[]
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(effective_event_role(p_event_id) = ANY(p_roles), false);
+$$;
+
+CREATE OR REPLACE VIEW my_event_roles
+WITH (security_invoker = true)
+AS
+SELECT e.id AS event_id, effective_event_role(e.id) AS role
+FROM events e
+WHERE effective_event_role(e.id) IS NOT NULL;
+
+GRANT SELECT ON my_event_roles TO authenticated;
+
+-- Events
+DROP POLICY IF EXISTS "Users can insert their own events" ON events;
+
+CREATE POLICY "Organization members can create events"
+  ON events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND has_organization_role(organization_id));
+
+DROP POLICY IF EXISTS "Owners can update their events" ON events;
+
+CREATE POLICY "Owners can update their events"
+  ON events
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(id, ARRAY['owner']::event_role[]))
+  WITH CHECK (has_event_role(id, ARRAY['owner']::event_role[]) AND has_organization_role(organization_id));
+
+-- Organizations
+CREATE POLICY "Members can read their organizations"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_role(id));
+
+CREATE POLICY "Admins can update their organizations"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(id, ARRAY['admin']::organization_role[]))
+  WITH CHECK (has_organization_role(id, ARRAY['admin']::organization_role[]));
+
+CREATE POLICY "Admins can delete their organizations"
+  ON organizations
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(id, ARRAY['admin']::organization_role[]));
+
+-- Create an organization with the caller as its admin. Returns the organization id.
+CREATE OR REPLACE FUNCTION create_organization(p_name text, p_default_timezone text DEFAULT 'UTC')
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create an organization' USING ERRCODE = '42501';
+  END IF;
+
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Organization name is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO organizations (name, default_timezone, created_by)
+  VALUES (trim(p_name), coalesce(p_default_timezone, 'UTC'), auth.uid())
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (v_organization_id, auth.uid(), auth.jwt() ->> 'email', 'admin');
+
+  RETURN v_organization_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_organization(text, text) TO authenticated;
+
+-- Organization members
+CREATE POLICY "Members can read their organization's members"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_role(organization_id));
+
+CREATE POLICY "Admins can change member roles"
+  ON organization_members
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(organization_id, ARRAY['admin']::organization_role[]))
+  WITH CHECK (has_organization_role(organization_id, ARRAY['admin']::organization_role[]));
+
+CREATE POLICY "Admins can remove members"
+  ON organization_members
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(organization_id, ARRAY['admin']::organization_role[]) OR user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION keep_organization_admin()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role = 'admin'
+     AND (TG_OP = 'DELETE' OR NEW.role <> 'admin')
+     AND EXISTS (SELECT 1 FROM organizations WHERE id = OLD.organization_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM organization_members
+       WHERE organization_id = OLD.organization_id
+       AND role = 'admin'
+       AND id <> OLD.id
+     ) THEN
+    RAISE EXCEPTION 'An organization must keep at least one admin' USING ERRCODE = '23514';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_organization_admin ON organization_members;
+
+CREATE TRIGGER keep_organization_admin
+  BEFORE UPDATE OF role OR DELETE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_organization_admin();
+
+-- Organization invitations
+CREATE POLICY "Admins and invitees can read organization invitations"
+  ON organization_invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_organization_role(organization_id, ARRAY['admin']::organization_role[])
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Admins can invite people to their organizations"
+  ON organization_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_organization_role(organization_id, ARRAY['admin']::organization_role[]));
+
+CREATE POLICY "Admins and invitees can delete organization invitations"
+  ON organization_invitations
+  FOR DELETE
+  TO authenticated
+  USING (
+    has_organization_role(organization_id, ARRAY['admin']::organization_role[])
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+-- Join an organization with the invited role. Returns the organization id.
+CREATE OR REPLACE FUNCTION accept_organization_invitation(p_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation organization_invitations;
+  v_email text := auth.jwt() ->> 'email';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invitation' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM organization_invitations
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been accepted' USING ERRCODE = '22023';
+  END IF;
+
+  IF lower(v_invitation.email) <> lower(coalesce(v_email, '')) THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address' USING ERRCODE = '42501';
+  END IF;
+
+  -- An existing member takes the invited role unless they are already an admin
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (v_invitation.organization_id, auth.uid(), v_email, v_invitation.role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE
+  SET role = EXCLUDED.role
+  WHERE organization_members.role <> 'admin';
+
+  UPDATE organization_invitations
+  SET accepted_at = now(),
+      accepted_by = auth.uid()
+  WHERE id = v_invitation.id;
+
+  RETURN v_invitation.organization_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_organization_invitation(uuid) TO authenticated;
@@ -0,0 +1,307 @@
+/*
+  # Volunteer Directory
+
+  A volunteer only existed as the name and phone number copied into each signup, so the
+  same person showed up as unrelated records across events. Each organization now keeps
+  a directory of volunteer profiles, and signups point at the profile they are for.
+
+  1. New Tables
+    - `volunteers` (organization_id, name, phone_number, email, organization, skills, notes)
+
+  2. Changes
+    - Add `volunteer_id` to `volunteer_signups`
+    - Existing signups are grouped into profiles by organization, phone number and name
+    - A signup without a `volunteer_id` is linked to the profile in its event's
+      organization with the same phone number and name, and one is created if there
+      is none
+    - Renaming a profile or changing its phone number updates its signups
+    - `assign_volunteer` and `update_volunteer` take an optional `p_volunteer_id`
+
+  3. Security
+    - Organization members can read and edit their organization's directory
+    - Signups are linked as the definer, so event coordinators who are not organization
+      members can still assign volunteers, but only to profiles in the event's organization
+    - Check-in staff cannot change a signup's `volunteer_id`
+*/
+
+CREATE TABLE IF NOT EXISTS volunteers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  phone_number text NOT NULL,
+  -- Digits only, so differently formatted numbers still match
+  phone_key text GENERATED ALWAYS AS (regexp_replace(phone_number, '\D', '', 'g')) STORED,
+  email text,
+  organization text,
+  skills text[] NOT NULL DEFAULT '{}',
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS volunteers_organization_phone_idx ON volunteers(organization_id, phone_key);
+
+ALTER TABLE volunteers ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_signups' AND column_name = 'volunteer_id'
+  ) THEN
+    ALTER TABLE volunteer_signups ADD COLUMN volunteer_id uuid REFERENCES volunteers(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS volunteer_signups_volunteer_id_idx ON volunteer_signups(volunteer_id);
+
+-- One profile per organization, phone number and name, from each person's latest signup
+INSERT INTO volunteers (organization_id, name, phone_number, organization)
+SELECT DISTINCT ON (e.organization_id, regexp_replace(s.phone_number, '\D', '', 'g'), lower(trim(s.volunteer_name)))
+  e.organization_id,
+  trim(s.volunteer_name),
+  trim(s.phone_number),
+  s.organization
+FROM volunteer_signups s
+JOIN volunteer_positions p ON p.id = s.position_id
+JOIN events e ON e.id = p.event_id
+WHERE s.volunteer_id IS NULL
+ORDER BY e.organization_id, regexp_replace(s.phone_number, '\D', '', 'g'), lower(trim(s.volunteer_name)), s.created_at DESC;
+
+UPDATE volunteer_signups s
+SET volunteer_id = v.id
+FROM volunteer_positions p, events e, volunteers v
+WHERE p.id = s.position_id
+AND e.id = p.event_id
+AND v.organization_id = e.organization_id
+AND v.phone_key = regexp_replace(s.phone_number, '\D', '', 'g')
+AND lower(v.name) = lower(trim(s.volunteer_name))
+AND s.volunteer_id IS NULL;
+
+CREATE OR REPLACE FUNCTION link_signup_volunteer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id uuid;
+BEGIN
+  SELECT e.organization_id INTO v_organization_id
+  FROM volunteer_positions p
+  JOIN events e ON e.id = p.event_id
+  WHERE p.id = NEW.position_id;
+
+  IF NEW.volunteer_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE id = NEW.volunteer_id
+      AND organization_id = v_organization_id
+    ) THEN
+      RAISE EXCEPTION 'Volunteer is not in this event''s organization' USING ERRCODE = '22023';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.volunteer_id
+  FROM volunteers
+  WHERE organization_id = v_organization_id
+  AND phone_key = regexp_replace(NEW.phone_number, '\D', '', 'g')
+  AND lower(name) = lower(trim(NEW.volunteer_name))
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NEW.volunteer_id IS NULL THEN
+    INSERT INTO volunteers (organization_id, name, phone_number, organization)
+    VALUES (v_organization_id, trim(NEW.volunteer_name), trim(NEW.phone_number), NEW.organization)
+    RETURNING id INTO NEW.volunteer_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_signup_volunteer ON volunteer_signups;
+
+-- Not fired by the ON DELETE SET NULL cascade, which only touches volunteer_id
+CREATE TRIGGER link_signup_volunteer
+  BEFORE INSERT OR UPDATE OF volunteer_name, phone_number, position_id ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION link_signup_volunteer();
+
+CREATE OR REPLACE FUNCTION sync_volunteer_signups()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF NEW.name IS DISTINCT FROM OLD.name OR NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+    UPDATE volunteer_signups
+    SET volunteer_name = NEW.name,
+        phone_number = NEW.phone_number
+    WHERE volunteer_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_volunteer_signups ON volunteers;
+
+CREATE TRIGGER sync_volunteer_signups
+  BEFORE UPDATE ON volunteers
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_volunteer_signups();
+
+CREATE OR REPLACE FUNCTION guard_signup_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Scheduled jobs and cascades from shift or event changes run without a user
+  IF auth.uid() IS NULL
+     OR pg_trigger_depth() > 1
+     OR has_event_role(position_event_id(OLD.position_id), ARRAY['owner', 'coordinator']::event_role[]) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.position_id IS DISTINCT FROM OLD.position_id
+     OR NEW.shift_id IS DISTINCT FROM OLD.shift_id
+     OR NEW.volunteer_id IS DISTINCT FROM OLD.volunteer_id
+     OR NEW.volunteer_name IS DISTINCT FROM OLD.volunteer_name
+     OR NEW.phone_number IS DISTINCT FROM OLD.phone_number
+     OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+     OR NEW.ends_at IS DISTINCT FROM OLD.ends_at
+     OR NEW.other_notes IS DISTINCT FROM OLD.other_notes
+     OR NEW.organization IS DISTINCT FROM OLD.organization THEN
+    RAISE EXCEPTION 'Check-in staff can only check volunteers in and out'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE POLICY "Organization members can read their volunteers"
+  ON volunteers
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_role(organization_id));
+
+CREATE POLICY "Organization members can add volunteers"
+  ON volunteers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_organization_role(organization_id));
+
+CREATE POLICY "Organization members can update their volunteers"
+  ON volunteers
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(organization_id))
+  WITH CHECK (has_organization_role(organization_id));
+
+CREATE POLICY "Organization members can delete their volunteers"
+  ON volunteers
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(organization_id));
+
+-- Recreated with p_volunteer_id; a new trailing default would only add an overload
+DROP FUNCTION IF EXISTS assign_volunteer(uuid, uuid, text, text, timestamptz, timestamptz, text, text);
+DROP FUNCTION IF EXISTS update_volunteer(uuid, integer, uuid, uuid, text, text, timestamptz, timestamptz, text, text);
+
+CREATE OR REPLACE FUNCTION assign_volunteer(
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_volunteer_name text,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_other_notes text DEFAULT NULL,
+  p_organization text DEFAULT NULL,
+  p_volunteer_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  PERFORM validate_signup(
+    p_position_id, p_shift_id, p_volunteer_name, p_phone_number, p_starts_at, p_ends_at
+  );
+
+  -- A shift's window replaces the given one (see sync_signup_with_shift)
+  INSERT INTO volunteer_signups (
+    position_id, shift_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at,
+    arrived, other_notes, organization
+  )
+  VALUES (
+    p_position_id, p_shift_id, p_volunteer_id, trim(p_volunteer_name), trim(p_phone_number),
+    p_starts_at, p_ends_at, false, p_other_notes, p_organization
+  )
+  RETURNING * INTO v_signup;
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_volunteer(
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_volunteer_name text,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_other_notes text DEFAULT NULL,
+  p_organization text DEFAULT NULL,
+  p_volunteer_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous volunteer_signups;
+  v_signup volunteer_signups;
+  v_result jsonb;
+BEGIN
+  v_previous := lock_signup(p_signup_id, p_expected_version);
+
+  PERFORM validate_signup(
+    p_position_id, p_shift_id, p_volunteer_name, p_phone_number, p_starts_at, p_ends_at
+  );
+
+  -- Without a volunteer_id the signup is relinked by name and phone number
+  UPDATE volunteer_signups
+  SET position_id = p_position_id,
+      shift_id = p_shift_id,
+      volunteer_id = p_volunteer_id,
+      volunteer_name = trim(p_volunteer_name),
+      phone_number = trim(p_phone_number),
+      starts_at = p_starts_at,
+      ends_at = p_ends_at,
+      other_notes = p_other_notes,
+      organization = p_organization
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  v_result := signup_result(v_signup);
+
+  IF v_previous.position_id <> v_signup.position_id THEN
+    v_result := v_result || jsonb_build_object(
+      'previous_position', (
+        SELECT to_jsonb(ps) FROM position_staffing ps WHERE ps.position_id = v_previous.position_id
+      )
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_volunteer(uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_volunteer(uuid, integer, uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid) TO authenticated;
@@ -0,0 +1,278 @@
+/*
+  # Phone Number Normalization and Volunteer Merging
+
+  Phone numbers were stored as typed, so "(555) 123-4567" and "+15551234567" looked like
+  different people. Every phone number is now stored in E.164 form, and duplicate
+  directory profiles can be merged into one.
+
+  1. Changes
+    - Add `phone_country_code` to `organizations` (calling code digits, default '1'),
+      used for numbers entered without one
+    - `normalize_phone(phone, country_code)` returns the E.164 form, or null when the
+      number cannot be valid
+    - Phone numbers on signups, directory profiles and messages are normalized whenever
+      they are written; an invalid new number is rejected
+    - Existing numbers are normalized where possible and otherwise left as they are
+    - Signups are linked to directory profiles by their normalized number
+    - `merge_volunteers(keep_id, merge_ids)` moves the other profiles' signups and
+      messages to the kept profile, fills in its missing details and deletes the others
+
+  2. Security
+    - `merge_volunteers` runs with the caller's permissions, so only members of the
+      profiles' organization can merge them
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'organizations' AND column_name = 'phone_country_code'
+  ) THEN
+    ALTER TABLE organizations ADD COLUMN phone_country_code text NOT NULL DEFAULT '1'
+      CHECK (phone_country_code ~ '^[1-9][0-9]{0,2}$');
+  END IF;
+END $$;
+
+-- Keep in sync with normalizePhoneNumber in src/lib/phone.ts
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text, p_country_code text DEFAULT '1')
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_digits text := regexp_replace(coalesce(p_phone, ''), '\D', '', 'g');
+BEGIN
+  IF v_digits = '' THEN
+    RETURN NULL;
+  END IF;
+
+  IF left(trim(p_phone), 1) = '+' THEN
+    NULL; -- Already has a calling code
+  ELSIF left(v_digits, 2) = '00' THEN
+    v_digits := substr(v_digits, 3);
+  ELSIF p_country_code = '1' AND length(v_digits) = 11 AND left(v_digits, 1) = '1' THEN
+    NULL; -- North American number dialled with its leading 1
+  ELSE
+    -- National number; drop the trunk prefix
+    v_digits := ltrim(v_digits, '0');
+    IF p_country_code = '1' AND length(v_digits) <> 10 THEN
+      RETURN NULL;
+    END IF;
+    v_digits := p_country_code || v_digits;
+  END IF;
+
+  IF length(v_digits) NOT BETWEEN 8 AND 15 OR left(v_digits, 1) = '0' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN '+' || v_digits;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION normalize_phone(text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION event_phone_country_code(p_event_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((
+    SELECT o.phone_country_code
+    FROM events e
+    JOIN organizations o ON o.id = e.organization_id
+    WHERE e.id = p_event_id
+  ), '1');
+$$;
+
+REVOKE ALL ON FUNCTION event_phone_country_code(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION event_phone_country_code(uuid) TO authenticated;
+
+-- Existing numbers
+UPDATE volunteers v
+SET phone_number = coalesce(normalize_phone(v.phone_number, o.phone_country_code), v.phone_number)
+FROM organizations o
+WHERE o.id = v.organization_id;
+
+UPDATE volunteer_signups s
+SET phone_number = coalesce(
+  normalize_phone(s.phone_number, event_phone_country_code(p.event_id)),
+  s.phone_number
+)
+FROM volunteer_positions p
+WHERE p.id = s.position_id
+AND s.phone_number IS DISTINCT FROM normalize_phone(s.phone_number, event_phone_country_code(p.event_id));
+
+UPDATE messages m
+SET phone_number = coalesce(
+  normalize_phone(m.phone_number, event_phone_country_code(m.event_id)),
+  m.phone_number
+)
+WHERE m.phone_number IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION normalize_phone_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_country_code text;
+  v_phone text;
+BEGIN
+  -- Unchanged numbers, including ones stored before normalization, are left alone
+  IF NEW.phone_number IS NULL
+     OR (TG_OP = 'UPDATE' AND NEW.phone_number IS NOT DISTINCT FROM OLD.phone_number) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'volunteers' THEN
+    SELECT phone_country_code INTO v_country_code
+    FROM organizations WHERE id = NEW.organization_id;
+  ELSIF TG_TABLE_NAME = 'volunteer_signups' THEN
+    v_country_code := event_phone_country_code(position_event_id(NEW.position_id));
+  ELSE
+    v_country_code := event_phone_country_code(NEW.event_id);
+  END IF;
+
+  v_phone := normalize_phone(NEW.phone_number, coalesce(v_country_code, '1'));
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number' USING ERRCODE = '22023';
+  END IF;
+
+  NEW.phone_number := v_phone;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_phone_number ON volunteers;
+DROP TRIGGER IF EXISTS normalize_phone_number ON volunteer_signups;
+DROP TRIGGER IF EXISTS normalize_phone_number ON messages;
+
+CREATE TRIGGER normalize_phone_number
+  BEFORE INSERT OR UPDATE OF phone_number ON volunteers
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_phone_number();
+
+CREATE TRIGGER normalize_phone_number
+  BEFORE INSERT OR UPDATE OF phone_number ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_phone_number();
+
+CREATE TRIGGER normalize_phone_number
+  BEFORE INSERT OR UPDATE OF phone_number ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_phone_number();
+
+-- Triggers fire in name order, so this runs before normalize_phone_number and has to
+-- normalize the number itself to match and create profiles
+CREATE OR REPLACE FUNCTION link_signup_volunteer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id uuid;
+  v_country_code text;
+  v_phone text;
+BEGIN
+  SELECT e.organization_id, o.phone_country_code INTO v_organization_id, v_country_code
+  FROM volunteer_positions p
+  JOIN events e ON e.id = p.event_id
+  JOIN organizations o ON o.id = e.organization_id
+  WHERE p.id = NEW.position_id;
+
+  IF NEW.volunteer_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE id = NEW.volunteer_id
+      AND organization_id = v_organization_id
+    ) THEN
+      RAISE EXCEPTION 'Volunteer is not in this event''s organization' USING ERRCODE = '22023';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  v_phone := coalesce(normalize_phone(NEW.phone_number, v_country_code), trim(NEW.phone_number));
+
+  SELECT id INTO NEW.volunteer_id
+  FROM volunteers
+  WHERE organization_id = v_organization_id
+  AND phone_key = regexp_replace(v_phone, '\D', '', 'g')
+  AND lower(name) = lower(trim(NEW.volunteer_name))
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NEW.volunteer_id IS NULL THEN
+    INSERT INTO volunteers (organization_id, name, phone_number, organization)
+    VALUES (v_organization_id, trim(NEW.volunteer_name), v_phone, NEW.organization)
+    RETURNING id INTO NEW.volunteer_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Merge duplicate profiles into p_keep_id. Returns p_keep_id.
+CREATE OR REPLACE FUNCTION merge_volunteers(p_keep_id uuid, p_merge_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_keep volunteers;
+  v_merge_ids uuid[] := array_remove(p_merge_ids, p_keep_id);
+  v_found integer;
+BEGIN
+  SELECT * INTO v_keep FROM volunteers WHERE id = p_keep_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Volunteer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT count(*) INTO v_found
+  FROM volunteers
+  WHERE id = ANY(v_merge_ids)
+  AND organization_id = v_keep.organization_id;
+
+  IF v_found = 0 OR v_found <> cardinality(v_merge_ids) THEN
+    RAISE EXCEPTION 'Select other volunteers from the same organization to merge' USING ERRCODE = '22023';
+  END IF;
+
+  -- The kept profile fills its blanks from the others and gains their skills and notes
+  UPDATE volunteers v
+  SET email = coalesce(v.email, m.email),
+      organization = coalesce(v.organization, m.organization),
+      skills = ARRAY(SELECT DISTINCT unnest(v.skills || m.skills)),
+      notes = nullif(concat_ws(E'\n', v.notes, m.notes), '')
+  FROM (
+    SELECT
+      (array_agg(email ORDER BY created_at) FILTER (WHERE email IS NOT NULL))[1] AS email,
+      (array_agg(organization ORDER BY created_at) FILTER (WHERE organization IS NOT NULL))[1] AS organization,
+      ARRAY(SELECT DISTINCT unnest(skills) FROM volunteers WHERE id = ANY(v_merge_ids)) AS skills,
+      string_agg(notes, E'\n' ORDER BY created_at) AS notes
+    FROM volunteers
+    WHERE id = ANY(v_merge_ids)
+  ) m
+  WHERE v.id = p_keep_id
+  RETURNING * INTO v_keep;
+
+  -- Messages sent from the merged numbers now come from the kept one
+  UPDATE messages
+  SET phone_number = v_keep.phone_number
+  WHERE phone_number IN (SELECT phone_number FROM volunteers WHERE id = ANY(v_merge_ids))
+  AND event_id IN (SELECT id FROM events WHERE organization_id = v_keep.organization_id);
+
+  UPDATE volunteer_signups
+  SET volunteer_id = p_keep_id,
+      volunteer_name = v_keep.name,
+      phone_number = v_keep.phone_number
+  WHERE volunteer_id = ANY(v_merge_ids);
+
+  DELETE FROM volunteers WHERE id = ANY(v_merge_ids);
+
+  RETURN p_keep_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_volunteers(uuid, uuid[]) TO authenticated;
@@ -0,0 +1,188 @@
+/*
+  # Shift Conflict Detection
+
+  The same person could be booked at two positions of an event at overlapping times.
+  Assigning, editing and moving a volunteer now checks for that.
+
+  1. Changes
+    - `find_signup_conflicts` lists the signups of the same person in the same event whose
+      window overlaps the given one. A person is matched by directory profile or by
+      normalized phone number.
+    - `assign_volunteer` and `update_volunteer` reject a conflicting signup unless called
+      with `p_allow_conflict => true`. The error uses SQLSTATE 23P01 and lists the
+      conflicting signups in its detail.
+*/
+
+CREATE OR REPLACE FUNCTION find_signup_conflicts(
+  p_position_id uuid,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_exclude_signup_id uuid DEFAULT NULL,
+  p_volunteer_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  signup_id uuid,
+  volunteer_name text,
+  position_name text,
+  starts_at timestamptz,
+  ends_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH target AS (
+    SELECT
+      p.event_id,
+      normalize_phone(p_phone_number, event_phone_country_code(p.event_id)) AS phone_number
+    FROM volunteer_positions p
+    WHERE p.id = p_position_id
+  )
+  SELECT s.id, s.volunteer_name, p.name, s.starts_at, s.ends_at
+  FROM volunteer_signups s
+  JOIN volunteer_positions p ON p.id = s.position_id
+  JOIN target t ON t.event_id = p.event_id
+  WHERE s.id IS DISTINCT FROM p_exclude_signup_id
+  AND s.starts_at < p_ends_at
+  AND s.ends_at > p_starts_at
+  AND (
+    s.phone_number = t.phone_number
+    OR (p_volunteer_id IS NOT NULL AND s.volunteer_id = p_volunteer_id)
+  )
+  ORDER BY s.starts_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_signup_conflicts(uuid, text, timestamptz, timestamptz, uuid, uuid) TO authenticated;
+
+-- Raise unless the signup is the person's only one at that time
+CREATE OR REPLACE FUNCTION check_signup_conflicts(p_signup volunteer_signups)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_conflicts jsonb;
+BEGIN
+  SELECT jsonb_agg(to_jsonb(c)) INTO v_conflicts
+  FROM find_signup_conflicts(
+    p_signup.position_id, p_signup.phone_number, p_signup.starts_at, p_signup.ends_at,
+    p_signup.id, p_signup.volunteer_id
+  ) c;
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION '% is already assigned to % at an overlapping time',
+      p_signup.volunteer_name,
+      (SELECT string_agg(DISTINCT c ->> 'position_name', ', ') FROM jsonb_array_elements(v_conflicts) c)
+      USING ERRCODE = '23P01', DETAIL = v_conflicts::text;
+  END IF;
+END;
+$$;
+
+-- Recreated with p_allow_conflict; a new trailing default would only add an overload
+DROP FUNCTION IF EXISTS assign_volunteer(uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid);
+DROP FUNCTION IF EXISTS update_volunteer(uuid, integer, uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION assign_volunteer(
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_volunteer_name text,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_other_notes text DEFAULT NULL,
+  p_organization text DEFAULT NULL,
+  p_volunteer_id uuid DEFAULT NULL,
+  p_allow_conflict boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  PERFORM validate_signup(
+    p_position_id, p_shift_id, p_volunteer_name, p_phone_number, p_starts_at, p_ends_at
+  );
+
+  -- A shift's window replaces the given one (see sync_signup_with_shift)
+  INSERT INTO volunteer_signups (
+    position_id, shift_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at,
+    arrived, other_notes, organization
+  )
+  VALUES (
+    p_position_id, p_shift_id, p_volunteer_id, trim(p_volunteer_name), trim(p_phone_number),
+    p_starts_at, p_ends_at, false, p_other_notes, p_organization
+  )
+  RETURNING * INTO v_signup;
+
+  -- Checked after the write so the shift's window and the normalized phone are used
+  IF NOT p_allow_conflict THEN
+    PERFORM check_signup_conflicts(v_signup);
+  END IF;
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_volunteer(
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_volunteer_name text,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_other_notes text DEFAULT NULL,
+  p_organization text DEFAULT NULL,
+  p_volunteer_id uuid DEFAULT NULL,
+  p_allow_conflict boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous volunteer_signups;
+  v_signup volunteer_signups;
+  v_result jsonb;
+BEGIN
+  v_previous := lock_signup(p_signup_id, p_expected_version);
+
+  PERFORM validate_signup(
+    p_position_id, p_shift_id, p_volunteer_name, p_phone_number, p_starts_at, p_ends_at
+  );
+
+  -- Without a volunteer_id the signup is relinked by name and phone number
+  UPDATE volunteer_signups
+  SET position_id = p_position_id,
+      shift_id = p_shift_id,
+      volunteer_id = p_volunteer_id,
+      volunteer_name = trim(p_volunteer_name),
+      phone_number = trim(p_phone_number),
+      starts_at = p_starts_at,
+      ends_at = p_ends_at,
+      other_notes = p_other_notes,
+      organization = p_organization
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  IF NOT p_allow_conflict THEN
+    PERFORM check_signup_conflicts(v_signup);
+  END IF;
+
+  v_result := signup_result(v_signup);
+
+  IF v_previous.position_id <> v_signup.position_id THEN
+    v_result := v_result || jsonb_build_object(
+      'previous_position', (
+        SELECT to_jsonb(ps) FROM position_staffing ps WHERE ps.position_id = v_previous.position_id
+      )
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_volunteer(uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_volunteer(uuid, integer, uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid, boolean) TO authenticated;
@@ -0,0 +1,54 @@
+/*
+  # Bulk Volunteer Import
+
+  Imports the rows of a spreadsheet in one transaction, so a failing row leaves none of
+  the others behind.
+
+  1. Changes
+    - `import_volunteers(p_signups jsonb)` assigns every signup in the array through
+      `assign_volunteer`, with the same validation and conflict check as the form. Each
+      element carries the fields of `assign_volunteer` and the file's `line`, which
+      prefixes the error of a failing row. Returns the number of signups created.
+
+  2. Security
+    - Runs as the caller, so the signups policies decide which positions can be filled.
+*/
+
+CREATE OR REPLACE FUNCTION import_volunteers(p_signups jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row jsonb;
+  v_count integer := 0;
+BEGIN
+  IF jsonb_typeof(p_signups) <> 'array' THEN
+    RAISE EXCEPTION 'Expected an array of signups' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_signups)
+  LOOP
+    BEGIN
+      PERFORM assign_volunteer(
+        (v_row ->> 'position_id')::uuid,
+        (v_row ->> 'shift_id')::uuid,
+        v_row ->> 'volunteer_name',
+        v_row ->> 'phone_number',
+        (v_row ->> 'starts_at')::timestamptz,
+        (v_row ->> 'ends_at')::timestamptz,
+        v_row ->> 'other_notes',
+        v_row ->> 'organization',
+        (v_row ->> 'volunteer_id')::uuid
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- Re-raised, so the whole import rolls back
+      RAISE EXCEPTION 'Line %: %', coalesce(v_row ->> 'line', '?'), SQLERRM USING ERRCODE = SQLSTATE;
+    END;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_volunteers(jsonb) TO authenticated;
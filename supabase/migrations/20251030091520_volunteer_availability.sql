@@ -0,0 +1,82 @@
+/*
+  # Volunteer Availability
+
+  The auto-scheduler fills an event's shifts from a pool of directory volunteers. Each
+  entry in the pool is a window in which a volunteer can work at the event, optionally
+  with the positions they would like.
+
+  1. New Tables
+    - `volunteer_availability` (event_id, volunteer_id, starts_at, ends_at,
+      preferred_position_ids)
+
+  2. Security
+    - Event owners and coordinators manage the pool, for volunteers in the event's
+      organization directory
+*/
+
+CREATE TABLE IF NOT EXISTS volunteer_availability (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  volunteer_id uuid REFERENCES volunteers(id) ON DELETE CASCADE NOT NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  preferred_position_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT volunteer_availability_ends_after_start CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS volunteer_availability_event_id_idx ON volunteer_availability(event_id);
+CREATE INDEX IF NOT EXISTS volunteer_availability_volunteer_id_idx ON volunteer_availability(volunteer_id);
+
+ALTER TABLE volunteer_availability ENABLE ROW LEVEL SECURITY;
+
+-- Availability may only point at a profile in the event's organization
+CREATE OR REPLACE FUNCTION is_event_volunteer(p_event_id uuid, p_volunteer_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM volunteers v
+    JOIN events e ON e.organization_id = v.organization_id
+    WHERE v.id = p_volunteer_id
+    AND e.id = p_event_id
+  );
+$$;
+
+REVOKE ALL ON FUNCTION is_event_volunteer(uuid, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION is_event_volunteer(uuid, uuid) TO authenticated;
+
+CREATE POLICY "Coordinators can read availability for their events"
+  ON volunteer_availability
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can add availability for their events"
+  ON volunteer_availability
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[])
+    AND is_event_volunteer(event_id, volunteer_id)
+  );
+
+CREATE POLICY "Coordinators can update availability for their events"
+  ON volunteer_availability
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]))
+  WITH CHECK (
+    has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[])
+    AND is_event_volunteer(event_id, volunteer_id)
+  );
+
+CREATE POLICY "Coordinators can delete availability for their events"
+  ON volunteer_availability
+  FOR DELETE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
@@ -0,0 +1,401 @@
+/*
+  # Waitlist and Standby Volunteers
+
+  Volunteers who cannot be placed because a shift is full wait in line for it, or for
+  any shift of the event as standby. When a seat opens they are promoted into it.
+
+  1. New Tables
+    - `waitlist_entries`: a volunteer waiting for a shift (`shift_id`), for any shift of a
+      position (`position_id` only), or for any shift of the event (standby, neither set).
+      Ordered by `priority` (highest first), then by when they were added.
+    - `volunteer_notifications`: messages for volunteers, such as a promotion off the
+      waitlist. Nothing in this project delivers them yet; the Waitlist page lists the
+      pending ones so coordinators can send them and mark them sent.
+    - `staffing_history`: promotions off the waitlist, with the reason the seat opened
+
+  2. Changes
+    - `events.auto_promote_waitlist`: when set, removing a volunteer from a shift promotes
+      the next volunteer in line into the freed seat
+    - `promote_waitlist_entry(p_entry_id, p_shift_id, p_reason, p_automatic)` assigns a
+      waiting volunteer to a shift, notifies them and records the promotion
+    - `promote_next_waitlisted(p_shift_id, p_reason, p_automatic)` promotes the first
+      volunteer in line for the shift who can take it, if any
+    - `replace_no_show(p_signup_id, p_expected_version)` removes a volunteer who did not
+      turn up and promotes the next in line, whether or not auto-promotion is on
+
+  3. Security
+    - Event owners and coordinators manage waitlists and notifications; every event
+      member can read the staffing history
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'auto_promote_waitlist'
+  ) THEN
+    ALTER TABLE events ADD COLUMN auto_promote_waitlist boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE,
+  shift_id uuid REFERENCES shifts(id) ON DELETE CASCADE,
+  volunteer_name text NOT NULL,
+  phone_number text NOT NULL,
+  organization text,
+  priority integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'waiting',
+  signup_id uuid REFERENCES volunteer_signups(id) ON DELETE SET NULL,
+  promoted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT waitlist_entries_status_check CHECK (status IN ('waiting', 'promoted', 'withdrawn')),
+  CONSTRAINT waitlist_entries_shift_needs_position CHECK (shift_id IS NULL OR position_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS waitlist_entries_event_id_idx ON waitlist_entries(event_id);
+CREATE INDEX IF NOT EXISTS waitlist_entries_shift_id_idx ON waitlist_entries(shift_id);
+
+CREATE TABLE IF NOT EXISTS volunteer_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  signup_id uuid REFERENCES volunteer_signups(id) ON DELETE SET NULL,
+  volunteer_name text NOT NULL,
+  phone_number text NOT NULL,
+  body text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz,
+  CONSTRAINT volunteer_notifications_status_check CHECK (status IN ('pending', 'sent'))
+);
+
+CREATE INDEX IF NOT EXISTS volunteer_notifications_event_id_idx ON volunteer_notifications(event_id);
+
+CREATE TABLE IF NOT EXISTS staffing_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE NOT NULL,
+  shift_id uuid REFERENCES shifts(id) ON DELETE SET NULL,
+  signup_id uuid REFERENCES volunteer_signups(id) ON DELETE SET NULL,
+  volunteer_name text NOT NULL,
+  action text NOT NULL,
+  reason text,
+  automatic boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT staffing_history_action_check CHECK (action IN ('promoted'))
+);
+
+CREATE INDEX IF NOT EXISTS staffing_history_event_id_idx ON staffing_history(event_id);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE volunteer_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staffing_history ENABLE ROW LEVEL SECURITY;
+
+-- Entries for a shift or position belong to that position's event
+CREATE OR REPLACE FUNCTION check_waitlist_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.shift_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM shifts WHERE id = NEW.shift_id AND position_id = NEW.position_id) THEN
+    RAISE EXCEPTION 'The shift does not belong to the position' USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.position_id IS NOT NULL AND position_event_id(NEW.position_id) <> NEW.event_id THEN
+    RAISE EXCEPTION 'The position does not belong to the event' USING ERRCODE = '22023';
+  END IF;
+
+  IF trim(NEW.volunteer_name) = '' THEN
+    RAISE EXCEPTION 'Volunteer name is required' USING ERRCODE = '22023';
+  END IF;
+  NEW.volunteer_name := trim(NEW.volunteer_name);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_waitlist_entry ON waitlist_entries;
+
+CREATE TRIGGER check_waitlist_entry
+  BEFORE INSERT OR UPDATE OF event_id, position_id, shift_id, volunteer_name ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION check_waitlist_entry();
+
+DROP TRIGGER IF EXISTS normalize_phone_number ON waitlist_entries;
+
+CREATE TRIGGER normalize_phone_number
+  BEFORE INSERT OR UPDATE OF phone_number ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_phone_number();
+
+CREATE POLICY "Coordinators can read waitlists for their events"
+  ON waitlist_entries
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can add to waitlists for their events"
+  ON waitlist_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can update waitlists for their events"
+  ON waitlist_entries
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]))
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can delete from waitlists for their events"
+  ON waitlist_entries
+  FOR DELETE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can read notifications for their events"
+  ON volunteer_notifications
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can add notifications for their events"
+  ON volunteer_notifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can update notifications for their events"
+  ON volunteer_notifications
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]))
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Members can read staffing history for their events"
+  ON staffing_history
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+CREATE POLICY "Coordinators can add staffing history for their events"
+  ON staffing_history
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE OR REPLACE FUNCTION promote_waitlist_entry(
+  p_entry_id uuid,
+  p_shift_id uuid DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_automatic boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry waitlist_entries;
+  v_shift shifts;
+  v_event events;
+  v_position_name text;
+  v_assigned integer;
+  v_result jsonb;
+  v_signup_id uuid;
+BEGIN
+  SELECT * INTO v_entry
+  FROM waitlist_entries
+  WHERE id = p_entry_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waitlist entry not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_entry.status <> 'waiting' THEN
+    RAISE EXCEPTION '% is no longer on the waitlist', v_entry.volunteer_name USING ERRCODE = '40001';
+  END IF;
+
+  SELECT * INTO v_shift FROM shifts WHERE id = coalesce(p_shift_id, v_entry.shift_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Choose a shift to promote % into', v_entry.volunteer_name USING ERRCODE = '22023';
+  END IF;
+
+  IF position_event_id(v_shift.position_id) <> v_entry.event_id
+    OR (v_entry.position_id IS NOT NULL AND v_entry.position_id <> v_shift.position_id) THEN
+    RAISE EXCEPTION '% is not waiting for that shift', v_entry.volunteer_name USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialize promotions into the same shift
+  PERFORM 1 FROM shifts WHERE id = v_shift.id FOR UPDATE;
+
+  SELECT count(*) INTO v_assigned FROM volunteer_signups WHERE shift_id = v_shift.id;
+  IF v_assigned >= v_shift.needed THEN
+    RAISE EXCEPTION 'That shift is already full' USING ERRCODE = '22023';
+  END IF;
+
+  -- Same validation, directory linking and conflict check as any other assignment
+  v_result := assign_volunteer(
+    v_shift.position_id, v_shift.id, v_entry.volunteer_name, v_entry.phone_number,
+    v_shift.starts_at, v_shift.ends_at, NULL, v_entry.organization
+  );
+  v_signup_id := (v_result -> 'signup' ->> 'id')::uuid;
+
+  UPDATE waitlist_entries
+  SET status = 'promoted',
+      signup_id = v_signup_id,
+      promoted_at = now()
+  WHERE id = v_entry.id;
+
+  SELECT * INTO v_event FROM events WHERE id = v_entry.event_id;
+  SELECT name INTO v_position_name FROM volunteer_positions WHERE id = v_shift.position_id;
+
+  INSERT INTO volunteer_notifications (event_id, signup_id, volunteer_name, phone_number, body)
+  VALUES (
+    v_entry.event_id,
+    v_signup_id,
+    v_entry.volunteer_name,
+    v_result -> 'signup' ->> 'phone_number',
+    format(
+      'Good news, %s: a spot opened up at %s. You are now signed up as %s on %s.',
+      v_entry.volunteer_name,
+      v_event.name,
+      v_position_name,
+      to_char(v_shift.starts_at AT TIME ZONE v_event.timezone, 'Mon FMDD "at" FMHH12:MI AM')
+    )
+  );
+
+  INSERT INTO staffing_history (event_id, position_id, shift_id, signup_id, volunteer_name, action, reason, automatic)
+  VALUES (
+    v_entry.event_id, v_shift.position_id, v_shift.id, v_signup_id, v_entry.volunteer_name,
+    'promoted', p_reason, p_automatic
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+-- The first volunteer in line for the shift who can take it: those waiting for the shift,
+-- then for its position, then standby, each by priority and then by when they were added.
+-- Returns null when nobody can be promoted.
+CREATE OR REPLACE FUNCTION promote_next_waitlisted(
+  p_shift_id uuid,
+  p_reason text DEFAULT NULL,
+  p_automatic boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shift shifts;
+  v_entry_id uuid;
+BEGIN
+  SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Runs from the auto_promote_waitlist trigger, so it must never fail the removal or
+  -- move that freed the seat: a shift that is still full promotes nobody
+  IF (SELECT count(*) FROM volunteer_signups WHERE shift_id = v_shift.id) >= v_shift.needed THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_entry_id IN
+    SELECT w.id
+    FROM waitlist_entries w
+    WHERE w.status = 'waiting'
+    AND w.event_id = position_event_id(v_shift.position_id)
+    AND (w.shift_id = v_shift.id OR (w.shift_id IS NULL AND (w.position_id IS NULL OR w.position_id = v_shift.position_id)))
+    ORDER BY
+      CASE WHEN w.shift_id IS NOT NULL THEN 0 WHEN w.position_id IS NOT NULL THEN 1 ELSE 2 END,
+      w.priority DESC,
+      w.created_at
+  LOOP
+    BEGIN
+      RETURN promote_waitlist_entry(v_entry_id, v_shift.id, p_reason, p_automatic);
+    EXCEPTION
+      -- Booked elsewhere at that time, or this volunteer cannot be assigned; try the next in line
+      WHEN exclusion_violation OR invalid_parameter_value OR check_violation OR serialization_failure THEN NULL;
+    END;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Removing a volunteer from a shift promotes the next in line when the event asks for it.
+-- replace_no_show sets app.vacancy_reason so the history says why the seat opened.
+CREATE OR REPLACE FUNCTION auto_promote_waitlist()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_reason text;
+BEGIN
+  IF OLD.shift_id IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.shift_id IS NOT DISTINCT FROM OLD.shift_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM events
+    WHERE id = position_event_id(OLD.position_id)
+    AND auto_promote_waitlist
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  v_reason := coalesce(
+    nullif(current_setting('app.vacancy_reason', true), ''),
+    CASE WHEN TG_OP = 'DELETE' THEN 'Removed: ' ELSE 'Moved: ' END || OLD.volunteer_name
+  );
+  PERFORM promote_next_waitlisted(OLD.shift_id, v_reason, true);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS auto_promote_waitlist ON volunteer_signups;
+
+CREATE TRIGGER auto_promote_waitlist
+  AFTER DELETE OR UPDATE OF shift_id ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION auto_promote_waitlist();
+
+CREATE OR REPLACE FUNCTION replace_no_show(p_signup_id uuid, p_expected_version integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+  v_reason text;
+BEGIN
+  v_signup := lock_signup(p_signup_id, p_expected_version);
+
+  IF v_signup.shift_id IS NULL THEN
+    RAISE EXCEPTION 'Only volunteers in a shift can be replaced from the waitlist' USING ERRCODE = '22023';
+  END IF;
+
+  v_reason := 'No-show: ' || v_signup.volunteer_name;
+  PERFORM set_config('app.vacancy_reason', v_reason, true);
+  PERFORM remove_volunteer(p_signup_id, p_expected_version);
+  PERFORM set_config('app.vacancy_reason', '', true);
+
+  -- Auto-promotion may already have filled the seat
+  IF (SELECT count(*) FROM volunteer_signups WHERE shift_id = v_signup.shift_id)
+    >= (SELECT needed FROM shifts WHERE id = v_signup.shift_id) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN promote_next_waitlisted(v_signup.shift_id, v_reason, false);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION promote_waitlist_entry(uuid, uuid, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION promote_next_waitlisted(uuid, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION replace_no_show(uuid, integer) TO authenticated;
@@ -0,0 +1,239 @@
+/*
+  # Volunteer Portal
+
+  Volunteers had no view of their own schedule. Each directory profile now has a secret
+  link that opens a personal portal without an account.
+
+  1. Changes
+    - `volunteers.portal_token`: the secret in the volunteer's link. Setting a new one
+      revokes the old link.
+    - `get_volunteer_portal(p_token)` returns the volunteer's contact details and their
+      upcoming shifts with the position's location and description
+    - `portal_cancel_signup(p_token, p_signup_id, p_expected_version)` removes the
+      volunteer from a shift that has not started and tells the coordinators
+    - `portal_request_swap(p_token, p_signup_id, p_note)` asks the coordinators to find
+      someone to trade a shift with
+    - `portal_update_contact(p_token, p_phone_number, p_email)` updates the profile,
+      which also updates the phone number on its signups
+    - Removing a signup no longer fails when a message refers to it; the message keeps
+      the sender's phone number instead
+
+  2. Security
+    - The portal functions run as the definer and only touch the profile the token
+      belongs to and its signups; anyone holding the link can call them
+    - Their definer helpers cannot be called directly
+    - Cancellations and swap requests reach coordinators as messages
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteers' AND column_name = 'portal_token'
+  ) THEN
+    ALTER TABLE volunteers ADD COLUMN portal_token uuid UNIQUE NOT NULL DEFAULT gen_random_uuid();
+  END IF;
+END $$;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_volunteer_id_fkey;
+ALTER TABLE messages
+  ADD CONSTRAINT messages_volunteer_id_fkey
+  FOREIGN KEY (volunteer_id) REFERENCES volunteer_signups(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION portal_volunteer(p_token uuid)
+RETURNS volunteers
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer volunteers;
+BEGIN
+  SELECT * INTO v_volunteer FROM volunteers WHERE portal_token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is no longer valid. Ask your coordinator for a new one.'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_volunteer;
+END;
+$$;
+
+-- A signup of the token's volunteer, locked for the caller
+CREATE OR REPLACE FUNCTION portal_signup(p_token uuid, p_signup_id uuid)
+RETURNS volunteer_signups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  SELECT * INTO v_signup
+  FROM volunteer_signups
+  WHERE id = p_signup_id
+  AND volunteer_id = (portal_volunteer(p_token)).id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_signup;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION format_signup_window(p_signup volunteer_signups)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT format(
+    '%s, %s - %s',
+    p.name,
+    to_char(p_signup.starts_at AT TIME ZONE e.timezone, 'Mon FMDD FMHH12:MI AM'),
+    to_char(p_signup.ends_at AT TIME ZONE e.timezone, 'FMHH12:MI AM')
+  )
+  FROM volunteer_positions p
+  JOIN events e ON e.id = p.event_id
+  WHERE p.id = p_signup.position_id;
+$$;
+
+CREATE OR REPLACE FUNCTION get_volunteer_portal(p_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer volunteers;
+BEGIN
+  v_volunteer := portal_volunteer(p_token);
+
+  RETURN jsonb_build_object(
+    'volunteer', jsonb_build_object(
+      'name', v_volunteer.name,
+      'phone_number', v_volunteer.phone_number,
+      'email', v_volunteer.email,
+      'organization', v_volunteer.organization
+    ),
+    'organization_name', (SELECT name FROM organizations WHERE id = v_volunteer.organization_id),
+    'shifts', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', s.id,
+          'version', s.version,
+          'starts_at', s.starts_at,
+          'ends_at', s.ends_at,
+          'arrived', s.arrived,
+          'position', jsonb_build_object(
+            'id', p.id,
+            'name', p.name,
+            'description', p.description,
+            'latitude', p.latitude,
+            'longitude', p.longitude
+          ),
+          'event', jsonb_build_object(
+            'id', e.id,
+            'name', e.name,
+            'location', e.location,
+            'timezone', e.timezone
+          )
+        )
+        ORDER BY s.starts_at
+      )
+      FROM volunteer_signups s
+      JOIN volunteer_positions p ON p.id = s.position_id
+      JOIN events e ON e.id = p.event_id
+      WHERE s.volunteer_id = v_volunteer.id
+      AND s.ends_at > now()
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION portal_cancel_signup(p_token uuid, p_signup_id uuid, p_expected_version integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+  v_window text;
+BEGIN
+  v_signup := portal_signup(p_token, p_signup_id);
+
+  IF v_signup.starts_at <= now() THEN
+    RAISE EXCEPTION 'This shift has already started. Please contact your coordinator.'
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_window := format_signup_window(v_signup);
+
+  PERFORM set_config('app.vacancy_reason', 'Cancelled: ' || v_signup.volunteer_name, true);
+  PERFORM remove_volunteer(p_signup_id, p_expected_version);
+  PERFORM set_config('app.vacancy_reason', '', true);
+
+  INSERT INTO messages (title, content, phone_number, position_id, event_id)
+  VALUES (
+    'Shift cancelled',
+    format('%s cancelled their shift: %s', v_signup.volunteer_name, v_window),
+    v_signup.phone_number,
+    v_signup.position_id,
+    position_event_id(v_signup.position_id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION portal_request_swap(p_token uuid, p_signup_id uuid, p_note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  v_signup := portal_signup(p_token, p_signup_id);
+
+  INSERT INTO messages (title, content, volunteer_id, phone_number, position_id, event_id)
+  VALUES (
+    'Swap request',
+    format('%s would like to swap their shift: %s', v_signup.volunteer_name, format_signup_window(v_signup))
+      || coalesce(E'\n\n' || nullif(trim(p_note), ''), ''),
+    v_signup.id,
+    v_signup.phone_number,
+    v_signup.position_id,
+    position_event_id(v_signup.position_id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION portal_update_contact(p_token uuid, p_phone_number text, p_email text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE volunteers
+  SET phone_number = trim(p_phone_number),
+      email = nullif(trim(p_email), '')
+  WHERE id = (portal_volunteer(p_token)).id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION portal_volunteer(uuid) FROM public;
+REVOKE ALL ON FUNCTION portal_signup(uuid, uuid) FROM public;
+REVOKE ALL ON FUNCTION format_signup_window(volunteer_signups) FROM public;
+
+GRANT EXECUTE ON FUNCTION get_volunteer_portal(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION portal_cancel_signup(uuid, uuid, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION portal_request_swap(uuid, uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION portal_update_contact(uuid, text, text) TO anon, authenticated;
@@ -0,0 +1,441 @@
+/*
+  # Shift Swaps and Drops
+
+  Volunteers asked coordinators by text to trade shifts. They can now offer a shift from
+  their portal; another qualified volunteer claims it, and a coordinator approves the
+  trade. Giving up a shift without a replacement (a drop) goes through the same approval.
+
+  1. New Tables
+    - `shift_swaps`: a volunteer's request to give up a signup
+      - `kind`: 'swap' (someone else takes it) or 'drop' (nobody does)
+      - `status`: 'open' (a swap waiting to be claimed), 'pending' (waiting for a
+        coordinator), 'approved', 'rejected' or 'withdrawn'
+      - `claimed_by`: the volunteer who would take the shift
+      - The position and times are copied from the signup, so decided requests still
+        read correctly after the signup is gone
+
+  2. Changes
+    - `portal_offer_shift`, `portal_withdraw_offer` and `portal_claim_shift` let
+      volunteers offer, take back and claim shifts from their portal. Only volunteers
+      of the same organization with the position's skill and no overlapping signup can
+      claim.
+    - `get_volunteer_portal` also returns each shift's open request and the shifts the
+      volunteer can claim
+    - `approve_shift_swap(p_swap_id)` hands the signup to the claiming volunteer, or
+      removes it for a drop, in one transaction, and notifies both volunteers
+    - `reject_shift_swap(p_swap_id)` notifies the volunteers that nothing changes
+    - Replaces `portal_cancel_signup` and `portal_request_swap`: volunteers no longer
+      remove themselves without a coordinator
+
+  3. Security
+    - Event members can read their events' requests; only owners and coordinators can
+      approve or reject them
+    - Volunteers act through the portal functions, which only touch the token's profile
+*/
+
+CREATE TABLE IF NOT EXISTS shift_swaps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  signup_id uuid REFERENCES volunteer_signups(id) ON DELETE SET NULL,
+  volunteer_id uuid REFERENCES volunteers(id) ON DELETE CASCADE NOT NULL,
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE NOT NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('swap', 'drop')),
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'pending', 'approved', 'rejected', 'withdrawn')),
+  note text,
+  claimed_by uuid REFERENCES volunteers(id) ON DELETE SET NULL,
+  claimed_at timestamptz,
+  decided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- One request at a time per signup
+CREATE UNIQUE INDEX IF NOT EXISTS shift_swaps_active_signup_idx
+  ON shift_swaps(signup_id)
+  WHERE status IN ('open', 'pending');
+
+CREATE INDEX IF NOT EXISTS shift_swaps_event_status_idx ON shift_swaps(event_id, status);
+
+ALTER TABLE shift_swaps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read shift swaps for their events"
+  ON shift_swaps
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+CREATE POLICY "Coordinators can update shift swaps for their events"
+  ON shift_swaps
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]))
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE shift_swaps;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION volunteer_has_skill(p_volunteer volunteers, p_position_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(trim(p.skill_level), '') = ''
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_volunteer.skills) AS skill
+      WHERE lower(trim(skill)) = lower(trim(p.skill_level))
+    )
+  FROM volunteer_positions p
+  WHERE p.id = p_position_id;
+$$;
+
+-- Whether the volunteer may claim the offered shift
+CREATE OR REPLACE FUNCTION can_claim_shift_swap(p_volunteer volunteers, p_swap shift_swaps)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_swap.status = 'open'
+    AND p_swap.signup_id IS NOT NULL
+    AND p_swap.volunteer_id <> p_volunteer.id
+    AND p_swap.starts_at > now()
+    AND (SELECT organization_id FROM events WHERE id = p_swap.event_id) = p_volunteer.organization_id
+    AND volunteer_has_skill(p_volunteer, p_swap.position_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM volunteer_signups s
+      WHERE s.volunteer_id = p_volunteer.id
+      AND s.starts_at < p_swap.ends_at
+      AND p_swap.starts_at < s.ends_at
+    );
+$$;
+
+DROP FUNCTION IF EXISTS portal_cancel_signup(uuid, uuid, integer);
+DROP FUNCTION IF EXISTS portal_request_swap(uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION get_volunteer_portal(p_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer volunteers;
+BEGIN
+  v_volunteer := portal_volunteer(p_token);
+
+  RETURN jsonb_build_object(
+    'volunteer', jsonb_build_object(
+      'name', v_volunteer.name,
+      'phone_number', v_volunteer.phone_number,
+      'email', v_volunteer.email,
+      'organization', v_volunteer.organization
+    ),
+    'organization_name', (SELECT name FROM organizations WHERE id = v_volunteer.organization_id),
+    'shifts', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', s.id,
+          'version', s.version,
+          'starts_at', s.starts_at,
+          'ends_at', s.ends_at,
+          'arrived', s.arrived,
+          'position', jsonb_build_object(
+            'id', p.id,
+            'name', p.name,
+            'description', p.description,
+            'latitude', p.latitude,
+            'longitude', p.longitude
+          ),
+          'event', jsonb_build_object(
+            'id', e.id,
+            'name', e.name,
+            'location', e.location,
+            'timezone', e.timezone
+          ),
+          'request', (
+            SELECT jsonb_build_object('id', w.id, 'kind', w.kind, 'status', w.status)
+            FROM shift_swaps w
+            WHERE w.signup_id = s.id
+            AND w.status IN ('open', 'pending')
+          )
+        )
+        ORDER BY s.starts_at
+      )
+      FROM volunteer_signups s
+      JOIN volunteer_positions p ON p.id = s.position_id
+      JOIN events e ON e.id = p.event_id
+      WHERE s.volunteer_id = v_volunteer.id
+      AND s.ends_at > now()
+    ), '[]'::jsonb),
+    'claimable', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', w.id,
+          'starts_at', w.starts_at,
+          'ends_at', w.ends_at,
+          'note', w.note,
+          'position', jsonb_build_object('name', p.name, 'description', p.description),
+          'event', jsonb_build_object('name', e.name, 'location', e.location, 'timezone', e.timezone)
+        )
+        ORDER BY w.starts_at
+      )
+      FROM shift_swaps w
+      JOIN volunteer_positions p ON p.id = w.position_id
+      JOIN events e ON e.id = w.event_id
+      WHERE can_claim_shift_swap(v_volunteer, w)
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION portal_offer_shift(
+  p_token uuid,
+  p_signup_id uuid,
+  p_kind text,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  v_signup := portal_signup(p_token, p_signup_id);
+
+  IF v_signup.starts_at <= now() THEN
+    RAISE EXCEPTION 'This shift has already started. Please contact your coordinator.'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM shift_swaps
+    WHERE signup_id = v_signup.id
+    AND status IN ('open', 'pending')
+  ) THEN
+    RAISE EXCEPTION 'You have already asked to give up this shift' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO shift_swaps (
+    event_id, signup_id, volunteer_id, position_id, starts_at, ends_at, kind, status, note
+  )
+  VALUES (
+    position_event_id(v_signup.position_id),
+    v_signup.id,
+    v_signup.volunteer_id,
+    v_signup.position_id,
+    v_signup.starts_at,
+    v_signup.ends_at,
+    p_kind,
+    -- A drop has nobody to wait for
+    CASE WHEN p_kind = 'drop' THEN 'pending' ELSE 'open' END,
+    nullif(trim(p_note), '')
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION portal_withdraw_offer(p_token uuid, p_swap_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE shift_swaps
+  SET status = 'withdrawn'
+  WHERE id = p_swap_id
+  AND volunteer_id = (portal_volunteer(p_token)).id
+  AND status IN ('open', 'pending');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This request has already been decided' USING ERRCODE = '40001';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION portal_claim_shift(p_token uuid, p_swap_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer volunteers;
+  v_swap shift_swaps;
+BEGIN
+  v_volunteer := portal_volunteer(p_token);
+
+  SELECT * INTO v_swap FROM shift_swaps WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_claim_shift_swap(v_volunteer, v_swap) THEN
+    RAISE EXCEPTION 'This shift is no longer available' USING ERRCODE = '40001';
+  END IF;
+
+  UPDATE shift_swaps
+  SET status = 'pending',
+      claimed_by = v_volunteer.id,
+      claimed_at = now()
+  WHERE id = v_swap.id;
+END;
+$$;
+
+-- The request, locked, after checking the caller may decide it
+CREATE OR REPLACE FUNCTION lock_pending_shift_swap(p_swap_id uuid)
+RETURNS shift_swaps
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_swap shift_swaps;
+BEGIN
+  SELECT * INTO v_swap FROM shift_swaps WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT has_event_role(v_swap.event_id, ARRAY['owner', 'coordinator']::event_role[]) THEN
+    RAISE EXCEPTION 'You do not have permission to decide this request' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_swap.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request is no longer waiting for approval' USING ERRCODE = '40001';
+  END IF;
+
+  RETURN v_swap;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_shift_swap(p_swap_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_swap shift_swaps;
+  v_signup volunteer_signups;
+  v_claimer volunteers;
+  v_window text;
+  v_result jsonb;
+BEGIN
+  v_swap := lock_pending_shift_swap(p_swap_id);
+
+  SELECT * INTO v_signup FROM volunteer_signups WHERE id = v_swap.signup_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The shift was removed after this request was made' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_window := format_signup_window(v_signup);
+
+  IF v_swap.kind = 'swap' THEN
+    SELECT * INTO v_claimer FROM volunteers WHERE id = v_swap.claimed_by;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The volunteer who claimed this shift is no longer in the directory'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Validated and conflict-checked like any other edit
+    v_result := update_volunteer(
+      v_signup.id, v_signup.version, v_signup.position_id, v_signup.shift_id,
+      v_claimer.name, v_claimer.phone_number, v_signup.starts_at, v_signup.ends_at,
+      NULL, v_claimer.organization, v_claimer.id
+    );
+
+    INSERT INTO volunteer_notifications (event_id, signup_id, volunteer_name, phone_number, body)
+    VALUES
+      (
+        v_swap.event_id, NULL, v_signup.volunteer_name, v_signup.phone_number,
+        format('Your swap was approved: %s will take your shift %s.', v_claimer.name, v_window)
+      ),
+      (
+        v_swap.event_id, v_signup.id, v_claimer.name, v_claimer.phone_number,
+        format('Your swap was approved. You are now signed up for %s.', v_window)
+      );
+  ELSE
+    PERFORM set_config('app.vacancy_reason', 'Dropped: ' || v_signup.volunteer_name, true);
+    v_result := remove_volunteer(v_signup.id, v_signup.version);
+    PERFORM set_config('app.vacancy_reason', '', true);
+
+    INSERT INTO volunteer_notifications (event_id, signup_id, volunteer_name, phone_number, body)
+    VALUES (
+      v_swap.event_id, NULL, v_signup.volunteer_name, v_signup.phone_number,
+      format('Your request to drop your shift %s was approved. Thank you for letting us know.', v_window)
+    );
+  END IF;
+
+  UPDATE shift_swaps
+  SET status = 'approved',
+      decided_by = auth.uid(),
+      decided_at = now()
+  WHERE id = v_swap.id;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_shift_swap(p_swap_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_swap shift_swaps;
+  v_offered_by volunteers;
+  v_claimer volunteers;
+  v_window text;
+BEGIN
+  v_swap := lock_pending_shift_swap(p_swap_id);
+
+  SELECT * INTO v_offered_by FROM volunteers WHERE id = v_swap.volunteer_id;
+  SELECT * INTO v_claimer FROM volunteers WHERE id = v_swap.claimed_by;
+  v_window := format(
+    '%s, %s',
+    (SELECT name FROM volunteer_positions WHERE id = v_swap.position_id),
+    to_char(
+      v_swap.starts_at AT TIME ZONE (SELECT timezone FROM events WHERE id = v_swap.event_id),
+      'Mon FMDD FMHH12:MI AM'
+    )
+  );
+
+  INSERT INTO volunteer_notifications (event_id, signup_id, volunteer_name, phone_number, body)
+  VALUES (
+    v_swap.event_id, v_swap.signup_id, v_offered_by.name, v_offered_by.phone_number,
+    CASE v_swap.kind
+      WHEN 'drop' THEN format('Your request to drop your shift %s was not approved. Please contact your coordinator.', v_window)
+      ELSE format('Your swap for %s was not approved. You are still signed up for it.', v_window)
+    END
+  );
+
+  IF v_claimer.id IS NOT NULL THEN
+    INSERT INTO volunteer_notifications (event_id, signup_id, volunteer_name, phone_number, body)
+    VALUES (
+      v_swap.event_id, NULL, v_claimer.name, v_claimer.phone_number,
+      format('The shift you claimed, %s, was not handed over to you. Thank you for offering.', v_window)
+    );
+  END IF;
+
+  UPDATE shift_swaps
+  SET status = 'rejected',
+      decided_by = auth.uid(),
+      decided_at = now()
+  WHERE id = v_swap.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION volunteer_has_skill(volunteers, uuid) FROM public;
+REVOKE ALL ON FUNCTION can_claim_shift_swap(volunteers, shift_swaps) FROM public;
+
+GRANT EXECUTE ON FUNCTION portal_offer_shift(uuid, uuid, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION portal_withdraw_offer(uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION portal_claim_shift(uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION approve_shift_swap(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_shift_swap(uuid) TO authenticated;
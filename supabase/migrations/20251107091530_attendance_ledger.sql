@@ -0,0 +1,271 @@
+/*
+  # Attendance Ledger
+
+  `volunteer_signups.arrived` only says whether a volunteer is on site now, and
+  `checked_in_at` / `checked_out_at` only keep the latest visit, so breaks, second
+  arrivals and automatic check-outs were lost. Every check-in and check-out is now kept.
+
+  1. New Tables
+    - `attendance_records`: one row per check-in or check-out of a signup
+      - `kind`: 'check_in' or 'check_out'
+      - `occurred_at`: when it happened. Automatic check-outs count as leaving when the
+        shift ended, not when the job ran.
+      - `source`: who performed it: 'volunteer' (self check-in page), 'staff' or
+        'auto_checkout'. Null for records carried over from before the ledger and for
+        changes of `arrived` made outside `set_arrival` and `run_auto_checkout`, whose
+        source is not known.
+      - `recorded_by`: the signed-in user, if any
+
+  2. Changes
+    - A trigger records every change of `arrived`
+    - Existing check-in and check-out times are carried over
+    - `set_arrival` takes `p_source` ('staff' by default, or 'volunteer')
+    - `run_auto_checkout` records its check-outs as 'auto_checkout'
+    - The `signup_hours` view has scheduled and actual hours per signup. Actual hours add
+      up each check-in to the following check-out. A volunteer still on site counts up to
+      now, but no further than the end of their shift, so one never checked out does not
+      keep gaining hours.
+
+  3. Security
+    - Event members can read their events' records; rows are only written by the trigger
+    - `signup_hours` runs with the caller's permissions
+*/
+
+CREATE TABLE IF NOT EXISTS attendance_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  signup_id uuid REFERENCES volunteer_signups(id) ON DELETE CASCADE NOT NULL,
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE NOT NULL,
+  volunteer_name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('check_in', 'check_out')),
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  source text CHECK (source IN ('volunteer', 'staff', 'auto_checkout')),
+  recorded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS attendance_records_signup_idx ON attendance_records(signup_id, occurred_at);
+CREATE INDEX IF NOT EXISTS attendance_records_event_idx ON attendance_records(event_id, occurred_at);
+
+ALTER TABLE attendance_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read attendance for their events"
+  ON attendance_records
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+-- Carry over the latest visit of each signup
+INSERT INTO attendance_records (signup_id, event_id, position_id, volunteer_name, kind, occurred_at, source, recorded_by)
+SELECT s.id, p.event_id, s.position_id, s.volunteer_name, 'check_in', s.checked_in_at, NULL, NULL
+FROM volunteer_signups s
+JOIN volunteer_positions p ON p.id = s.position_id
+WHERE s.checked_in_at IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM attendance_records r WHERE r.signup_id = s.id);
+
+INSERT INTO attendance_records (signup_id, event_id, position_id, volunteer_name, kind, occurred_at, source, recorded_by)
+SELECT
+  s.id, p.event_id, s.position_id, s.volunteer_name, 'check_out',
+  CASE WHEN l.signup_id IS NOT NULL THEN least(s.checked_out_at, s.ends_at) ELSE s.checked_out_at END,
+  CASE WHEN l.signup_id IS NOT NULL THEN 'auto_checkout' END,
+  NULL
+FROM volunteer_signups s
+JOIN volunteer_positions p ON p.id = s.position_id
+LEFT JOIN auto_checkout_log l ON l.signup_id = s.id AND l.checked_out_at = s.checked_out_at
+WHERE s.checked_out_at IS NOT NULL
+AND NOT s.arrived
+AND NOT EXISTS (SELECT 1 FROM attendance_records r WHERE r.signup_id = s.id AND r.kind = 'check_out');
+
+-- set_arrival and run_auto_checkout say who is checking volunteers in and out through
+-- app.attendance_source; anything else counts as staff
+CREATE OR REPLACE FUNCTION record_attendance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.arrived = OLD.arrived THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'INSERT' AND NOT NEW.arrived THEN
+    RETURN NULL;
+  END IF;
+
+  v_source := nullif(current_setting('app.attendance_source', true), '');
+
+  INSERT INTO attendance_records (signup_id, event_id, position_id, volunteer_name, kind, occurred_at, source)
+  VALUES (
+    NEW.id,
+    position_event_id(NEW.position_id),
+    NEW.position_id,
+    NEW.volunteer_name,
+    CASE WHEN NEW.arrived THEN 'check_in' ELSE 'check_out' END,
+    CASE WHEN v_source = 'auto_checkout' THEN least(now(), NEW.ends_at) ELSE now() END,
+    v_source
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_attendance ON volunteer_signups;
+
+CREATE TRIGGER record_attendance
+  AFTER INSERT OR UPDATE OF arrived ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION record_attendance();
+
+-- Recreated with p_source; a new trailing default would only add an overload
+DROP FUNCTION IF EXISTS set_arrival(uuid, integer, boolean);
+
+CREATE OR REPLACE FUNCTION set_arrival(
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_arrived boolean,
+  p_source text DEFAULT 'staff'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  IF p_source NOT IN ('volunteer', 'staff') THEN
+    RAISE EXCEPTION 'Unknown check-in source %', p_source USING ERRCODE = '22023';
+  END IF;
+
+  v_signup := lock_signup(p_signup_id, p_expected_version);
+
+  IF v_signup.arrived = p_arrived THEN
+    RAISE EXCEPTION 'Volunteer is already checked %', CASE WHEN p_arrived THEN 'in' ELSE 'out' END
+      USING ERRCODE = '40001';
+  END IF;
+
+  PERFORM set_config('app.attendance_source', p_source, true);
+
+  UPDATE volunteer_signups
+  SET arrived = p_arrived
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  PERFORM set_config('app.attendance_source', '', true);
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_arrival(uuid, integer, boolean, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION run_auto_checkout(
+  p_now timestamptz DEFAULT now(),
+  p_buffer_minutes integer DEFAULT 1,
+  p_max_late_minutes integer DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id uuid;
+  v_checked_out integer;
+BEGIN
+  INSERT INTO auto_checkout_runs (ran_at)
+  VALUES (p_now)
+  RETURNING id INTO v_run_id;
+
+  PERFORM set_config('app.attendance_source', 'auto_checkout', true);
+
+  WITH arrived AS (
+    SELECT
+      s.id,
+      s.position_id,
+      p.event_id,
+      s.volunteer_name,
+      s.ends_at AS shift_end_at
+    FROM volunteer_signups s
+    JOIN volunteer_positions p ON p.id = s.position_id
+    WHERE s.arrived = true
+    AND s.ends_at <= p_now
+    FOR UPDATE OF s SKIP LOCKED
+  ),
+  logged AS (
+    INSERT INTO auto_checkout_log (
+      run_id, signup_id, position_id, event_id, volunteer_name, shift_end_at, checked_out_at
+    )
+    SELECT v_run_id, id, position_id, event_id, volunteer_name, shift_end_at, p_now
+    FROM arrived
+    WHERE p_now >= shift_end_at + make_interval(mins => p_buffer_minutes)
+    AND (p_max_late_minutes IS NULL OR p_now <= shift_end_at + make_interval(mins => p_buffer_minutes + p_max_late_minutes))
+    ON CONFLICT (signup_id, shift_end_at) DO NOTHING
+    RETURNING signup_id
+  ),
+  checked_out AS (
+    UPDATE volunteer_signups
+    SET arrived = false
+    FROM logged
+    WHERE volunteer_signups.id = logged.signup_id
+    RETURNING volunteer_signups.id
+  )
+  SELECT count(*) INTO v_checked_out FROM checked_out;
+
+  PERFORM set_config('app.attendance_source', '', true);
+
+  UPDATE auto_checkout_runs
+  SET checked_out = v_checked_out
+  WHERE id = v_run_id;
+
+  RETURN v_checked_out;
+END;
+$$;
+
+CREATE OR REPLACE VIEW signup_hours
+WITH (security_invoker = true)
+AS
+WITH visits AS (
+  SELECT
+    r.signup_id,
+    r.kind,
+    r.occurred_at,
+    s.ends_at,
+    lead(r.kind) OVER visit AS next_kind,
+    lead(r.occurred_at) OVER visit AS next_at
+  FROM attendance_records r
+  JOIN volunteer_signups s ON s.id = r.signup_id
+  WINDOW visit AS (PARTITION BY r.signup_id ORDER BY r.occurred_at, r.created_at)
+),
+worked AS (
+  SELECT
+    signup_id,
+    sum(extract(epoch FROM (
+      CASE
+        WHEN next_kind = 'check_out' THEN next_at
+        WHEN next_kind IS NULL THEN greatest(occurred_at, least(now(), ends_at))
+      END
+      - occurred_at
+    ))) / 3600 AS hours,
+    count(*) AS check_ins
+  FROM visits
+  WHERE kind = 'check_in'
+  GROUP BY signup_id
+)
+SELECT
+  s.id AS signup_id,
+  p.event_id,
+  s.position_id,
+  s.volunteer_id,
+  s.volunteer_name,
+  s.starts_at,
+  s.ends_at,
+  s.arrived,
+  round((extract(epoch FROM s.ends_at - s.starts_at) / 3600)::numeric, 2) AS scheduled_hours,
+  round(coalesce(w.hours, 0)::numeric, 2) AS actual_hours,
+  coalesce(w.check_ins, 0)::integer AS check_ins
+FROM volunteer_signups s
+JOIN volunteer_positions p ON p.id = s.position_id
+LEFT JOIN worked w ON w.signup_id = s.id;
+
+GRANT SELECT ON signup_hours TO authenticated;
@@ -0,0 +1,202 @@
+/*
+  # Service Certificates
+
+  Volunteers, many of them students, need proof of their community-service hours.
+  Coordinators can now issue certificates from the attendance ledger, and anyone can
+  check a certificate's verification code.
+
+  1. New Tables
+    - `service_certificates`: what a certificate states about one volunteer's service at
+      an event, as printed
+      - `volunteer_key`: the directory profile, or the lower-cased name for volunteers
+        without one
+      - `code`: the verification code printed on the certificate, e.g. 'A1B2-C3D4-E5F6'
+      - `positions`, `first_day`, `last_day`, `hours`: the service, in the event's time zone
+      - `signer_name`, `signer_title`: the signature block
+      - `superseded_at`: set when a later certificate replaces this one
+
+  2. Changes
+    - `issue_certificates(p_event_id, p_signer_name, p_signer_title)` issues a certificate
+      to every volunteer with verified hours at the event and returns the current ones.
+      Certificates that still say the same thing are kept, so their codes stay valid;
+      the others are superseded by new ones. Visits still open are not counted.
+    - `verify_certificate(p_code)` looks up a certificate by its code
+
+  3. Security
+    - Event members can read their events' certificates
+    - Owners and coordinators issue certificates through `issue_certificates`
+    - `verify_certificate` runs as the definer and can be called without signing in
+*/
+
+CREATE TABLE IF NOT EXISTS service_certificates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  volunteer_id uuid REFERENCES volunteers(id) ON DELETE SET NULL,
+  volunteer_key text NOT NULL,
+  volunteer_name text NOT NULL,
+  code text UNIQUE NOT NULL,
+  positions text[] NOT NULL,
+  first_day date NOT NULL,
+  last_day date NOT NULL,
+  hours numeric(8, 2) NOT NULL,
+  signer_name text NOT NULL,
+  signer_title text,
+  issued_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  issued_at timestamptz DEFAULT now(),
+  superseded_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS service_certificates_current_idx
+  ON service_certificates(event_id, volunteer_key)
+  WHERE superseded_at IS NULL;
+
+ALTER TABLE service_certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read certificates for their events"
+  ON service_certificates
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+CREATE OR REPLACE FUNCTION new_certificate_code()
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_code text;
+BEGIN
+  LOOP
+    v_code := regexp_replace(
+      upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12)),
+      '^(.{4})(.{4})(.{4})$', '\1-\2-\3'
+    );
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM service_certificates WHERE code = v_code);
+  END LOOP;
+  RETURN v_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_certificates(
+  p_event_id uuid,
+  p_signer_name text,
+  p_signer_title text DEFAULT NULL
+)
+RETURNS SETOF service_certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timezone text;
+  v_service record;
+  v_current service_certificates;
+  v_keys text[] := '{}';
+BEGIN
+  IF NOT has_event_role(p_event_id, ARRAY['owner', 'coordinator']::event_role[]) THEN
+    RAISE EXCEPTION 'You do not have permission to issue certificates for this event' USING ERRCODE = '42501';
+  END IF;
+
+  p_signer_name := trim(p_signer_name);
+  p_signer_title := nullif(trim(p_signer_title), '');
+  IF coalesce(p_signer_name, '') = '' THEN
+    RAISE EXCEPTION 'Enter the name of the person signing the certificates' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT timezone INTO v_timezone FROM events WHERE id = p_event_id;
+
+  FOR v_service IN
+    SELECT
+      coalesce(h.volunteer_id::text, 'name:' || lower(h.volunteer_name)) AS volunteer_key,
+      h.volunteer_id,
+      min(h.volunteer_name) AS volunteer_name,
+      array_agg(DISTINCT p.name ORDER BY p.name) AS positions,
+      min((h.starts_at AT TIME ZONE v_timezone)::date) AS first_day,
+      max((h.starts_at AT TIME ZONE v_timezone)::date) AS last_day,
+      sum(h.actual_hours)::numeric(8, 2) AS hours
+    FROM signup_hours h
+    JOIN volunteer_positions p ON p.id = h.position_id
+    WHERE h.event_id = p_event_id
+    AND NOT h.arrived
+    AND h.actual_hours > 0
+    GROUP BY 1, 2
+  LOOP
+    v_keys := v_keys || v_service.volunteer_key;
+
+    SELECT * INTO v_current
+    FROM service_certificates
+    WHERE event_id = p_event_id
+    AND volunteer_key = v_service.volunteer_key
+    AND superseded_at IS NULL
+    FOR UPDATE;
+
+    IF FOUND THEN
+      CONTINUE WHEN (
+        v_current.volunteer_name, v_current.positions, v_current.first_day, v_current.last_day,
+        v_current.hours, v_current.signer_name, v_current.signer_title
+      ) IS NOT DISTINCT FROM (
+        v_service.volunteer_name, v_service.positions, v_service.first_day, v_service.last_day,
+        v_service.hours, p_signer_name, p_signer_title
+      );
+
+      UPDATE service_certificates SET superseded_at = now() WHERE id = v_current.id;
+    END IF;
+
+    INSERT INTO service_certificates (
+      event_id, volunteer_id, volunteer_key, volunteer_name, code,
+      positions, first_day, last_day, hours, signer_name, signer_title
+    )
+    VALUES (
+      p_event_id, v_service.volunteer_id, v_service.volunteer_key, v_service.volunteer_name, new_certificate_code(),
+      v_service.positions, v_service.first_day, v_service.last_day, v_service.hours, p_signer_name, p_signer_title
+    );
+  END LOOP;
+
+  -- Volunteers whose hours are gone, e.g. removed from their shifts
+  UPDATE service_certificates
+  SET superseded_at = now()
+  WHERE event_id = p_event_id
+  AND superseded_at IS NULL
+  AND NOT (volunteer_key = ANY (v_keys));
+
+  RETURN QUERY
+  SELECT * FROM service_certificates
+  WHERE event_id = p_event_id
+  AND superseded_at IS NULL
+  ORDER BY volunteer_name;
+END;
+$$;
+
+-- Codes are accepted in any case, with or without dashes
+CREATE OR REPLACE FUNCTION verify_certificate(p_code text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'code', c.code,
+    'volunteer_name', c.volunteer_name,
+    'event_name', e.name,
+    'organization_name', o.name,
+    'positions', to_jsonb(c.positions),
+    'first_day', c.first_day,
+    'last_day', c.last_day,
+    'hours', c.hours,
+    'signer_name', c.signer_name,
+    'signer_title', c.signer_title,
+    'issued_at', c.issued_at,
+    'superseded_at', c.superseded_at
+  )
+  FROM service_certificates c
+  JOIN events e ON e.id = c.event_id
+  JOIN organizations o ON o.id = e.organization_id
+  WHERE c.code = regexp_replace(
+    upper(regexp_replace(p_code, '[^A-Za-z0-9]', '', 'g')),
+    '^(.{4})(.{4})(.{4})$', '\1-\2-\3'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_certificates(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_certificate(text) TO anon, authenticated;
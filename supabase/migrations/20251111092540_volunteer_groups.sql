@@ -0,0 +1,488 @@
+/*
+  # Volunteer Groups
+
+  Whole teams come from a church, company or school, but `volunteer_signups.organization`
+  is free text. Groups are now kept per organization with a leader contact. Coordinators
+  book a block of seats for a group, and the leader names the members later through a
+  private link.
+
+  1. New Tables
+    - `volunteer_groups` (organization_id, name, leader_name, phone_number, email, notes)
+      - `phone_number`: the leader's number, normalized like the directory's
+      - `leader_token`: the secret in the leader's link. Setting a new one revokes the
+        old link.
+
+  2. Changes
+    - `volunteer_signups.group_id`: the group a seat was booked for
+    - `volunteer_signups.awaiting_member`: the leader has not named anyone for the seat
+      yet. Such seats carry the group's name and the leader's number.
+    - Group seats that use the leader's number are not linked to directory profiles and
+      are not matched by phone number when looking for double bookings, since many
+      members share it
+    - `assign_group_seats(...)` books a block of seats at a position or shift
+    - `get_group_portal(p_token)` returns the group's upcoming seats
+    - `group_fill_seat(p_token, p_signup_id, p_expected_version, p_volunteer_name,
+      p_phone_number)` names the member of a seat, or opens it again when the name is
+      empty. Without a number of their own, members are reached through the leader.
+
+  3. Security
+    - Organization members can read and edit their organization's groups
+    - `assign_group_seats` runs as the definer, so event coordinators who are not
+      organization members can book groups, but only of the event's organization
+    - The leader functions only touch the seats of the group the token belongs to;
+      anyone holding the link can call them
+    - Check-in staff cannot change a signup's `group_id` or `awaiting_member`
+*/
+
+CREATE TABLE IF NOT EXISTS volunteer_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  leader_name text NOT NULL,
+  phone_number text NOT NULL,
+  email text,
+  notes text,
+  leader_token uuid UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS volunteer_groups_organization_idx ON volunteer_groups(organization_id, name);
+
+ALTER TABLE volunteer_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization members can read their groups"
+  ON volunteer_groups
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_role(organization_id));
+
+CREATE POLICY "Organization members can add groups"
+  ON volunteer_groups
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_organization_role(organization_id));
+
+CREATE POLICY "Organization members can update their groups"
+  ON volunteer_groups
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(organization_id))
+  WITH CHECK (has_organization_role(organization_id));
+
+CREATE POLICY "Organization members can delete their groups"
+  ON volunteer_groups
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(organization_id));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_signups' AND column_name = 'group_id'
+  ) THEN
+    ALTER TABLE volunteer_signups ADD COLUMN group_id uuid REFERENCES volunteer_groups(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_signups' AND column_name = 'awaiting_member'
+  ) THEN
+    ALTER TABLE volunteer_signups ADD COLUMN awaiting_member boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS volunteer_signups_group_idx ON volunteer_signups(group_id) WHERE group_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION normalize_phone_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_country_code text;
+  v_phone text;
+BEGIN
+  -- Unchanged numbers, including ones stored before normalization, are left alone
+  IF NEW.phone_number IS NULL
+     OR (TG_OP = 'UPDATE' AND NEW.phone_number IS NOT DISTINCT FROM OLD.phone_number) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME IN ('volunteers', 'volunteer_groups') THEN
+    SELECT phone_country_code INTO v_country_code
+    FROM organizations WHERE id = NEW.organization_id;
+  ELSIF TG_TABLE_NAME = 'volunteer_signups' THEN
+    v_country_code := event_phone_country_code(position_event_id(NEW.position_id));
+  ELSE
+    v_country_code := event_phone_country_code(NEW.event_id);
+  END IF;
+
+  v_phone := normalize_phone(NEW.phone_number, coalesce(v_country_code, '1'));
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Please enter a valid phone number' USING ERRCODE = '22023';
+  END IF;
+
+  NEW.phone_number := v_phone;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_phone_number ON volunteer_groups;
+
+CREATE TRIGGER normalize_phone_number
+  BEFORE INSERT OR UPDATE OF phone_number ON volunteer_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_phone_number();
+
+-- Whether a seat of the group is reached through the leader's number
+CREATE OR REPLACE FUNCTION uses_group_phone(p_group_id uuid, p_phone_number text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((
+    SELECT g.phone_number = coalesce(normalize_phone(p_phone_number, o.phone_country_code), trim(p_phone_number))
+    FROM volunteer_groups g
+    JOIN organizations o ON o.id = g.organization_id
+    WHERE g.id = p_group_id
+  ), false);
+$$;
+
+REVOKE ALL ON FUNCTION uses_group_phone(uuid, text) FROM public;
+GRANT EXECUTE ON FUNCTION uses_group_phone(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION group_seat_name(p_group volunteer_groups)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT format('%s (open seat)', p_group.name);
+$$;
+
+-- Triggers fire in name order, so this runs before normalize_phone_number and has to
+-- normalize the number itself to match and create profiles
+CREATE OR REPLACE FUNCTION link_signup_volunteer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id uuid;
+  v_country_code text;
+  v_phone text;
+BEGIN
+  SELECT e.organization_id, o.phone_country_code INTO v_organization_id, v_country_code
+  FROM volunteer_positions p
+  JOIN events e ON e.id = p.event_id
+  JOIN organizations o ON o.id = e.organization_id
+  WHERE p.id = NEW.position_id;
+
+  IF NEW.volunteer_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE id = NEW.volunteer_id
+      AND organization_id = v_organization_id
+    ) THEN
+      RAISE EXCEPTION 'Volunteer is not in this event''s organization' USING ERRCODE = '22023';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- The leader's number does not identify the member
+  IF NEW.group_id IS NOT NULL AND (NEW.awaiting_member OR uses_group_phone(NEW.group_id, NEW.phone_number)) THEN
+    RETURN NEW;
+  END IF;
+
+  v_phone := coalesce(normalize_phone(NEW.phone_number, v_country_code), trim(NEW.phone_number));
+
+  SELECT id INTO NEW.volunteer_id
+  FROM volunteers
+  WHERE organization_id = v_organization_id
+  AND phone_key = regexp_replace(v_phone, '\D', '', 'g')
+  AND lower(name) = lower(trim(NEW.volunteer_name))
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NEW.volunteer_id IS NULL THEN
+    INSERT INTO volunteers (organization_id, name, phone_number, organization)
+    VALUES (v_organization_id, trim(NEW.volunteer_name), v_phone, NEW.organization)
+    RETURNING id INTO NEW.volunteer_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION guard_signup_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Scheduled jobs and cascades from shift or event changes run without a user
+  IF auth.uid() IS NULL
+     OR pg_trigger_depth() > 1
+     OR has_event_role(position_event_id(OLD.position_id), ARRAY['owner', 'coordinator']::event_role[]) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.position_id IS DISTINCT FROM OLD.position_id
+     OR NEW.shift_id IS DISTINCT FROM OLD.shift_id
+     OR NEW.volunteer_id IS DISTINCT FROM OLD.volunteer_id
+     OR NEW.group_id IS DISTINCT FROM OLD.group_id
+     OR NEW.awaiting_member IS DISTINCT FROM OLD.awaiting_member
+     OR NEW.volunteer_name IS DISTINCT FROM OLD.volunteer_name
+     OR NEW.phone_number IS DISTINCT FROM OLD.phone_number
+     OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+     OR NEW.ends_at IS DISTINCT FROM OLD.ends_at
+     OR NEW.other_notes IS DISTINCT FROM OLD.other_notes
+     OR NEW.organization IS DISTINCT FROM OLD.organization THEN
+    RAISE EXCEPTION 'Check-in staff can only check volunteers in and out'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION find_signup_conflicts(
+  p_position_id uuid,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_exclude_signup_id uuid DEFAULT NULL,
+  p_volunteer_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  signup_id uuid,
+  volunteer_name text,
+  position_name text,
+  starts_at timestamptz,
+  ends_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH target AS (
+    SELECT
+      p.event_id,
+      normalize_phone(p_phone_number, event_phone_country_code(p.event_id)) AS phone_number
+    FROM volunteer_positions p
+    WHERE p.id = p_position_id
+  )
+  SELECT s.id, s.volunteer_name, p.name, s.starts_at, s.ends_at
+  FROM volunteer_signups s
+  JOIN volunteer_positions p ON p.id = s.position_id
+  JOIN target t ON t.event_id = p.event_id
+  WHERE s.id IS DISTINCT FROM p_exclude_signup_id
+  AND s.starts_at < p_ends_at
+  AND s.ends_at > p_starts_at
+  AND (
+    (
+      s.phone_number = t.phone_number
+      AND NOT (s.group_id IS NOT NULL AND uses_group_phone(s.group_id, s.phone_number))
+    )
+    OR (p_volunteer_id IS NOT NULL AND s.volunteer_id = p_volunteer_id)
+  )
+  ORDER BY s.starts_at;
+$$;
+
+-- Raise unless the signup is the person's only one at that time
+CREATE OR REPLACE FUNCTION check_signup_conflicts(p_signup volunteer_signups)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_conflicts jsonb;
+BEGIN
+  SELECT jsonb_agg(to_jsonb(c)) INTO v_conflicts
+  FROM find_signup_conflicts(
+    p_signup.position_id,
+    CASE
+      WHEN p_signup.group_id IS NOT NULL AND uses_group_phone(p_signup.group_id, p_signup.phone_number) THEN NULL
+      ELSE p_signup.phone_number
+    END,
+    p_signup.starts_at, p_signup.ends_at,
+    p_signup.id, p_signup.volunteer_id
+  ) c;
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION '% is already assigned to % at an overlapping time',
+      p_signup.volunteer_name,
+      (SELECT string_agg(DISTINCT c ->> 'position_name', ', ') FROM jsonb_array_elements(v_conflicts) c)
+      USING ERRCODE = '23P01', DETAIL = v_conflicts::text;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assign_group_seats(
+  p_group_id uuid,
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_seats integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group volunteer_groups;
+  v_event_id uuid;
+BEGIN
+  v_event_id := position_event_id(p_position_id);
+
+  IF NOT has_event_role(v_event_id, ARRAY['owner', 'coordinator']::event_role[]) THEN
+    RAISE EXCEPTION 'You do not have permission to assign volunteers to this event' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT g.* INTO v_group
+  FROM volunteer_groups g
+  JOIN events e ON e.organization_id = g.organization_id
+  WHERE g.id = p_group_id
+  AND e.id = v_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group is not in this event''s organization' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_seats IS NULL OR p_seats < 1 OR p_seats > 200 THEN
+    RAISE EXCEPTION 'Book between 1 and 200 seats' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM validate_signup(
+    p_position_id, p_shift_id, group_seat_name(v_group), v_group.phone_number, p_starts_at, p_ends_at
+  );
+
+  -- A shift's window replaces the given one (see sync_signup_with_shift)
+  INSERT INTO volunteer_signups (
+    position_id, shift_id, group_id, awaiting_member, volunteer_name, phone_number,
+    starts_at, ends_at, arrived, organization
+  )
+  SELECT
+    p_position_id, p_shift_id, v_group.id, true, group_seat_name(v_group), v_group.phone_number,
+    p_starts_at, p_ends_at, false, v_group.name
+  FROM generate_series(1, p_seats);
+
+  RETURN p_seats;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION group_for_token(p_token uuid)
+RETURNS volunteer_groups
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group volunteer_groups;
+BEGIN
+  SELECT * INTO v_group FROM volunteer_groups WHERE leader_token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is no longer valid. Ask your coordinator for a new one.'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_group;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_group_portal(p_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group volunteer_groups;
+BEGIN
+  v_group := group_for_token(p_token);
+
+  RETURN jsonb_build_object(
+    'group', jsonb_build_object('name', v_group.name, 'leader_name', v_group.leader_name),
+    'organization_name', (SELECT name FROM organizations WHERE id = v_group.organization_id),
+    'seats', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', s.id,
+          'version', s.version,
+          'awaiting_member', s.awaiting_member,
+          'volunteer_name', CASE WHEN s.awaiting_member THEN NULL ELSE s.volunteer_name END,
+          'phone_number', CASE WHEN s.phone_number = v_group.phone_number THEN NULL ELSE s.phone_number END,
+          'arrived', s.arrived,
+          'starts_at', s.starts_at,
+          'ends_at', s.ends_at,
+          'position', jsonb_build_object('id', p.id, 'name', p.name),
+          'event', jsonb_build_object('id', e.id, 'name', e.name, 'location', e.location, 'timezone', e.timezone)
+        )
+        ORDER BY s.starts_at, p.name, s.created_at, s.id
+      )
+      FROM volunteer_signups s
+      JOIN volunteer_positions p ON p.id = s.position_id
+      JOIN events e ON e.id = p.event_id
+      WHERE s.group_id = v_group.id
+      AND s.ends_at > now()
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION group_fill_seat(
+  p_token uuid,
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_volunteer_name text,
+  p_phone_number text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group volunteer_groups;
+  v_signup volunteer_signups;
+  v_open boolean := coalesce(trim(p_volunteer_name), '') = '';
+BEGIN
+  v_group := group_for_token(p_token);
+  v_signup := lock_signup(p_signup_id, p_expected_version);
+
+  IF v_signup.group_id IS DISTINCT FROM v_group.id THEN
+    RAISE EXCEPTION 'This seat does not belong to your group' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_signup.ends_at <= now() THEN
+    RAISE EXCEPTION 'This shift is over' USING ERRCODE = '22023';
+  END IF;
+
+  -- Relinked to a directory profile by the new name and number, if the member has one
+  UPDATE volunteer_signups
+  SET volunteer_name = CASE WHEN v_open THEN group_seat_name(v_group) ELSE trim(p_volunteer_name) END,
+      phone_number = CASE
+        WHEN v_open OR coalesce(trim(p_phone_number), '') = '' THEN v_group.phone_number
+        ELSE trim(p_phone_number)
+      END,
+      awaiting_member = v_open,
+      volunteer_id = NULL
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  PERFORM check_signup_conflicts(v_signup);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION group_for_token(uuid) FROM public;
+
+GRANT EXECUTE ON FUNCTION assign_group_seats(uuid, uuid, uuid, timestamptz, timestamptz, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_group_portal(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION group_fill_seat(uuid, uuid, integer, text, text) TO anon, authenticated;
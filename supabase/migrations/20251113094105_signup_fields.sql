@@ -0,0 +1,411 @@
+/*
+  # Custom Signup Fields
+
+  `other_notes` was the only place for anything an event needed to know about a
+  volunteer. Each event can now define its own signup form: T-shirt sizes, dietary
+  restrictions, emergency contacts, a waiver to agree to.
+
+  1. New Tables
+    - `signup_fields`: the fields of an event's signup form, in `sort_order`
+      - `kind`: 'text', 'select', 'checkbox' or 'date'
+      - `options`: the choices of a select field
+      - `required`: a required checkbox must be checked, as for a waiver
+      - `max_length`: optional limit for text fields
+      - `help_text`: shown under the field, e.g. the waiver's wording
+
+  2. Changes
+    - `volunteer_signups.custom_fields` keeps the answers, keyed by field id
+    - `clean_signup_fields` checks answers against the event's fields and drops unknown keys
+    - `assign_volunteer`, `update_volunteer` and `group_fill_seat` take `p_custom_fields`.
+      Without it, a new signup has no answers and an existing one keeps its answers, so
+      imports, auto-scheduling and waitlist promotion are not held up by required fields.
+    - `get_group_portal` returns the fields of the group's events and each seat's answers
+
+  3. Security
+    - Event members can read their events' fields; owners and coordinators manage them
+    - Check-in staff cannot change a signup's answers
+*/
+
+CREATE TABLE IF NOT EXISTS signup_fields (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  label text NOT NULL CHECK (trim(label) <> ''),
+  kind text NOT NULL CHECK (kind IN ('text', 'select', 'checkbox', 'date')),
+  options text[] NOT NULL DEFAULT '{}',
+  required boolean NOT NULL DEFAULT false,
+  max_length integer CHECK (max_length > 0),
+  help_text text,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT signup_fields_select_has_options CHECK (kind <> 'select' OR cardinality(options) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS signup_fields_event_idx ON signup_fields(event_id, sort_order);
+
+ALTER TABLE signup_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read signup fields for their events"
+  ON signup_fields
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+CREATE POLICY "Coordinators can insert signup fields for their events"
+  ON signup_fields
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can update signup fields for their events"
+  ON signup_fields
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]))
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can delete signup fields for their events"
+  ON signup_fields
+  FOR DELETE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_signups' AND column_name = 'custom_fields'
+  ) THEN
+    ALTER TABLE volunteer_signups ADD COLUMN custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+-- The answers to the position's event fields, trimmed; NULL when none were given
+CREATE OR REPLACE FUNCTION clean_signup_fields(p_position_id uuid, p_values jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_field signup_fields;
+  v_value jsonb;
+  v_text text;
+  v_result jsonb := '{}'::jsonb;
+BEGIN
+  IF p_values IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF jsonb_typeof(p_values) <> 'object' THEN
+    RAISE EXCEPTION 'Signup field answers must be an object' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_field IN
+    SELECT f.*
+    FROM signup_fields f
+    JOIN volunteer_positions p ON p.event_id = f.event_id
+    WHERE p.id = p_position_id
+    ORDER BY f.sort_order, f.created_at
+  LOOP
+    v_value := p_values -> v_field.id::text;
+
+    IF v_field.kind = 'checkbox' THEN
+      IF v_value IS NOT NULL AND jsonb_typeof(v_value) NOT IN ('boolean', 'null') THEN
+        RAISE EXCEPTION '% must be checked or unchecked', v_field.label USING ERRCODE = '22023';
+      END IF;
+      IF v_field.required AND v_value IS DISTINCT FROM 'true'::jsonb THEN
+        RAISE EXCEPTION '% must be checked', v_field.label USING ERRCODE = '22023';
+      END IF;
+      v_result := v_result || jsonb_build_object(v_field.id::text, v_value = 'true'::jsonb);
+      CONTINUE;
+    END IF;
+
+    IF v_value IS NOT NULL AND jsonb_typeof(v_value) NOT IN ('string', 'null') THEN
+      RAISE EXCEPTION '% must be text', v_field.label USING ERRCODE = '22023';
+    END IF;
+
+    v_text := nullif(trim(v_value #>> '{}'), '');
+
+    IF v_text IS NULL THEN
+      IF v_field.required THEN
+        RAISE EXCEPTION '% is required', v_field.label USING ERRCODE = '22023';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_field.kind = 'select' AND NOT v_text = ANY (v_field.options) THEN
+      RAISE EXCEPTION '% must be one of: %', v_field.label, array_to_string(v_field.options, ', ')
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF v_field.kind = 'date' THEN
+      IF v_text !~ '^\d{4}-\d{2}-\d{2}$' THEN
+        RAISE EXCEPTION '% must be a date', v_field.label USING ERRCODE = '22023';
+      END IF;
+      BEGIN
+        PERFORM v_text::date;
+      EXCEPTION WHEN datetime_field_overflow OR invalid_datetime_format THEN
+        RAISE EXCEPTION '% must be a date', v_field.label USING ERRCODE = '22023';
+      END;
+    END IF;
+
+    IF v_field.kind = 'text' AND v_field.max_length IS NOT NULL AND length(v_text) > v_field.max_length THEN
+      RAISE EXCEPTION '% can be at most % characters', v_field.label, v_field.max_length
+        USING ERRCODE = '22023';
+    END IF;
+
+    v_result := v_result || jsonb_build_object(v_field.id::text, v_text);
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION guard_signup_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Scheduled jobs and cascades from shift or event changes run without a user
+  IF auth.uid() IS NULL
+     OR pg_trigger_depth() > 1
+     OR has_event_role(position_event_id(OLD.position_id), ARRAY['owner', 'coordinator']::event_role[]) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.position_id IS DISTINCT FROM OLD.position_id
+     OR NEW.shift_id IS DISTINCT FROM OLD.shift_id
+     OR NEW.volunteer_id IS DISTINCT FROM OLD.volunteer_id
+     OR NEW.group_id IS DISTINCT FROM OLD.group_id
+     OR NEW.awaiting_member IS DISTINCT FROM OLD.awaiting_member
+     OR NEW.volunteer_name IS DISTINCT FROM OLD.volunteer_name
+     OR NEW.phone_number IS DISTINCT FROM OLD.phone_number
+     OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+     OR NEW.ends_at IS DISTINCT FROM OLD.ends_at
+     OR NEW.other_notes IS DISTINCT FROM OLD.other_notes
+     OR NEW.organization IS DISTINCT FROM OLD.organization
+     OR NEW.custom_fields IS DISTINCT FROM OLD.custom_fields THEN
+    RAISE EXCEPTION 'Check-in staff can only check volunteers in and out'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Recreated with p_custom_fields; a new trailing default would only add an overload
+DROP FUNCTION IF EXISTS assign_volunteer(uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid, boolean);
+DROP FUNCTION IF EXISTS update_volunteer(uuid, integer, uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid, boolean);
+DROP FUNCTION IF EXISTS group_fill_seat(uuid, uuid, integer, text, text);
+
+CREATE OR REPLACE FUNCTION assign_volunteer(
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_volunteer_name text,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_other_notes text DEFAULT NULL,
+  p_organization text DEFAULT NULL,
+  p_volunteer_id uuid DEFAULT NULL,
+  p_allow_conflict boolean DEFAULT false,
+  p_custom_fields jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+BEGIN
+  PERFORM validate_signup(
+    p_position_id, p_shift_id, p_volunteer_name, p_phone_number, p_starts_at, p_ends_at
+  );
+
+  -- A shift's window replaces the given one (see sync_signup_with_shift)
+  INSERT INTO volunteer_signups (
+    position_id, shift_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at,
+    arrived, other_notes, organization, custom_fields
+  )
+  VALUES (
+    p_position_id, p_shift_id, p_volunteer_id, trim(p_volunteer_name), trim(p_phone_number),
+    p_starts_at, p_ends_at, false, p_other_notes, p_organization,
+    coalesce(clean_signup_fields(p_position_id, p_custom_fields), '{}'::jsonb)
+  )
+  RETURNING * INTO v_signup;
+
+  -- Checked after the write so the shift's window and the normalized phone are used
+  IF NOT p_allow_conflict THEN
+    PERFORM check_signup_conflicts(v_signup);
+  END IF;
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_volunteer(
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_position_id uuid,
+  p_shift_id uuid,
+  p_volunteer_name text,
+  p_phone_number text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_other_notes text DEFAULT NULL,
+  p_organization text DEFAULT NULL,
+  p_volunteer_id uuid DEFAULT NULL,
+  p_allow_conflict boolean DEFAULT false,
+  p_custom_fields jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous volunteer_signups;
+  v_signup volunteer_signups;
+  v_result jsonb;
+BEGIN
+  v_previous := lock_signup(p_signup_id, p_expected_version);
+
+  PERFORM validate_signup(
+    p_position_id, p_shift_id, p_volunteer_name, p_phone_number, p_starts_at, p_ends_at
+  );
+
+  -- Without a volunteer_id the signup is relinked by name and phone number
+  UPDATE volunteer_signups
+  SET position_id = p_position_id,
+      shift_id = p_shift_id,
+      volunteer_id = p_volunteer_id,
+      volunteer_name = trim(p_volunteer_name),
+      phone_number = trim(p_phone_number),
+      starts_at = p_starts_at,
+      ends_at = p_ends_at,
+      other_notes = p_other_notes,
+      organization = p_organization,
+      custom_fields = coalesce(clean_signup_fields(p_position_id, p_custom_fields), custom_fields)
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  IF NOT p_allow_conflict THEN
+    PERFORM check_signup_conflicts(v_signup);
+  END IF;
+
+  v_result := signup_result(v_signup);
+
+  IF v_previous.position_id <> v_signup.position_id THEN
+    v_result := v_result || jsonb_build_object(
+      'previous_position', (
+        SELECT to_jsonb(ps) FROM position_staffing ps WHERE ps.position_id = v_previous.position_id
+      )
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_group_portal(p_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group volunteer_groups;
+BEGIN
+  v_group := group_for_token(p_token);
+
+  RETURN jsonb_build_object(
+    'group', jsonb_build_object('name', v_group.name, 'leader_name', v_group.leader_name),
+    'organization_name', (SELECT name FROM organizations WHERE id = v_group.organization_id),
+    'seats', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', s.id,
+          'version', s.version,
+          'awaiting_member', s.awaiting_member,
+          'volunteer_name', CASE WHEN s.awaiting_member THEN NULL ELSE s.volunteer_name END,
+          'phone_number', CASE WHEN s.phone_number = v_group.phone_number THEN NULL ELSE s.phone_number END,
+          'custom_fields', s.custom_fields,
+          'arrived', s.arrived,
+          'starts_at', s.starts_at,
+          'ends_at', s.ends_at,
+          'position', jsonb_build_object('id', p.id, 'name', p.name),
+          'event', jsonb_build_object('id', e.id, 'name', e.name, 'location', e.location, 'timezone', e.timezone)
+        )
+        ORDER BY s.starts_at, p.name, s.created_at, s.id
+      )
+      FROM volunteer_signups s
+      JOIN volunteer_positions p ON p.id = s.position_id
+      JOIN events e ON e.id = p.event_id
+      WHERE s.group_id = v_group.id
+      AND s.ends_at > now()
+    ), '[]'::jsonb),
+    'fields', coalesce((
+      SELECT jsonb_agg(to_jsonb(f) ORDER BY f.sort_order, f.created_at)
+      FROM signup_fields f
+      WHERE f.event_id IN (
+        SELECT p.event_id
+        FROM volunteer_signups s
+        JOIN volunteer_positions p ON p.id = s.position_id
+        WHERE s.group_id = v_group.id
+        AND s.ends_at > now()
+      )
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION group_fill_seat(
+  p_token uuid,
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_volunteer_name text,
+  p_phone_number text DEFAULT NULL,
+  p_custom_fields jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group volunteer_groups;
+  v_signup volunteer_signups;
+  v_open boolean := coalesce(trim(p_volunteer_name), '') = '';
+BEGIN
+  v_group := group_for_token(p_token);
+  v_signup := lock_signup(p_signup_id, p_expected_version);
+
+  IF v_signup.group_id IS DISTINCT FROM v_group.id THEN
+    RAISE EXCEPTION 'This seat does not belong to your group' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_signup.ends_at <= now() THEN
+    RAISE EXCEPTION 'This shift is over' USING ERRCODE = '22023';
+  END IF;
+
+  -- Relinked to a directory profile by the new name and number, if the member has one.
+  -- An opened seat drops the previous member's answers.
+  UPDATE volunteer_signups
+  SET volunteer_name = CASE WHEN v_open THEN group_seat_name(v_group) ELSE trim(p_volunteer_name) END,
+      phone_number = CASE
+        WHEN v_open OR coalesce(trim(p_phone_number), '') = '' THEN v_group.phone_number
+        ELSE trim(p_phone_number)
+      END,
+      custom_fields = CASE
+        WHEN v_open THEN '{}'::jsonb
+        ELSE coalesce(clean_signup_fields(v_signup.position_id, p_custom_fields), custom_fields)
+      END,
+      awaiting_member = v_open,
+      volunteer_id = NULL
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  PERFORM check_signup_conflicts(v_signup);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_volunteer(uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid, boolean, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_volunteer(uuid, integer, uuid, uuid, text, text, timestamptz, timestamptz, text, text, uuid, boolean, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION group_fill_seat(uuid, uuid, integer, text, text, jsonb) TO anon, authenticated;
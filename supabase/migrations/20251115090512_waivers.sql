@@ -0,0 +1,384 @@
+/*
+  # Digital Waivers
+
+  Liability waivers were signed on paper at the check-in table. Organizers can now attach
+  waivers to an event or to one of its positions, and volunteers sign them on the
+  check-in page before they can check themselves in.
+
+  1. New Tables
+    - `waivers`: a waiver of an event, or of one position when `position_id` is set.
+      Archived waivers are no longer asked for.
+    - `waiver_versions`: the wording of a waiver. Changing the wording adds a version;
+      versions are never edited, so every signature keeps the text that was signed.
+    - `waiver_signatures`: who signed which version, when and how
+      - `method`: 'typed' (the volunteer typed their name) or 'drawn' (a PNG data URL of
+        the signature drawn on screen)
+      - The waiver's title and version, the volunteer's name and phone number are copied,
+        so the record outlives the signup, position or waiver
+
+  2. Changes
+    - `unsigned_waivers` lists the current versions a signup still has to sign. A signature
+      of the same person (same phone number) at another shift of the event counts, even
+      after that signup was removed; group seats sharing their leader's number only count
+      their own.
+    - `save_waiver` creates or edits a waiver and adds a version when the wording changed
+    - `sign_waiver` records a signature
+    - `set_arrival` refuses self check-in ('volunteer' source) while waivers are unsigned.
+      Staff can still check a volunteer in, for example after a paper signature.
+
+  3. Security
+    - Event members can read waivers, versions and signatures
+    - Owners and coordinators manage waivers; versions are only added by `save_waiver`
+    - Signatures are only written by `sign_waiver`, which any event member can call
+    - Check-in staff who set `arrived` directly instead of through `set_arrival` are held
+      to the same waiver check as a self check-in
+*/
+
+CREATE TABLE IF NOT EXISTS waivers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (trim(title) <> ''),
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS waivers_event_idx ON waivers(event_id);
+
+CREATE TABLE IF NOT EXISTS waiver_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  waiver_id uuid REFERENCES waivers(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL CHECK (version > 0),
+  body text NOT NULL CHECK (trim(body) <> ''),
+  published_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  published_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (waiver_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS waiver_signatures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  waiver_version_id uuid REFERENCES waiver_versions(id) ON DELETE SET NULL,
+  waiver_title text NOT NULL,
+  waiver_version integer NOT NULL,
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  signup_id uuid REFERENCES volunteer_signups(id) ON DELETE SET NULL,
+  volunteer_name text NOT NULL,
+  phone_number text NOT NULL,
+  method text NOT NULL CHECK (method IN ('typed', 'drawn')),
+  typed_name text,
+  drawing text,
+  signed_at timestamptz NOT NULL DEFAULT now(),
+  recorded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  CONSTRAINT waiver_signatures_has_signature CHECK (
+    (method = 'typed' AND coalesce(trim(typed_name), '') <> '')
+    OR (method = 'drawn' AND drawing IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS waiver_signatures_event_idx ON waiver_signatures(event_id, signed_at);
+CREATE INDEX IF NOT EXISTS waiver_signatures_version_idx ON waiver_signatures(waiver_version_id);
+
+ALTER TABLE waivers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waiver_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waiver_signatures ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION waiver_event_id(p_waiver_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT event_id FROM waivers WHERE id = p_waiver_id;
+$$;
+
+REVOKE ALL ON FUNCTION waiver_event_id(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION waiver_event_id(uuid) TO authenticated;
+
+CREATE POLICY "Members can read waivers for their events"
+  ON waivers
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+CREATE POLICY "Coordinators can insert waivers for their events"
+  ON waivers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Coordinators can update waivers for their events"
+  ON waivers
+  FOR UPDATE
+  TO authenticated
+  USING (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]))
+  WITH CHECK (has_event_role(event_id, ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Members can read waiver versions for their events"
+  ON waiver_versions
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(waiver_event_id(waiver_id)));
+
+CREATE POLICY "Coordinators can add waiver versions for their events"
+  ON waiver_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_event_role(waiver_event_id(waiver_id), ARRAY['owner', 'coordinator']::event_role[]));
+
+CREATE POLICY "Members can read waiver signatures for their events"
+  ON waiver_signatures
+  FOR SELECT
+  TO authenticated
+  USING (has_event_role(event_id));
+
+CREATE OR REPLACE FUNCTION unsigned_waivers(p_signup_id uuid)
+RETURNS TABLE (
+  waiver_id uuid,
+  waiver_version_id uuid,
+  title text,
+  version integer,
+  body text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH target AS (
+    SELECT s.id, s.position_id, s.phone_number, p.event_id,
+      uses_group_phone(s.group_id, s.phone_number) AS shared_phone
+    FROM volunteer_signups s
+    JOIN volunteer_positions p ON p.id = s.position_id
+    WHERE s.id = p_signup_id
+  )
+  SELECT w.id, v.id, w.title, v.version, v.body
+  FROM target t
+  JOIN waivers w ON w.event_id = t.event_id AND (w.position_id IS NULL OR w.position_id = t.position_id)
+  JOIN LATERAL (
+    SELECT * FROM waiver_versions wv WHERE wv.waiver_id = w.id ORDER BY wv.version DESC LIMIT 1
+  ) v ON true
+  WHERE w.archived_at IS NULL
+  AND NOT EXISTS (
+    SELECT 1
+    FROM waiver_signatures ws
+    WHERE ws.waiver_version_id = v.id
+    -- The copied phone number still matches once the signed signup is gone
+    AND (ws.signup_id = t.id OR (NOT t.shared_phone AND ws.event_id = t.event_id AND ws.phone_number = t.phone_number))
+  )
+  ORDER BY w.position_id NULLS FIRST, w.created_at;
+$$;
+
+-- Creates the waiver when p_waiver_id is NULL. Returns the waiver's id.
+CREATE OR REPLACE FUNCTION save_waiver(
+  p_waiver_id uuid,
+  p_event_id uuid,
+  p_position_id uuid,
+  p_title text,
+  p_body text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_waiver waivers;
+  v_current waiver_versions;
+BEGIN
+  IF coalesce(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'Waiver title is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Waiver text is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_position_id IS NOT NULL AND position_event_id(p_position_id) IS DISTINCT FROM p_event_id THEN
+    RAISE EXCEPTION 'Position does not belong to this event' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_waiver_id IS NULL THEN
+    INSERT INTO waivers (event_id, position_id, title)
+    VALUES (p_event_id, p_position_id, trim(p_title))
+    RETURNING * INTO v_waiver;
+  ELSE
+    -- Also locks the waiver, so two edits cannot add the same version number
+    UPDATE waivers
+    SET position_id = p_position_id,
+        title = trim(p_title)
+    WHERE id = p_waiver_id
+    AND event_id = p_event_id
+    RETURNING * INTO v_waiver;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Waiver not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_current
+  FROM waiver_versions
+  WHERE waiver_id = v_waiver.id
+  ORDER BY version DESC
+  LIMIT 1;
+
+  IF v_current.id IS NULL OR v_current.body <> trim(p_body) THEN
+    INSERT INTO waiver_versions (waiver_id, version, body)
+    VALUES (v_waiver.id, coalesce(v_current.version, 0) + 1, trim(p_body));
+  END IF;
+
+  RETURN v_waiver.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sign_waiver(
+  p_signup_id uuid,
+  p_waiver_version_id uuid,
+  p_method text,
+  p_typed_name text DEFAULT NULL,
+  p_drawing text DEFAULT NULL
+)
+RETURNS waiver_signatures
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+  v_event_id uuid;
+  v_waiver record;
+  v_signature waiver_signatures;
+BEGIN
+  SELECT * INTO v_signup FROM volunteer_signups WHERE id = p_signup_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Signup not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_event_id := position_event_id(v_signup.position_id);
+
+  IF NOT has_event_role(v_event_id) THEN
+    RAISE EXCEPTION 'You do not have access to this event' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_waiver
+  FROM unsigned_waivers(p_signup_id) u
+  WHERE u.waiver_version_id = p_waiver_version_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This waiver was changed or is already signed. Please reload.' USING ERRCODE = '40001';
+  END IF;
+
+  IF p_method NOT IN ('typed', 'drawn') THEN
+    RAISE EXCEPTION 'Unknown signature method %', p_method USING ERRCODE = '22023';
+  END IF;
+
+  IF p_method = 'typed' AND coalesce(trim(p_typed_name), '') = '' THEN
+    RAISE EXCEPTION 'Type your full name to sign' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_method = 'drawn' AND (p_drawing IS NULL OR p_drawing NOT LIKE 'data:image/png;base64,%') THEN
+    RAISE EXCEPTION 'Draw your signature to sign' USING ERRCODE = '22023';
+  END IF;
+
+  -- About 500 KB; a drawn signature is far smaller
+  IF length(p_drawing) > 700000 THEN
+    RAISE EXCEPTION 'The signature drawing is too large' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO waiver_signatures (
+    waiver_version_id, waiver_title, waiver_version, event_id, signup_id, volunteer_name, phone_number,
+    method, typed_name, drawing
+  )
+  VALUES (
+    p_waiver_version_id, v_waiver.title, v_waiver.version, v_event_id, v_signup.id, v_signup.volunteer_name, v_signup.phone_number,
+    p_method,
+    CASE WHEN p_method = 'typed' THEN trim(p_typed_name) END,
+    CASE WHEN p_method = 'drawn' THEN p_drawing END
+  )
+  RETURNING * INTO v_signature;
+
+  RETURN v_signature;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_arrival(
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_arrived boolean,
+  p_source text DEFAULT 'staff'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+  v_unsigned text;
+BEGIN
+  IF p_source NOT IN ('volunteer', 'staff') THEN
+    RAISE EXCEPTION 'Unknown check-in source %', p_source USING ERRCODE = '22023';
+  END IF;
+
+  v_signup := lock_signup(p_signup_id, p_expected_version);
+
+  IF v_signup.arrived = p_arrived THEN
+    RAISE EXCEPTION 'Volunteer is already checked %', CASE WHEN p_arrived THEN 'in' ELSE 'out' END
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF p_arrived AND p_source = 'volunteer' THEN
+    SELECT string_agg(u.title, ', ') INTO v_unsigned FROM unsigned_waivers(p_signup_id) u;
+
+    IF v_unsigned IS NOT NULL THEN
+      RAISE EXCEPTION '% must sign % before checking in', v_signup.volunteer_name, v_unsigned
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.attendance_source', p_source, true);
+
+  UPDATE volunteer_signups
+  SET arrived = p_arrived
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  PERFORM set_config('app.attendance_source', '', true);
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+-- set_arrival sets app.attendance_source and checks waivers itself
+CREATE OR REPLACE FUNCTION require_signed_waivers()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_unsigned text;
+BEGIN
+  IF NOT NEW.arrived
+     OR OLD.arrived
+     OR auth.uid() IS NULL
+     OR pg_trigger_depth() > 1
+     OR nullif(current_setting('app.attendance_source', true), '') IS NOT NULL
+     OR has_event_role(position_event_id(OLD.position_id), ARRAY['owner', 'coordinator']::event_role[]) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT string_agg(u.title, ', ') INTO v_unsigned FROM unsigned_waivers(OLD.id) u;
+
+  IF v_unsigned IS NOT NULL THEN
+    RAISE EXCEPTION '% must sign % before checking in', OLD.volunteer_name, v_unsigned
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_signed_waivers ON volunteer_signups;
+
+CREATE TRIGGER require_signed_waivers
+  BEFORE UPDATE OF arrived ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION require_signed_waivers();
+
+GRANT EXECUTE ON FUNCTION unsigned_waivers(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_waiver(uuid, uuid, uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION sign_waiver(uuid, uuid, text, text, text) TO authenticated;
@@ -0,0 +1,141 @@
+/*
+  # Offline Check-In
+
+  The check-in page queues check-ins and check-outs made without a connection and
+  replays them once it is back. A replayed check-in should count from when the
+  volunteer arrived, not from when the phone found a signal again.
+
+  1. Changes
+    - `set_arrival` takes `p_occurred_at`, when the check-in or check-out happened.
+      Null means now. Times in the future count as now, and times before the signup's
+      last check-in or check-out count as that time, so the ledger stays in order.
+    - `record_signup_attendance` and `record_attendance` use that time for
+      `checked_in_at` / `checked_out_at` and the ledger record
+
+  2. Security
+    - No changes
+*/
+
+-- When the change of `arrived` being recorded happened; set by set_arrival
+CREATE OR REPLACE FUNCTION attendance_time()
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(nullif(current_setting('app.attendance_occurred_at', true), '')::timestamptz, now());
+$$;
+
+CREATE OR REPLACE FUNCTION record_signup_attendance()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.checked_in_at := CASE WHEN NEW.arrived THEN attendance_time() END;
+    NEW.checked_out_at := NULL;
+  ELSIF NEW.arrived AND NOT OLD.arrived THEN
+    NEW.checked_in_at := attendance_time();
+    NEW.checked_out_at := NULL;
+  ELSIF OLD.arrived AND NOT NEW.arrived THEN
+    NEW.checked_in_at := OLD.checked_in_at;
+    NEW.checked_out_at := attendance_time();
+  ELSE
+    NEW.checked_in_at := OLD.checked_in_at;
+    NEW.checked_out_at := OLD.checked_out_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_attendance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.arrived = OLD.arrived THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'INSERT' AND NOT NEW.arrived THEN
+    RETURN NULL;
+  END IF;
+
+  v_source := nullif(current_setting('app.attendance_source', true), '');
+
+  INSERT INTO attendance_records (signup_id, event_id, position_id, volunteer_name, kind, occurred_at, source)
+  VALUES (
+    NEW.id,
+    position_event_id(NEW.position_id),
+    NEW.position_id,
+    NEW.volunteer_name,
+    CASE WHEN NEW.arrived THEN 'check_in' ELSE 'check_out' END,
+    CASE WHEN v_source = 'auto_checkout' THEN least(now(), NEW.ends_at) ELSE attendance_time() END,
+    v_source
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Recreated with p_occurred_at; a new trailing default would only add an overload
+DROP FUNCTION IF EXISTS set_arrival(uuid, integer, boolean, text);
+
+CREATE OR REPLACE FUNCTION set_arrival(
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_arrived boolean,
+  p_source text DEFAULT 'staff',
+  p_occurred_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+  v_unsigned text;
+  v_occurred_at timestamptz;
+BEGIN
+  IF p_source NOT IN ('volunteer', 'staff') THEN
+    RAISE EXCEPTION 'Unknown check-in source %', p_source USING ERRCODE = '22023';
+  END IF;
+
+  v_signup := lock_signup(p_signup_id, p_expected_version);
+
+  IF v_signup.arrived = p_arrived THEN
+    RAISE EXCEPTION 'Volunteer is already checked %', CASE WHEN p_arrived THEN 'in' ELSE 'out' END
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF p_arrived AND p_source = 'volunteer' THEN
+    SELECT string_agg(u.title, ', ') INTO v_unsigned FROM unsigned_waivers(p_signup_id) u;
+
+    IF v_unsigned IS NOT NULL THEN
+      RAISE EXCEPTION '% must sign % before checking in', v_signup.volunteer_name, v_unsigned
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  v_occurred_at := least(coalesce(p_occurred_at, now()), now());
+  SELECT greatest(v_occurred_at, max(r.occurred_at)) INTO v_occurred_at
+  FROM attendance_records r
+  WHERE r.signup_id = p_signup_id;
+
+  PERFORM set_config('app.attendance_source', p_source, true);
+  PERFORM set_config('app.attendance_occurred_at', v_occurred_at::text, true);
+
+  UPDATE volunteer_signups
+  SET arrived = p_arrived
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  PERFORM set_config('app.attendance_source', '', true);
+  PERFORM set_config('app.attendance_occurred_at', '', true);
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_arrival(uuid, integer, boolean, text, timestamptz) TO authenticated;
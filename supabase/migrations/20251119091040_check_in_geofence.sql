@@ -0,0 +1,293 @@
+/*
+  # Check-In Geofence
+
+  The check-in page knew how far a volunteer was from their position but let them
+  check in from anywhere. Events and positions now set how far away a self check-in
+  may happen, and every check-in keeps where it was made from so coordinators can
+  review remote check-ins.
+
+  1. Changes
+    - `events.geofence_mode`: 'off' (default), 'warn' or 'block'
+    - `events.geofence_radius_m`: the allowed distance in meters, 100 by default
+    - `volunteer_positions.geofence_mode` / `geofence_radius_m` override the event's
+      settings; null uses the event's
+    - `attendance_records` gains
+      - `distance_m` and `accuracy_m`: the distance from the position and the accuracy
+        of the GPS reading, when the device shared its location
+      - `outside_geofence`: whether the check-in was made beyond the allowed distance or
+        without a location. Null when the geofence was off or the position has no location.
+      - `geofence_override`: staff let a blocked check-in through
+    - `set_arrival` takes the device's location and `p_geofence_override`. In 'block'
+      mode a self check-in outside the geofence is refused unless staff override it.
+      Staff check-ins and check-outs are never refused.
+
+  2. Security
+    - `set_arrival` works out the source from the caller's role instead of trusting
+      `p_source`: only owners and coordinators record 'staff' check-ins, which skip the
+      geofence and waiver checks. Check-ins by check-in staff follow the volunteer rules.
+    - Only owners and coordinators may override; the override is recorded with
+      `recorded_by`
+    - Check-in staff can only change `arrived` through `set_arrival`, so a direct update
+      cannot skip the geofence, the waiver check or the location record
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'geofence_mode'
+  ) THEN
+    ALTER TABLE events ADD COLUMN geofence_mode text NOT NULL DEFAULT 'off'
+      CHECK (geofence_mode IN ('off', 'warn', 'block'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'geofence_radius_m'
+  ) THEN
+    ALTER TABLE events ADD COLUMN geofence_radius_m integer NOT NULL DEFAULT 100
+      CHECK (geofence_radius_m > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_positions' AND column_name = 'geofence_mode'
+  ) THEN
+    ALTER TABLE volunteer_positions ADD COLUMN geofence_mode text
+      CHECK (geofence_mode IN ('off', 'warn', 'block'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'volunteer_positions' AND column_name = 'geofence_radius_m'
+  ) THEN
+    ALTER TABLE volunteer_positions ADD COLUMN geofence_radius_m integer
+      CHECK (geofence_radius_m > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'attendance_records' AND column_name = 'distance_m'
+  ) THEN
+    ALTER TABLE attendance_records ADD COLUMN distance_m numeric;
+    ALTER TABLE attendance_records ADD COLUMN accuracy_m numeric;
+    ALTER TABLE attendance_records ADD COLUMN outside_geofence boolean;
+    ALTER TABLE attendance_records ADD COLUMN geofence_override boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Great-circle distance in meters
+CREATE OR REPLACE FUNCTION geo_distance_m(
+  p_lat1 double precision,
+  p_lng1 double precision,
+  p_lat2 double precision,
+  p_lng2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    sin(radians(p_lat2 - p_lat1) / 2) ^ 2 +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) * sin(radians(p_lng2 - p_lng1) / 2) ^ 2
+  ));
+$$;
+
+-- app.attendance_location carries the location set_arrival measured
+CREATE OR REPLACE FUNCTION record_attendance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source text;
+  v_location jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.arrived = OLD.arrived THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'INSERT' AND NOT NEW.arrived THEN
+    RETURN NULL;
+  END IF;
+
+  v_source := nullif(current_setting('app.attendance_source', true), '');
+  v_location := coalesce(nullif(current_setting('app.attendance_location', true), '')::jsonb, '{}'::jsonb);
+
+  INSERT INTO attendance_records (
+    signup_id, event_id, position_id, volunteer_name, kind, occurred_at, source,
+    distance_m, accuracy_m, outside_geofence, geofence_override
+  )
+  VALUES (
+    NEW.id,
+    position_event_id(NEW.position_id),
+    NEW.position_id,
+    NEW.volunteer_name,
+    CASE WHEN NEW.arrived THEN 'check_in' ELSE 'check_out' END,
+    CASE WHEN v_source = 'auto_checkout' THEN least(now(), NEW.ends_at) ELSE attendance_time() END,
+    v_source,
+    (v_location->>'distance_m')::numeric,
+    (v_location->>'accuracy_m')::numeric,
+    (v_location->>'outside_geofence')::boolean,
+    coalesce((v_location->>'geofence_override')::boolean, false)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- set_arrival sets app.attendance_source around its update of arrived
+CREATE OR REPLACE FUNCTION guard_signup_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Scheduled jobs and cascades from shift or event changes run without a user
+  IF auth.uid() IS NULL
+     OR pg_trigger_depth() > 1
+     OR has_event_role(position_event_id(OLD.position_id), ARRAY['owner', 'coordinator']::event_role[]) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.position_id IS DISTINCT FROM OLD.position_id
+     OR NEW.shift_id IS DISTINCT FROM OLD.shift_id
+     OR NEW.volunteer_id IS DISTINCT FROM OLD.volunteer_id
+     OR NEW.group_id IS DISTINCT FROM OLD.group_id
+     OR NEW.awaiting_member IS DISTINCT FROM OLD.awaiting_member
+     OR NEW.volunteer_name IS DISTINCT FROM OLD.volunteer_name
+     OR NEW.phone_number IS DISTINCT FROM OLD.phone_number
+     OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+     OR NEW.ends_at IS DISTINCT FROM OLD.ends_at
+     OR NEW.other_notes IS DISTINCT FROM OLD.other_notes
+     OR NEW.organization IS DISTINCT FROM OLD.organization
+     OR NEW.custom_fields IS DISTINCT FROM OLD.custom_fields THEN
+    RAISE EXCEPTION 'Check-in staff can only check volunteers in and out'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.arrived IS DISTINCT FROM OLD.arrived
+     AND nullif(current_setting('app.attendance_source', true), '') IS NULL THEN
+    RAISE EXCEPTION 'Check-in staff can only check volunteers in and out through set_arrival'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Recreated with the location parameters; a new trailing default would only add an overload
+DROP FUNCTION IF EXISTS set_arrival(uuid, integer, boolean, text, timestamptz);
+
+CREATE OR REPLACE FUNCTION set_arrival(
+  p_signup_id uuid,
+  p_expected_version integer,
+  p_arrived boolean,
+  p_source text DEFAULT 'staff',
+  p_occurred_at timestamptz DEFAULT NULL,
+  p_latitude double precision DEFAULT NULL,
+  p_longitude double precision DEFAULT NULL,
+  p_accuracy_m double precision DEFAULT NULL,
+  p_geofence_override boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_signup volunteer_signups;
+  v_staff boolean;
+  v_source text;
+  v_unsigned text;
+  v_occurred_at timestamptz;
+  v_mode text;
+  v_radius integer;
+  v_position_lat double precision;
+  v_position_lng double precision;
+  v_distance double precision;
+  v_outside boolean;
+BEGIN
+  IF p_source NOT IN ('volunteer', 'staff') THEN
+    RAISE EXCEPTION 'Unknown check-in source %', p_source USING ERRCODE = '22023';
+  END IF;
+
+  v_signup := lock_signup(p_signup_id, p_expected_version);
+
+  IF v_signup.arrived = p_arrived THEN
+    RAISE EXCEPTION 'Volunteer is already checked %', CASE WHEN p_arrived THEN 'in' ELSE 'out' END
+      USING ERRCODE = '40001';
+  END IF;
+
+  -- Any member can call this from the check-in page, so asking for 'staff' is not enough
+  v_staff := has_event_role(position_event_id(v_signup.position_id), ARRAY['owner', 'coordinator']::event_role[]);
+  v_source := CASE WHEN p_source = 'staff' AND v_staff THEN 'staff' ELSE 'volunteer' END;
+
+  IF p_geofence_override AND NOT v_staff THEN
+    RAISE EXCEPTION 'Only coordinators can override the check-in location' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT coalesce(p.geofence_mode, e.geofence_mode),
+         coalesce(p.geofence_radius_m, e.geofence_radius_m),
+         p.latitude,
+         p.longitude
+  INTO v_mode, v_radius, v_position_lat, v_position_lng
+  FROM volunteer_positions p
+  JOIN events e ON e.id = p.event_id
+  WHERE p.id = v_signup.position_id;
+
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL AND v_position_lat IS NOT NULL AND v_position_lng IS NOT NULL THEN
+    v_distance := geo_distance_m(p_latitude, p_longitude, v_position_lat, v_position_lng);
+  END IF;
+
+  -- Without a location of its own a check-in cannot be placed inside the geofence
+  IF p_arrived AND v_mode <> 'off' AND v_position_lat IS NOT NULL AND v_position_lng IS NOT NULL THEN
+    v_outside := v_distance IS NULL OR v_distance > v_radius;
+  END IF;
+
+  IF p_arrived AND v_source = 'volunteer' AND v_mode = 'block' AND v_outside AND NOT p_geofence_override THEN
+    IF v_distance IS NULL THEN
+      RAISE EXCEPTION 'Share your location to check in, or ask event staff to check you in'
+        USING ERRCODE = '23514';
+    END IF;
+    RAISE EXCEPTION 'You are % m from the check-in location. Check in within % m, or ask event staff to check you in',
+      round(v_distance), v_radius
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF p_arrived AND v_source = 'volunteer' THEN
+    SELECT string_agg(u.title, ', ') INTO v_unsigned FROM unsigned_waivers(p_signup_id) u;
+
+    IF v_unsigned IS NOT NULL THEN
+      RAISE EXCEPTION '% must sign % before checking in', v_signup.volunteer_name, v_unsigned
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  v_occurred_at := least(coalesce(p_occurred_at, now()), now());
+  SELECT greatest(v_occurred_at, max(r.occurred_at)) INTO v_occurred_at
+  FROM attendance_records r
+  WHERE r.signup_id = p_signup_id;
+
+  PERFORM set_config('app.attendance_source', v_source, true);
+  PERFORM set_config('app.attendance_occurred_at', v_occurred_at::text, true);
+  PERFORM set_config('app.attendance_location', jsonb_build_object(
+    'distance_m', round(v_distance::numeric, 1),
+    'accuracy_m', round(p_accuracy_m::numeric, 1),
+    'outside_geofence', v_outside,
+    'geofence_override', p_geofence_override AND coalesce(v_outside, false)
+  )::text, true);
+
+  UPDATE volunteer_signups
+  SET arrived = p_arrived
+  WHERE id = p_signup_id
+  RETURNING * INTO v_signup;
+
+  PERFORM set_config('app.attendance_source', '', true);
+  PERFORM set_config('app.attendance_occurred_at', '', true);
+  PERFORM set_config('app.attendance_location', '', true);
+
+  RETURN signup_result(v_signup);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_arrival(
+  uuid, integer, boolean, text, timestamptz, double precision, double precision, double precision, boolean
+) TO authenticated;
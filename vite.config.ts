@@ -1,8 +1,25 @@
-import { defineConfig } from 'vite';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the built files in dist/sw.js so the service worker caches them on install,
+// not only once a page has loaded them
+const precacheAssets = (): Plugin => ({
+  name: 'precache-assets',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const swPath = join(options.dir ?? 'dist', 'sw.js');
+    const assets = Object.keys(bundle)
+      .filter(fileName => !fileName.endsWith('.map') && fileName !== 'index.html')
+      .map(fileName => `/${fileName}`);
+    const source = readFileSync(swPath, 'utf8');
+    writeFileSync(swPath, source.replace('const ASSETS = [];', `const ASSETS = ${JSON.stringify(assets)};`));
+  },
+});
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheAssets()],
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
@@ -15,4 +32,4 @@ export default defineConfig({
       },
     },
   },
-});
\ No newline at end of file
+});